@@ -7,6 +7,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { AppSidebar } from "@/components/app-sidebar";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { useAuth } from "@/hooks/use-auth";
 import { useSubdomain } from "@/hooks/use-subdomain";
 import { Badge } from "@/components/ui/badge";
@@ -21,6 +22,8 @@ import CommitteeDetailPage from "@/pages/committee-detail";
 import CalendarPage from "@/pages/calendar";
 import AttendancesPage from "@/pages/attendances";
 import AttendanceReportsPage from "@/pages/attendance-reports";
+import StatisticsPage from "@/pages/statistics";
+import AuditLogPage from "@/pages/audit-log";
 import MembersPage from "@/pages/members";
 import ActivitiesPage from "@/pages/activities";
 import DocumentsPage from "@/pages/documents";
@@ -28,6 +31,12 @@ import ProfilePage from "@/pages/profile";
 import SettingsPage from "@/pages/settings";
 import AdminPage from "@/pages/admin";
 import TeamPage from "@/pages/team";
+import KioskPage from "@/pages/kiosk";
+import SetPasswordPage from "@/pages/set-password";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import VerifyEmailPage from "@/pages/verify-email";
+import TwoFactorSetupPage from "@/pages/two-factor-setup";
+import CheckInPage from "@/pages/check-in";
 import NotFound from "@/pages/not-found";
 import { PWAInstallPrompt } from "@/components/pwa-install-prompt";
 
@@ -54,6 +63,7 @@ function AuthenticatedRouter() {
             </div>
             <ThemeToggle />
           </header>
+          <EmailVerificationBanner />
           <main className="flex-1 overflow-auto p-4 md:p-6">
             <Switch>
               <Route path="/" component={DashboardPage} />
@@ -62,7 +72,10 @@ function AuthenticatedRouter() {
               <Route path="/committees/:id" component={CommitteeDetailPage} />
               <Route path="/calendar" component={CalendarPage} />
               <Route path="/attendances" component={AttendancesPage} />
+              <Route path="/check-in" component={CheckInPage} />
               <Route path="/attendance-reports" component={AttendanceReportsPage} />
+              <Route path="/statistics" component={StatisticsPage} />
+              <Route path="/audit-log" component={AuditLogPage} />
               <Route path="/members" component={MembersPage} />
               <Route path="/activities" component={ActivitiesPage} />
               <Route path="/documents" component={DocumentsPage} />
@@ -96,16 +109,39 @@ function AppContent() {
     );
   }
 
+  // Emailed account links work whether or not someone is already signed in on this device
+  if (location.startsWith("/set-password") || location.startsWith("/reset-password")) {
+    return <SetPasswordPage />;
+  }
+  if (location.startsWith("/verify-email")) {
+    return <VerifyEmailPage />;
+  }
+
   if (!user) {
     return (
       <Switch>
         <Route path="/login" component={LoginPage} />
         <Route path="/register" component={RegisterPage} />
+        <Route path="/forgot-password" component={ForgotPasswordPage} />
+        <Route path="/check-in" component={LoginPage} />
         <Route component={LandingPage} />
       </Switch>
     );
   }
 
+  if (user.twoFactorSetupRequired) {
+    return <TwoFactorSetupPage />;
+  }
+
+  // The kiosk runs full screen on an office tablet, outside the sidebar layout
+  if (location.startsWith("/kiosk/")) {
+    return (
+      <Switch>
+        <Route path="/kiosk/:committeeId" component={KioskPage} />
+      </Switch>
+    );
+  }
+
   return <AuthenticatedRouter />;
 }
 
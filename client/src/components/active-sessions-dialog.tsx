@@ -0,0 +1,186 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loggedInAt: number | null;
+  lastActivityAt: number | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+function isMobileUserAgent(userAgent: string) {
+  return /Android|iPhone|iPad|Mobile/i.test(userAgent);
+}
+
+// Good enough to tell devices apart; not meant to identify every browser
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Dispositivo desconocido";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+      ? "Opera"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Chrome\//.test(userAgent)
+          ? "Chrome"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : "Navegador";
+
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+
+  return os ? `${browser} en ${os}` : browser;
+}
+
+interface ActiveSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ActiveSessionsDialog({ open, onOpenChange }: ActiveSessionsDialogProps) {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    enabled: open,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Sesión cerrada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo cerrar la sesión",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/sessions/revoke-others");
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Sesiones cerradas",
+        description:
+          result.revoked === 1 ? "Se cerró 1 sesión en otro dispositivo" : `Se cerraron ${result.revoked} sesiones en otros dispositivos`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudieron cerrar las sesiones",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherSessions = (sessions || []).filter((s) => !s.current);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sesiones activas</DialogTitle>
+          <DialogDescription>
+            Dispositivos donde tu cuenta tiene la sesión iniciada. Cierra las que no reconozcas.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] space-y-3 overflow-y-auto">
+          {isLoading ? (
+            [1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+          ) : (
+            sessions?.map((session) => {
+              const DeviceIcon = session.userAgent && isMobileUserAgent(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3"
+                  data-testid={`row-session-${session.id}`}
+                >
+                  <div className="flex items-center gap-3">
+                    <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div>
+                      <div className="flex items-center gap-2 font-medium">
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          session.ipAddress,
+                          session.lastActivityAt
+                            ? `Activa ${formatDistanceToNow(new Date(session.lastActivityAt), { addSuffix: true, locale: es })}`
+                            : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => revokeSessionMutation.mutate(session.id)}
+                      disabled={revokeSessionMutation.isPending}
+                      title="Cerrar esta sesión"
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            Cerrar sesión en los demás dispositivos
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,6 +29,8 @@ import {
   Shield,
   UsersRound,
   FileText,
+  BarChart3,
+  ScrollText,
 } from "lucide-react";
 
 type TeamContext = {
@@ -97,6 +99,18 @@ const adminNavItems = [
     icon: FileSpreadsheet,
     hideForAuxiliary: true,
   },
+  {
+    title: "Estadísticas",
+    url: "/statistics",
+    icon: BarChart3,
+    hideForAuxiliary: true,
+  },
+  {
+    title: "Auditoría",
+    url: "/audit-log",
+    icon: ScrollText,
+    hideForAuxiliary: true,
+  },
   {
     title: "Configuración",
     url: "/settings",
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { endOfMonth, format, startOfMonth, startOfYear, subMonths } from "date-fns";
+import { Network } from "lucide-react";
+
+interface SummaryCounts {
+  activeMembers: number;
+  slots: number;
+  uncoveredSlots: number;
+  spots: number;
+  filledSpots: number;
+  coverage: number | null;
+  attended: number;
+  noShows: number;
+  activities: number;
+  completedActivities: number;
+  documents: number;
+}
+
+interface ChildCommitteeSummary extends SummaryCounts {
+  committeeId: string;
+  name: string;
+  code: string;
+  parentCommitteeId: string;
+  depth: number;
+  cascadePermissions: boolean;
+}
+
+interface CommitteeChildrenSummary {
+  committeeId: string;
+  startDate: string;
+  endDate: string;
+  children: ChildCommitteeSummary[];
+  totals: SummaryCounts;
+}
+
+type PeriodKey = "month" | "3m" | "year";
+
+const periodLabels: Record<PeriodKey, string> = {
+  month: "Este mes",
+  "3m": "Últimos 3 meses",
+  year: "Este año",
+};
+
+function getPeriodRange(period: PeriodKey): { startDate: string; endDate: string } {
+  const now = new Date();
+  const start = period === "year" ? startOfYear(now) : startOfMonth(subMonths(now, period === "3m" ? 2 : 0));
+  return { startDate: format(start, "yyyy-MM-dd"), endDate: format(endOfMonth(now), "yyyy-MM-dd") };
+}
+
+function coverageVariant(coverage: number | null): "default" | "secondary" | "destructive" | "outline" {
+  if (coverage === null) return "outline";
+  if (coverage >= 80) return "default";
+  if (coverage >= 50) return "secondary";
+  return "destructive";
+}
+
+function SummaryCells({ summary }: { summary: SummaryCounts }) {
+  return (
+    <>
+      <TableCell className="text-right">{summary.activeMembers}</TableCell>
+      <TableCell className="text-right">
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-sm text-muted-foreground">
+            {summary.filledSpots}/{summary.spots}
+          </span>
+          <Badge variant={coverageVariant(summary.coverage)}>
+            {summary.coverage === null ? "Sin horarios" : `${summary.coverage}%`}
+          </Badge>
+        </div>
+      </TableCell>
+      <TableCell className="hidden text-right md:table-cell">{summary.uncoveredSlots}</TableCell>
+      <TableCell className="hidden text-right md:table-cell">
+        {summary.attended} / {summary.noShows}
+      </TableCell>
+      <TableCell className="text-right">
+        {summary.completedActivities}/{summary.activities}
+      </TableCell>
+      <TableCell className="hidden text-right sm:table-cell">{summary.documents}</TableCell>
+    </>
+  );
+}
+
+// Attendance coverage, activities and documents of the committees below this one, for the
+// presidents of a council that supervises districts. Renders nothing without child committees.
+export function ChildCommitteesSummary({ committeeId }: { committeeId: string }) {
+  const [period, setPeriod] = useState<PeriodKey>("month");
+  const { startDate, endDate } = getPeriodRange(period);
+
+  const { data: summary, isLoading } = useQuery<CommitteeChildrenSummary>({
+    queryKey: ["/api/committees", committeeId, "children-summary", startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, endDate });
+      const response = await fetch(`/api/committees/${committeeId}/children-summary?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch child committees summary");
+      return response.json();
+    },
+  });
+
+  if (!isLoading && (!summary || summary.children.length === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            Comités dependientes
+          </CardTitle>
+          <CardDescription>
+            Cobertura de horarios, actividades completadas y documentos de los comités que dependen de este
+          </CardDescription>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as PeriodKey)}>
+          <SelectTrigger className="w-44" data-testid="select-children-summary-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(periodLabels) as PeriodKey[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {periodLabels[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !summary ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Comité</TableHead>
+                  <TableHead className="text-right">Miembros</TableHead>
+                  <TableHead className="text-right">Cobertura</TableHead>
+                  <TableHead className="hidden text-right md:table-cell">Horarios sin cubrir</TableHead>
+                  <TableHead className="hidden text-right md:table-cell">Asistencias / Faltas</TableHead>
+                  <TableHead className="text-right">Actividades</TableHead>
+                  <TableHead className="hidden text-right sm:table-cell">Documentos</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.children.map((child) => (
+                  <TableRow key={child.committeeId} data-testid={`row-child-committee-${child.committeeId}`}>
+                    <TableCell>
+                      <div style={{ paddingLeft: `${(child.depth - 1) * 1.25}rem` }}>
+                        <div className="font-medium">{child.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {child.code}
+                          {child.cascadePermissions && " · Hereda permisos"}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <SummaryCells summary={child} />
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium" data-testid="row-children-summary-totals">
+                  <TableCell>Total</TableCell>
+                  <SummaryCells summary={summary.totals} />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarOff, Plus, Trash2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import type { Closure } from "@shared/schema";
+
+export const closureTypeLabels: Record<string, string> = {
+  national_holiday: "Día festivo",
+  electoral: "Proceso electoral",
+  committee_day_off: "Día inhábil del comité",
+};
+
+interface ClosureManagerProps {
+  // null manages the global closures that apply to every committee
+  committeeId: string | null;
+  allowImport?: boolean;
+}
+
+export function ClosureManager({ committeeId, allowImport = false }: ClosureManagerProps) {
+  const { toast } = useToast();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [form, setForm] = useState({
+    date: "",
+    name: "",
+    type: committeeId ? "committee_day_off" : "national_holiday",
+  });
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFormat, setImportFormat] = useState<"json" | "csv">("csv");
+  const [importContent, setImportContent] = useState("");
+
+  const { data: closures } = useQuery<Closure[]>({
+    queryKey: ["/api/closures", committeeId ?? "global", year],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate: `${year}-01-01`, endDate: `${year}-12-31` });
+      if (committeeId) params.set("committeeId", committeeId);
+      const response = await fetch(`/api/closures?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch closures");
+      return response.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/closures", { ...form, committeeId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/closures"] });
+      setForm({ ...form, date: "", name: "" });
+      toast({ title: "Día inhábil agregado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo agregar el día inhábil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/closures/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/closures"] });
+      toast({ title: "Día inhábil eliminado" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/closures/import", {
+        format: importFormat,
+        content: importContent,
+        committeeId,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { imported: number; skipped: number; errors: { line: number; message: string }[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/closures"] });
+      setIsImportOpen(false);
+      setImportContent("");
+      toast({
+        title: "Importación completada",
+        description: `${result.imported} importados, ${result.skipped} ya existentes, ${result.errors.length} con errores`,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo importar el archivo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setImportFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setImportContent(await file.text());
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            {committeeId ? "Días Inhábiles del Comité" : "Días Inhábiles Generales"}
+          </CardTitle>
+          <CardDescription>
+            {committeeId
+              ? "Días sin turnos para este comité, además de los festivos generales"
+              : "Festivos y cierres que aplican a todos los comités"}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(year)} onValueChange={(v) => setYear(parseInt(v))}>
+            <SelectTrigger className="w-24" data-testid="select-closure-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[year - 1, year, year + 1].map((y) => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {allowImport && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-closures">
+              <Upload className="mr-2 h-4 w-4" />
+              Importar
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-[10rem_1fr_12rem_auto]">
+          <Input
+            type="date"
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+            data-testid="input-closure-date"
+          />
+          <Input
+            placeholder="Motivo (ej. Día de la Revolución)"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            data-testid="input-closure-name"
+          />
+          <Select value={form.type} onValueChange={(v) => setForm({ ...form, type: v })}>
+            <SelectTrigger data-testid="select-closure-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(closureTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!form.date || !form.name || createMutation.isPending}
+            data-testid="button-add-closure"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar
+          </Button>
+        </div>
+
+        {closures && closures.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Motivo</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {closures.map((closure) => (
+                <TableRow key={closure.id} data-testid={`row-closure-${closure.id}`}>
+                  <TableCell className="capitalize">
+                    {format(parseISO(closure.date), "EEE d 'de' MMMM", { locale: es })}
+                  </TableCell>
+                  <TableCell>{closure.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={closure.committeeId ? "secondary" : "outline"}>
+                      {closureTypeLabels[closure.type] || closure.type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {closure.committeeId === committeeId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(closure.id)}
+                        data-testid={`button-delete-closure-${closure.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No hay días inhábiles registrados para {year}
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Importar Días Inhábiles</DialogTitle>
+            <DialogDescription>
+              CSV con columnas fecha,nombre,tipo o JSON con una lista de {"{ date, name, type }"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="closure-file">Archivo</Label>
+              <Input
+                id="closure-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-closure-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <Select value={importFormat} onValueChange={(v) => setImportFormat(v as "json" | "csv")}>
+                <SelectTrigger data-testid="select-import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-content">Contenido</Label>
+              <Textarea
+                id="closure-content"
+                rows={8}
+                className="font-mono text-xs"
+                placeholder={"date,name,type\n2026-11-16,Día de la Revolución,national_holiday"}
+                value={importContent}
+                onChange={(e) => setImportContent(e.target.value)}
+                data-testid="input-closure-content"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsImportOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!importContent.trim() || importMutation.isPending}
+              data-testid="button-confirm-import-closures"
+            >
+              Importar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
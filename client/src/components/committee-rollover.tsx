@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Committee, RolloverCommittee } from "@shared/schema";
+
+interface RolloverResult {
+  committee: Committee;
+  copied: { shiftDefinitions: number; slotTemplates: number; members: number; teams: number };
+}
+
+const STEPS = ["Nuevo comité", "Qué copiar", "Confirmar"];
+
+// "Comité 09 2024" -> "Comité 09 2025"; names without a year are left for the admin to edit
+function nextCycle(value: string) {
+  return value.replace(/\b(20\d{2})\b/, (year) => String(Number(year) + 1));
+}
+
+function suggestCode(code: string) {
+  const next = nextCycle(code);
+  return next !== code ? next : `${code}-${new Date().getFullYear() + 1}`.slice(0, 20);
+}
+
+// Year-end wizard: creates next cycle's committee from this one and archives the old one
+export function CommitteeRolloverWizard({
+  committee,
+  onOpenChange,
+}: {
+  committee: Committee | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [step, setStep] = useState(0);
+  const [form, setForm] = useState<RolloverCommittee>({
+    name: "",
+    code: "",
+    description: "",
+    copyMembers: true,
+    copyTeams: true,
+    archiveSource: true,
+  });
+
+  useEffect(() => {
+    if (committee) {
+      setStep(0);
+      setForm({
+        name: nextCycle(committee.name),
+        code: suggestCode(committee.code),
+        description: committee.description ?? "",
+        copyMembers: true,
+        copyTeams: true,
+        archiveSource: !committee.archivedAt,
+      });
+    }
+  }, [committee]);
+
+  const rolloverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/committees/${committee!.id}/rollover`, form);
+      return response.json() as Promise<RolloverResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/committees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-memberships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/available-committees"] });
+      onOpenChange(false);
+      toast({
+        title: "Nuevo ciclo creado",
+        description: `${result.committee.name}: ${result.copied.members} miembros y ${result.copied.teams} equipos copiados.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo crear el nuevo ciclo.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canContinue = step !== 0 || (form.name.trim().length >= 3 && form.code.trim().length >= 2);
+
+  return (
+    <Dialog open={!!committee} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nuevo ciclo de {committee?.name}</DialogTitle>
+          <DialogDescription>
+            Paso {step + 1} de {STEPS.length}: {STEPS[step]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rollover-name">Nombre</Label>
+              <Input
+                id="rollover-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-rollover-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rollover-code">Código</Label>
+              <Input
+                id="rollover-code"
+                value={form.code}
+                maxLength={20}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                data-testid="input-rollover-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rollover-description">Descripción</Label>
+              <Textarea
+                id="rollover-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+                data-testid="input-rollover-description"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              La configuración del comité, sus turnos y sus plantillas de horarios se copian siempre. Los horarios,
+              asistencias, actividades y documentos se quedan en el comité actual.
+            </p>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="rollover-members"
+                checked={form.copyMembers}
+                onCheckedChange={(checked) =>
+                  setForm({ ...form, copyMembers: checked === true, copyTeams: checked === true && form.copyTeams })
+                }
+                data-testid="checkbox-rollover-members"
+              />
+              <Label htmlFor="rollover-members" className="font-normal">
+                Miembros activos, con sus cargos, roles de liderazgo y permisos de administrador
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="rollover-teams"
+                checked={form.copyTeams}
+                disabled={!form.copyMembers}
+                onCheckedChange={(checked) => setForm({ ...form, copyTeams: checked === true })}
+                data-testid="checkbox-rollover-teams"
+              />
+              <Label htmlFor="rollover-teams" className="font-normal">
+                Equipos de consejeros y sus auxiliares
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-4">
+            <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+              <li>
+                Se creará <span className="font-medium text-foreground">{form.name}</span> ({form.code})
+              </li>
+              <li>{form.copyMembers ? "Con los miembros activos y sus cargos" : "Sin miembros; serás su administrador"}</li>
+              {form.copyMembers && <li>{form.copyTeams ? "Con los equipos de consejeros" : "Sin equipos"}</li>}
+            </ul>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="rollover-archive"
+                checked={form.archiveSource}
+                disabled={!!committee?.archivedAt}
+                onCheckedChange={(checked) => setForm({ ...form, archiveSource: checked === true })}
+                data-testid="checkbox-rollover-archive"
+              />
+              <Label htmlFor="rollover-archive" className="font-normal">
+                Archivar {committee?.name}. Quedará de solo lectura con sus reportes y documentos disponibles
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step > 0 && (
+            <Button variant="outline" onClick={() => setStep(step - 1)} data-testid="button-rollover-back">
+              Atrás
+            </Button>
+          )}
+          {step < STEPS.length - 1 ? (
+            <Button onClick={() => setStep(step + 1)} disabled={!canContinue} data-testid="button-rollover-next">
+              Siguiente
+            </Button>
+          ) : (
+            <Button
+              onClick={() => rolloverMutation.mutate()}
+              disabled={rolloverMutation.isPending}
+              data-testid="button-rollover-confirm"
+            >
+              {rolloverMutation.isPending ? "Creando..." : "Crear nuevo ciclo"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
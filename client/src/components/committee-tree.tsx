@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Building2, Network, Star } from "lucide-react";
+
+interface CommitteeTreeNode {
+  id: string;
+  name: string;
+  code: string;
+  isGeneral: boolean;
+  cascadePermissions: boolean;
+  canView: boolean;
+  children: CommitteeTreeNode[];
+}
+
+function TreeNode({ node }: { node: CommitteeTreeNode }) {
+  const label = (
+    <span className={node.canView ? "font-medium hover:underline" : "font-medium"}>{node.name}</span>
+  );
+
+  return (
+    <li data-testid={`tree-committee-${node.id}`}>
+      <div className="flex flex-wrap items-center gap-2 py-1">
+        <Building2 className="h-4 w-4 text-muted-foreground" />
+        {node.canView ? <Link href={`/committees/${node.id}`}>{label}</Link> : label}
+        <span className="text-sm text-muted-foreground">{node.code}</span>
+        {node.isGeneral && (
+          <Badge className="bg-amber-500 text-white">
+            <Star className="h-3 w-3 mr-1" />
+            General
+          </Badge>
+        )}
+        {node.cascadePermissions && (
+          <Badge variant="outline" className="text-xs">
+            Hereda permisos
+          </Badge>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-2 border-l pl-4">
+          {node.children.map((child) => (
+            <TreeNode key={child.id} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// Parent/child links between committees, e.g. the general council over its districts.
+// Renders nothing until some committee has a parent.
+export function CommitteeTree() {
+  const { data: tree } = useQuery<CommitteeTreeNode[]>({
+    queryKey: ["/api/committee-tree"],
+  });
+
+  if (!tree || !tree.some((node) => node.children.length > 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Estructura de comités
+        </CardTitle>
+        <CardDescription>
+          Los comités que dependen de otro aparecen debajo de él
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul>
+          {tree.map((node) => (
+            <TreeNode key={node.id} node={node} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MailWarning } from "lucide-react";
+import type { Committee, CommitteeMember } from "@shared/schema";
+
+export function useSendVerificationEmail() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/send-verification"),
+    onSuccess: () => {
+      toast({ title: "Correo enviado", description: "Revisa tu bandeja de entrada y abre el enlace de verificación" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo enviar el correo de verificación",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Shown while the user belongs to a committee that requires a verified email and theirs
+// is not verified yet; those committees reject their requests until they verify it
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const sendVerification = useSendVerificationEmail();
+
+  const { data: memberships } = useQuery<(CommitteeMember & { committee?: Committee })[]>({
+    queryKey: ["/api/my-memberships"],
+    enabled: !!user && !user.emailVerifiedAt,
+  });
+
+  const blockedCommittees = (memberships || []).filter((m) => m.committee?.requiresVerifiedEmail);
+  if (!user || user.emailVerifiedAt || blockedCommittees.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-2 border-b bg-amber-50 px-4 py-2 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100"
+      data-testid="banner-verify-email"
+    >
+      <div className="flex items-center gap-2">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        <span>
+          Verifica tu correo para acceder a {blockedCommittees.map((m) => m.committee?.name).join(", ")}.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => sendVerification.mutate()}
+        disabled={sendVerification.isPending}
+        data-testid="button-resend-verification"
+      >
+        Reenviar correo
+      </Button>
+    </div>
+  );
+}
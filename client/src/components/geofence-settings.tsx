@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getCurrentLocation } from "@/lib/geolocation";
+import { Crosshair, MapPin } from "lucide-react";
+import type { Committee, UpdateCommitteeGeofence } from "@shared/schema";
+
+type GeofenceMode = UpdateCommitteeGeofence["geofenceMode"];
+
+const modeOptions: { value: GeofenceMode; label: string; description: string }[] = [
+  { value: "off", label: "Desactivada", description: "La ubicación se guarda pero no se valida" },
+  { value: "flag", label: "Marcar remotas", description: "Se acepta la confirmación y se marca como remota si está fuera del radio" },
+  { value: "enforce", label: "Obligatoria", description: "Solo se puede confirmar dentro del radio de la oficina" },
+];
+
+export function GeofenceSettings({ committee }: { committee: Committee }) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<GeofenceMode>(committee.geofenceMode);
+  const [latitude, setLatitude] = useState(committee.officeLatitude?.toString() ?? "");
+  const [longitude, setLongitude] = useState(committee.officeLongitude?.toString() ?? "");
+  const [radius, setRadius] = useState(committee.geofenceRadiusMeters);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const hasCoordinates = latitude !== "" && longitude !== "";
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", `/api/committees/${committee.id}/geofence`, {
+        officeLatitude: hasCoordinates ? parseFloat(latitude) : null,
+        officeLongitude: hasCoordinates ? parseFloat(longitude) : null,
+        geofenceRadiusMeters: radius,
+        geofenceMode: mode,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committees"] });
+      toast({ title: "Ubicación de la oficina actualizada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo guardar la ubicación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fillCurrentLocation = async () => {
+    setIsLocating(true);
+    const location = await getCurrentLocation();
+    setIsLocating(false);
+    if (!location) {
+      toast({
+        title: "Ubicación no disponible",
+        description: "Permite el acceso a la ubicación en tu navegador e inténtalo de nuevo",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLatitude(location.latitude.toFixed(6));
+    setLongitude(location.longitude.toFixed(6));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Verificación de Ubicación
+        </CardTitle>
+        <CardDescription>
+          Compara la ubicación del miembro con la oficina del comité al confirmar su asistencia
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Modo</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as GeofenceMode)}>
+            <SelectTrigger data-testid="select-geofence-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {modeOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {modeOptions.find((option) => option.value === mode)?.description}
+          </p>
+        </div>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="office-latitude">Latitud</Label>
+            <Input
+              id="office-latitude"
+              type="number"
+              step="any"
+              placeholder="19.432608"
+              value={latitude}
+              onChange={(e) => setLatitude(e.target.value)}
+              data-testid="input-office-latitude"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="office-longitude">Longitud</Label>
+            <Input
+              id="office-longitude"
+              type="number"
+              step="any"
+              placeholder="-99.133209"
+              value={longitude}
+              onChange={(e) => setLongitude(e.target.value)}
+              data-testid="input-office-longitude"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="geofence-radius">Radio (metros)</Label>
+            <Input
+              id="geofence-radius"
+              type="number"
+              min={10}
+              max={5000}
+              value={radius}
+              onChange={(e) => setRadius(parseInt(e.target.value) || 0)}
+              data-testid="input-geofence-radius"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-between gap-2">
+          <Button
+            variant="outline"
+            onClick={fillCurrentLocation}
+            disabled={isLocating}
+            data-testid="button-use-current-location"
+          >
+            <Crosshair className="mr-2 h-4 w-4" />
+            {isLocating ? "Obteniendo ubicación..." : "Usar mi ubicación actual"}
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={(mode !== "off" && !hasCoordinates) || saveMutation.isPending}
+            data-testid="button-save-geofence"
+          >
+            Guardar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
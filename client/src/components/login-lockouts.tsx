@@ -0,0 +1,144 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LockKeyhole, LockKeyholeOpen } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import type { AccountLockout } from "@shared/schema";
+
+type LockoutWithUser = AccountLockout & {
+  user: { id: string; firstName: string | null; lastName: string | null } | null;
+  unlockedBy: { firstName: string | null; lastName: string | null } | null;
+};
+
+function formatName(person: { firstName: string | null; lastName: string | null }) {
+  return [person.firstName, person.lastName].filter(Boolean).join(" ");
+}
+
+// Accounts and IP addresses blocked after too many failed logins in the last 30 days
+export function LoginLockouts() {
+  const { toast } = useToast();
+
+  const { data: lockouts, isLoading } = useQuery<LockoutWithUser[]>({
+    queryKey: ["/api/admin/lockouts"],
+    refetchInterval: 60 * 1000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/admin/lockouts/${id}/unlock`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      toast({ title: "Acceso desbloqueado", description: "Ya se puede volver a iniciar sesión." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo desbloquear.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const now = new Date();
+  const isActive = (lockout: LockoutWithUser) => !lockout.unlockedAt && new Date(lockout.lockedUntil) > now;
+  const activeCount = (lockouts || []).filter(isActive).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5" />
+          Bloqueos de Inicio de Sesión
+          {activeCount > 0 && <Badge variant="destructive">{activeCount} activos</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Cuentas y direcciones IP bloqueadas temporalmente por intentos fallidos en los últimos 30 días
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : lockouts && lockouts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bloqueado</TableHead>
+                  <TableHead>Intentos</TableHead>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Hasta</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map((lockout) => (
+                  <TableRow key={lockout.id} data-testid={`row-lockout-${lockout.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{lockout.scope === "account" ? "Cuenta" : "IP"}</Badge>
+                        <div>
+                          {lockout.user && <div className="font-medium">{formatName(lockout.user)}</div>}
+                          <div className="text-sm text-muted-foreground">{lockout.key}</div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{lockout.failedAttempts}</TableCell>
+                    <TableCell>{format(new Date(lockout.createdAt), "d MMM yyyy HH:mm", { locale: es })}</TableCell>
+                    <TableCell>{format(new Date(lockout.lockedUntil), "d MMM HH:mm", { locale: es })}</TableCell>
+                    <TableCell>
+                      {isActive(lockout) ? (
+                        <Badge variant="destructive">Activo</Badge>
+                      ) : lockout.unlockedAt ? (
+                        <span className="text-sm text-muted-foreground">
+                          Desbloqueado{lockout.unlockedBy ? ` por ${formatName(lockout.unlockedBy)}` : ""}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Expirado</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isActive(lockout) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockMutation.mutate(lockout.id)}
+                          disabled={unlockMutation.isPending}
+                          data-testid={`button-unlock-${lockout.id}`}
+                        >
+                          <LockKeyholeOpen className="mr-2 h-4 w-4" />
+                          Desbloquear
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <LockKeyhole className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No hay bloqueos recientes</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FileSpreadsheet, Upload } from "lucide-react";
+
+type ImportAction = "create_user" | "add_membership" | "skip";
+
+interface ImportPreviewRow {
+  line: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  committeeCode: string;
+  committeeName: string | null;
+  leadershipRole: string;
+  roleName: string | null;
+  teamName: string | null;
+  action: ImportAction | null;
+  errors: string[];
+}
+
+interface ImportPreview {
+  rows: ImportPreviewRow[];
+  summary: {
+    total: number;
+    invalid: number;
+    createUsers: number;
+    addMemberships: number;
+    skipped: number;
+  };
+}
+
+interface ImportResult {
+  created: number;
+  added: number;
+  skipped: number;
+  invalid: number;
+  failed: { line: number; message: string }[];
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+const leadershipRoleLabels: Record<string, string> = {
+  counselor_president: "Consejero Presidente",
+  counselor_secretary: "Consejero Secretario",
+  counselor: "Consejero",
+  secretary: "Secretario",
+  auxiliary: "Auxiliar",
+  none: "—",
+};
+
+const actionLabels: Record<ImportAction, string> = {
+  create_user: "Nueva cuenta",
+  add_membership: "Agregar a comité",
+  skip: "Sin cambios",
+};
+
+// Base64 keeps the XLSX bytes intact through the JSON request body
+async function readFileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function MemberImport() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<{ format: "csv" | "xlsx"; content: string; name: string } | null>(null);
+  const [sendEmails, setSendEmails] = useState(true);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setSendEmails(true);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (selected: { format: "csv" | "xlsx"; content: string }) => {
+      const response = await apiRequest("POST", "/api/admin/members/import", { ...selected, dryRun: true });
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: any) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo leer el archivo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/members/import", {
+        format: file!.format,
+        content: file!.content,
+        dryRun: false,
+        sendEmails,
+      });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/all-members"] });
+      setIsOpen(false);
+      reset();
+      const problems = result.failed.length + result.emailsFailed;
+      toast({
+        title: "Importación completada",
+        description:
+          `${result.created} cuentas nuevas, ${result.added} membresías agregadas, ${result.skipped} sin cambios` +
+          (result.invalid > 0 ? `, ${result.invalid} filas omitidas por errores` : "") +
+          (result.failed.length > 0 ? `, ${result.failed.length} fallaron` : "") +
+          (result.emailsFailed > 0 ? `. ${result.emailsFailed} correos no se pudieron enviar` : ""),
+        variant: problems > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo completar la importación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setPreview(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const isXlsx = selected.name.toLowerCase().endsWith(".xlsx");
+    const next = {
+      format: isXlsx ? ("xlsx" as const) : ("csv" as const),
+      content: isXlsx ? await readFileAsBase64(selected) : await selected.text(),
+      name: selected.name,
+    };
+    setFile(next);
+    previewMutation.mutate(next);
+  };
+
+  const applicableRows = preview ? preview.summary.createUsers + preview.summary.addMemberships : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Importar Miembros
+          </CardTitle>
+          <CardDescription>
+            Da de alta miembros de varios comités y equipos desde una hoja de cálculo
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsOpen(true)} data-testid="button-import-members">
+          <Upload className="mr-2 h-4 w-4" />
+          Importar
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground">
+          Columnas: nombre, apellido, correo, comité (código), liderazgo, rol y, opcionalmente, equipo. Las cuentas
+          nuevas reciben un correo para crear su contraseña.
+        </p>
+      </CardContent>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) reset();
+        }}
+      >
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Importar Miembros</DialogTitle>
+            <DialogDescription>
+              Sube un archivo CSV o Excel. Primero verás una vista previa; nada se guarda hasta que confirmes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="member-import-file">Archivo</Label>
+              <Input
+                id="member-import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-member-import-file"
+              />
+            </div>
+
+            {previewMutation.isPending && (
+              <p className="text-sm text-muted-foreground">Validando {file?.name}...</p>
+            )}
+
+            {preview && (
+              <>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary">{preview.summary.total} filas</Badge>
+                  <Badge variant="default">{preview.summary.createUsers} cuentas nuevas</Badge>
+                  <Badge variant="outline">{preview.summary.addMemberships} membresías</Badge>
+                  <Badge variant="outline">{preview.summary.skipped} sin cambios</Badge>
+                  {preview.summary.invalid > 0 && (
+                    <Badge variant="destructive">{preview.summary.invalid} con errores</Badge>
+                  )}
+                </div>
+
+                <div className="max-h-80 overflow-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">Fila</TableHead>
+                        <TableHead>Nombre</TableHead>
+                        <TableHead>Correo</TableHead>
+                        <TableHead>Comité</TableHead>
+                        <TableHead>Liderazgo / Rol</TableHead>
+                        <TableHead>Equipo</TableHead>
+                        <TableHead>Resultado</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.line} data-testid={`row-member-import-${row.line}`}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell>{`${row.firstName} ${row.lastName}`.trim() || "—"}</TableCell>
+                          <TableCell className="text-xs">{row.email || "—"}</TableCell>
+                          <TableCell>{row.committeeName ?? (row.committeeCode || "—")}</TableCell>
+                          <TableCell className="text-xs">
+                            {leadershipRoleLabels[row.leadershipRole] ?? row.leadershipRole}
+                            {row.roleName && <div className="text-muted-foreground">{row.roleName}</div>}
+                          </TableCell>
+                          <TableCell>{row.teamName ?? "—"}</TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <ul className="space-y-1 text-xs text-destructive">
+                                {row.errors.map((message) => (
+                                  <li key={message}>{message}</li>
+                                ))}
+                              </ul>
+                            ) : row.action ? (
+                              <Badge variant={row.action === "skip" ? "outline" : "secondary"}>
+                                {actionLabels[row.action]}
+                              </Badge>
+                            ) : null}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {preview.summary.invalid > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Las filas con errores se omitirán. Corrige el archivo y vuelve a subirlo para incluirlas.
+                  </p>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="member-import-send-emails"
+                    checked={sendEmails}
+                    onCheckedChange={(checked) => setSendEmails(checked === true)}
+                    data-testid="checkbox-member-import-emails"
+                  />
+                  <Label htmlFor="member-import-send-emails" className="font-normal">
+                    Enviar a las cuentas nuevas un correo para crear su contraseña
+                  </Label>
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!file || applicableRows === 0 || importMutation.isPending}
+              data-testid="button-confirm-import-members"
+            >
+              {importMutation.isPending ? "Importando..." : `Importar ${applicableRows} filas`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
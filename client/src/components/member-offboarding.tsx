@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RotateCcw, UserMinus } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import type { CommitteeMember } from "@shared/schema";
+import type { User } from "@shared/models/auth";
+
+type MemberWithUser = CommitteeMember & { user?: User };
+
+interface OffboardingImpact {
+  futureAttendances: number;
+  futureAssignments: number;
+  ownedTeams: { id: string; name: string }[];
+  documents: number;
+  revokesPush: boolean;
+}
+
+interface OffboardingResult {
+  cancelledAttendances: number;
+  removedAssignments: number;
+  reassignedTeams: number;
+  reassignedDocuments: number;
+}
+
+function formatName(member: MemberWithUser) {
+  return [member.user?.firstName, member.user?.lastName].filter(Boolean).join(" ") || member.user?.email || "Miembro";
+}
+
+// "Dar de baja" for active members and "Reactivar" for offboarded ones, with the reason
+// and date of the last offboarding shown while the member is inactive
+export function MemberOffboardingActions({ member }: { member: MemberWithUser }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [reassignTo, setReassignTo] = useState("");
+
+  const { data: impact, isLoading: impactLoading } = useQuery<OffboardingImpact>({
+    queryKey: ["/api/committee-members", member.id, "offboarding-preview"],
+    enabled: open,
+  });
+
+  const needsReassignment = !!impact && (impact.ownedTeams.length > 0 || impact.documents > 0);
+
+  const { data: committeeMembers } = useQuery<MemberWithUser[]>({
+    queryKey: ["/api/committees", member.committeeId, "members"],
+    enabled: needsReassignment,
+  });
+  const reassignCandidates = committeeMembers?.filter((m) => m.isActive && m.userId !== member.userId) ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/committees", member.committeeId, "members"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/all-members"] });
+  };
+
+  const close = () => {
+    setOpen(false);
+    setReason("");
+    setReassignTo("");
+  };
+
+  const offboardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/committee-members/${member.id}/offboard`, {
+        reason: reason.trim() || undefined,
+        reassignToUserId: reassignTo || undefined,
+      });
+      return response.json() as Promise<OffboardingResult>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      close();
+      toast({
+        title: "Miembro dado de baja",
+        description: `Se cancelaron ${result.cancelledAttendances} turnos y ${result.removedAssignments} actividades.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo dar de baja al miembro.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/committee-members/${member.id}/reactivate`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Miembro reactivado", description: `${formatName(member)} vuelve a tener acceso al comité.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo reactivar al miembro.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!member.isActive) {
+    return (
+      <div className="flex flex-col items-end gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => reactivateMutation.mutate()}
+          disabled={reactivateMutation.isPending}
+          data-testid={`button-reactivate-member-${member.id}`}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reactivar
+        </Button>
+        {member.offboardedAt && (
+          <p className="max-w-56 text-right text-xs text-muted-foreground">
+            Baja el {format(new Date(member.offboardedAt), "d MMM yyyy", { locale: es })}
+            {member.offboardReason && `: ${member.offboardReason}`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        data-testid={`button-offboard-member-${member.id}`}
+      >
+        <UserMinus className="mr-2 h-4 w-4" />
+        Dar de baja
+      </Button>
+
+      <Dialog open={open} onOpenChange={(value) => !value && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dar de baja a {formatName(member)}</DialogTitle>
+            <DialogDescription>
+              Perderá el acceso al comité. Su historial de asistencias se conserva y podrás reactivarlo más adelante.
+            </DialogDescription>
+          </DialogHeader>
+
+          {impactLoading || !impact ? (
+            <Skeleton className="h-20 w-full" />
+          ) : (
+            <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+              <li>{impact.futureAttendances} turnos futuros se cancelarán y sus lugares pasarán a la lista de espera</li>
+              <li>{impact.futureAssignments} asignaciones a actividades futuras se quitarán</li>
+              {impact.ownedTeams.length > 0 && (
+                <li>Equipos a reasignar: {impact.ownedTeams.map((t) => t.name).join(", ")}</li>
+              )}
+              {impact.documents > 0 && <li>{impact.documents} documentos subidos pasarán a otra persona</li>}
+              {impact.revokesPush && <li>No pertenece a otros comités: sus dispositivos dejarán de recibir notificaciones</li>}
+            </ul>
+          )}
+
+          {needsReassignment && (
+            <div className="space-y-2">
+              <Label>Reasignar a</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger data-testid="select-offboard-reassign">
+                  <SelectValue placeholder="Elige un miembro activo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reassignCandidates.map((candidate) => (
+                    <SelectItem key={candidate.userId} value={candidate.userId}>
+                      {formatName(candidate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="offboard-reason">Motivo (opcional)</Label>
+            <Textarea
+              id="offboard-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              data-testid="input-offboard-reason"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => offboardMutation.mutate()}
+              disabled={!impact || (needsReassignment && !reassignTo) || offboardMutation.isPending}
+              data-testid="button-confirm-offboard"
+            >
+              Dar de baja
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Check, UserPlus, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import type { CommitteeMember } from "@shared/schema";
+import type { User } from "@shared/models/auth";
+
+type MembershipRequest = CommitteeMember & { user?: User };
+
+function formatName(request: MembershipRequest) {
+  return [request.user?.firstName, request.user?.lastName].filter(Boolean).join(" ") || request.user?.email || "Usuario";
+}
+
+// Queue of people who asked to join a restricted committee. Renders nothing when it is empty.
+export function MembershipRequests({ committeeId }: { committeeId: string }) {
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState<MembershipRequest | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: requests } = useQuery<MembershipRequest[]>({
+    queryKey: ["/api/committees", committeeId, "membership-requests"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/committees", committeeId, "membership-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/committees", committeeId, "members"] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/committee-members/${id}/approve`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Solicitud aprobada", description: "La persona ya es miembro del comité." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo aprobar la solicitud.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      apiRequest("POST", `/api/committee-members/${id}/reject`, { reason }),
+    onSuccess: () => {
+      invalidate();
+      setRejecting(null);
+      setReason("");
+      toast({ title: "Solicitud rechazada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo rechazar la solicitud.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!requests || requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Solicitudes de ingreso
+          <Badge variant="secondary">{requests.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Personas que pidieron unirse al comité. Se les notifica la decisión.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => (
+          <div
+            key={request.id}
+            className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between"
+            data-testid={`row-membership-request-${request.id}`}
+          >
+            <div>
+              <div className="font-medium">{formatName(request)}</div>
+              <p className="text-sm text-muted-foreground">
+                {request.user?.email}
+                {request.joinedAt &&
+                  ` · ${formatDistanceToNow(new Date(request.joinedAt), { addSuffix: true, locale: es })}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => approveMutation.mutate(request.id)}
+                disabled={approveMutation.isPending}
+                data-testid={`button-approve-request-${request.id}`}
+              >
+                <Check className="mr-1 h-4 w-4" />
+                Aprobar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setRejecting(request)}
+                data-testid={`button-reject-request-${request.id}`}
+              >
+                <X className="mr-1 h-4 w-4" />
+                Rechazar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rechazar solicitud</DialogTitle>
+            <DialogDescription>
+              {rejecting && formatName(rejecting)} recibirá el motivo en una notificación.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Motivo</Label>
+            <Textarea
+              id="reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              data-testid="input-reject-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && rejectMutation.mutate({ id: rejecting.id, reason: reason.trim() })}
+              disabled={!reason.trim() || rejectMutation.isPending}
+              data-testid="button-confirm-reject-request"
+            >
+              Rechazar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
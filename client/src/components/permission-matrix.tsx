@@ -0,0 +1,137 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { KeySquare } from "lucide-react";
+import {
+  CAPABILITIES,
+  capabilityLabels,
+  type Capability,
+  type PermissionSubjectType,
+} from "@shared/permissions";
+import type { UpdateRolePermission } from "@shared/schema";
+
+interface PermissionMatrixRow {
+  subjectType: PermissionSubjectType;
+  subjectKey: string;
+  label: string;
+  capabilities: Capability[];
+  customized: Capability[];
+}
+
+const subjectTypeLabels: Record<PermissionSubjectType, string> = {
+  system: "Comité",
+  leadership: "Liderazgo",
+  role: "Cargos",
+  team: "Equipos",
+};
+
+// Which capabilities each kind of member has in the committees they belong to. Super admins
+// always have all of them.
+export function PermissionMatrix() {
+  const { toast } = useToast();
+
+  const { data: matrix, isLoading } = useQuery<PermissionMatrixRow[]>({
+    queryKey: ["/api/admin/permissions"],
+  });
+
+  const updatePermissionMutation = useMutation({
+    mutationFn: async (data: UpdateRolePermission) => {
+      const response = await apiRequest("PUT", "/api/admin/permissions", data);
+      return response.json() as Promise<PermissionMatrixRow[]>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/admin/permissions"], updated);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo actualizar el permiso.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeySquare className="h-5 w-5" />
+          Permisos
+        </CardTitle>
+        <CardDescription>
+          Qué puede hacer cada rol dentro de sus comités. Un miembro tiene la suma de los permisos de todos sus roles;
+          los cambios respecto a los valores predeterminados aparecen resaltados.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rol</TableHead>
+                  {CAPABILITIES.map((capability) => (
+                    <TableHead key={capability} className="text-center">
+                      <Tooltip>
+                        <TooltipTrigger className="cursor-help">{capabilityLabels[capability].label}</TooltipTrigger>
+                        <TooltipContent>{capabilityLabels[capability].description}</TooltipContent>
+                      </Tooltip>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix?.map((row) => (
+                  <TableRow key={`${row.subjectType}:${row.subjectKey}`}>
+                    <TableCell>
+                      <div className="font-medium">{row.label}</div>
+                      <div className="text-xs text-muted-foreground">{subjectTypeLabels[row.subjectType]}</div>
+                    </TableCell>
+                    {CAPABILITIES.map((capability) => (
+                      <TableCell
+                        key={capability}
+                        className={`text-center ${row.customized.includes(capability) ? "bg-amber-50 dark:bg-amber-950" : ""}`}
+                      >
+                        <Checkbox
+                          checked={row.capabilities.includes(capability)}
+                          onCheckedChange={(checked) =>
+                            updatePermissionMutation.mutate({
+                              subjectType: row.subjectType,
+                              subjectKey: row.subjectKey,
+                              capability,
+                              granted: checked === true,
+                            })
+                          }
+                          disabled={updatePermissionMutation.isPending}
+                          data-testid={`checkbox-permission-${row.subjectType}-${row.subjectKey}-${capability}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
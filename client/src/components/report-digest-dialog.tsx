@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import type { ReportSubscription, UpdateReportSubscription } from "@shared/schema";
+
+type Frequency = UpdateReportSubscription["frequency"];
+type AttachmentFormat = UpdateReportSubscription["attachmentFormat"];
+
+interface ReportDigestDialogProps {
+  committeeId: string;
+  committeeName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportDigestDialog({ committeeId, committeeName, open, onOpenChange }: ReportDigestDialogProps) {
+  const { toast } = useToast();
+  const [frequency, setFrequency] = useState<Frequency>("weekly");
+  const [attachmentFormat, setAttachmentFormat] = useState<AttachmentFormat>("xlsx");
+
+  const subscriptionKey = ["/api/committees", committeeId, "report-subscription"];
+  const { data: subscription } = useQuery<ReportSubscription | null>({
+    queryKey: subscriptionKey,
+    enabled: open && !!committeeId,
+  });
+
+  useEffect(() => {
+    if (subscription) {
+      setFrequency(subscription.frequency);
+      setAttachmentFormat(subscription.attachmentFormat);
+    }
+  }, [subscription]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/committees/${committeeId}/report-subscription`, {
+        frequency,
+        attachmentFormat,
+        isActive: true,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subscriptionKey });
+      onOpenChange(false);
+      toast({
+        title: "Suscripción guardada",
+        description:
+          frequency === "weekly"
+            ? "Recibirás el resumen cada lunes por correo"
+            : "Recibirás el resumen el primer día de cada mes",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo guardar la suscripción",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/committees/${committeeId}/report-subscription`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subscriptionKey });
+      onOpenChange(false);
+      toast({ title: "Ya no recibirás el resumen por correo" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo cancelar la suscripción",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Resumen por correo</DialogTitle>
+          <DialogDescription>
+            Recibe el reporte de asistencias{committeeName ? ` de ${committeeName}` : ""} con un resumen de los
+            turnos que quedaron sin cobertura.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Frecuencia</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as Frequency)}>
+              <SelectTrigger data-testid="select-digest-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">Semanal (semana anterior)</SelectItem>
+                <SelectItem value="monthly">Mensual (mes anterior)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Archivo adjunto</Label>
+            <Select value={attachmentFormat} onValueChange={(value) => setAttachmentFormat(value as AttachmentFormat)}>
+              <SelectTrigger data-testid="select-digest-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {subscription?.lastSentAt && (
+            <p className="text-xs text-muted-foreground">
+              Último envío: {format(new Date(subscription.lastSentAt), "d 'de' MMMM, HH:mm", { locale: es })}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {subscription && (
+            <Button
+              variant="outline"
+              onClick={() => unsubscribeMutation.mutate()}
+              disabled={unsubscribeMutation.isPending}
+              data-testid="button-unsubscribe-digest"
+            >
+              Cancelar suscripción
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-digest"
+          >
+            {saveMutation.isPending ? "Guardando..." : subscription ? "Guardar" : "Suscribirme"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
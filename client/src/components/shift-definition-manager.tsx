@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Clock, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Committee, ShiftDefinition } from "@shared/schema";
+
+const dayOptions = [
+  { value: "monday", label: "Lun" },
+  { value: "tuesday", label: "Mar" },
+  { value: "wednesday", label: "Mié" },
+  { value: "thursday", label: "Jue" },
+  { value: "friday", label: "Vie" },
+  { value: "saturday", label: "Sáb" },
+  { value: "sunday", label: "Dom" },
+];
+
+interface ShiftForm {
+  name: string;
+  startTime: string;
+  endTime: string;
+  maxCapacity: number;
+  days: string[];
+}
+
+export function ShiftDefinitionManager({ committee }: { committee: Committee }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ShiftDefinition | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ShiftForm>({
+    name: "",
+    startTime: "18:00",
+    endTime: "21:00",
+    maxCapacity: committee.maxPerShift,
+    days: committee.workingDays,
+  });
+
+  const { data: definitions } = useQuery<ShiftDefinition[]>({
+    queryKey: ["/api/committees", committee.id, "shift-definitions"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id, "shift-definitions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id, "shifts"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? apiRequest("PATCH", `/api/shift-definitions/${editing.id}`, form)
+        : apiRequest("POST", `/api/committees/${committee.id}/shift-definitions`, form),
+    onSuccess: () => {
+      invalidate();
+      setIsDialogOpen(false);
+      toast({ title: editing ? "Turno actualizado" : "Turno agregado" });
+    },
+    onError: onError("No se pudo guardar el turno"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/shift-definitions/${id}`, { isActive }),
+    onSuccess: invalidate,
+    onError: onError("No se pudo actualizar el turno"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shift-definitions/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Turno eliminado" });
+    },
+    onError: onError("No se pudo eliminar el turno"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({
+      name: "",
+      startTime: "18:00",
+      endTime: "21:00",
+      maxCapacity: committee.maxPerShift,
+      days: committee.workingDays,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (definition: ShiftDefinition) => {
+    setEditing(definition);
+    setForm({
+      name: definition.name,
+      startTime: definition.startTime,
+      endTime: definition.endTime,
+      maxCapacity: definition.maxCapacity,
+      days: definition.days,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleDay = (day: string, checked: boolean) => {
+    setForm({
+      ...form,
+      days: checked ? [...form.days, day] : form.days.filter((d) => d !== day),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Turnos del Comité
+          </CardTitle>
+          <CardDescription>
+            Define turnos adicionales como sesiones nocturnas o de fin de semana
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={openCreate} data-testid="button-new-shift-definition">
+          <Plus className="mr-2 h-4 w-4" />
+          Nuevo turno
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {definitions && definitions.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Turno</TableHead>
+                <TableHead>Horario</TableHead>
+                <TableHead>Capacidad</TableHead>
+                <TableHead>Días</TableHead>
+                <TableHead>Activo</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {definitions.map((definition) => (
+                <TableRow key={definition.id} data-testid={`row-shift-definition-${definition.id}`}>
+                  <TableCell className="font-medium">{definition.name}</TableCell>
+                  <TableCell>{definition.startTime} - {definition.endTime}</TableCell>
+                  <TableCell>{definition.maxCapacity}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {dayOptions
+                        .filter((d) => definition.days.includes(d.value))
+                        .map((d) => (
+                          <Badge key={d.value} variant="outline">{d.label}</Badge>
+                        ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={definition.isActive}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: definition.id, isActive: checked })}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-shift-active-${definition.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(definition)}
+                        data-testid={`button-edit-shift-${definition.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(definition.id)}
+                        data-testid={`button-delete-shift-${definition.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            El comité usa los turnos matutino y vespertino. Al agregar un turno se copiarán como turnos editables.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar turno" : "Nuevo turno"}</DialogTitle>
+            <DialogDescription>
+              El horario define cuándo los miembros pueden confirmar su asistencia
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shift-name">Nombre</Label>
+              <Input
+                id="shift-name"
+                placeholder="Ej. Nocturno"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-shift-name"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="shift-start">Inicio</Label>
+                <Input
+                  id="shift-start"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  data-testid="input-shift-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-end">Fin</Label>
+                <Input
+                  id="shift-end"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  data-testid="input-shift-end"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-capacity">Capacidad</Label>
+                <Input
+                  id="shift-capacity"
+                  type="number"
+                  min={1}
+                  value={form.maxCapacity}
+                  onChange={(e) => setForm({ ...form, maxCapacity: parseInt(e.target.value) || 1 })}
+                  data-testid="input-shift-capacity"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Días</Label>
+              <div className="flex flex-wrap gap-3">
+                {dayOptions.map((day) => (
+                  <label key={day.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.days.includes(day.value)}
+                      onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                    />
+                    {day.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name || form.days.length === 0 || form.startTime >= form.endTime || saveMutation.isPending}
+              data-testid="button-save-shift-definition"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
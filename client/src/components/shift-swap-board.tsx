@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import { Check, History, Repeat, X } from "lucide-react";
+import type { AttendanceSlot, ShiftSwap, ShiftSwapEvent, User } from "@shared/schema";
+
+export interface ShiftSwapWithDetails extends ShiftSwap {
+  slot?: AttendanceSlot;
+  committeeName?: string;
+  shiftName?: string;
+  offeredBy?: User;
+  acceptedBy?: User;
+}
+
+export const swapStatusLabels: Record<string, string> = {
+  open: "Disponible",
+  pending_approval: "Pendiente de aprobación",
+  completed: "Completado",
+  rejected: "Rechazado",
+  cancelled: "Cancelado",
+};
+
+const swapStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "outline",
+  pending_approval: "secondary",
+  completed: "default",
+  rejected: "destructive",
+  cancelled: "secondary",
+};
+
+const eventLabels: Record<string, string> = {
+  offered: "Ofreció el turno",
+  accepted: "Aceptó el turno",
+  approved: "Aprobó el intercambio",
+  rejected: "Rechazó el intercambio",
+  cancelled: "Canceló el intercambio",
+  completed: "Turno transferido",
+};
+
+function getUserName(user?: User) {
+  if (!user) return "—";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "—";
+}
+
+function invalidateSwapQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/shift-swaps/available"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/my-shift-swaps"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/shift-swaps/pending-approval"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/my-attendances"] });
+}
+
+export function ShiftSwapBoard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [review, setReview] = useState<{ swap: ShiftSwapWithDetails; action: "approve" | "reject" } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const [historySwapId, setHistorySwapId] = useState<string | null>(null);
+
+  const { data: available } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/shift-swaps/available"],
+  });
+
+  const { data: mySwaps } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/my-shift-swaps"],
+  });
+
+  const { data: pendingApproval } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/shift-swaps/pending-approval"],
+  });
+
+  const { data: events } = useQuery<(ShiftSwapEvent & { actor?: User })[]>({
+    queryKey: ["/api/shift-swaps", historySwapId, "events"],
+    enabled: !!historySwapId,
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (swapId: string) => {
+      const response = await apiRequest("POST", `/api/shift-swaps/${swapId}/accept`);
+      return response.json();
+    },
+    onSuccess: (swap: ShiftSwap) => {
+      invalidateSwapQueries();
+      toast({
+        title: swap.status === "completed" ? "Turno transferido" : "Intercambio aceptado",
+        description: swap.status === "completed"
+          ? "El turno ya aparece en tus asistencias"
+          : "El administrador del comité debe aprobar el intercambio",
+      });
+    },
+    onError: onError("No se pudo aceptar el intercambio"),
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (swapId: string) => apiRequest("DELETE", `/api/shift-swaps/${swapId}`),
+    onSuccess: () => {
+      invalidateSwapQueries();
+      toast({ title: "Oferta retirada" });
+    },
+    onError: onError("No se pudo retirar la oferta"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/shift-swaps/${review!.swap.id}/${review!.action}`, { note: reviewNote }),
+    onSuccess: () => {
+      invalidateSwapQueries();
+      toast({ title: review?.action === "approve" ? "Intercambio aprobado" : "Intercambio rechazado" });
+      setReview(null);
+      setReviewNote("");
+    },
+    onError: onError("No se pudo revisar el intercambio"),
+  });
+
+  const renderSlot = (swap: ShiftSwapWithDetails) => (
+    <div>
+      <div className="font-medium capitalize">
+        {swap.slot ? format(parseISO(swap.slot.date), "EEEE, d MMM", { locale: es }) : "—"}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {swap.shiftName || swap.slot?.shift || ""} · {swap.committeeName || "—"}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Turnos Disponibles
+          </CardTitle>
+          <CardDescription>Turnos que tus compañeros ofrecen para intercambio</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {available && available.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Turno</TableHead>
+                  <TableHead>Ofrecido por</TableHead>
+                  <TableHead>Nota</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {available.map((swap) => (
+                  <TableRow key={swap.id} data-testid={`row-available-swap-${swap.id}`}>
+                    <TableCell>{renderSlot(swap)}</TableCell>
+                    <TableCell>{getUserName(swap.offeredBy)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{swap.note || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => acceptMutation.mutate(swap.id)}
+                        disabled={acceptMutation.isPending}
+                        data-testid={`button-accept-swap-${swap.id}`}
+                      >
+                        <Check className="mr-1 h-3 w-3" />
+                        Tomar turno
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No hay turnos ofrecidos en tus comités
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {pendingApproval && pendingApproval.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Intercambios por Aprobar</CardTitle>
+            <CardDescription>Intercambios aceptados que requieren tu aprobación</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Turno</TableHead>
+                  <TableHead>Ofrece</TableHead>
+                  <TableHead>Acepta</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingApproval.map((swap) => (
+                  <TableRow key={swap.id} data-testid={`row-pending-swap-${swap.id}`}>
+                    <TableCell>{renderSlot(swap)}</TableCell>
+                    <TableCell>{getUserName(swap.offeredBy)}</TableCell>
+                    <TableCell>{getUserName(swap.acceptedBy)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => setReview({ swap, action: "approve" })}
+                          data-testid={`button-approve-swap-${swap.id}`}
+                        >
+                          Aprobar
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setReview({ swap, action: "reject" })}
+                          data-testid={`button-reject-swap-${swap.id}`}
+                        >
+                          Rechazar
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mis Intercambios</CardTitle>
+          <CardDescription>Turnos que ofreciste o aceptaste</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mySwaps && mySwaps.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Turno</TableHead>
+                  <TableHead>Ofrece</TableHead>
+                  <TableHead>Acepta</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mySwaps.map((swap) => (
+                  <TableRow key={swap.id} data-testid={`row-my-swap-${swap.id}`}>
+                    <TableCell>{renderSlot(swap)}</TableCell>
+                    <TableCell>{getUserName(swap.offeredBy)}</TableCell>
+                    <TableCell>{getUserName(swap.acceptedBy)}</TableCell>
+                    <TableCell>
+                      <Badge variant={swapStatusVariants[swap.status]}>
+                        {swapStatusLabels[swap.status] || swap.status}
+                      </Badge>
+                      {swap.reviewNote && (
+                        <div className="mt-1 text-xs text-muted-foreground">{swap.reviewNote}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistorySwapId(swap.id)}
+                          data-testid={`button-swap-history-${swap.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {swap.offeredByUserId === user?.id &&
+                          (swap.status === "open" || swap.status === "pending_approval") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => withdrawMutation.mutate(swap.id)}
+                              disabled={withdrawMutation.isPending}
+                              data-testid={`button-withdraw-swap-${swap.id}`}
+                            >
+                              <X className="mr-1 h-3 w-3" />
+                              Retirar
+                            </Button>
+                          )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No has ofrecido ni aceptado intercambios
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!review} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {review?.action === "approve" ? "Aprobar intercambio" : "Rechazar intercambio"}
+            </DialogTitle>
+            <DialogDescription>
+              {review && `${getUserName(review.swap.offeredBy)} → ${getUserName(review.swap.acceptedBy)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="swap-review-note">Nota (opcional)</Label>
+            <Textarea
+              id="swap-review-note"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              data-testid="input-swap-review-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant={review?.action === "reject" ? "destructive" : "default"}
+              onClick={() => reviewMutation.mutate()}
+              disabled={reviewMutation.isPending}
+              data-testid="button-confirm-swap-review"
+            >
+              {review?.action === "approve" ? "Aprobar" : "Rechazar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historySwapId} onOpenChange={(open) => !open && setHistorySwapId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial del intercambio</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {events?.map((event) => (
+              <div key={event.id} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <div className="font-medium">{eventLabels[event.action] || event.action}</div>
+                  <div className="text-muted-foreground">
+                    {getUserName(event.actor)}
+                    {event.note && ` · ${event.note}`}
+                  </div>
+                </div>
+                <span className="whitespace-nowrap text-xs text-muted-foreground">
+                  {event.createdAt && format(new Date(event.createdAt), "d MMM HH:mm", { locale: es })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarPlus, Eye, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import { useCommitteeShifts } from "@/hooks/use-committee-shifts";
+import type { Committee, SlotTemplate } from "@shared/schema";
+import { getShiftName } from "@shared/shifts";
+
+interface PlannedSlot {
+  date: string;
+  shift: string;
+  maxCapacity: number;
+  status: "create" | "existing" | "excluded";
+  reason?: string;
+}
+
+interface GenerationPreview {
+  startDate: string;
+  endDate: string;
+  toCreate: number;
+  existing: number;
+  excluded: number;
+  slots: PlannedSlot[];
+}
+
+const dayOptions = [
+  { value: "monday", label: "Lunes" },
+  { value: "tuesday", label: "Martes" },
+  { value: "wednesday", label: "Miércoles" },
+  { value: "thursday", label: "Jueves" },
+  { value: "friday", label: "Viernes" },
+  { value: "saturday", label: "Sábado" },
+  { value: "sunday", label: "Domingo" },
+];
+
+const statusLabels: Record<PlannedSlot["status"], string> = {
+  create: "Nuevo",
+  existing: "Existente",
+  excluded: "Excluido",
+};
+
+const DEFAULT_TEMPLATE = "committee-defaults";
+
+// Dates are typed one per line or comma separated (yyyy-MM-dd)
+function parseDateList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((d) => d.trim())
+    .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+}
+
+export function SlotGenerator({ committee }: { committee: Committee }) {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState<string>(DEFAULT_TEMPLATE);
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [period, setPeriod] = useState<"month" | "quarter">("month");
+  const [excludedDates, setExcludedDates] = useState("");
+  const [preview, setPreview] = useState<GenerationPreview | null>(null);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [templateForm, setTemplateForm] = useState({
+    name: "",
+    workingDays: committee.workingDays,
+    shifts: ["morning", "afternoon"],
+    maxCapacity: committee.maxPerShift,
+    excludedDates: "",
+  });
+
+  const { data: templates } = useQuery<SlotTemplate[]>({
+    queryKey: ["/api/committees", committee.id, "slot-templates"],
+  });
+
+  const { shifts } = useCommitteeShifts(committee.id);
+
+  const openTemplateDialog = () => {
+    setTemplateForm((form) => ({ ...form, shifts: shifts.map((s) => s.key) }));
+    setIsTemplateDialogOpen(true);
+  };
+
+  const generationPayload = () => ({
+    templateId: templateId === DEFAULT_TEMPLATE ? undefined : templateId,
+    month,
+    period,
+    excludedDates: parseDateList(excludedDates),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/committees/${committee.id}/slot-generation/preview`, generationPayload());
+      return response.json() as Promise<GenerationPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo generar la vista previa",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/committees/${committee.id}/slot-generation`, generationPayload());
+      return response.json();
+    },
+    onSuccess: (data: { created: number }) => {
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance-slots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id, "calendar-attendances"] });
+      toast({
+        title: "Turnos generados",
+        description: `Se crearon ${data.created} turnos`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudieron generar los turnos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/committees/${committee.id}/slot-templates`, {
+        ...templateForm,
+        excludedDates: parseDateList(templateForm.excludedDates),
+      });
+      return response.json();
+    },
+    onSuccess: (template: SlotTemplate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id, "slot-templates"] });
+      setIsTemplateDialogOpen(false);
+      setTemplateId(template.id);
+      toast({ title: "Plantilla creada", description: "La plantilla se ha guardado." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo crear la plantilla",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/slot-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/committees", committee.id, "slot-templates"] });
+      setTemplateId(DEFAULT_TEMPLATE);
+      toast({ title: "Plantilla eliminada" });
+    },
+  });
+
+  const toggleListValue = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle>Generación de Turnos</CardTitle>
+          <CardDescription>
+            Crea todos los turnos de un mes o trimestre a partir de una plantilla
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={openTemplateDialog} data-testid="button-new-slot-template">
+          <Plus className="mr-2 h-4 w-4" />
+          Nueva Plantilla
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Plantilla</Label>
+            <div className="flex gap-2">
+              <Select value={templateId} onValueChange={(v) => { setTemplateId(v); setPreview(null); }}>
+                <SelectTrigger data-testid="select-slot-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE}>Configuración del comité</SelectItem>
+                  {templates?.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId !== DEFAULT_TEMPLATE && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteTemplateMutation.mutate(templateId)}
+                  data-testid="button-delete-slot-template"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="generation-month">Mes inicial</Label>
+            <Input
+              id="generation-month"
+              type="month"
+              value={month}
+              onChange={(e) => { setMonth(e.target.value); setPreview(null); }}
+              data-testid="input-generation-month"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Periodo</Label>
+            <Select value={period} onValueChange={(v) => { setPeriod(v as "month" | "quarter"); setPreview(null); }}>
+              <SelectTrigger data-testid="select-generation-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Un mes</SelectItem>
+                <SelectItem value="quarter">Trimestre</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="generation-excluded">Días inhábiles adicionales</Label>
+          <Textarea
+            id="generation-excluded"
+            placeholder="2026-11-16, 2026-12-25"
+            value={excludedDates}
+            onChange={(e) => { setExcludedDates(e.target.value); setPreview(null); }}
+            data-testid="input-generation-excluded"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={!month || previewMutation.isPending}
+            data-testid="button-preview-slots"
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Vista Previa
+          </Button>
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={!preview || preview.toCreate === 0 || generateMutation.isPending}
+            data-testid="button-generate-slots"
+          >
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            {preview ? `Generar ${preview.toCreate} turnos` : "Generar turnos"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge>{preview.toCreate} nuevos</Badge>
+              <Badge variant="secondary">{preview.existing} existentes</Badge>
+              <Badge variant="outline">{preview.excluded} excluidos</Badge>
+            </div>
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Turno</TableHead>
+                    <TableHead>Capacidad</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.slots.map((slot) => (
+                    <TableRow key={`${slot.date}-${slot.shift}`}>
+                      <TableCell className="capitalize">
+                        {format(parseISO(slot.date), "EEE d 'de' MMMM", { locale: es })}
+                      </TableCell>
+                      <TableCell>{getShiftName(shifts, slot.shift)}</TableCell>
+                      <TableCell>{slot.maxCapacity}</TableCell>
+                      <TableCell>
+                        <Badge variant={slot.status === "create" ? "default" : slot.status === "existing" ? "secondary" : "outline"}>
+                          {statusLabels[slot.status]}
+                        </Badge>
+                        {slot.status === "excluded" && slot.reason && (
+                          <span className="ml-2 text-xs text-muted-foreground">{slot.reason}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nueva Plantilla de Turnos</DialogTitle>
+            <DialogDescription>
+              Define los días, turnos y capacidad que se repetirán en cada periodo
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Nombre</Label>
+              <Input
+                id="template-name"
+                value={templateForm.name}
+                onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                placeholder="Ej: Rol distrital ordinario"
+                data-testid="input-template-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Días</Label>
+              <div className="flex flex-wrap gap-3">
+                {dayOptions.map((day) => (
+                  <label key={day.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={templateForm.workingDays.includes(day.value)}
+                      onCheckedChange={(checked) =>
+                        setTemplateForm({
+                          ...templateForm,
+                          workingDays: toggleListValue(templateForm.workingDays, day.value, checked === true),
+                        })
+                      }
+                    />
+                    {day.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Turnos</Label>
+              <div className="flex flex-wrap gap-3">
+                {shifts.map((shift) => (
+                  <label key={shift.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={templateForm.shifts.includes(shift.key)}
+                      onCheckedChange={(checked) =>
+                        setTemplateForm({
+                          ...templateForm,
+                          shifts: toggleListValue(templateForm.shifts, shift.key, checked === true),
+                        })
+                      }
+                    />
+                    {shift.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-capacity">Capacidad por turno</Label>
+              <Input
+                id="template-capacity"
+                type="number"
+                min={1}
+                value={templateForm.maxCapacity}
+                onChange={(e) => setTemplateForm({ ...templateForm, maxCapacity: parseInt(e.target.value) || 1 })}
+                data-testid="input-template-capacity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-excluded">Días inhábiles</Label>
+              <Textarea
+                id="template-excluded"
+                value={templateForm.excludedDates}
+                onChange={(e) => setTemplateForm({ ...templateForm, excludedDates: e.target.value })}
+                placeholder="2026-11-16, 2026-12-25"
+                data-testid="input-template-excluded"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => createTemplateMutation.mutate()}
+              disabled={!templateForm.name || templateForm.workingDays.length === 0 || templateForm.shifts.length === 0 || createTemplateMutation.isPending}
+              data-testid="button-save-slot-template"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
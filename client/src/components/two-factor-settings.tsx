@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Loader2 } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  mandatory: boolean;
+}
+
+export function OtpCodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId?: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} inputMode="numeric" data-testid={testId}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          navigator.clipboard.writeText(codes.join("\n"));
+          toast({ title: "Códigos copiados" });
+        }}
+        data-testid="button-copy-recovery-codes"
+      >
+        <Copy className="mr-2 h-4 w-4" />
+        Copiar
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Guárdalos en un lugar seguro. Cada código sirve una sola vez para entrar si no tienes tu teléfono, y no
+        volverán a mostrarse.
+      </p>
+    </div>
+  );
+}
+
+// Walks through scanning the secret, confirming a first code and saving the recovery codes.
+// Also used full screen when an admin has made 2FA mandatory for the user.
+export function TwoFactorEnrollment({ onComplete }: { onComplete: () => void }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<{ secret: string; otpauthUrl: string }>;
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo iniciar la configuración", variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (setupMutation.isIdle) setupMutation.mutate();
+  }, []);
+
+  useEffect(() => {
+    if (setupMutation.data) {
+      QRCode.toDataURL(setupMutation.data.otpauthUrl, { width: 220, margin: 1 }).then(setQrDataUrl);
+    }
+  }, [setupMutation.data]);
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: (error: any) => {
+      setCode("");
+      toast({ title: "Error", description: error?.message || "Código incorrecto", variant: "destructive" });
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">La verificación en dos pasos está activa. Estos son tus códigos de recuperación:</p>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full"
+          onClick={() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+            onComplete();
+          }}
+          data-testid="button-finish-2fa"
+        >
+          Ya los guardé
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        1. Escanea el código con una app de autenticación (Google Authenticator, Microsoft Authenticator, 1Password…).
+      </p>
+      <div className="flex justify-center">
+        {qrDataUrl ? (
+          <img src={qrDataUrl} alt="Código QR para la app de autenticación" className="h-[220px] w-[220px]" />
+        ) : (
+          <div className="flex h-[220px] w-[220px] items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+      </div>
+      {setupMutation.data && (
+        <p className="text-center text-xs text-muted-foreground">
+          ¿No puedes escanearlo? Ingresa esta clave:{" "}
+          <span className="break-all font-mono" data-testid="text-2fa-secret">{setupMutation.data.secret}</span>
+        </p>
+      )}
+      <p className="text-sm text-muted-foreground">2. Escribe el código de 6 dígitos que muestra la app.</p>
+      <div className="flex justify-center">
+        <OtpCodeInput value={code} onChange={setCode} testId="input-2fa-enable-code" />
+      </div>
+      <Button
+        className="w-full"
+        onClick={() => enableMutation.mutate()}
+        disabled={code.length !== 6 || !setupMutation.data || enableMutation.isPending}
+        data-testid="button-enable-2fa"
+      >
+        {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Activar
+      </Button>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [isEnrollOpen, setIsEnrollOpen] = useState(false);
+  const [isDisableOpen, setIsDisableOpen] = useState(false);
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const closeDialogs = () => {
+    setIsDisableOpen(false);
+    setIsRegenerateOpen(false);
+    setPassword("");
+    setCode("");
+    setNewRecoveryCodes(null);
+  };
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      closeDialogs();
+      toast({ title: "Verificación en dos pasos desactivada" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo desactivar", variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setNewRecoveryCodes(result.recoveryCodes);
+      setCode("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudieron generar los códigos", variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <div className="flex items-center gap-2">
+            <Label>Verificación en dos pasos</Label>
+            {status?.enabled ? <Badge>Activa</Badge> : <Badge variant="outline">Inactiva</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `Te pediremos un código de tu app al iniciar sesión. Te quedan ${status.recoveryCodesRemaining} códigos de recuperación.`
+              : "Protege tu cuenta con un código de una app de autenticación"}
+          </p>
+          {status?.mandatory && (
+            <p className="text-xs text-muted-foreground">Es obligatoria para tu cuenta.</p>
+          )}
+        </div>
+        {status?.enabled ? (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Button variant="outline" size="sm" onClick={() => setIsRegenerateOpen(true)} data-testid="button-regenerate-recovery-codes">
+              Nuevos códigos
+            </Button>
+            {!status.mandatory && (
+              <Button variant="outline" size="sm" onClick={() => setIsDisableOpen(true)} data-testid="button-disable-2fa">
+                Desactivar
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setIsEnrollOpen(true)} data-testid="button-setup-2fa">
+            Activar
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isEnrollOpen} onOpenChange={setIsEnrollOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Activar verificación en dos pasos</DialogTitle>
+            <DialogDescription>Además de tu contraseña, te pediremos un código temporal al iniciar sesión.</DialogDescription>
+          </DialogHeader>
+          {isEnrollOpen && <TwoFactorEnrollment onComplete={() => setIsEnrollOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDisableOpen} onOpenChange={(open) => (open ? setIsDisableOpen(true) : closeDialogs())}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Desactivar verificación en dos pasos</DialogTitle>
+            <DialogDescription>Confirma con tu contraseña y un código de la app o de recuperación.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-password">Contraseña</Label>
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-disable-2fa-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-code">Código</Label>
+              <Input
+                id="disable-2fa-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456 o XXXX-XXXX"
+                data-testid="input-disable-2fa-code"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!password || !code || disableMutation.isPending}
+              data-testid="button-confirm-disable-2fa"
+            >
+              Desactivar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRegenerateOpen} onOpenChange={(open) => (open ? setIsRegenerateOpen(true) : closeDialogs())}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Nuevos códigos de recuperación</DialogTitle>
+            <DialogDescription>Los códigos anteriores dejarán de funcionar.</DialogDescription>
+          </DialogHeader>
+          {newRecoveryCodes ? (
+            <RecoveryCodesList codes={newRecoveryCodes} />
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">Escribe el código actual de tu app para continuar.</p>
+              <div className="flex justify-center">
+                <OtpCodeInput value={code} onChange={setCode} testId="input-regenerate-code" />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {newRecoveryCodes ? (
+              <Button onClick={closeDialogs}>Listo</Button>
+            ) : (
+              <Button
+                onClick={() => regenerateMutation.mutate()}
+                disabled={code.length !== 6 || regenerateMutation.isPending}
+                data-testid="button-confirm-regenerate"
+              >
+                Generar
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,7 +2,13 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import type { User } from "@shared/models/auth";
 
-async function fetchUser(): Promise<User | null> {
+// The session user plus the two-factor flags the server adds to /api/auth/user
+export type AuthUser = User & {
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
+};
+
+async function fetchUser(): Promise<AuthUser | null> {
   const response = await fetch("/api/auth/user", {
     credentials: "include",
   });
@@ -24,7 +30,7 @@ async function logoutRequest(): Promise<void> {
 
 export function useAuth() {
   const queryClient = useQueryClient();
-  const { data: user, isLoading } = useQuery<User | null>({
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
     queryKey: ["/api/auth/user"],
     queryFn: fetchUser,
     retry: false,
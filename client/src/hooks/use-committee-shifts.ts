@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CommitteeShift } from "@shared/shifts";
+
+export function useCommitteeShifts(committeeId: string | undefined) {
+  const { data: shifts, isLoading } = useQuery<CommitteeShift[]>({
+    queryKey: ["/api/committees", committeeId, "shifts"],
+    enabled: !!committeeId,
+  });
+
+  return { shifts: shifts ?? [], isLoading };
+}
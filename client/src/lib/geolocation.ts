@@ -0,0 +1,26 @@
+export interface BrowserLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+// Resolves to null instead of rejecting when the user denies permission or the device
+// can't get a fix, so callers can still send the request and let the server decide
+export function getCurrentLocation(timeout = 10000): Promise<BrowserLocation | null> {
+  return new Promise((resolve) => {
+    if (!("geolocation" in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout, maximumAge: 0 }
+    );
+  });
+}
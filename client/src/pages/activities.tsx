@@ -108,8 +108,10 @@ export default function ActivitiesPage() {
   const startDate = format(startOfMonth(currentDate), "yyyy-MM-dd");
   const endDate = format(endOfMonth(currentDate), "yyyy-MM-dd");
 
-  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[]>({
+  // Archived committees are read-only, so they are not offered here
+  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[], Error, Committee[]>({
     queryKey: ["/api/committees"],
+    select: (data) => data.filter((committee) => !committee.archivedAt),
   });
 
   // Fetch user's team context to determine if they're restricted to team view
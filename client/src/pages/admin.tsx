@@ -24,7 +24,29 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ClosureManager } from "@/components/closure-manager";
+import { MemberImport } from "@/components/member-import";
+import { LoginLockouts } from "@/components/login-lockouts";
+import { PermissionMatrix } from "@/components/permission-matrix";
+import { CommitteeRolloverWizard } from "@/components/committee-rollover";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
@@ -37,8 +59,12 @@ import {
   ArrowUpDown,
   Building2,
   Star,
+  ShieldCheck,
+  Archive,
+  ArchiveRestore,
+  CalendarPlus,
 } from "lucide-react";
-import type { Role, Committee } from "@shared/schema";
+import type { Role, Committee, SystemSettings } from "@shared/schema";
 
 export default function AdminPage() {
   const { user } = useAuth();
@@ -50,7 +76,10 @@ export default function AdminPage() {
     displayName: "",
     description: "",
     sortOrder: 0,
+    monthlyQuota: "",
   });
+  const [committeeToArchive, setCommitteeToArchive] = useState<Committee | null>(null);
+  const [rolloverSource, setRolloverSource] = useState<Committee | null>(null);
 
   const { data: roles, isLoading: rolesLoading } = useQuery<Role[]>({
     queryKey: ["/api/roles"],
@@ -62,10 +91,11 @@ export default function AdminPage() {
   });
 
   const updateCommitteeMutation = useMutation({
-    mutationFn: ({ id, isGeneral, usesShifts, isRestricted }: { id: string; isGeneral?: boolean; usesShifts?: boolean; isRestricted?: boolean }) =>
-      apiRequest("PATCH", `/api/admin/committees/${id}`, { isGeneral, usesShifts, isRestricted }),
+    mutationFn: ({ id, isGeneral, usesShifts, isRestricted, swapsRequireApproval, requiresVerifiedEmail, parentCommitteeId, cascadePermissions }: { id: string; isGeneral?: boolean; usesShifts?: boolean; isRestricted?: boolean; swapsRequireApproval?: boolean; requiresVerifiedEmail?: boolean; parentCommitteeId?: string | null; cascadePermissions?: boolean }) =>
+      apiRequest("PATCH", `/api/admin/committees/${id}`, { isGeneral, usesShifts, isRestricted, swapsRequireApproval, requiresVerifiedEmail, parentCommitteeId, cascadePermissions }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/committees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committee-tree"] });
       toast({ title: "Comité actualizado", description: "Los cambios se han guardado." });
     },
     onError: (error: any) => {
@@ -77,6 +107,50 @@ export default function AdminPage() {
     },
   });
 
+  const archiveCommitteeMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+      apiRequest("POST", `/api/admin/committees/${id}/${archived ? "archive" : "unarchive"}`),
+    onSuccess: (_, { archived }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/committees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/available-committees"] });
+      setCommitteeToArchive(null);
+      toast({
+        title: archived ? "Comité archivado" : "Comité restaurado",
+        description: archived
+          ? "Queda de solo lectura; sus reportes y documentos siguen disponibles."
+          : "El comité vuelve a estar activo.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo actualizar el comité.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: systemSettings } = useQuery<SystemSettings>({
+    queryKey: ["/api/admin/settings"],
+    enabled: user?.isSuperAdmin,
+  });
+
+  const updateSystemSettingsMutation = useMutation({
+    mutationFn: (data: Partial<SystemSettings>) => apiRequest("PATCH", "/api/admin/settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      toast({ title: "Configuración actualizada", description: "Los cambios se han guardado." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo actualizar la configuración.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createRoleMutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/roles", data),
     onSuccess: () => {
@@ -122,6 +196,7 @@ export default function AdminPage() {
       displayName: "",
       description: "",
       sortOrder: 0,
+      monthlyQuota: "",
     });
   };
 
@@ -133,6 +208,7 @@ export default function AdminPage() {
         displayName: role.displayName,
         description: role.description || "",
         sortOrder: role.sortOrder,
+        monthlyQuota: role.monthlyQuota !== null ? String(role.monthlyQuota) : "",
       });
     } else {
       setEditingRole(null);
@@ -152,6 +228,7 @@ export default function AdminPage() {
       displayName: roleFormData.displayName,
       description: roleFormData.description || null,
       sortOrder: roleFormData.sortOrder,
+      monthlyQuota: roleFormData.monthlyQuota.trim() === "" ? null : parseInt(roleFormData.monthlyQuota) || 0,
     };
 
     if (editingRole) {
@@ -283,7 +360,8 @@ export default function AdminPage() {
             <div>
               <CardTitle>Comités del Sistema</CardTitle>
               <CardDescription>
-                Marca un comité como "General" para permitir que sus consejeros agreguen colaboradores
+                Marca un comité como "General" para permitir que sus consejeros agreguen colaboradores. Con
+                "Heredar permisos", los administradores y líderes del comité superior actúan también en el dependiente
               </CardDescription>
             </div>
           </div>
@@ -304,6 +382,11 @@ export default function AdminPage() {
                     <TableHead className="w-[100px]">General</TableHead>
                     <TableHead className="w-[100px]">Turnos</TableHead>
                     <TableHead className="w-[100px]">Restringido</TableHead>
+                    <TableHead className="w-[120px]">Aprobar intercambios</TableHead>
+                    <TableHead className="w-[120px]">Correo verificado</TableHead>
+                    <TableHead className="w-[200px]">Depende de</TableHead>
+                    <TableHead className="w-[120px]">Heredar permisos</TableHead>
+                    <TableHead className="w-[220px]">Ciclo</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -328,6 +411,11 @@ export default function AdminPage() {
                               Restringido
                             </Badge>
                           )}
+                          {committee.archivedAt && (
+                            <Badge variant="outline">
+                              Archivado
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="hidden sm:table-cell text-muted-foreground">
@@ -339,7 +427,7 @@ export default function AdminPage() {
                           onCheckedChange={(checked) =>
                             updateCommitteeMutation.mutate({ id: committee.id, isGeneral: checked })
                           }
-                          disabled={updateCommitteeMutation.isPending}
+                          disabled={updateCommitteeMutation.isPending || !!committee.archivedAt}
                           data-testid={`switch-general-${committee.id}`}
                         />
                       </TableCell>
@@ -349,7 +437,7 @@ export default function AdminPage() {
                           onCheckedChange={(checked) =>
                             updateCommitteeMutation.mutate({ id: committee.id, usesShifts: checked })
                           }
-                          disabled={updateCommitteeMutation.isPending}
+                          disabled={updateCommitteeMutation.isPending || !!committee.archivedAt}
                           data-testid={`switch-shifts-${committee.id}`}
                         />
                       </TableCell>
@@ -359,10 +447,101 @@ export default function AdminPage() {
                           onCheckedChange={(checked) =>
                             updateCommitteeMutation.mutate({ id: committee.id, isRestricted: checked })
                           }
-                          disabled={updateCommitteeMutation.isPending}
+                          disabled={updateCommitteeMutation.isPending || !!committee.archivedAt}
                           data-testid={`switch-restricted-${committee.id}`}
                         />
                       </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={committee.swapsRequireApproval === true}
+                          onCheckedChange={(checked) =>
+                            updateCommitteeMutation.mutate({ id: committee.id, swapsRequireApproval: checked })
+                          }
+                          disabled={updateCommitteeMutation.isPending || committee.usesShifts === false || !!committee.archivedAt}
+                          data-testid={`switch-swap-approval-${committee.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={committee.requiresVerifiedEmail === true}
+                          onCheckedChange={(checked) =>
+                            updateCommitteeMutation.mutate({ id: committee.id, requiresVerifiedEmail: checked })
+                          }
+                          disabled={updateCommitteeMutation.isPending || !!committee.archivedAt}
+                          data-testid={`switch-verified-email-${committee.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={committee.parentCommitteeId ?? "none"}
+                          onValueChange={(value) =>
+                            updateCommitteeMutation.mutate({
+                              id: committee.id,
+                              parentCommitteeId: value === "none" ? null : value,
+                            })
+                          }
+                          disabled={updateCommitteeMutation.isPending || !!committee.archivedAt}
+                        >
+                          <SelectTrigger className="w-44" data-testid={`select-parent-committee-${committee.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Ninguno</SelectItem>
+                            {committees
+                              .filter((c) => c.id !== committee.id && (!c.archivedAt || c.id === committee.parentCommitteeId))
+                              .map((c) => (
+                                <SelectItem key={c.id} value={c.id}>
+                                  {c.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={committee.cascadePermissions === true}
+                          onCheckedChange={(checked) =>
+                            updateCommitteeMutation.mutate({ id: committee.id, cascadePermissions: checked })
+                          }
+                          disabled={updateCommitteeMutation.isPending || !committee.parentCommitteeId || !!committee.archivedAt}
+                          data-testid={`switch-cascade-permissions-${committee.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {committee.archivedAt ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => archiveCommitteeMutation.mutate({ id: committee.id, archived: false })}
+                              disabled={archiveCommitteeMutation.isPending}
+                              data-testid={`button-unarchive-committee-${committee.id}`}
+                            >
+                              <ArchiveRestore className="h-4 w-4 mr-1" />
+                              Restaurar
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCommitteeToArchive(committee)}
+                              data-testid={`button-archive-committee-${committee.id}`}
+                            >
+                              <Archive className="h-4 w-4 mr-1" />
+                              Archivar
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRolloverSource(committee)}
+                            data-testid={`button-rollover-committee-${committee.id}`}
+                          >
+                            <CalendarPlus className="h-4 w-4 mr-1" />
+                            Nuevo ciclo
+                          </Button>
+                        </div>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -377,6 +556,42 @@ export default function AdminPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Seguridad
+          </CardTitle>
+          <CardDescription>Políticas de acceso para todas las cuentas</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="switch-require-2fa">Verificación en dos pasos obligatoria</Label>
+              <p className="text-sm text-muted-foreground">
+                Super administradores, administradores de comité y la directiva (consejeros y secretarios) deberán
+                configurarla en su próximo inicio de sesión
+              </p>
+            </div>
+            <Switch
+              id="switch-require-2fa"
+              checked={systemSettings?.requireTwoFactorForAdmins === true}
+              onCheckedChange={(checked) => updateSystemSettingsMutation.mutate({ requireTwoFactorForAdmins: checked })}
+              disabled={!systemSettings || updateSystemSettingsMutation.isPending}
+              data-testid="switch-require-2fa"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <PermissionMatrix />
+
+      <LoginLockouts />
+
+      <MemberImport />
+
+      <ClosureManager committeeId={null} allowImport />
+
       <Dialog open={isRoleDialogOpen} onOpenChange={setIsRoleDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
@@ -442,6 +657,22 @@ export default function AdminPage() {
                 Los roles con menor número aparecerán primero.
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="monthlyQuota">Cuota mensual de turnos</Label>
+              <Input
+                id="monthlyQuota"
+                type="number"
+                min={0}
+                value={roleFormData.monthlyQuota}
+                onChange={(e) => setRoleFormData({ ...roleFormData, monthlyQuota: e.target.value })}
+                placeholder="Usar la cuota del comité"
+                data-testid="input-role-monthly-quota"
+              />
+              <p className="text-xs text-muted-foreground">
+                Si se define, reemplaza la cuota mensual del comité para los miembros con este rol.
+              </p>
+            </div>
           </div>
 
           <DialogFooter className="gap-2">
@@ -458,6 +689,33 @@ export default function AdminPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={!!committeeToArchive} onOpenChange={() => setCommitteeToArchive(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Archivar {committeeToArchive?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              El comité quedará de solo lectura y dejará de aparecer en los selectores. Sus reportes, historial y
+              documentos seguirán disponibles, y podrás restaurarlo más adelante.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-archive-committee">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (committeeToArchive) {
+                  archiveCommitteeMutation.mutate({ id: committeeToArchive.id, archived: true });
+                }
+              }}
+              data-testid="button-confirm-archive-committee"
+            >
+              Archivar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CommitteeRolloverWizard committee={rolloverSource} onOpenChange={(open) => !open && setRolloverSource(null)} />
     </div>
   );
 }
@@ -1,9 +1,20 @@
 import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -19,7 +30,11 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ReportDigestDialog } from "@/components/report-digest-dialog";
 import { useAuth } from "@/hooks/use-auth";
+import { useCommitteeShifts } from "@/hooks/use-committee-shifts";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   ChevronLeft,
   ChevronRight,
@@ -29,8 +44,17 @@ import {
   FileSpreadsheet,
   Sun,
   Sunset,
+  Clock,
   FileText,
   Table2,
+  Plus,
+  Pencil,
+  Trash2,
+  History,
+  MapPin,
+  MapPinOff,
+  QrCode,
+  Mail,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -47,22 +71,89 @@ import {
   parseISO,
 } from "date-fns";
 import { es } from "date-fns/locale";
-import type { Committee } from "@shared/schema";
+import type { AttendanceAuditLog, Committee, CommitteeMember } from "@shared/schema";
+import type { User } from "@shared/models/auth";
+import type { Capability } from "@shared/permissions";
+import {
+  attendanceStatusLabels,
+  checkInVerificationLabels,
+  MANUAL_ATTENDANCE_STATUSES,
+  type AttendanceStatus,
+  type CheckInVerification,
+} from "@shared/attendance-status";
 
 interface AttendanceReportItem {
   id: string;
   date: string;
   shift: string;
+  shiftName: string;
+  shiftStart: string | null;
+  shiftEnd: string | null;
   userId: string;
   userName: string;
   userEmail: string;
   registeredAt: string;
+  status: AttendanceStatus;
+  checkedInAt: string | null;
+  checkInVerification: CheckInVerification | null;
+  checkInDistanceMeters: number | null;
+  excuseNote: string | null;
 }
 
+const verificationVariants: Record<CheckInVerification, "default" | "secondary" | "destructive" | "outline"> = {
+  on_site: "default",
+  remote: "destructive",
+  no_location: "outline",
+  not_required: "secondary",
+  kiosk: "default",
+  manual: "outline",
+};
+
+const statusVariants: Partial<Record<AttendanceStatus, "default" | "secondary" | "destructive" | "outline">> = {
+  scheduled: "outline",
+  attended: "default",
+  late: "secondary",
+  no_show: "destructive",
+  excused: "secondary",
+};
+
+function getVerificationText(item: AttendanceReportItem): string {
+  if (!item.checkInVerification) return item.status === "scheduled" ? "Pendiente" : "Sin registro";
+  const label = checkInVerificationLabels[item.checkInVerification];
+  return item.checkInVerification === "remote" && item.checkInDistanceMeters !== null
+    ? `${label} (${item.checkInDistanceMeters} m)`
+    : label;
+}
+
+type ManualStatus = (typeof MANUAL_ATTENDANCE_STATUSES)[number];
+
+interface ManualAttendanceForm {
+  userId: string;
+  date: string;
+  shift: string;
+  status: ManualStatus;
+  justification: string;
+}
+
+interface MemberWithUser extends CommitteeMember {
+  user?: User;
+}
+
+interface AuditLogWithActor extends AttendanceAuditLog {
+  actor?: User;
+}
+
+const auditActionLabels: Record<string, string> = {
+  created: "registró la asistencia",
+  updated: "modificó la asistencia",
+  removed: "eliminó la asistencia",
+};
+
 interface MembershipWithCommittee {
   id: string;
   committeeId: string;
   isAdmin: boolean;
+  capabilities: Capability[];
   committee?: Committee;
 }
 
@@ -70,6 +161,22 @@ export default function AttendanceReportsPage() {
   const [selectedWeek, setSelectedWeek] = useState(new Date());
   const [selectedCommittee, setSelectedCommittee] = useState<string>("");
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [excuseItem, setExcuseItem] = useState<AttendanceReportItem | null>(null);
+  const [excuseNote, setExcuseNote] = useState("");
+  const [manualDialogOpen, setManualDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<AttendanceReportItem | null>(null);
+  const [manualForm, setManualForm] = useState<ManualAttendanceForm>({
+    userId: "",
+    date: format(new Date(), "yyyy-MM-dd"),
+    shift: "",
+    status: "attended",
+    justification: "",
+  });
+  const [removeItem, setRemoveItem] = useState<AttendanceReportItem | null>(null);
+  const [removeJustification, setRemoveJustification] = useState("");
+  const [historyItem, setHistoryItem] = useState<AttendanceReportItem | null>(null);
+  const [digestDialogOpen, setDigestDialogOpen] = useState(false);
 
   const { data: memberships } = useQuery<MembershipWithCommittee[]>({
     queryKey: ["/api/my-memberships"],
@@ -85,7 +192,7 @@ export default function AttendanceReportsPage() {
     }
     return (
       memberships
-        ?.filter((m) => m.isAdmin && m.committee)
+        ?.filter((m) => m.capabilities.includes("reports.view") && m.committee)
         .map((m) => m.committee!) || []
     );
   }, [memberships, committees, user?.isSuperAdmin]);
@@ -100,165 +207,134 @@ export default function AttendanceReportsPage() {
       format(weekStart, "yyyy-MM-dd"),
       format(weekEnd, "yyyy-MM-dd"),
     ],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        committeeId: selectedCommittee,
+        startDate: format(weekStart, "yyyy-MM-dd"),
+        endDate: format(weekEnd, "yyyy-MM-dd"),
+      });
+      const response = await fetch(`/api/attendance-report?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch attendance report");
+      return response.json();
+    },
     enabled: !!selectedCommittee,
   });
 
-  const shiftLabels: Record<string, string> = {
-    morning: "Mañana",
-    afternoon: "Tarde",
-    full_day: "Día completo",
-  };
+  const { data: members } = useQuery<MemberWithUser[]>({
+    queryKey: ["/api/committees", selectedCommittee, "members"],
+    enabled: !!selectedCommittee,
+  });
 
-  const handleDownloadCSV = () => {
-    if (!report || report.length === 0) return;
+  const { shifts } = useCommitteeShifts(selectedCommittee || undefined);
 
-    const selectedCommitteeData = adminCommittees.find(
-      (c) => c.id === selectedCommittee
-    );
+  const { data: auditLog, isLoading: auditLogLoading } = useQuery<AuditLogWithActor[]>({
+    queryKey: ["/api/attendances", historyItem?.id, "audit-log"],
+    enabled: !!historyItem,
+  });
 
-    const headers = ["Fecha", "Turno", "Nombre", "Email", "Registrado"];
-    const rows = report.map((item) => [
-      format(parseISO(item.date), "dd/MM/yyyy"),
-      shiftLabels[item.shift] || item.shift,
-      item.userName,
-      item.userEmail,
-      format(parseISO(item.registeredAt), "dd/MM/yyyy HH:mm"),
-    ]);
-
-    const csvContent = [headers.join(","), ...rows.map((r) => r.join(","))].join(
-      "\n"
-    );
+  const onManualChangeSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/attendance-report"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/attendances"] });
+    toast({ title });
+  };
 
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `asistencias_${selectedCommitteeData?.name || "comite"}_${format(
-        weekStart,
-        "yyyy-MM-dd"
-      )}_${format(weekEnd, "yyyy-MM-dd")}.csv`
-    );
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const onManualChangeError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
   };
 
-  const handleDownloadExcel = () => {
-    if (!report || report.length === 0) return;
+  const saveManualMutation = useMutation({
+    mutationFn: async () => {
+      const response = editingItem
+        ? await apiRequest("PATCH", `/api/attendances/${editingItem.id}/manual`, {
+            status: manualForm.status,
+            justification: manualForm.justification.trim(),
+          })
+        : await apiRequest("POST", `/api/committees/${selectedCommittee}/attendances/manual`, {
+            ...manualForm,
+            justification: manualForm.justification.trim(),
+          });
+      return response.json();
+    },
+    onSuccess: () => {
+      onManualChangeSuccess(editingItem ? "Asistencia actualizada" : "Asistencia registrada");
+      setManualDialogOpen(false);
+    },
+    onError: onManualChangeError("No se pudo guardar la asistencia"),
+  });
 
-    const selectedCommitteeData = adminCommittees.find(
-      (c) => c.id === selectedCommittee
-    );
+  const removeManualMutation = useMutation({
+    mutationFn: async ({ id, justification }: { id: string; justification: string }) => {
+      const response = await apiRequest("DELETE", `/api/attendances/${id}/manual`, { justification });
+      return response.json();
+    },
+    onSuccess: () => {
+      onManualChangeSuccess("Asistencia eliminada");
+      setRemoveItem(null);
+      setRemoveJustification("");
+    },
+    onError: onManualChangeError("No se pudo eliminar la asistencia"),
+  });
 
-    const headers = ["Fecha", "Turno", "Nombre", "Email", "Registrado"];
-    const rows = report.map((item) => [
-      format(parseISO(item.date), "dd/MM/yyyy"),
-      shiftLabels[item.shift] || item.shift,
-      item.userName,
-      item.userEmail,
-      format(parseISO(item.registeredAt), "dd/MM/yyyy HH:mm"),
-    ]);
-
-    const excelContent = [headers.join("\t"), ...rows.map((r) => r.join("\t"))].join("\n");
-
-    const blob = new Blob([excelContent], { type: "application/vnd.ms-excel;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `asistencias_${selectedCommitteeData?.name || "comite"}_${format(
-        weekStart,
-        "yyyy-MM-dd"
-      )}_${format(weekEnd, "yyyy-MM-dd")}.xls`
-    );
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const openManualCreate = () => {
+    setEditingItem(null);
+    setManualForm({
+      userId: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      shift: shifts[0]?.key ?? "",
+      status: "attended",
+      justification: "",
+    });
+    setManualDialogOpen(true);
   };
 
-  const escapeHtml = (text: string): string => {
-    const div = document.createElement("div");
-    div.textContent = text;
-    return div.innerHTML;
+  const openManualEdit = (item: AttendanceReportItem) => {
+    setEditingItem(item);
+    setManualForm({
+      userId: item.userId,
+      date: item.date,
+      shift: item.shift,
+      status: (MANUAL_ATTENDANCE_STATUSES as readonly string[]).includes(item.status)
+        ? (item.status as ManualStatus)
+        : "attended",
+      justification: "",
+    });
+    setManualDialogOpen(true);
   };
 
-  const handleDownloadPDF = () => {
-    if (!report || report.length === 0) return;
-
-    const selectedCommitteeData = adminCommittees.find(
-      (c) => c.id === selectedCommittee
-    );
+  const excuseMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note: string }) => {
+      const response = await apiRequest("PATCH", `/api/attendances/${id}/excuse`, { note });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance-report"] });
+      setExcuseItem(null);
+      setExcuseNote("");
+      toast({ title: "Inasistencia justificada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo justificar la inasistencia",
+        variant: "destructive",
+      });
+    },
+  });
 
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
-
-    const committeeName = escapeHtml(selectedCommitteeData?.name || "Comite");
-    const weekRange = `${format(weekStart, "d MMM", { locale: es })} - ${format(weekEnd, "d MMM yyyy", { locale: es })}`;
-
-    const tableRows = report.map((item) => `
-      <tr>
-        <td>${format(parseISO(item.date), "dd/MM/yyyy")}</td>
-        <td>${escapeHtml(shiftLabels[item.shift] || item.shift)}</td>
-        <td>${escapeHtml(item.userName)}</td>
-        <td>${escapeHtml(item.userEmail)}</td>
-        <td>${format(parseISO(item.registeredAt), "dd/MM/yyyy HH:mm")}</td>
-      </tr>
-    `).join("");
-
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Reporte de Asistencias - ${committeeName}</title>
-          <style>
-            body { font-family: Arial, sans-serif; margin: 20px; }
-            h1 { text-align: center; color: #333; }
-            h2 { color: #666; margin-top: 10px; }
-            table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-            th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-            th { background-color: #4f46e5; color: white; }
-            tr:nth-child(even) { background-color: #f9f9f9; }
-            .header-info { text-align: center; color: #666; margin-bottom: 20px; }
-            @media print {
-              body { margin: 0; }
-              button { display: none; }
-            }
-          </style>
-        </head>
-        <body>
-          <h1>Reporte de Asistencias</h1>
-          <div class="header-info">
-            <strong>${committeeName}</strong><br/>
-            Semana: ${weekRange}
-          </div>
-          <table>
-            <thead>
-              <tr>
-                <th>Fecha</th>
-                <th>Turno</th>
-                <th>Nombre</th>
-                <th>Email</th>
-                <th>Registrado</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${tableRows}
-            </tbody>
-          </table>
-          <script>
-            window.onload = function() { window.print(); }
-          </script>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(htmlContent);
-    printWindow.document.close();
+  // Files are generated on the server so they carry the committee logo, per-member totals
+  // and a printable layout; the browser just follows the download link
+  const getDownloadUrl = (fileFormat: "csv" | "xlsx" | "pdf") => {
+    const params = new URLSearchParams({
+      committeeId: selectedCommittee,
+      startDate: format(weekStart, "yyyy-MM-dd"),
+      endDate: format(weekEnd, "yyyy-MM-dd"),
+      format: fileFormat,
+    });
+    return `/api/attendance-report?${params}`;
   };
 
   const groupedByDate = useMemo(() => {
@@ -272,9 +348,10 @@ export default function AttendanceReportsPage() {
     }, {} as Record<string, AttendanceReportItem[]>);
   }, [report]);
 
-  const isAdmin =
+  // Viewing reports and correcting attendance are separate permissions
+  const canManageAttendance =
     user?.isSuperAdmin ||
-    memberships?.some((m) => m.committeeId === selectedCommittee && m.isAdmin);
+    memberships?.some((m) => m.committeeId === selectedCommittee && m.capabilities.includes("attendance.manage"));
 
   if (!user?.isSuperAdmin && adminCommittees.length === 0) {
     return (
@@ -310,6 +387,12 @@ export default function AttendanceReportsPage() {
             Ver y descargar las listas de asistencia por semana
           </p>
         </div>
+        {selectedCommittee && (
+          <Button variant="outline" onClick={() => setDigestDialogOpen(true)} data-testid="button-report-digest">
+            <Mail className="mr-2 h-4 w-4" />
+            Resumen por correo
+          </Button>
+        )}
       </div>
 
       <Card>
@@ -331,6 +414,7 @@ export default function AttendanceReportsPage() {
                   {adminCommittees.map((committee) => (
                     <SelectItem key={committee.id} value={committee.id}>
                       {committee.name}
+                      {committee.archivedAt && " (archivado)"}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -397,30 +481,44 @@ export default function AttendanceReportsPage() {
                 {report?.length || 0} registros en esta semana
               </CardDescription>
             </div>
-            {report && report.length > 0 && (
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button data-testid="button-download">
-                    <Download className="mr-2 h-4 w-4" />
-                    Descargar
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={handleDownloadCSV} data-testid="menu-download-csv">
-                    <FileSpreadsheet className="mr-2 h-4 w-4" />
-                    Descargar CSV
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleDownloadExcel} data-testid="menu-download-excel">
-                    <Table2 className="mr-2 h-4 w-4" />
-                    Descargar Excel
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleDownloadPDF} data-testid="menu-download-pdf">
-                    <FileText className="mr-2 h-4 w-4" />
-                    Descargar PDF
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
-            )}
+            <div className="flex items-center gap-2">
+              {canManageAttendance && (
+                <Button variant="outline" onClick={openManualCreate} data-testid="button-add-manual-attendance">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Registrar asistencia
+                </Button>
+              )}
+              {report && report.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button data-testid="button-download">
+                      <Download className="mr-2 h-4 w-4" />
+                      Descargar
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem asChild data-testid="menu-download-csv">
+                      <a href={getDownloadUrl("csv")} download>
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Descargar CSV
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild data-testid="menu-download-excel">
+                      <a href={getDownloadUrl("xlsx")} download>
+                        <Table2 className="mr-2 h-4 w-4" />
+                        Descargar Excel
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild data-testid="menu-download-pdf">
+                      <a href={getDownloadUrl("pdf")} download>
+                        <FileText className="mr-2 h-4 w-4" />
+                        Descargar PDF
+                      </a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             {!report || report.length === 0 ? (
@@ -448,15 +546,13 @@ export default function AttendanceReportsPage() {
                             <TableHead>Nombre</TableHead>
                             <TableHead>Email</TableHead>
                             <TableHead>Registrado</TableHead>
+                            <TableHead>Estado</TableHead>
+                            <TableHead>Verificación</TableHead>
+                            <TableHead className="text-right">Acciones</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {items
-                            .sort((a, b) =>
-                              a.shift === "morning" && b.shift !== "morning"
-                                ? -1
-                                : 1
-                            )
                             .map((item) => (
                               <TableRow
                                 key={item.id}
@@ -470,13 +566,16 @@ export default function AttendanceReportsPage() {
                                         : "secondary"
                                     }
                                     className="flex items-center gap-1 w-fit"
+                                    title={item.shiftStart ? `${item.shiftStart} - ${item.shiftEnd}` : undefined}
                                   >
                                     {item.shift === "morning" ? (
                                       <Sun className="h-3 w-3" />
-                                    ) : (
+                                    ) : item.shift === "afternoon" ? (
                                       <Sunset className="h-3 w-3" />
+                                    ) : (
+                                      <Clock className="h-3 w-3" />
                                     )}
-                                    {shiftLabels[item.shift] || item.shift}
+                                    {item.shiftName}
                                   </Badge>
                                 </TableCell>
                                 <TableCell className="font-medium">
@@ -488,6 +587,79 @@ export default function AttendanceReportsPage() {
                                 <TableCell className="text-muted-foreground text-sm">
                                   {format(parseISO(item.registeredAt), "HH:mm")}
                                 </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-2">
+                                    <Badge
+                                      variant={statusVariants[item.status] ?? "outline"}
+                                      title={item.excuseNote ?? undefined}
+                                    >
+                                      {attendanceStatusLabels[item.status]}
+                                    </Badge>
+                                    {item.status === "no_show" && canManageAttendance && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setExcuseItem(item)}
+                                        data-testid={`button-excuse-${item.id}`}
+                                      >
+                                        Justificar
+                                      </Button>
+                                    )}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  {item.checkInVerification ? (
+                                    <Badge
+                                      variant={verificationVariants[item.checkInVerification]}
+                                      className="flex items-center gap-1 w-fit"
+                                      title={item.checkedInAt ? `Confirmado a las ${format(parseISO(item.checkedInAt), "HH:mm")}` : undefined}
+                                    >
+                                      {item.checkInVerification === "on_site" ? (
+                                        <MapPin className="h-3 w-3" />
+                                      ) : item.checkInVerification === "kiosk" ? (
+                                        <QrCode className="h-3 w-3" />
+                                      ) : item.checkInVerification === "remote" ? (
+                                        <MapPinOff className="h-3 w-3" />
+                                      ) : null}
+                                      {getVerificationText(item)}
+                                    </Badge>
+                                  ) : (
+                                    <span className="text-sm text-muted-foreground">{getVerificationText(item)}</span>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {canManageAttendance && (
+                                    <div className="flex justify-end gap-1">
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Editar"
+                                        onClick={() => openManualEdit(item)}
+                                        data-testid={`button-edit-attendance-${item.id}`}
+                                      >
+                                        <Pencil className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Historial"
+                                        onClick={() => setHistoryItem(item)}
+                                        data-testid={`button-history-attendance-${item.id}`}
+                                      >
+                                        <History className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Eliminar"
+                                        onClick={() => setRemoveItem(item)}
+                                        data-testid={`button-remove-attendance-${item.id}`}
+                                      >
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </div>
+                                  )}
+                                </TableCell>
                               </TableRow>
                             ))}
                         </TableBody>
@@ -499,6 +671,255 @@ export default function AttendanceReportsPage() {
           </CardContent>
         </Card>
       )}
+
+      <Dialog
+        open={!!excuseItem}
+        onOpenChange={(open) => {
+          if (!open) {
+            setExcuseItem(null);
+            setExcuseNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Justificar inasistencia</DialogTitle>
+            <DialogDescription>
+              {excuseItem &&
+                `${excuseItem.userName} · ${format(parseISO(excuseItem.date), "EEEE, d MMM", { locale: es })} · ${excuseItem.shiftName}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="excuse-note">Justificación</Label>
+            <Textarea
+              id="excuse-note"
+              placeholder="Ej. Incapacidad médica presentada el lunes"
+              value={excuseNote}
+              onChange={(e) => setExcuseNote(e.target.value)}
+              data-testid="input-excuse-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExcuseItem(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => excuseItem && excuseMutation.mutate({ id: excuseItem.id, note: excuseNote.trim() })}
+              disabled={!excuseNote.trim() || excuseMutation.isPending}
+              data-testid="button-confirm-excuse"
+            >
+              Justificar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={manualDialogOpen} onOpenChange={setManualDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Editar asistencia" : "Registrar asistencia"}</DialogTitle>
+            <DialogDescription>
+              {editingItem
+                ? `${editingItem.userName} · ${format(parseISO(editingItem.date), "EEEE, d MMM", { locale: es })} · ${editingItem.shiftName}`
+                : "Registra la asistencia de un miembro que no pudo confirmarla desde la app"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editingItem && (
+              <>
+                <div className="space-y-2">
+                  <Label>Miembro</Label>
+                  <Select
+                    value={manualForm.userId}
+                    onValueChange={(value) => setManualForm({ ...manualForm, userId: value })}
+                  >
+                    <SelectTrigger data-testid="select-manual-member">
+                      <SelectValue placeholder="Selecciona un miembro" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members?.map((member) => (
+                        <SelectItem key={member.id} value={member.userId}>
+                          {member.user ? `${member.user.firstName} ${member.user.lastName}` : member.userId}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="manual-date">Fecha</Label>
+                    <Input
+                      id="manual-date"
+                      type="date"
+                      value={manualForm.date}
+                      onChange={(e) => setManualForm({ ...manualForm, date: e.target.value })}
+                      data-testid="input-manual-date"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Turno</Label>
+                    <Select
+                      value={manualForm.shift}
+                      onValueChange={(value) => setManualForm({ ...manualForm, shift: value })}
+                    >
+                      <SelectTrigger data-testid="select-manual-shift">
+                        <SelectValue placeholder="Turno" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {shifts.map((shift) => (
+                          <SelectItem key={shift.key} value={shift.key}>
+                            {shift.name} ({shift.startTime} - {shift.endTime})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Estado</Label>
+              <Select
+                value={manualForm.status}
+                onValueChange={(value) => setManualForm({ ...manualForm, status: value as ManualStatus })}
+              >
+                <SelectTrigger data-testid="select-manual-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_ATTENDANCE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {attendanceStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-justification">Justificación</Label>
+              <Textarea
+                id="manual-justification"
+                placeholder="Ej. El teléfono del miembro se quedó sin batería"
+                value={manualForm.justification}
+                onChange={(e) => setManualForm({ ...manualForm, justification: e.target.value })}
+                data-testid="input-manual-justification"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setManualDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveManualMutation.mutate()}
+              disabled={
+                !manualForm.justification.trim() ||
+                (!editingItem && (!manualForm.userId || !manualForm.date || !manualForm.shift)) ||
+                saveManualMutation.isPending
+              }
+              data-testid="button-save-manual-attendance"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!removeItem}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRemoveItem(null);
+            setRemoveJustification("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Eliminar asistencia</DialogTitle>
+            <DialogDescription>
+              {removeItem &&
+                `${removeItem.userName} · ${format(parseISO(removeItem.date), "EEEE, d MMM", { locale: es })} · ${removeItem.shiftName}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="remove-justification">Justificación</Label>
+            <Textarea
+              id="remove-justification"
+              placeholder="Ej. Registro duplicado"
+              value={removeJustification}
+              onChange={(e) => setRemoveJustification(e.target.value)}
+              data-testid="input-remove-justification"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemoveItem(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                removeItem && removeManualMutation.mutate({ id: removeItem.id, justification: removeJustification.trim() })
+              }
+              disabled={!removeJustification.trim() || removeManualMutation.isPending}
+              data-testid="button-confirm-remove-attendance"
+            >
+              Eliminar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial de cambios</DialogTitle>
+            <DialogDescription>
+              {historyItem &&
+                `${historyItem.userName} · ${format(parseISO(historyItem.date), "EEEE, d MMM", { locale: es })} · ${historyItem.shiftName}`}
+            </DialogDescription>
+          </DialogHeader>
+          {auditLogLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : auditLog && auditLog.length > 0 ? (
+            <div className="space-y-3">
+              {auditLog.map((entry) => (
+                <div key={entry.id} className="rounded-md border p-3 text-sm" data-testid={`audit-entry-${entry.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {entry.actor ? `${entry.actor.firstName} ${entry.actor.lastName}` : "Administrador"}{" "}
+                      {auditActionLabels[entry.action] ?? entry.action}
+                    </span>
+                    {entry.createdAt && (
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm")}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">
+                    {entry.previousStatus
+                      ? `${attendanceStatusLabels[entry.previousStatus as AttendanceStatus] ?? entry.previousStatus} → `
+                      : ""}
+                    {attendanceStatusLabels[entry.newStatus as AttendanceStatus] ?? entry.newStatus}
+                  </p>
+                  <p className="mt-1">{entry.justification}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Esta asistencia no tiene cambios registrados por administradores
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ReportDigestDialog
+        committeeId={selectedCommittee}
+        committeeName={adminCommittees.find((c) => c.id === selectedCommittee)?.name}
+        open={digestDialogOpen}
+        onOpenChange={setDigestDialogOpen}
+      />
     </div>
   );
 }
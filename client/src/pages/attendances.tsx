@@ -1,9 +1,20 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -12,8 +23,10 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ShiftSwapBoard, type ShiftSwapWithDetails } from "@/components/shift-swap-board";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getCurrentLocation } from "@/lib/geolocation";
 import { format, parseISO, isPast, isFuture, isToday } from "date-fns";
 import { es } from "date-fns/locale";
 import {
@@ -25,20 +38,38 @@ import {
   History,
   AlertCircle,
   CheckCircle2,
+  Repeat,
 } from "lucide-react";
 import type { Attendance, AttendanceSlot, Committee } from "@shared/schema";
+import { getShiftName, isWithinShift, type CommitteeShift } from "@shared/shifts";
+import { attendanceStatusLabels, isPresentStatus, type AttendanceStatus } from "@shared/attendance-status";
 
 interface AttendanceWithDetails extends Attendance {
   slot?: AttendanceSlot & { committee?: Committee };
+  shiftDetails?: CommitteeShift | null;
+  waitlistPosition?: number | null;
 }
 
 export default function AttendancesPage() {
   const { toast } = useToast();
 
+  const [swapAttendance, setSwapAttendance] = useState<AttendanceWithDetails | null>(null);
+  const [swapNote, setSwapNote] = useState("");
+
   const { data: attendances, isLoading } = useQuery<AttendanceWithDetails[]>({
     queryKey: ["/api/my-attendances"],
   });
 
+  const { data: mySwaps } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/my-shift-swaps"],
+  });
+
+  const offeredAttendanceIds = new Set(
+    mySwaps
+      ?.filter((s) => s.status === "open" || s.status === "pending_approval")
+      .map((s) => s.attendanceId)
+  );
+
   const cancelMutation = useMutation({
     mutationFn: async (attendanceId: string) => {
       const response = await apiRequest("DELETE", `/api/attendances/${attendanceId}`);
@@ -63,14 +94,20 @@ export default function AttendancesPage() {
 
   const confirmMutation = useMutation({
     mutationFn: async (attendanceId: string) => {
-      const response = await apiRequest("PATCH", `/api/attendances/${attendanceId}/confirm`);
+      const location = await getCurrentLocation();
+      const response = await apiRequest("PATCH", `/api/attendances/${attendanceId}/confirm`, location ?? {});
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (attendance: Attendance) => {
       queryClient.invalidateQueries({ queryKey: ["/api/my-attendances"] });
       toast({
         title: "Asistencia confirmada",
-        description: "Tu asistencia ha sido confirmada correctamente",
+        description:
+          attendance.checkInVerification === "remote"
+            ? "Tu ubicación está fuera de la oficina del comité; la asistencia quedó marcada como remota"
+            : attendance.checkInVerification === "no_location"
+              ? "No se pudo obtener tu ubicación; la asistencia quedó registrada sin verificar"
+              : "Tu asistencia ha sido confirmada correctamente",
       });
     },
     onError: (error: any) => {
@@ -82,33 +119,38 @@ export default function AttendancesPage() {
     },
   });
 
+  const offerSwapMutation = useMutation({
+    mutationFn: async ({ attendanceId, note }: { attendanceId: string; note: string }) => {
+      const response = await apiRequest("POST", `/api/attendances/${attendanceId}/swap`, { note });
+      return response.json();
+    },
+    onSuccess: (swap: ShiftSwapWithDetails) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-shift-swaps"] });
+      setSwapAttendance(null);
+      setSwapNote("");
+      toast({
+        title: "Turno ofrecido",
+        description: swap.requiresApproval
+          ? "Cuando un compañero lo acepte, el administrador deberá aprobar el intercambio"
+          : "El turno pasará al primer compañero que lo acepte",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo ofrecer el turno",
+        variant: "destructive",
+      });
+    },
+  });
+
   const isWithinShiftHours = (attendance: AttendanceWithDetails): boolean => {
-    if (!attendance.slot?.date || !attendance.slot?.committee) return false;
+    if (!attendance.slot?.date || !attendance.shiftDetails) return false;
     
     const slotDate = parseISO(attendance.slot.date);
     if (!isToday(slotDate)) return false;
     
-    const now = new Date();
-    const currentHours = now.getHours();
-    const currentMinutes = now.getMinutes();
-    const currentTime = currentHours * 60 + currentMinutes;
-    
-    const committee = attendance.slot.committee;
-    let startTime: number, endTime: number;
-    
-    if (attendance.slot.shift === "morning") {
-      const [startH, startM] = (committee.morningStart || "09:00").split(":").map(Number);
-      const [endH, endM] = (committee.morningEnd || "13:00").split(":").map(Number);
-      startTime = startH * 60 + startM;
-      endTime = endH * 60 + endM;
-    } else {
-      const [startH, startM] = (committee.afternoonStart || "14:00").split(":").map(Number);
-      const [endH, endM] = (committee.afternoonEnd || "18:00").split(":").map(Number);
-      startTime = startH * 60 + startM;
-      endTime = endH * 60 + endM;
-    }
-    
-    return currentTime >= startTime && currentTime <= endTime;
+    return isWithinShift(attendance.shiftDetails, new Date());
   };
 
   const getConfirmButtonState = (attendance: AttendanceWithDetails): { enabled: boolean; reason: string } => {
@@ -124,38 +166,25 @@ export default function AttendancesPage() {
     }
     
     if (!isWithinShiftHours(attendance)) {
-      const committee = attendance.slot.committee;
-      if (attendance.slot.shift === "morning") {
-        return { enabled: false, reason: `Disponible ${committee?.morningStart} - ${committee?.morningEnd}` };
-      }
-      return { enabled: false, reason: `Disponible ${committee?.afternoonStart} - ${committee?.afternoonEnd}` };
+      const shift = attendance.shiftDetails;
+      return { enabled: false, reason: shift ? `Disponible ${shift.startTime} - ${shift.endTime}` : "Turno no configurado" };
     }
     
     return { enabled: true, reason: "" };
   };
 
-  const shiftLabels: Record<string, string> = {
-    morning: "Mañana",
-    afternoon: "Tarde",
-    full_day: "Día completo",
-  };
-
-  const statusLabels: Record<string, string> = {
-    confirmed: "Confirmado",
-    cancelled: "Cancelado",
-    attended: "Asistió",
-    absent: "Ausente",
-  };
-
-  const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
-    confirmed: "default",
+  const statusVariants: Record<AttendanceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+    scheduled: "default",
+    waitlisted: "outline",
     cancelled: "secondary",
     attended: "default",
-    absent: "destructive",
+    late: "outline",
+    no_show: "destructive",
+    excused: "secondary",
   };
 
   const upcomingAttendances = attendances?.filter(
-    (a) => a.status === "confirmed" && a.slot && isFuture(parseISO(a.slot.date))
+    (a) => (a.status === "scheduled" || a.status === "waitlisted") && a.slot && isFuture(parseISO(a.slot.date))
   ) || [];
 
   const pastAttendances = attendances?.filter(
@@ -220,20 +249,24 @@ export default function AttendancesPage() {
                   <Clock className="h-4 w-4 text-muted-foreground" />
                   <span>
                     {attendance.slot
-                      ? shiftLabels[attendance.slot.shift]
+                      ? attendance.shiftDetails?.name ?? getShiftName(undefined, attendance.slot.shift)
                       : "—"}
                   </span>
                 </div>
               </TableCell>
               <TableCell>
-                <Badge variant={statusVariants[attendance.status]}>
-                  {statusLabels[attendance.status] || attendance.status}
+                <Badge
+                  variant={statusVariants[attendance.status]}
+                  title={attendance.status === "excused" ? attendance.excuseNote ?? undefined : undefined}
+                >
+                  {attendanceStatusLabels[attendance.status] || attendance.status}
+                  {attendance.status === "waitlisted" && attendance.waitlistPosition && ` · #${attendance.waitlistPosition}`}
                 </Badge>
               </TableCell>
               {showCancel && (
                 <TableCell className="text-right">
                   <div className="flex items-center justify-end gap-2 flex-wrap">
-                    {attendance.status === "confirmed" && (
+                    {attendance.status === "scheduled" && (
                       <>
                         {(() => {
                           const confirmState = getConfirmButtonState(attendance);
@@ -257,7 +290,22 @@ export default function AttendancesPage() {
                         })()}
                       </>
                     )}
-                    {attendance.status === "attended" && (
+                    {attendance.status === "scheduled" && (
+                      offeredAttendanceIds.has(attendance.id) ? (
+                        <Badge variant="outline">En intercambio</Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSwapAttendance(attendance)}
+                          data-testid={`button-offer-swap-${attendance.id}`}
+                        >
+                          <Repeat className="mr-1 h-3 w-3" />
+                          Ofrecer intercambio
+                        </Button>
+                      )
+                    )}
+                    {isPresentStatus(attendance.status) && (
                       <Badge variant="default">Asistencia confirmada</Badge>
                     )}
                     <Button
@@ -358,6 +406,10 @@ export default function AttendancesPage() {
             <AlertCircle className="mr-2 h-4 w-4" />
             Canceladas ({cancelledAttendances.length})
           </TabsTrigger>
+          <TabsTrigger value="swaps" data-testid="tab-swaps">
+            <Repeat className="mr-2 h-4 w-4" />
+            Intercambios
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="upcoming">
@@ -425,7 +477,45 @@ export default function AttendancesPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="swaps">
+          <ShiftSwapBoard />
+        </TabsContent>
       </Tabs>
+
+      <Dialog open={!!swapAttendance} onOpenChange={(open) => !open && setSwapAttendance(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ofrecer intercambio</DialogTitle>
+            <DialogDescription>
+              {swapAttendance?.slot &&
+                `${format(parseISO(swapAttendance.slot.date), "EEEE, d MMM", { locale: es })} · ${swapAttendance.shiftDetails?.name ?? getShiftName(undefined, swapAttendance.slot.shift)}`}
+              . Seguirás registrado hasta que un compañero tome el turno.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="swap-note">Nota para tus compañeros (opcional)</Label>
+            <Textarea
+              id="swap-note"
+              value={swapNote}
+              onChange={(e) => setSwapNote(e.target.value)}
+              data-testid="input-swap-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSwapAttendance(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => swapAttendance && offerSwapMutation.mutate({ attendanceId: swapAttendance.id, note: swapNote })}
+              disabled={offerSwapMutation.isPending}
+              data-testid="button-confirm-offer-swap"
+            >
+              Ofrecer turno
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
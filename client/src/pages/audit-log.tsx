@@ -0,0 +1,420 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Download, ScrollText } from "lucide-react";
+import type { AuditEvent, Committee } from "@shared/schema";
+import type { Capability } from "@shared/permissions";
+
+type AuditEventWithNames = AuditEvent & {
+  actor: { id: string; firstName: string | null; lastName: string | null; email: string } | null;
+  committee: { id: string; name: string } | null;
+};
+
+interface AuditEventPage {
+  events: AuditEventWithNames[];
+  hasMore: boolean;
+}
+
+interface MembershipWithCommittee {
+  id: string;
+  committeeId: string;
+  capabilities: Capability[];
+  committee?: Committee;
+}
+
+const entityLabels: Record<string, string> = {
+  committees: "Comités",
+  "committee-members": "Miembros",
+  "attendance-slots": "Horarios",
+  attendances: "Asistencias",
+  "shift-swaps": "Intercambios",
+  "shift-definitions": "Turnos",
+  "slot-templates": "Plantillas",
+  closures: "Días inhábiles",
+  activities: "Actividades",
+  "activity-attendances": "Asistencia a actividades",
+  teams: "Equipos",
+  documents: "Documentos",
+  roles: "Cargos",
+  permissions: "Permisos",
+  settings: "Configuración",
+  users: "Usuarios",
+  members: "Importación de miembros",
+  lockouts: "Bloqueos",
+  auth: "Cuenta",
+};
+
+const actionLabels: Record<string, string> = {
+  create: "Creación",
+  update: "Modificación",
+  delete: "Eliminación",
+};
+
+const ALL = "all";
+
+function formatName(actor: AuditEventWithNames["actor"]) {
+  if (!actor) return "Usuario eliminado";
+  return [actor.firstName, actor.lastName].filter(Boolean).join(" ") || actor.email;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function AuditLogPage() {
+  const { user } = useAuth();
+  const [committeeId, setCommitteeId] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [actor, setActor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedEvent, setSelectedEvent] = useState<AuditEventWithNames | null>(null);
+
+  const { data: memberships } = useQuery<MembershipWithCommittee[]>({
+    queryKey: ["/api/my-memberships"],
+  });
+
+  const { data: committees } = useQuery<Committee[]>({
+    queryKey: ["/api/available-committees"],
+    enabled: !!user?.isSuperAdmin,
+  });
+
+  const auditCommittees = useMemo(() => {
+    if (user?.isSuperAdmin) {
+      return committees || [];
+    }
+    return (
+      memberships
+        ?.filter((m) => m.capabilities.includes("audit.view") && m.committee)
+        .map((m) => m.committee!) || []
+    );
+  }, [memberships, committees, user?.isSuperAdmin]);
+
+  const canView = !!user?.isSuperAdmin || auditCommittees.length > 0;
+
+  const { data: entityTypes } = useQuery<string[]>({
+    queryKey: ["/api/audit-events/entity-types"],
+    enabled: canView,
+  });
+
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (committeeId !== ALL) params.set("committeeId", committeeId);
+    if (entityType !== ALL) params.set("entityType", entityType);
+    if (action !== ALL) params.set("action", action);
+    if (actor.trim()) params.set("actor", actor.trim());
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return params;
+  }, [committeeId, entityType, action, actor, from, to]);
+
+  const { data, isLoading } = useQuery<AuditEventPage>({
+    queryKey: ["/api/audit-events", filterParams.toString(), page],
+    queryFn: async () => {
+      const params = new URLSearchParams(filterParams);
+      params.set("page", String(page));
+      const response = await fetch(`/api/audit-events?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch audit events");
+      return response.json();
+    },
+    enabled: canView,
+  });
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const exportParams = new URLSearchParams(filterParams);
+  exportParams.set("format", "csv");
+
+  if (!canView) {
+    return (
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Auditoría
+          </h1>
+          <p className="text-muted-foreground">Registro de cambios realizados en los comités</p>
+        </div>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ScrollText className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground text-center">
+              No tienes permiso para consultar la auditoría de ningún comité
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Auditoría
+          </h1>
+          <p className="text-muted-foreground">Quién cambió qué y cuándo</p>
+        </div>
+        <Button variant="outline" asChild data-testid="button-export-audit">
+          <a href={`/api/audit-events?${exportParams}`} download>
+            <Download className="mr-2 h-4 w-4" />
+            Exportar CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Comité</Label>
+            <Select value={committeeId} onValueChange={updateFilter(setCommitteeId)}>
+              <SelectTrigger data-testid="select-audit-committee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos</SelectItem>
+                {auditCommittees.map((committee) => (
+                  <SelectItem key={committee.id} value={committee.id}>
+                    {committee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Entidad</Label>
+            <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                {entityTypes?.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {entityLabels[type] ?? type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Acción</Label>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas</SelectItem>
+                {Object.entries(actionLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-actor">Usuario</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Nombre o correo"
+              value={actor}
+              onChange={(e) => updateFilter(setActor)(e.target.value)}
+              data-testid="input-audit-actor"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">Desde</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">Hasta</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Eventos</CardTitle>
+          <CardDescription>Solo se registran los cambios que se completaron correctamente</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : data && data.events.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Comité</TableHead>
+                    <TableHead>Entidad</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Cambios</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.events.map((event) => (
+                    <TableRow
+                      key={event.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedEvent(event)}
+                      data-testid={`row-audit-event-${event.id}`}
+                    >
+                      <TableCell className="whitespace-nowrap">
+                        {event.createdAt && format(new Date(event.createdAt), "d MMM yyyy HH:mm", { locale: es })}
+                      </TableCell>
+                      <TableCell>{formatName(event.actor)}</TableCell>
+                      <TableCell>{event.committee?.name ?? "—"}</TableCell>
+                      <TableCell>{entityLabels[event.entityType] ?? event.entityType}</TableCell>
+                      <TableCell>
+                        <Badge variant={event.action === "delete" ? "destructive" : "outline"}>
+                          {actionLabels[event.action] ?? event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                        {event.changes ? Object.keys(event.changes).join(", ") : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <ScrollText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No hay eventos con estos filtros</p>
+            </div>
+          )}
+
+          {data && (page > 1 || data.hasMore) && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                data-testid="button-audit-previous"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">Página {page}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={!data.hasMore}
+                data-testid="button-audit-next"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          {selectedEvent && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {actionLabels[selectedEvent.action] ?? selectedEvent.action} ·{" "}
+                  {entityLabels[selectedEvent.entityType] ?? selectedEvent.entityType}
+                </DialogTitle>
+                <DialogDescription>
+                  {formatName(selectedEvent.actor)}
+                  {selectedEvent.createdAt &&
+                    ` · ${format(new Date(selectedEvent.createdAt), "d MMM yyyy HH:mm:ss", { locale: es })}`}
+                  {selectedEvent.ipAddress && ` · ${selectedEvent.ipAddress}`}
+                </DialogDescription>
+              </DialogHeader>
+              <p className="font-mono text-xs text-muted-foreground">
+                {selectedEvent.method} {selectedEvent.path}
+              </p>
+              {selectedEvent.changes && Object.keys(selectedEvent.changes).length > 0 ? (
+                <div className="max-h-[50vh] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Campo</TableHead>
+                        <TableHead>Antes</TableHead>
+                        <TableHead>Después</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(selectedEvent.changes).map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">{field}</TableCell>
+                          <TableCell className="break-all text-sm">{formatValue(change.before)}</TableCell>
+                          <TableCell className="break-all text-sm">{formatValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Sin detalle de cambios</p>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
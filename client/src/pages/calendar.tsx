@@ -27,6 +27,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useCommitteeShifts } from "@/hooks/use-committee-shifts";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import {
   ChevronLeft,
@@ -37,6 +38,7 @@ import {
   X,
   Sun,
   Sunset,
+  Moon,
   Download,
   Users,
   MapPin,
@@ -48,6 +50,7 @@ import {
   User,
   ExternalLink,
   Presentation,
+  CalendarOff,
 } from "lucide-react";
 import {
   format,
@@ -67,13 +70,16 @@ import {
   parseISO,
 } from "date-fns";
 import { es } from "date-fns/locale";
-import type { Committee, Attendance, MemberActivity, ActivityAttendance } from "@shared/schema";
+import type { Committee, Attendance, MemberActivity, ActivityAttendance, Closure } from "@shared/schema";
+import { shiftRunsOn } from "@shared/shifts";
+import { occupiesSlot } from "@shared/attendance-status";
 
 interface AttendanceWithDetails extends Attendance {
   date?: string;
   shift?: string;
   committeeId?: string;
   committeeName?: string;
+  waitlistPosition?: number | null;
 }
 
 interface CalendarAttendance {
@@ -82,6 +88,8 @@ interface CalendarAttendance {
   shift: string;
   userId: string;
   userName: string;
+  status: string;
+  waitlistPosition: number | null;
   registeredAt: string;
 }
 
@@ -119,6 +127,19 @@ const activityTypeConfig: Record<string, { icon: typeof Users; color: string; la
   other: { icon: MoreHorizontal, color: "bg-gray-100 dark:bg-gray-900/30 text-gray-800 dark:text-gray-300", label: "Otro" },
 };
 
+// Shift colors follow the committee's shift order; the first two keep the original morning/afternoon look
+const shiftStyles = [
+  { icon: Sun, card: "bg-amber-100 dark:bg-amber-900/30", chip: "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300", border: "border-amber-200 dark:border-amber-800", print: "#fef3c7" },
+  { icon: Sunset, card: "bg-blue-100 dark:bg-blue-900/30", chip: "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300", border: "border-blue-200 dark:border-blue-800", print: "#dbeafe" },
+  { icon: Moon, card: "bg-violet-100 dark:bg-violet-900/30", chip: "bg-violet-100 dark:bg-violet-900/30 text-violet-800 dark:text-violet-300", border: "border-violet-200 dark:border-violet-800", print: "#ede9fe" },
+  { icon: Clock, card: "bg-rose-100 dark:bg-rose-900/30", chip: "bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-300", border: "border-rose-200 dark:border-rose-800", print: "#ffe4e6" },
+];
+
+const getShiftStyle = (index: number) => shiftStyles[index % shiftStyles.length];
+
+const myShiftCard = "bg-green-100 dark:bg-green-900/30";
+const myShiftChip = "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300";
+
 type TeamContext = {
   isGeneralCouncilMember: boolean;
   isTeamOwner?: boolean;
@@ -140,7 +161,7 @@ export default function CalendarPage() {
   const [isDayDetailOpen, setIsDayDetailOpen] = useState(false);
   const [isActivityDialogOpen, setIsActivityDialogOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedShift, setSelectedShift] = useState<string>("morning");
+  const [selectedShift, setSelectedShift] = useState<string>("");
   const [viewMode, setViewMode] = useState<ViewMode>("month");
   const [filterUser, setFilterUser] = useState<string>("all");
   const [filterActivityType, setFilterActivityType] = useState<string>("all");
@@ -173,10 +194,14 @@ export default function CalendarPage() {
     ? teamContext.teamId 
     : selectedTeamId;
 
-  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[]>({
+  // Archived committees are read-only, so they are not offered here
+  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[], Error, Committee[]>({
     queryKey: ["/api/committees"],
+    select: (data) => data.filter((committee) => !committee.archivedAt),
   });
 
+  const { shifts: committeeShifts } = useCommitteeShifts(selectedCommittee || undefined);
+
   interface MembershipWithCommittee {
     id: string;
     committeeId: string;
@@ -235,7 +260,7 @@ export default function CalendarPage() {
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(monthStart);
 
-  const { data: calendarAttendances } = useQuery<CalendarAttendance[]>({
+  const { data: allCalendarAttendances } = useQuery<CalendarAttendance[]>({
     queryKey: ["/api/committees", selectedCommittee, "calendar-attendances", format(dateRange.start, "yyyy-MM-dd"), format(dateRange.end, "yyyy-MM-dd")],
     queryFn: async () => {
       if (!selectedCommittee) return [];
@@ -248,6 +273,25 @@ export default function CalendarPage() {
     enabled: !!selectedCommittee,
   });
 
+  const { data: closures } = useQuery<Closure[]>({
+    queryKey: ["/api/closures", selectedCommittee, format(dateRange.start, "yyyy-MM-dd"), format(dateRange.end, "yyyy-MM-dd")],
+    queryFn: async () => {
+      if (!selectedCommittee) return [];
+      const response = await fetch(
+        `/api/closures?committeeId=${selectedCommittee}&startDate=${format(dateRange.start, "yyyy-MM-dd")}&endDate=${format(dateRange.end, "yyyy-MM-dd")}`
+      );
+      if (!response.ok) throw new Error("Failed to fetch closures");
+      return response.json();
+    },
+    enabled: !!selectedCommittee,
+  });
+
+  // Waitlisted registrations are listed separately and never count as taken spots
+  const calendarAttendances = useMemo(
+    () => allCalendarAttendances?.filter((a) => a.status !== "waitlisted"),
+    [allCalendarAttendances]
+  );
+
   const { data: calendarActivities } = useQuery<CalendarActivity[]>({
     queryKey: ["/api/committees", selectedCommittee, "calendar-activities", format(dateRange.start, "yyyy-MM-dd"), format(dateRange.end, "yyyy-MM-dd")],
     queryFn: async () => {
@@ -293,13 +337,20 @@ export default function CalendarPage() {
       const response = await apiRequest("POST", "/api/mark-attendance", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (attendance: { status: string; waitlistPosition?: number | null }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/my-attendances"] });
       queryClient.invalidateQueries({ queryKey: ["/api/committees", selectedCommittee, "calendar-attendances"] });
-      toast({
-        title: "Turno registrado",
-        description: "Tu turno ha sido registrado correctamente",
-      });
+      if (attendance.status === "waitlisted") {
+        toast({
+          title: "Turno lleno",
+          description: `Quedaste en la lista de espera (posición ${attendance.waitlistPosition}). Te avisaremos si se libera un lugar.`,
+        });
+      } else {
+        toast({
+          title: "Turno registrado",
+          description: "Tu turno ha sido registrado correctamente",
+        });
+      }
       setIsDialogOpen(false);
     },
     onError: (error: any) => {
@@ -527,20 +578,33 @@ export default function CalendarPage() {
     if (!myAttendances || !selectedCommittee) return null;
     const dateStr = format(date, "yyyy-MM-dd");
     return myAttendances.find(
-      (a) => a.date === dateStr && a.shift === shift && a.committeeId === selectedCommittee && a.status === "confirmed"
+      (a) => a.date === dateStr && a.shift === shift && a.committeeId === selectedCommittee && occupiesSlot(a.status)
     );
   };
 
-  const hasAttendanceOnDate = (date: Date) => {
-    if (!myAttendances || !selectedCommittee) return { morning: false, afternoon: false };
+  const getClosureForDate = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
-    const dayAttendances = myAttendances.filter(
-      (a) => a.date === dateStr && a.committeeId === selectedCommittee && a.status === "confirmed"
+    return closures?.find((c) => c.date === dateStr);
+  };
+
+  const getWaitlistEntryForDate = (date: Date, shift: string) => {
+    if (!myAttendances || !selectedCommittee) return null;
+    const dateStr = format(date, "yyyy-MM-dd");
+    return myAttendances.find(
+      (a) => a.date === dateStr && a.shift === shift && a.committeeId === selectedCommittee && a.status === "waitlisted"
     );
-    return {
-      morning: dayAttendances.some((a) => a.shift === "morning"),
-      afternoon: dayAttendances.some((a) => a.shift === "afternoon"),
-    };
+  };
+
+  const getWaitlistForDate = (date: Date, shift: string) => {
+    if (!allCalendarAttendances) return [];
+    const dateStr = format(date, "yyyy-MM-dd");
+    return allCalendarAttendances
+      .filter((a) => a.date === dateStr && a.shift === shift && a.status === "waitlisted")
+      .sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0));
+  };
+
+  const hasAttendanceOnDate = (date: Date, shift: string) => {
+    return !!getAttendanceForDate(date, shift);
   };
 
   const getMembersForDate = (date: Date, shift: string) => {
@@ -549,13 +613,11 @@ export default function CalendarPage() {
     return calendarAttendances.filter((a) => a.date === dateStr && a.shift === shift);
   };
 
-  const getMembersForDateBoth = (date: Date) => {
-    if (!calendarAttendances) return { morning: [], afternoon: [] };
-    const dateStr = format(date, "yyyy-MM-dd");
-    return {
-      morning: calendarAttendances.filter((a) => a.date === dateStr && a.shift === "morning"),
-      afternoon: calendarAttendances.filter((a) => a.date === dateStr && a.shift === "afternoon"),
-    };
+  // Shifts scheduled on that weekday, plus any other shift that already has people on it
+  const getShiftsForDate = (date: Date) => {
+    return committeeShifts
+      .map((shift, index) => ({ ...shift, style: getShiftStyle(index) }))
+      .filter((shift) => shiftRunsOn(shift, date) || getMembersForDate(date, shift.key).length > 0);
   };
 
   const getActivitiesForDate = (date: Date): CalendarActivity[] => {
@@ -574,7 +636,7 @@ export default function CalendarPage() {
       return;
     }
     setSelectedDate(day);
-    setSelectedShift("morning");
+    setSelectedShift(getShiftsForDate(day)[0]?.key ?? "");
     setIsDayDetailOpen(true);
   };
 
@@ -617,15 +679,8 @@ export default function CalendarPage() {
     return members;
   };
 
-  const getFilteredMembersForDateBoth = (date: Date) => {
-    return {
-      morning: getFilteredMembersForDate(date, "morning"),
-      afternoon: getFilteredMembersForDate(date, "afternoon"),
-    };
-  };
-
   const handleMarkAttendance = () => {
-    if (!selectedDate || !selectedCommittee) return;
+    if (!selectedDate || !selectedCommittee || !selectedShift) return;
     
     markAttendanceMutation.mutate({
       committeeId: selectedCommittee,
@@ -655,8 +710,6 @@ export default function CalendarPage() {
     const generateDayCell = (day: Date) => {
       const dateStr = format(day, "yyyy-MM-dd");
       const isCurrentMonth = isSameMonth(day, currentDate);
-      const morningMembers = calendarAttendances.filter(a => a.date === dateStr && a.shift === "morning");
-      const afternoonMembers = calendarAttendances.filter(a => a.date === dateStr && a.shift === "afternoon");
 
       if (!isCurrentMonth) {
         return `<td style="background: #f5f5f5; color: #999; padding: 8px; vertical-align: top; border: 1px solid #ddd;">${format(day, "d")}</td>`;
@@ -664,23 +717,16 @@ export default function CalendarPage() {
 
       let content = `<div style="font-weight: bold; margin-bottom: 4px;">${format(day, "d")}</div>`;
       
-      if (morningMembers.length > 0) {
-        content += `<div style="background: #fef3c7; padding: 4px; border-radius: 4px; margin-bottom: 4px; font-size: 11px;">`;
-        content += `<div style="font-weight: 600;">Mañana</div>`;
-        morningMembers.forEach(m => {
+      committeeShifts.forEach((shift, index) => {
+        const shiftMembers = calendarAttendances.filter(a => a.date === dateStr && a.shift === shift.key);
+        if (shiftMembers.length === 0) return;
+        content += `<div style="background: ${getShiftStyle(index).print}; padding: 4px; border-radius: 4px; margin-bottom: 4px; font-size: 11px;">`;
+        content += `<div style="font-weight: 600;">${escapeHtml(shift.name)}</div>`;
+        shiftMembers.forEach(m => {
           content += `<div>${escapeHtml(m.userName)}</div>`;
         });
         content += `</div>`;
-      }
-      
-      if (afternoonMembers.length > 0) {
-        content += `<div style="background: #dbeafe; padding: 4px; border-radius: 4px; font-size: 11px;">`;
-        content += `<div style="font-weight: 600;">Tarde</div>`;
-        afternoonMembers.forEach(m => {
-          content += `<div>${escapeHtml(m.userName)}</div>`;
-        });
-        content += `</div>`;
-      }
+      });
 
       return `<td style="padding: 8px; vertical-align: top; border: 1px solid #ddd; min-width: 100px;">${content}</td>`;
     };
@@ -1000,55 +1046,40 @@ export default function CalendarPage() {
                   </div>
                   {isToday(currentDate) && <Badge>Hoy</Badge>}
                 </div>
-                <div className="grid grid-cols-1 gap-3 sm:gap-4">
-                  {/* Morning Section */}
-                  <div className={`p-3 sm:p-4 rounded-md ${hasAttendanceOnDate(currentDate).morning ? "bg-green-100 dark:bg-green-900/30" : "bg-amber-100 dark:bg-amber-900/30"}`}>
-                    <div className="flex items-center gap-2 mb-2 sm:mb-3 flex-wrap">
-                      <Sun className="h-4 w-4 sm:h-5 sm:w-5" />
-                      <span className="font-semibold text-sm sm:text-base">Turno Mañana</span>
-                      {selectedCommitteeData && (
-                        <span className="text-xs sm:text-sm text-muted-foreground">
-                          ({selectedCommitteeData.morningStart} - {selectedCommitteeData.morningEnd})
-                        </span>
-                      )}
-                    </div>
-                    {getFilteredMembersForDate(currentDate, "morning").length > 0 ? (
-                      <div className="space-y-1 sm:space-y-2">
-                        {getFilteredMembersForDate(currentDate, "morning").map((m) => (
-                          <div key={m.id} className="flex items-center gap-2 text-xs sm:text-sm">
-                            <span>{m.userName}</span>
-                            {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <p className="text-xs sm:text-sm text-muted-foreground">Sin registros</p>
-                    )}
+                {getClosureForDate(currentDate) && (
+                  <div className="mb-3 flex items-center gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+                    <CalendarOff className="h-4 w-4" />
+                    Día inhábil: {getClosureForDate(currentDate)?.name}
                   </div>
-                  {/* Afternoon Section */}
-                  <div className={`p-3 sm:p-4 rounded-md ${hasAttendanceOnDate(currentDate).afternoon ? "bg-green-100 dark:bg-green-900/30" : "bg-blue-100 dark:bg-blue-900/30"}`}>
-                    <div className="flex items-center gap-2 mb-2 sm:mb-3 flex-wrap">
-                      <Sunset className="h-4 w-4 sm:h-5 sm:w-5" />
-                      <span className="font-semibold text-sm sm:text-base">Turno Tarde</span>
-                      {selectedCommitteeData && (
-                        <span className="text-xs sm:text-sm text-muted-foreground">
-                          ({selectedCommitteeData.afternoonStart} - {selectedCommitteeData.afternoonEnd})
-                        </span>
-                      )}
-                    </div>
-                    {getFilteredMembersForDate(currentDate, "afternoon").length > 0 ? (
-                      <div className="space-y-1 sm:space-y-2">
-                        {getFilteredMembersForDate(currentDate, "afternoon").map((m) => (
-                          <div key={m.id} className="flex items-center gap-2 text-xs sm:text-sm">
-                            <span>{m.userName}</span>
-                            {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
+                )}
+                <div className="grid grid-cols-1 gap-3 sm:gap-4">
+                  {getShiftsForDate(currentDate).map((shift) => {
+                    const ShiftIcon = shift.style.icon;
+                    const shiftMembers = getFilteredMembersForDate(currentDate, shift.key);
+                    return (
+                      <div key={shift.key} className={`p-3 sm:p-4 rounded-md ${hasAttendanceOnDate(currentDate, shift.key) ? myShiftCard : shift.style.card}`}>
+                        <div className="flex items-center gap-2 mb-2 sm:mb-3 flex-wrap">
+                          <ShiftIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                          <span className="font-semibold text-sm sm:text-base">Turno {shift.name}</span>
+                          <span className="text-xs sm:text-sm text-muted-foreground">
+                            ({shift.startTime} - {shift.endTime})
+                          </span>
+                        </div>
+                        {shiftMembers.length > 0 ? (
+                          <div className="space-y-1 sm:space-y-2">
+                            {shiftMembers.map((m) => (
+                              <div key={m.id} className="flex items-center gap-2 text-xs sm:text-sm">
+                                <span>{m.userName}</span>
+                                {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
+                              </div>
+                            ))}
                           </div>
-                        ))}
+                        ) : (
+                          <p className="text-xs sm:text-sm text-muted-foreground">Sin registros</p>
+                        )}
                       </div>
-                    ) : (
-                      <p className="text-xs sm:text-sm text-muted-foreground">Sin registros</p>
-                    )}
-                  </div>
+                    );
+                  })}
                   {/* Activities Section */}
                   {getFilteredActivitiesForDate(currentDate).length > 0 && (
                     <div className="mt-4">
@@ -1104,11 +1135,11 @@ export default function CalendarPage() {
               <div className="grid grid-cols-7 gap-0.5 sm:gap-1">
                 {weekDaysArray.map((day, index) => {
                   const isDayToday = isToday(day);
-                  const myAttendance = hasAttendanceOnDate(day);
-                  const members = getFilteredMembersForDateBoth(day);
+                  const shiftsWithMembers = getShiftsForDate(day)
+                    .map((shift) => ({ ...shift, members: getFilteredMembersForDate(day, shift.key) }))
+                    .filter((shift) => shift.members.length > 0);
                   const activities = getFilteredActivitiesForDate(day);
-                  const hasMorningMembers = members.morning.length > 0;
-                  const hasAfternoonMembers = members.afternoon.length > 0;
+                  const closure = getClosureForDate(day);
                   const hasActivities = activities.length > 0;
 
                   return (
@@ -1129,46 +1160,36 @@ export default function CalendarPage() {
                       >
                         {format(day, "d")}
                       </div>
-                      {(hasMorningMembers || hasAfternoonMembers || hasActivities) && (
+                      {closure && (
+                        <div className="mb-0.5 flex items-center gap-1 truncate rounded bg-muted px-0.5 sm:px-1 py-0.5 text-[9px] sm:text-xs text-muted-foreground" title={closure.name}>
+                          <CalendarOff className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
+                          <span className="truncate hidden sm:inline">{closure.name}</span>
+                        </div>
+                      )}
+                      {(shiftsWithMembers.length > 0 || hasActivities) && (
                         <div className="space-y-0.5 sm:space-y-1">
-                          {hasMorningMembers && (
-                            <div className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${myAttendance.morning ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300" : "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"}`}>
-                              <div className="flex items-center gap-0.5 sm:gap-1 mb-0.5">
-                                <Sun className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
-                                <span className="font-medium hidden sm:inline">Mañana</span>
-                                <span className="font-medium sm:hidden">{members.morning.length}</span>
-                              </div>
-                              <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
-                                {members.morning.slice(0, 2).map((m) => (
-                                  <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
-                                    {m.userName}
-                                  </div>
-                                ))}
-                                {members.morning.length > 2 && (
-                                  <div className="text-[9px] sm:text-[10px] opacity-70">+{members.morning.length - 2}</div>
-                                )}
-                              </div>
-                            </div>
-                          )}
-                          {hasAfternoonMembers && (
-                            <div className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${myAttendance.afternoon ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300" : "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300"}`}>
-                              <div className="flex items-center gap-0.5 sm:gap-1 mb-0.5">
-                                <Sunset className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
-                                <span className="font-medium hidden sm:inline">Tarde</span>
-                                <span className="font-medium sm:hidden">{members.afternoon.length}</span>
-                              </div>
-                              <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
-                                {members.afternoon.slice(0, 2).map((m) => (
-                                  <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
-                                    {m.userName}
-                                  </div>
-                                ))}
-                                {members.afternoon.length > 2 && (
-                                  <div className="text-[9px] sm:text-[10px] opacity-70">+{members.afternoon.length - 2}</div>
-                                )}
+                          {shiftsWithMembers.map((shift) => {
+                            const ShiftIcon = shift.style.icon;
+                            return (
+                              <div key={shift.key} className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${hasAttendanceOnDate(day, shift.key) ? myShiftChip : shift.style.chip}`}>
+                                <div className="flex items-center gap-0.5 sm:gap-1 mb-0.5">
+                                  <ShiftIcon className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
+                                  <span className="font-medium hidden sm:inline">{shift.name}</span>
+                                  <span className="font-medium sm:hidden">{shift.members.length}</span>
+                                </div>
+                                <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
+                                  {shift.members.slice(0, 2).map((m) => (
+                                    <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
+                                      {m.userName}
+                                    </div>
+                                  ))}
+                                  {shift.members.length > 2 && (
+                                    <div className="text-[9px] sm:text-[10px] opacity-70">+{shift.members.length - 2}</div>
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          )}
+                            );
+                          })}
                           {hasActivities && activities.slice(0, 2).map((activity) => {
                             const config = activityTypeConfig[activity.activityType] || activityTypeConfig.other;
                             const ActivityIcon = config.icon;
@@ -1209,11 +1230,11 @@ export default function CalendarPage() {
                 {calendarDays.map((day, index) => {
                   const isCurrentMonth = isSameMonth(day, currentDate);
                   const isDayToday = isToday(day);
-                  const myAttendance = hasAttendanceOnDate(day);
-                  const members = getFilteredMembersForDateBoth(day);
+                  const shiftsWithMembers = getShiftsForDate(day)
+                    .map((shift) => ({ ...shift, members: getFilteredMembersForDate(day, shift.key) }))
+                    .filter((shift) => shift.members.length > 0);
                   const activities = getFilteredActivitiesForDate(day);
-                  const hasMorningMembers = members.morning.length > 0;
-                  const hasAfternoonMembers = members.afternoon.length > 0;
+                  const closure = getClosureForDate(day);
                   const hasActivities = activities.length > 0;
 
                   return (
@@ -1236,46 +1257,36 @@ export default function CalendarPage() {
                       >
                         {format(day, "d")}
                       </div>
-                      {isCurrentMonth && (hasMorningMembers || hasAfternoonMembers || hasActivities) && (
+                      {isCurrentMonth && closure && (
+                        <div className="mb-0.5 flex items-center gap-1 truncate rounded bg-muted px-0.5 sm:px-1 py-0.5 text-[9px] sm:text-xs text-muted-foreground" title={closure.name}>
+                          <CalendarOff className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
+                          <span className="truncate hidden sm:inline">{closure.name}</span>
+                        </div>
+                      )}
+                      {isCurrentMonth && (shiftsWithMembers.length > 0 || hasActivities) && (
                         <div className="space-y-0.5 sm:space-y-1">
-                          {hasMorningMembers && (
-                            <div className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${myAttendance.morning ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300" : "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"}`}>
-                              <div className="flex items-center gap-0.5 sm:gap-1">
-                                <Sun className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
-                                <span className="font-medium sm:hidden">{members.morning.length}</span>
-                                <span className="font-medium hidden sm:inline">Mañana</span>
-                              </div>
-                              <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
-                                {members.morning.slice(0, 2).map((m) => (
-                                  <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
-                                    {m.userName}
-                                  </div>
-                                ))}
-                                {members.morning.length > 2 && (
-                                  <div className="text-[9px] sm:text-[10px] opacity-70">+{members.morning.length - 2}</div>
-                                )}
-                              </div>
-                            </div>
-                          )}
-                          {hasAfternoonMembers && (
-                            <div className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${myAttendance.afternoon ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300" : "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300"}`}>
-                              <div className="flex items-center gap-0.5 sm:gap-1">
-                                <Sunset className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
-                                <span className="font-medium sm:hidden">{members.afternoon.length}</span>
-                                <span className="font-medium hidden sm:inline">Tarde</span>
-                              </div>
-                              <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
-                                {members.afternoon.slice(0, 2).map((m) => (
-                                  <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
-                                    {m.userName}
-                                  </div>
-                                ))}
-                                {members.afternoon.length > 2 && (
-                                  <div className="text-[9px] sm:text-[10px] opacity-70">+{members.afternoon.length - 2}</div>
-                                )}
+                          {shiftsWithMembers.map((shift) => {
+                            const ShiftIcon = shift.style.icon;
+                            return (
+                              <div key={shift.key} className={`text-[9px] sm:text-xs rounded px-0.5 sm:px-1 py-0.5 ${hasAttendanceOnDate(day, shift.key) ? myShiftChip : shift.style.chip}`}>
+                                <div className="flex items-center gap-0.5 sm:gap-1">
+                                  <ShiftIcon className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
+                                  <span className="font-medium sm:hidden">{shift.members.length}</span>
+                                  <span className="font-medium hidden sm:inline">{shift.name}</span>
+                                </div>
+                                <div className="space-y-0.5 pl-3 sm:pl-4 hidden sm:block">
+                                  {shift.members.slice(0, 2).map((m) => (
+                                    <div key={m.id} className="truncate text-[9px] sm:text-[10px]">
+                                      {m.userName}
+                                    </div>
+                                  ))}
+                                  {shift.members.length > 2 && (
+                                    <div className="text-[9px] sm:text-[10px] opacity-70">+{shift.members.length - 2}</div>
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          )}
+                            );
+                          })}
                           {hasActivities && activities.slice(0, 2).map((activity) => {
                             const config = activityTypeConfig[activity.activityType] || activityTypeConfig.other;
                             const ActivityIcon = config.icon;
@@ -1331,133 +1342,105 @@ export default function CalendarPage() {
               </TabsList>
               
               <TabsContent value="shifts" className="flex-1 overflow-y-auto space-y-4 mt-4">
-                {/* Morning Shift */}
-                <div className={`p-4 rounded-md ${hasAttendanceOnDate(selectedDate).morning ? "bg-green-100 dark:bg-green-900/30" : "bg-amber-100 dark:bg-amber-900/30"}`}>
-                  <div className="flex items-center gap-2 mb-3">
-                    <Sun className="h-5 w-5" />
-                    <span className="font-semibold">Turno Mañana</span>
-                    {selectedCommitteeData && (
-                      <span className="text-sm text-muted-foreground">
-                        ({selectedCommitteeData.morningStart} - {selectedCommitteeData.morningEnd})
-                      </span>
-                    )}
+                {getClosureForDate(selectedDate) && (
+                  <div className="flex items-center gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground" data-testid="text-closure-notice">
+                    <CalendarOff className="h-4 w-4" />
+                    Día inhábil: {getClosureForDate(selectedDate)?.name}. No se pueden registrar turnos.
                   </div>
-                  {getFilteredMembersForDate(selectedDate, "morning").length > 0 ? (
-                    <div className="space-y-2">
-                      {getFilteredMembersForDate(selectedDate, "morning").map((m) => (
-                        <div key={m.id} className="flex items-center gap-2 text-sm">
-                          <User className="h-4 w-4" />
-                          <span>{m.userName}</span>
-                          {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
+                )}
+                {getShiftsForDate(selectedDate).map((shift) => {
+                  const ShiftIcon = shift.style.icon;
+                  const shiftMembers = getFilteredMembersForDate(selectedDate, shift.key);
+                  const waitlist = getWaitlistForDate(selectedDate, shift.key);
+                  const waitlistEntry = getWaitlistEntryForDate(selectedDate, shift.key);
+                  const myAttendance = getAttendanceForDate(selectedDate, shift.key);
+                  return (
+                    <div key={shift.key} className={`p-4 rounded-md ${myAttendance ? myShiftCard : shift.style.card}`}>
+                      <div className="flex items-center gap-2 mb-3">
+                        <ShiftIcon className="h-5 w-5" />
+                        <span className="font-semibold">Turno {shift.name}</span>
+                        <span className="text-sm text-muted-foreground">
+                          ({shift.startTime} - {shift.endTime})
+                        </span>
+                      </div>
+                      {shiftMembers.length > 0 ? (
+                        <div className="space-y-2">
+                          {shiftMembers.map((m) => (
+                            <div key={m.id} className="flex items-center gap-2 text-sm">
+                              <User className="h-4 w-4" />
+                              <span>{m.userName}</span>
+                              {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <p className="text-sm text-muted-foreground">Sin registros</p>
-                  )}
-                  <div className="mt-3 pt-3 border-t border-amber-200 dark:border-amber-800">
-                    {hasAttendanceOnDate(selectedDate).morning ? (
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        className="w-full"
-                        onClick={() => {
-                          const attendance = getAttendanceForDate(selectedDate, "morning");
-                          if (attendance) {
-                            cancelAttendanceMutation.mutate(attendance.id);
-                          }
-                        }}
-                        disabled={cancelAttendanceMutation.isPending}
-                        data-testid="button-cancel-morning-shift"
-                      >
-                        <X className="h-4 w-4 mr-2" />
-                        Cancelar mi turno
-                      </Button>
-                    ) : (
-                      <Button
-                        size="sm"
-                        className="w-full"
-                        onClick={() => {
-                          setSelectedShift("morning");
-                          markAttendanceMutation.mutate({
-                            date: format(selectedDate, "yyyy-MM-dd"),
-                            shift: "morning",
-                            committeeId: selectedCommittee,
-                          });
-                        }}
-                        disabled={markAttendanceMutation.isPending}
-                        data-testid="button-register-morning-shift"
-                      >
-                        <Check className="h-4 w-4 mr-2" />
-                        Registrarme en este turno
-                      </Button>
-                    )}
-                  </div>
-                </div>
-
-                {/* Afternoon Shift */}
-                <div className={`p-4 rounded-md ${hasAttendanceOnDate(selectedDate).afternoon ? "bg-green-100 dark:bg-green-900/30" : "bg-blue-100 dark:bg-blue-900/30"}`}>
-                  <div className="flex items-center gap-2 mb-3">
-                    <Sunset className="h-5 w-5" />
-                    <span className="font-semibold">Turno Tarde</span>
-                    {selectedCommitteeData && (
-                      <span className="text-sm text-muted-foreground">
-                        ({selectedCommitteeData.afternoonStart} - {selectedCommitteeData.afternoonEnd})
-                      </span>
-                    )}
-                  </div>
-                  {getFilteredMembersForDate(selectedDate, "afternoon").length > 0 ? (
-                    <div className="space-y-2">
-                      {getFilteredMembersForDate(selectedDate, "afternoon").map((m) => (
-                        <div key={m.id} className="flex items-center gap-2 text-sm">
-                          <User className="h-4 w-4" />
-                          <span>{m.userName}</span>
-                          {m.userId === user?.id && <Badge variant="secondary">Tú</Badge>}
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Sin registros</p>
+                      )}
+                      {waitlist.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">Lista de espera</p>
+                          {waitlist.map((m) => (
+                            <div key={m.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <span className="w-5 text-right">{m.waitlistPosition}.</span>
+                              <span>{m.userName}</span>
+                              {m.userId === user?.id && <Badge variant="outline">Tú</Badge>}
+                            </div>
+                          ))}
                         </div>
-                      ))}
+                      )}
+                      <div className={`mt-3 pt-3 border-t ${shift.style.border}`}>
+                        {waitlistEntry ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => cancelAttendanceMutation.mutate(waitlistEntry.id)}
+                            disabled={cancelAttendanceMutation.isPending}
+                            data-testid={`button-leave-waitlist-${shift.key}`}
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Salir de la lista de espera (#{waitlistEntry.waitlistPosition})
+                          </Button>
+                        ) : myAttendance ? (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => cancelAttendanceMutation.mutate(myAttendance.id)}
+                            disabled={cancelAttendanceMutation.isPending}
+                            data-testid={`button-cancel-${shift.key}-shift`}
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Cancelar mi turno
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            className="w-full"
+                            onClick={() => {
+                              setSelectedShift(shift.key);
+                              markAttendanceMutation.mutate({
+                                date: format(selectedDate, "yyyy-MM-dd"),
+                                shift: shift.key,
+                                committeeId: selectedCommittee,
+                              });
+                            }}
+                            disabled={markAttendanceMutation.isPending || !!getClosureForDate(selectedDate)}
+                            data-testid={`button-register-${shift.key}-shift`}
+                          >
+                            <Check className="h-4 w-4 mr-2" />
+                            Registrarme en este turno
+                          </Button>
+                        )}
+                      </div>
                     </div>
-                  ) : (
-                    <p className="text-sm text-muted-foreground">Sin registros</p>
-                  )}
-                  <div className="mt-3 pt-3 border-t border-blue-200 dark:border-blue-800">
-                    {hasAttendanceOnDate(selectedDate).afternoon ? (
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        className="w-full"
-                        onClick={() => {
-                          const attendance = getAttendanceForDate(selectedDate, "afternoon");
-                          if (attendance) {
-                            cancelAttendanceMutation.mutate(attendance.id);
-                          }
-                        }}
-                        disabled={cancelAttendanceMutation.isPending}
-                        data-testid="button-cancel-afternoon-shift"
-                      >
-                        <X className="h-4 w-4 mr-2" />
-                        Cancelar mi turno
-                      </Button>
-                    ) : (
-                      <Button
-                        size="sm"
-                        className="w-full"
-                        onClick={() => {
-                          setSelectedShift("afternoon");
-                          markAttendanceMutation.mutate({
-                            date: format(selectedDate, "yyyy-MM-dd"),
-                            shift: "afternoon",
-                            committeeId: selectedCommittee,
-                          });
-                        }}
-                        disabled={markAttendanceMutation.isPending}
-                        data-testid="button-register-afternoon-shift"
-                      >
-                        <Check className="h-4 w-4 mr-2" />
-                        Registrarme en este turno
-                      </Button>
-                    )}
-                  </div>
-                </div>
+                  );
+                })}
+                {getShiftsForDate(selectedDate).length === 0 && !getClosureForDate(selectedDate) && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    El comité no tiene turnos programados este día
+                  </p>
+                )}
               </TabsContent>
 
               <TabsContent value="activities" className="flex-1 overflow-y-auto space-y-2 mt-4">
@@ -1655,34 +1638,24 @@ export default function CalendarPage() {
               <div className="space-y-2">
                 <label className="text-sm font-medium">Selecciona el turno</label>
                 <div className="grid grid-cols-2 gap-3">
-                  <Button
-                    variant={selectedShift === "morning" ? "default" : "outline"}
-                    className="flex flex-col items-center gap-2 h-auto py-4"
-                    onClick={() => setSelectedShift("morning")}
-                    data-testid="button-shift-morning"
-                  >
-                    <Sun className="h-6 w-6" />
-                    <span>Mañana</span>
-                    {selectedCommitteeData && (
-                      <span className="text-xs opacity-70">
-                        {selectedCommitteeData.morningStart} - {selectedCommitteeData.morningEnd}
-                      </span>
-                    )}
-                  </Button>
-                  <Button
-                    variant={selectedShift === "afternoon" ? "default" : "outline"}
-                    className="flex flex-col items-center gap-2 h-auto py-4"
-                    onClick={() => setSelectedShift("afternoon")}
-                    data-testid="button-shift-afternoon"
-                  >
-                    <Sunset className="h-6 w-6" />
-                    <span>Tarde</span>
-                    {selectedCommitteeData && (
-                      <span className="text-xs opacity-70">
-                        {selectedCommitteeData.afternoonStart} - {selectedCommitteeData.afternoonEnd}
-                      </span>
-                    )}
-                  </Button>
+                  {getShiftsForDate(selectedDate).map((shift) => {
+                    const ShiftIcon = shift.style.icon;
+                    return (
+                      <Button
+                        key={shift.key}
+                        variant={selectedShift === shift.key ? "default" : "outline"}
+                        className="flex flex-col items-center gap-2 h-auto py-4"
+                        onClick={() => setSelectedShift(shift.key)}
+                        data-testid={`button-shift-${shift.key}`}
+                      >
+                        <ShiftIcon className="h-6 w-6" />
+                        <span>{shift.name}</span>
+                        <span className="text-xs opacity-70">
+                          {shift.startTime} - {shift.endTime}
+                        </span>
+                      </Button>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -1734,7 +1707,7 @@ export default function CalendarPage() {
             ) : (
               <Button
                 onClick={handleMarkAttendance}
-                disabled={markAttendanceMutation.isPending}
+                disabled={markAttendanceMutation.isPending || !selectedShift || (!!selectedDate && !!getClosureForDate(selectedDate))}
                 data-testid="button-mark-attendance"
               >
                 <Check className="mr-2 h-4 w-4" />
@@ -0,0 +1,83 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import type { Attendance } from "@shared/schema";
+
+interface KioskCheckInResult extends Attendance {
+  committeeName: string;
+  shiftName: string;
+}
+
+// Parses "400: {"message":"..."}" thrown by apiRequest into the server message
+function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function CheckInPage() {
+  const searchParams = new URLSearchParams(useSearch());
+  const token = searchParams.get("token");
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/kiosk/check-in", { token });
+      return response.json() as Promise<KioskCheckInResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-attendances"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token && checkInMutation.isIdle) checkInMutation.mutate();
+  }, [token]);
+
+  const result = checkInMutation.data;
+
+  return (
+    <div className="mx-auto max-w-md py-8">
+      <Card>
+        {!token || checkInMutation.isError ? (
+          <CardHeader className="text-center">
+            <AlertCircle className="mx-auto mb-2 h-12 w-12 text-destructive" />
+            <CardTitle>No se pudo registrar tu asistencia</CardTitle>
+            <CardDescription data-testid="text-check-in-error">
+              {token && checkInMutation.error
+                ? getErrorMessage(checkInMutation.error)
+                : "Escanea el código QR del kiosco de tu comité"}
+            </CardDescription>
+          </CardHeader>
+        ) : result ? (
+          <CardHeader className="text-center">
+            <CheckCircle2 className="mx-auto mb-2 h-12 w-12 text-green-600" />
+            <CardTitle>Asistencia registrada</CardTitle>
+            <CardDescription data-testid="text-check-in-success">
+              {result.committeeName} · Turno {result.shiftName}
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <CardHeader className="space-y-3 text-center">
+            <Skeleton className="mx-auto h-12 w-12 rounded-full" />
+            <p className="text-sm text-muted-foreground">Registrando asistencia...</p>
+          </CardHeader>
+        )}
+        <CardContent className="flex justify-center">
+          <Link href="/attendances">
+            <Button variant="outline" data-testid="button-go-attendances">
+              Ver mis asistencias
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,8 +21,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { SlotGenerator } from "@/components/slot-generator";
+import { ClosureManager } from "@/components/closure-manager";
+import { ShiftDefinitionManager } from "@/components/shift-definition-manager";
+import { GeofenceSettings } from "@/components/geofence-settings";
+import { MembershipRequests } from "@/components/membership-requests";
+import { MemberOffboardingActions } from "@/components/member-offboarding";
+import { ChildCommitteesSummary } from "@/components/child-committees-summary";
+import { useCommitteeShifts } from "@/hooks/use-committee-shifts";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
 import {
   Building2,
   Users,
@@ -32,9 +43,12 @@ import {
   ArrowLeft,
   UserPlus,
   Mail,
+  QrCode,
+  Archive,
 } from "lucide-react";
 import type { Committee, CommitteeMember } from "@shared/schema";
 import type { User } from "@shared/models/auth";
+import type { Capability } from "@shared/permissions";
 
 interface MemberWithUser extends CommitteeMember {
   user?: User;
@@ -44,17 +58,35 @@ export default function CommitteeDetailPage() {
   const [, params] = useRoute("/committees/:id");
   const committeeId = params?.id;
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const { data: committee, isLoading: committeeLoading } = useQuery<Committee>({
     queryKey: ["/api/committees", committeeId],
     enabled: !!committeeId,
   });
 
+  const { shifts } = useCommitteeShifts(committeeId);
+
   const { data: members, isLoading: membersLoading } = useQuery<MemberWithUser[]>({
     queryKey: ["/api/committees", committeeId, "members"],
     enabled: !!committeeId,
   });
 
+  const { data: myMemberships } = useQuery<(CommitteeMember & { capabilities: Capability[] })[]>({
+    queryKey: ["/api/my-memberships"],
+  });
+
+  // Archived committees are read-only, even for super admins
+  const can = (capability: Capability) =>
+    !committee?.archivedAt &&
+    (user?.isSuperAdmin === true ||
+      !!myMemberships?.some((m) => m.committeeId === committeeId && m.capabilities.includes(capability)));
+  const canManage = can("committee.configure");
+  // Reports stay readable after archiving, so this one does not go through can()
+  const canViewReports =
+    user?.isSuperAdmin === true ||
+    !!myMemberships?.some((m) => m.committeeId === committeeId && m.capabilities.includes("reports.view"));
+
   const updateRoleMutation = useMutation({
     mutationFn: async ({ memberId, role }: { memberId: string; role: string }) => {
       const response = await apiRequest("PATCH", `/api/committee-members/${memberId}`, { role });
@@ -162,6 +194,14 @@ export default function CommitteeDetailPage() {
               Ver Calendario
             </Button>
           </Link>
+          {canManage && (
+            <a href={`/kiosk/${committeeId}`} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline" data-testid="button-open-kiosk">
+                <QrCode className="mr-2 h-4 w-4" />
+                Kiosco QR
+              </Button>
+            </a>
+          )}
           <Link href={`/committees/${committeeId}/settings`}>
             <Button variant="outline" data-testid="button-settings">
               <Settings className="mr-2 h-4 w-4" />
@@ -171,6 +211,18 @@ export default function CommitteeDetailPage() {
         </div>
       </div>
 
+      {committee.archivedAt && (
+        <Card className="border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950" data-testid="banner-committee-archived">
+          <CardContent className="flex items-center gap-3 pt-6">
+            <Archive className="h-5 w-5 shrink-0 text-amber-600" />
+            <p className="text-sm">
+              Comité archivado el {format(new Date(committee.archivedAt), "d 'de' MMMM 'de' yyyy", { locale: es })}. Sus
+              reportes y documentos siguen disponibles, pero ya no admite cambios.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {committee.description && (
         <Card>
           <CardContent className="pt-6">
@@ -193,33 +245,26 @@ export default function CommitteeDetailPage() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Horario Mañana</CardTitle>
-            <Clock className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {committee.morningStart} - {committee.morningEnd}
-            </div>
-            <p className="text-xs text-muted-foreground">turno matutino</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Horario Tarde</CardTitle>
-            <Clock className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {committee.afternoonStart} - {committee.afternoonEnd}
-            </div>
-            <p className="text-xs text-muted-foreground">turno vespertino</p>
-          </CardContent>
-        </Card>
+        {shifts.slice(0, 2).map((shift) => (
+          <Card key={shift.key}>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Horario {shift.name}</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {shift.startTime} - {shift.endTime}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {shifts.length > 2 ? `${shifts.length} turnos configurados` : `hasta ${shift.maxCapacity} personas`}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
+      {canViewReports && <ChildCommitteesSummary committeeId={committee.id} />}
+
       <Tabs defaultValue="members" className="space-y-4">
         <TabsList>
           <TabsTrigger value="members" data-testid="tab-members">
@@ -233,6 +278,7 @@ export default function CommitteeDetailPage() {
         </TabsList>
 
         <TabsContent value="members" className="space-y-4">
+          {can("members.manage") && <MembershipRequests committeeId={committee.id} />}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-4">
               <div>
@@ -255,6 +301,7 @@ export default function CommitteeDetailPage() {
                       <TableHead>Email</TableHead>
                       <TableHead>Rol</TableHead>
                       <TableHead>Estado</TableHead>
+                      {can("members.manage") && <TableHead className="text-right">Acciones</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -303,6 +350,11 @@ export default function CommitteeDetailPage() {
                             {member.isActive ? "Activo" : "Inactivo"}
                           </Badge>
                         </TableCell>
+                        {can("members.manage") && (
+                          <TableCell className="text-right">
+                            {member.userId !== user?.id && <MemberOffboardingActions member={member} />}
+                          </TableCell>
+                        )}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -329,24 +381,17 @@ export default function CommitteeDetailPage() {
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid gap-6 md:grid-cols-2">
-                <div className="space-y-2">
-                  <h4 className="font-medium">Turno Matutino</h4>
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Clock className="h-4 w-4" />
-                    <span>
-                      {committee.morningStart} - {committee.morningEnd}
-                    </span>
+                {shifts.map((shift) => (
+                  <div key={shift.key} className="space-y-2">
+                    <h4 className="font-medium">Turno {shift.name}</h4>
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Clock className="h-4 w-4" />
+                      <span>
+                        {shift.startTime} - {shift.endTime}
+                      </span>
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <h4 className="font-medium">Turno Vespertino</h4>
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Clock className="h-4 w-4" />
-                    <span>
-                      {committee.afternoonStart} - {committee.afternoonEnd}
-                    </span>
-                  </div>
-                </div>
+                ))}
               </div>
 
               <div className="space-y-2">
@@ -374,6 +419,11 @@ export default function CommitteeDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          {canManage && <ShiftDefinitionManager committee={committee} />}
+          {canManage && <GeofenceSettings key={committee.id} committee={committee} />}
+          {can("slots.manage") && <SlotGenerator committee={committee} />}
+          {canManage && <ClosureManager committeeId={committee.id} />}
         </TabsContent>
       </Tabs>
     </div>
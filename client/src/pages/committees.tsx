@@ -25,13 +25,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { CommitteeTree } from "@/components/committee-tree";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Building2, Plus, Search, Users, Calendar, Settings, UserPlus } from "lucide-react";
+import { Building2, Plus, Search, Users, Calendar, Settings, UserPlus, Clock } from "lucide-react";
 import type { Committee, CommitteeMember } from "@shared/schema";
 
 const createCommitteeSchema = z.object({
@@ -61,19 +62,33 @@ export default function CommitteesPage() {
     queryKey: ["/api/my-memberships"],
   });
 
+  // Pending and rejected requests to join restricted committees
+  const { data: myRequests } = useQuery<CommitteeMember[]>({
+    queryKey: ["/api/my-membership-requests"],
+  });
+
   const joinMutation = useMutation({
     mutationFn: async (committeeId: string) => {
       const response = await apiRequest("POST", `/api/committees/${committeeId}/join`);
-      return response.json();
+      return response.json() as Promise<CommitteeMember>;
     },
-    onSuccess: () => {
+    onSuccess: (member) => {
       queryClient.invalidateQueries({ queryKey: ["/api/committees"] });
       queryClient.invalidateQueries({ queryKey: ["/api/my-memberships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-membership-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/available-committees"] });
-      toast({
-        title: "Te has unido al comité",
-        description: "Ahora eres miembro de este comité",
-      });
+      queryClient.invalidateQueries({ queryKey: ["/api/committee-tree"] });
+      toast(
+        member.membershipStatus === "pending"
+          ? {
+              title: "Solicitud enviada",
+              description: "Un administrador del comité revisará tu solicitud",
+            }
+          : {
+              title: "Te has unido al comité",
+              description: "Ahora eres miembro de este comité",
+            }
+      );
     },
     onError: (error: any) => {
       toast({
@@ -241,6 +256,8 @@ export default function CommitteesPage() {
         )}
       </div>
 
+      <CommitteeTree />
+
       {isSuperAdmin ? (
         <Tabs defaultValue="my-committees" className="w-full">
           <TabsList>
@@ -309,6 +326,11 @@ export default function CommitteesPage() {
                                 {roleLabels[membership.role] || membership.role}
                               </Badge>
                             )}
+                            {committee.archivedAt && (
+                              <Badge variant="outline" className="text-xs">
+                                Archivado
+                              </Badge>
+                            )}
                           </CardDescription>
                         </div>
                       </div>
@@ -326,12 +348,14 @@ export default function CommitteesPage() {
                             Ver Detalles
                           </Button>
                         </Link>
-                        <Link href={`/calendar?committee=${committee.id}`}>
-                          <Button variant="ghost" size="sm" data-testid={`button-calendar-${committee.id}`}>
-                            <Calendar className="mr-1 h-3 w-3" />
-                            Calendario
-                          </Button>
-                        </Link>
+                        {!committee.archivedAt && (
+                          <Link href={`/calendar?committee=${committee.id}`}>
+                            <Button variant="ghost" size="sm" data-testid={`button-calendar-${committee.id}`}>
+                              <Calendar className="mr-1 h-3 w-3" />
+                              Calendario
+                            </Button>
+                          </Link>
+                        )}
                         {membership?.role === "admin" && (
                           <Link href={`/committees/${committee.id}/settings`}>
                             <Button variant="ghost" size="sm" data-testid={`button-settings-${committee.id}`}>
@@ -407,14 +431,38 @@ export default function CommitteesPage() {
                         {committee.description}
                       </p>
                     )}
-                    <Button
-                      onClick={() => joinMutation.mutate(committee.id)}
-                      disabled={joinMutation.isPending}
-                      data-testid={`button-join-${committee.id}`}
-                    >
-                      <UserPlus className="mr-2 h-4 w-4" />
-                      {joinMutation.isPending ? "Uniéndose..." : "Unirse"}
-                    </Button>
+                    {(() => {
+                      const request = myRequests?.find((r) => r.committeeId === committee.id);
+                      if (request?.membershipStatus === "pending") {
+                        return (
+                          <Badge variant="secondary" data-testid={`badge-request-pending-${committee.id}`}>
+                            <Clock className="mr-1 h-3 w-3" />
+                            Solicitud pendiente
+                          </Badge>
+                        );
+                      }
+                      return (
+                        <>
+                          {request?.membershipStatus === "rejected" && (
+                            <p className="mb-3 text-sm text-destructive" data-testid={`text-request-rejected-${committee.id}`}>
+                              Tu solicitud fue rechazada{request.reviewNote ? `: ${request.reviewNote}` : ""}
+                            </p>
+                          )}
+                          <Button
+                            onClick={() => joinMutation.mutate(committee.id)}
+                            disabled={joinMutation.isPending}
+                            data-testid={`button-join-${committee.id}`}
+                          >
+                            <UserPlus className="mr-2 h-4 w-4" />
+                            {joinMutation.isPending
+                              ? "Enviando..."
+                              : committee.isRestricted
+                                ? request ? "Volver a solicitar" : "Solicitar ingreso"
+                                : "Unirse"}
+                          </Button>
+                        </>
+                      );
+                    })()}
                   </CardContent>
                 </Card>
               ))}
@@ -511,6 +559,11 @@ export default function CommitteesPage() {
                                 {roleLabels[membership.role] || membership.role}
                               </Badge>
                             )}
+                            {committee.archivedAt && (
+                              <Badge variant="outline" className="text-xs">
+                                Archivado
+                              </Badge>
+                            )}
                           </CardDescription>
                         </div>
                       </div>
@@ -528,12 +581,14 @@ export default function CommitteesPage() {
                             Ver Detalles
                           </Button>
                         </Link>
-                        <Link href={`/calendar?committee=${committee.id}`}>
-                          <Button variant="ghost" size="sm" data-testid={`button-calendar-${committee.id}`}>
-                            <Calendar className="mr-1 h-3 w-3" />
-                            Calendario
-                          </Button>
-                        </Link>
+                        {!committee.archivedAt && (
+                          <Link href={`/calendar?committee=${committee.id}`}>
+                            <Button variant="ghost" size="sm" data-testid={`button-calendar-${committee.id}`}>
+                              <Calendar className="mr-1 h-3 w-3" />
+                              Calendario
+                            </Button>
+                          </Link>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -27,15 +27,17 @@ interface DashboardStats {
 export default function DashboardPage() {
   const { user } = useAuth();
 
-  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[]>({
+  // Archived committees are read-only, so they are not offered here
+  const { data: committees, isLoading: committeesLoading } = useQuery<Committee[], Error, Committee[]>({
     queryKey: ["/api/committees"],
+    select: (data) => data.filter((committee) => !committee.archivedAt),
   });
 
   const { data: myMemberships, isLoading: membershipsLoading } = useQuery<CommitteeMember[]>({
     queryKey: ["/api/my-memberships"],
   });
 
-  const { data: upcomingSlots, isLoading: slotsLoading } = useQuery<(AttendanceSlot & { committeeName: string })[]>({
+  const { data: upcomingSlots, isLoading: slotsLoading } = useQuery<(AttendanceSlot & { committeeName: string; shiftName: string })[]>({
     queryKey: ["/api/upcoming-slots"],
   });
 
@@ -48,12 +50,6 @@ export default function DashboardPage() {
     myAttendances: 0,
   };
 
-  const shiftLabels: Record<string, string> = {
-    morning: "Mañana",
-    afternoon: "Tarde",
-    full_day: "Día completo",
-  };
-
   const roleLabels: Record<string, string> = {
     admin: "Administrador",
     president: "Presidente",
@@ -268,7 +264,7 @@ export default function DashboardPage() {
                       </p>
                     </div>
                     <Badge variant="outline" className="text-xs">
-                      {shiftLabels[slot.shift] || slot.shift}
+                      {slot.shiftName || slot.shift}
                     </Badge>
                   </div>
                 ))}
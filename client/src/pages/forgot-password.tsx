@@ -0,0 +1,102 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound, Loader2, MailCheck } from "lucide-react";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Correo electrónico inválido"),
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordForm) => {
+      const res = await apiRequest("POST", "/api/auth/forgot-password", data);
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo enviar el correo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 rounded-md bg-primary/10">
+              {forgotPasswordMutation.isSuccess ? (
+                <MailCheck className="h-8 w-8 text-primary" />
+              ) : (
+                <KeyRound className="h-8 w-8 text-primary" />
+              )}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">Recuperar Contraseña</CardTitle>
+          <CardDescription>
+            {forgotPasswordMutation.isSuccess
+              ? "Si el correo está registrado, recibirás un enlace para restablecer tu contraseña. Revisa también tu carpeta de spam."
+              : "Te enviaremos un enlace para crear una nueva contraseña"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!forgotPasswordMutation.isSuccess && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => forgotPasswordMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Correo Electrónico</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="tu@correo.com" data-testid="input-email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={forgotPasswordMutation.isPending}
+                  data-testid="button-send-reset"
+                >
+                  {forgotPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enviar enlace
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-6 text-center text-sm text-muted-foreground">
+            <Link href="/login" className="text-primary hover:underline" data-testid="link-login">
+              Volver a iniciar sesión
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import QRCode from "qrcode";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertCircle, QrCode } from "lucide-react";
+
+interface KioskToken {
+  token: string;
+  expiresAt: string;
+  refreshSeconds: number;
+  committeeName: string;
+  logoUrl: string | null;
+}
+
+export default function KioskPage() {
+  const [, params] = useRoute("/kiosk/:committeeId");
+  const committeeId = params?.committeeId;
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  const { data, error } = useQuery<KioskToken>({
+    queryKey: ["/api/committees", committeeId, "kiosk-token"],
+    enabled: !!committeeId,
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.expiresAt;
+      return expiresAt ? Math.max(new Date(expiresAt).getTime() - Date.now(), 1000) : 5000;
+    },
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    const checkInUrl = `${window.location.origin}/check-in?token=${encodeURIComponent(data.token)}`;
+    QRCode.toDataURL(checkInUrl, { width: 480, margin: 1 }).then(setQrDataUrl);
+  }, [data?.token]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="flex flex-col items-center gap-3 pt-6 text-center">
+            <AlertCircle className="h-10 w-10 text-destructive" />
+            <p className="text-sm text-muted-foreground">
+              Solo los administradores del comité pueden abrir el kiosco de asistencia
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const secondsLeft = data ? Math.max(0, Math.ceil((new Date(data.expiresAt).getTime() - now.getTime()) / 1000)) : 0;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4" data-testid="page-kiosk">
+      <Card className="w-full max-w-xl">
+        <CardHeader className="text-center">
+          {data?.logoUrl && (
+            <img src={data.logoUrl} alt={data.committeeName} className="mx-auto mb-2 h-16 w-16 object-contain" />
+          )}
+          <CardTitle className="text-2xl">{data?.committeeName ?? <Skeleton className="mx-auto h-8 w-48" />}</CardTitle>
+          <CardDescription className="flex items-center justify-center gap-2">
+            <QrCode className="h-4 w-4" />
+            Escanea el código con la app para registrar tu asistencia
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt="Código QR de asistencia" className="h-80 w-80" data-testid="img-kiosk-qr" />
+          ) : (
+            <Skeleton className="h-80 w-80" />
+          )}
+          {data && (
+            <div className="w-full max-w-xs space-y-1">
+              <Progress value={(secondsLeft / data.refreshSeconds) * 100} />
+              <p className="text-center text-xs text-muted-foreground">
+                El código cambia en {secondsLeft} s
+              </p>
+            </div>
+          )}
+          <p className="text-lg font-medium capitalize">
+            {format(now, "EEEE d 'de' MMMM, HH:mm", { locale: es })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,9 +8,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { OtpCodeInput } from "@/components/two-factor-settings";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, Users } from "lucide-react";
+import { Loader2, ShieldCheck, Users } from "lucide-react";
 
 const loginSchema = z.object({
   email: z.string().email("Correo electrónico inválido"),
@@ -20,8 +21,11 @@ const loginSchema = z.object({
 type LoginForm = z.infer<typeof loginSchema>;
 
 export default function LoginPage() {
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
   const { toast } = useToast();
+  const [isTwoFactorStep, setIsTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -31,14 +35,25 @@ export default function LoginPage() {
     },
   });
 
+  const onLoggedIn = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    // Members who scanned a kiosk QR code while logged out finish their check-in here
+    if (location !== "/check-in") {
+      setLocation("/dashboard");
+    }
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginForm) => {
       const res = await apiRequest("POST", "/api/auth/login", data);
       return res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      setLocation("/dashboard");
+    onSuccess: (result: { twoFactorRequired?: boolean }) => {
+      if (result.twoFactorRequired) {
+        setIsTwoFactorStep(true);
+        return;
+      }
+      onLoggedIn();
     },
     onError: (error: Error) => {
       toast({
@@ -49,10 +64,114 @@ export default function LoginPage() {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(
+        "POST",
+        "/api/auth/login/2fa",
+        useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode }
+      ),
+    onSuccess: onLoggedIn,
+    onError: (error: Error) => {
+      setTwoFactorCode("");
+      // The pending login expires or runs out of attempts; start over from the password
+      if (error.message.startsWith("401")) {
+        setIsTwoFactorStep(false);
+        form.resetField("password");
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Código incorrecto",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: LoginForm) => {
     loginMutation.mutate(data);
   };
 
+  if (isTwoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-3 rounded-md bg-primary/10">
+                <ShieldCheck className="h-8 w-8 text-primary" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl">Verificación en dos pasos</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Ingresa uno de tus códigos de recuperación"
+                : "Ingresa el código de 6 dígitos de tu app de autenticación"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                twoFactorMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              {useRecoveryCode ? (
+                <Input
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  placeholder="XXXX-XXXX"
+                  autoFocus
+                  data-testid="input-recovery-code"
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <OtpCodeInput value={twoFactorCode} onChange={setTwoFactorCode} testId="input-2fa-code" />
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={
+                  twoFactorMutation.isPending || (useRecoveryCode ? !twoFactorCode.trim() : twoFactorCode.length !== 6)
+                }
+                data-testid="button-verify-2fa"
+              >
+                {twoFactorMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verificar
+              </Button>
+            </form>
+            <div className="mt-6 flex flex-col items-center gap-2 text-sm">
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setTwoFactorCode("");
+                }}
+                data-testid="button-toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Usar código de la app" : "Usar código de recuperación"}
+              </button>
+              <button
+                type="button"
+                className="text-muted-foreground hover:underline"
+                onClick={() => {
+                  setIsTwoFactorStep(false);
+                  setTwoFactorCode("");
+                  form.resetField("password");
+                }}
+                data-testid="button-back-to-login"
+              >
+                Volver
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -93,7 +212,16 @@ export default function LoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Contraseña</FormLabel>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Contraseña</FormLabel>
+                      <Link
+                        href="/forgot-password"
+                        className="text-xs text-primary hover:underline"
+                        data-testid="link-forgot-password"
+                      >
+                        ¿Olvidaste tu contraseña?
+                      </Link>
+                    </div>
                     <FormControl>
                       <Input
                         type="password"
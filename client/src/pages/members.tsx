@@ -22,6 +22,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
@@ -33,7 +43,9 @@ import {
   UserCog,
   Filter,
   Shield,
+  LogOut,
 } from "lucide-react";
+import { MemberOffboardingActions } from "@/components/member-offboarding";
 import type { CommitteeMember, Committee, Role } from "@shared/schema";
 import type { User } from "@shared/models/auth";
 
@@ -50,6 +62,7 @@ export default function MembersPage() {
   const { toast } = useToast();
   const { user } = useAuth();
   const isSuperAdmin = user?.isSuperAdmin === true;
+  const [userToLogout, setUserToLogout] = useState<User | null>(null);
 
   const { data: members, isLoading: membersLoading } = useQuery<MemberWithDetails[]>({
     queryKey: ["/api/all-members"],
@@ -126,6 +139,26 @@ export default function MembersPage() {
     },
   });
 
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/admin/users/${userId}/logout`);
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Sesiones cerradas",
+        description: `Se cerraron ${result.revoked} sesiones del usuario`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudieron cerrar las sesiones",
+        variant: "destructive",
+      });
+    },
+  });
+
   const leadershipRoleOptions = [
     { value: "none", label: "Sin liderazgo" },
     { value: "counselor", label: "Consejero" },
@@ -303,6 +336,7 @@ export default function MembersPage() {
                   <TableHead>Liderazgo</TableHead>
                   <TableHead>Cargo</TableHead>
                   <TableHead>Estado</TableHead>
+                  {isSuperAdmin && <TableHead className="text-right">Sesiones</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -342,6 +376,7 @@ export default function MembersPage() {
                           onCheckedChange={(checked) =>
                             updateAdminMutation.mutate({ memberId: member.id, isAdmin: checked })
                           }
+                          disabled={!isSuperAdmin && member.userId === user?.id}
                           data-testid={`switch-admin-${member.id}`}
                         />
                         {member.isAdmin && (
@@ -407,10 +442,28 @@ export default function MembersPage() {
                       )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={member.isActive ? "default" : "secondary"}>
-                        {member.isActive ? "Activo" : "Inactivo"}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={member.isActive ? "default" : "secondary"}>
+                          {member.isActive ? "Activo" : "Inactivo"}
+                        </Badge>
+                        {member.userId !== user?.id && <MemberOffboardingActions member={member} />}
+                      </div>
                     </TableCell>
+                    {isSuperAdmin && (
+                      <TableCell className="text-right">
+                        {member.user && member.userId !== user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setUserToLogout(member.user!)}
+                            data-testid={`button-force-logout-${member.id}`}
+                          >
+                            <LogOut className="mr-2 h-4 w-4" />
+                            Cerrar sesiones
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
@@ -427,6 +480,33 @@ export default function MembersPage() {
           )}
         </CardContent>
       </Card>
+
+      <AlertDialog open={!!userToLogout} onOpenChange={() => setUserToLogout(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              ¿Cerrar todas las sesiones de {userToLogout?.firstName} {userToLogout?.lastName}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Se cerrará la sesión en todos sus dispositivos y tendrá que volver a iniciar sesión. Si su cuenta está
+              comprometida, pídele también que cambie su contraseña.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-force-logout">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (userToLogout) {
+                  forceLogoutMutation.mutate(userToLogout.id);
+                }
+              }}
+              data-testid="button-confirm-force-logout"
+            >
+              Cerrar sesiones
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
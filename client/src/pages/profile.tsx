@@ -4,6 +4,9 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { ChangePasswordCard } from "@/components/change-password-card";
+import { useSendVerificationEmail } from "@/components/email-verification-banner";
 import { useAuth } from "@/hooks/use-auth";
 import { format, parseISO } from "date-fns";
 import { es } from "date-fns/locale";
@@ -23,6 +26,7 @@ interface MembershipWithCommittee extends CommitteeMember {
 
 export default function ProfilePage() {
   const { user, isLoading: authLoading } = useAuth();
+  const sendVerification = useSendVerificationEmail();
 
   const { data: memberships, isLoading: membershipsLoading } = useQuery<MembershipWithCommittee[]>({
     queryKey: ["/api/my-memberships"],
@@ -97,6 +101,27 @@ export default function ProfilePage() {
                   <p className="text-sm text-muted-foreground truncate">
                     {user?.email || "No especificado"}
                   </p>
+                  {user?.emailVerifiedAt ? (
+                    <Badge variant="secondary" className="mt-1" data-testid="badge-email-verified">
+                      Verificado
+                    </Badge>
+                  ) : (
+                    <div className="mt-1 flex items-center gap-2">
+                      <Badge variant="outline" data-testid="badge-email-unverified">
+                        Sin verificar
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => sendVerification.mutate()}
+                        disabled={sendVerification.isPending}
+                        data-testid="button-send-verification"
+                      >
+                        Enviar enlace
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-3">
@@ -193,6 +218,8 @@ export default function ProfilePage() {
             )}
           </CardContent>
         </Card>
+
+        <ChangePasswordCard />
       </div>
     </div>
   );
@@ -19,6 +19,7 @@ interface PublicCommittee {
   id: string;
   name: string;
   code: string;
+  requiresApproval: boolean;
 }
 
 interface InviteDetails {
@@ -138,13 +139,16 @@ export default function RegisterPage() {
       const res = await apiRequest("POST", "/api/auth/register", payload);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      const needsApproval = !inviteToken && committees?.find((c) => c.id === data.committeeId)?.requiresApproval;
       toast({
         title: "Cuenta creada",
         description: inviteToken 
           ? "Tu cuenta ha sido creada y has sido agregado al equipo"
-          : "Tu cuenta ha sido creada exitosamente",
+          : needsApproval
+            ? "Tu solicitud de ingreso al comité quedó pendiente de aprobación"
+            : "Tu cuenta ha sido creada exitosamente",
       });
       setLocation("/dashboard");
     },
@@ -347,6 +351,7 @@ export default function RegisterPage() {
                               data-testid={`select-committee-${committee.id}`}
                             >
                               {committee.name} ({committee.code})
+                              {committee.requiresApproval && " · requiere aprobación"}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -0,0 +1,187 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Link, useLocation, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react";
+
+const setPasswordSchema = z.object({
+  password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Las contraseñas no coinciden",
+  path: ["confirmPassword"],
+});
+
+type SetPasswordForm = z.infer<typeof setPasswordSchema>;
+
+interface PasswordSetupDetails {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Imported accounts choose their first password here (/set-password); the same form
+// finishes a forgotten-password reset (/reset-password)
+export default function SetPasswordPage() {
+  const [location, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const isReset = location.startsWith("/reset-password");
+  const lookupPath = isReset ? "/api/auth/password-reset" : "/api/auth/password-setup";
+
+  const { data: details, isLoading, error } = useQuery<PasswordSetupDetails>({
+    queryKey: [lookupPath, token],
+    queryFn: async () => {
+      const response = await fetch(`${lookupPath}/${token}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "El enlace no es válido o ya expiró");
+      }
+      return response.json();
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<SetPasswordForm>({
+    resolver: zodResolver(setPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const setPasswordMutation = useMutation({
+    mutationFn: async (data: SetPasswordForm) => {
+      const res = await apiRequest("POST", isReset ? "/api/auth/reset-password" : "/api/auth/set-password", {
+        token,
+        password: data.password,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { loginRequired?: boolean }) => {
+      // Accounts with two-factor authentication still have to sign in with their code
+      if (result.loginRequired) {
+        toast({
+          title: "Contraseña guardada",
+          description: "Inicia sesión con tu nueva contraseña y el código de tu app",
+        });
+        setLocation("/login");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Contraseña guardada",
+        description: isReset ? "Ya puedes usar tu nueva contraseña" : "Tu cuenta está lista",
+      });
+      setLocation("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar la contraseña",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (token && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+            <p>Verificando enlace...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!token || error || !details) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8 text-center">
+            <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-4" />
+            <h2 className="text-lg font-semibold mb-2">Enlace inválido</h2>
+            <p className="text-muted-foreground mb-4">
+              {(error as Error | null)?.message || "El enlace no es válido o ya expiró"}
+            </p>
+            <Link href={isReset ? "/forgot-password" : "/login"}>
+              <Button variant="outline" data-testid="button-go-login">
+                {isReset ? "Solicitar otro enlace" : "Ir a iniciar sesión"}
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 rounded-md bg-primary/10">
+              <KeyRound className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{isReset ? "Nueva contraseña" : "Crea tu contraseña"}</CardTitle>
+          <CardDescription>
+            {details.firstName ? `Hola, ${details.firstName}. ` : ""}Elige una contraseña para {details.email}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => setPasswordMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contraseña</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" data-testid="input-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirmar Contraseña</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" data-testid="input-confirm-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={setPasswordMutation.isPending}
+                data-testid="button-set-password"
+              >
+                {setPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar contraseña
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
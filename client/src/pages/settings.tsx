@@ -31,6 +31,8 @@ import {
   Bug,
 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ActiveSessionsDialog } from "@/components/active-sessions-dialog";
 
 export default function SettingsPage() {
   const { theme, setTheme } = useTheme();
@@ -48,6 +50,7 @@ export default function SettingsPage() {
   const [isSubscribing, setIsSubscribing] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
 
   const [notificationSettings, setNotificationSettings] = useState({
     emailNotifications: true,
@@ -653,11 +656,13 @@ export default function SettingsPage() {
                   Dispositivos donde has iniciado sesión
                 </p>
               </div>
-              <Button variant="outline" size="sm" data-testid="button-manage-sessions">
+              <Button variant="outline" size="sm" onClick={() => setIsSessionsOpen(true)} data-testid="button-manage-sessions">
                 Administrar
               </Button>
             </div>
             <Separator />
+            <TwoFactorSettings />
+            <Separator />
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Autenticación</Label>
@@ -670,6 +675,8 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <ActiveSessionsDialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen} />
     </div>
   );
 }
@@ -0,0 +1,484 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { endOfMonth, format, startOfMonth, startOfYear, subMonths } from "date-fns";
+import { BarChart3, CalendarX, Clock, Target, UserCheck } from "lucide-react";
+import type { Committee } from "@shared/schema";
+import type { Capability } from "@shared/permissions";
+
+interface MemberStatistics {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  roleName: string | null;
+  scheduled: number;
+  attended: number;
+  late: number;
+  noShows: number;
+  excused: number;
+  cancellations: number;
+  hoursServed: number;
+  monthlyQuota: number | null;
+  expectedShifts: number | null;
+  compliance: number | null;
+}
+
+interface TrendPoint {
+  month: string;
+  label: string;
+  attended: number;
+  late: number;
+  noShows: number;
+  cancellations: number;
+  hoursServed: number;
+  membersMeetingQuota: number;
+  membersWithQuota: number;
+}
+
+interface CommitteeStatistics {
+  committeeId: string;
+  startDate: string;
+  endDate: string;
+  monthlyQuota: number | null;
+  members: MemberStatistics[];
+  trend: TrendPoint[];
+}
+
+interface MembershipWithCommittee {
+  id: string;
+  committeeId: string;
+  isAdmin: boolean;
+  capabilities: Capability[];
+  committee?: Committee;
+}
+
+type PeriodKey = "3m" | "6m" | "12m" | "year";
+
+const periodLabels: Record<PeriodKey, string> = {
+  "3m": "Últimos 3 meses",
+  "6m": "Últimos 6 meses",
+  "12m": "Últimos 12 meses",
+  year: "Este año",
+};
+
+function getPeriodRange(period: PeriodKey): { startDate: string; endDate: string } {
+  const now = new Date();
+  const start =
+    period === "year"
+      ? startOfYear(now)
+      : startOfMonth(subMonths(now, { "3m": 2, "6m": 5, "12m": 11 }[period]));
+  return { startDate: format(start, "yyyy-MM-dd"), endDate: format(endOfMonth(now), "yyyy-MM-dd") };
+}
+
+const activityChartConfig = {
+  attended: { label: "Asistencias", color: "hsl(var(--chart-1))" },
+  late: { label: "Retardos", color: "hsl(var(--chart-4))" },
+  noShows: { label: "Faltas", color: "hsl(var(--destructive))" },
+  cancellations: { label: "Cancelaciones", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const complianceChartConfig = {
+  complianceRate: { label: "Miembros en cuota", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+function getComplianceBadge(compliance: number | null) {
+  if (compliance === null) return <Badge variant="outline">Sin cuota</Badge>;
+  if (compliance >= 100) return <Badge className="bg-green-600 text-white">Cumple</Badge>;
+  if (compliance >= 50) return <Badge className="bg-amber-500 text-white">En riesgo</Badge>;
+  return <Badge variant="destructive">Requiere seguimiento</Badge>;
+}
+
+export default function StatisticsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedCommittee, setSelectedCommittee] = useState<string>("");
+  const [period, setPeriod] = useState<PeriodKey>("3m");
+  const [quotaInput, setQuotaInput] = useState("");
+
+  const { data: memberships } = useQuery<MembershipWithCommittee[]>({
+    queryKey: ["/api/my-memberships"],
+  });
+
+  const { data: committees } = useQuery<Committee[]>({
+    queryKey: ["/api/committees"],
+  });
+
+  const adminCommittees = useMemo(() => {
+    if (user?.isSuperAdmin) {
+      return committees || [];
+    }
+    return (
+      memberships
+        ?.filter((m) => m.capabilities.includes("reports.view") && m.committee)
+        .map((m) => m.committee!) || []
+    );
+  }, [memberships, committees, user?.isSuperAdmin]);
+
+  useEffect(() => {
+    if (!selectedCommittee && adminCommittees.length > 0) {
+      setSelectedCommittee(adminCommittees[0].id);
+    }
+  }, [adminCommittees, selectedCommittee]);
+
+  const { startDate, endDate } = getPeriodRange(period);
+
+  const { data: statistics, isLoading } = useQuery<CommitteeStatistics>({
+    queryKey: ["/api/committees", selectedCommittee, "statistics", startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, endDate });
+      const response = await fetch(`/api/committees/${selectedCommittee}/statistics?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch statistics");
+      return response.json();
+    },
+    enabled: !!selectedCommittee,
+  });
+
+  useEffect(() => {
+    setQuotaInput(statistics?.monthlyQuota != null ? String(statistics.monthlyQuota) : "");
+  }, [statistics?.committeeId, statistics?.monthlyQuota]);
+
+  const updateQuotaMutation = useMutation({
+    mutationFn: async (monthlyQuota: number | null) => {
+      const response = await apiRequest("PATCH", `/api/committees/${selectedCommittee}/monthly-quota`, {
+        monthlyQuota,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/committees", selectedCommittee, "statistics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/committees"] });
+      toast({ title: "Cuota actualizada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo actualizar la cuota",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveQuota = () => {
+    const value = quotaInput.trim() === "" ? null : parseInt(quotaInput, 10);
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast({ title: "Error", description: "La cuota debe ser un número positivo", variant: "destructive" });
+      return;
+    }
+    updateQuotaMutation.mutate(value);
+  };
+
+  const totals = useMemo(() => {
+    const members = statistics?.members || [];
+    return {
+      served: members.reduce((sum, m) => sum + m.attended + m.late, 0),
+      hours: Math.round(members.reduce((sum, m) => sum + m.hoursServed, 0) * 10) / 10,
+      noShows: members.reduce((sum, m) => sum + m.noShows, 0),
+      cancellations: members.reduce((sum, m) => sum + m.cancellations, 0),
+      belowQuota: members.filter((m) => m.compliance !== null && m.compliance < 100).length,
+    };
+  }, [statistics]);
+
+  const complianceTrend = useMemo(
+    () =>
+      (statistics?.trend || []).map((point) => ({
+        label: point.label,
+        complianceRate:
+          point.membersWithQuota > 0 ? Math.round((point.membersMeetingQuota / point.membersWithQuota) * 100) : null,
+      })),
+    [statistics]
+  );
+
+  if (!user?.isSuperAdmin && adminCommittees.length === 0) {
+    return (
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Estadísticas de Asistencia
+          </h1>
+          <p className="text-muted-foreground">
+            Solo los administradores pueden ver las estadísticas de asistencia
+          </p>
+        </div>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <BarChart3 className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground text-center">
+              No tienes permisos de administrador en ningún comité
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Estadísticas de Asistencia
+          </h1>
+          <p className="text-muted-foreground">
+            Cumplimiento de cuota y tendencias por miembro
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Select value={selectedCommittee} onValueChange={setSelectedCommittee}>
+            <SelectTrigger className="w-full sm:w-[220px]" data-testid="select-committee">
+              <SelectValue placeholder="Selecciona un comité" />
+            </SelectTrigger>
+            <SelectContent>
+              {adminCommittees.map((committee) => (
+                <SelectItem key={committee.id} value={committee.id}>
+                  {committee.name}
+                  {committee.archivedAt && " (archivado)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(value) => setPeriod(value as PeriodKey)}>
+            <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(periodLabels) as PeriodKey[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {periodLabels[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!selectedCommittee ? null : isLoading || !statistics ? (
+        <div className="grid gap-4 md:grid-cols-4">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Turnos cumplidos</CardTitle>
+                <UserCheck className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-total-served">{totals.served}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Horas servidas</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-total-hours">{totals.hours}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Faltas / cancelaciones</CardTitle>
+                <CalendarX className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-total-no-shows">
+                  {totals.noShows} / {totals.cancellations}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Debajo de la cuota</CardTitle>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-below-quota">{totals.belowQuota}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cuota mensual del comité</CardTitle>
+              <CardDescription>
+                Turnos que cada miembro debe cubrir al mes. Los roles con cuota propia la reemplazan.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="monthly-quota">Turnos por mes</Label>
+                  <Input
+                    id="monthly-quota"
+                    type="number"
+                    min={0}
+                    className="w-32"
+                    value={quotaInput}
+                    onChange={(e) => setQuotaInput(e.target.value)}
+                    placeholder="Sin cuota"
+                    data-testid="input-monthly-quota"
+                  />
+                </div>
+                <Button
+                  onClick={handleSaveQuota}
+                  disabled={updateQuotaMutation.isPending}
+                  data-testid="button-save-quota"
+                >
+                  {updateQuotaMutation.isPending ? "Guardando..." : "Guardar"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Actividad por mes</CardTitle>
+                <CardDescription>Asistencias, retardos, faltas y cancelaciones</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={activityChartConfig} className="h-[260px] w-full">
+                  <BarChart data={statistics.trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="attended" stackId="shifts" fill="var(--color-attended)" />
+                    <Bar dataKey="late" stackId="shifts" fill="var(--color-late)" />
+                    <Bar dataKey="noShows" stackId="shifts" fill="var(--color-noShows)" />
+                    <Bar dataKey="cancellations" stackId="shifts" fill="var(--color-cancellations)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Cumplimiento de cuota</CardTitle>
+                <CardDescription>Porcentaje de miembros que alcanzaron su cuota cada mes</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={complianceChartConfig} className="h-[260px] w-full">
+                  <LineChart data={complianceTrend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      dataKey="complianceRate"
+                      type="monotone"
+                      stroke="var(--color-complianceRate)"
+                      strokeWidth={2}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Miembros</CardTitle>
+              <CardDescription>Ordenados de menor a mayor cumplimiento</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {statistics.members.length === 0 ? (
+                <p className="py-8 text-center text-muted-foreground">No hay miembros activos en este comité</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Miembro</TableHead>
+                        <TableHead className="text-center">Programados</TableHead>
+                        <TableHead className="text-center">Asistió</TableHead>
+                        <TableHead className="text-center">Faltas</TableHead>
+                        <TableHead className="text-center">Cancelados</TableHead>
+                        <TableHead className="text-center">Horas</TableHead>
+                        <TableHead className="w-[220px]">Cumplimiento</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statistics.members.map((member) => (
+                        <TableRow key={member.userId} data-testid={`row-member-stats-${member.userId}`}>
+                          <TableCell>
+                            <div className="font-medium">{member.userName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {member.roleName || member.userEmail}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">{member.scheduled}</TableCell>
+                          <TableCell className="text-center">
+                            {member.attended + member.late}
+                            {member.late > 0 && (
+                              <span className="text-xs text-muted-foreground"> ({member.late} tarde)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center">{member.noShows}</TableCell>
+                          <TableCell className="text-center">{member.cancellations}</TableCell>
+                          <TableCell className="text-center">{member.hoursServed}</TableCell>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="flex items-center justify-between gap-2">
+                                {getComplianceBadge(member.compliance)}
+                                {member.expectedShifts !== null && (
+                                  <span className="text-xs text-muted-foreground">
+                                    {member.attended + member.late} de {member.expectedShifts}
+                                  </span>
+                                )}
+                              </div>
+                              {member.compliance !== null && <Progress value={member.compliance} />}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
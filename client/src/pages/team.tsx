@@ -30,8 +30,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Users, Plus, UserMinus, Mail, Settings, Calendar, Edit2, Link2, X } from "lucide-react";
-import type { CounselorTeam, CounselorTeamMember, Committee } from "@shared/schema";
+import { Users, Plus, UserMinus, Mail, Settings, Calendar, Edit2, Link2, X, Send, RefreshCw } from "lucide-react";
+import type { CounselorTeam, CounselorTeamMember, Committee, TeamInvite } from "@shared/schema";
 import type { User } from "@shared/models/auth";
 import { Link } from "wouter";
 
@@ -136,7 +136,7 @@ export default function TeamPage() {
   });
 
   // Fetch pending invites for selected team (only for team owners)
-  const { data: teamInvites } = useQuery<any[]>({
+  const { data: teamInvites } = useQuery<TeamInvite[]>({
     queryKey: ["/api/teams", selectedTeamId, "invites"],
     queryFn: async () => {
       if (!selectedTeamId) return [];
@@ -150,7 +150,11 @@ export default function TeamPage() {
     enabled: !!selectedTeamId && !!myTeams?.find(t => t.id === selectedTeamId && t.ownerUserId === user?.id),
   });
 
-  const pendingInvites = teamInvites?.filter(i => i.status === "pending") || [];
+  // Invites past their expiry count as expired even before the hourly job marks them
+  const isInviteExpired = (invite: TeamInvite) =>
+    invite.status === "expired" || (invite.status === "pending" && new Date(invite.expiresAt) < new Date());
+  const pendingInvites = teamInvites?.filter(i => i.status === "pending" && !isInviteExpired(i)) || [];
+  const expiredInvites = teamInvites?.filter(isInviteExpired) || [];
 
   const addMemberMutation = useMutation({
     mutationFn: async ({ teamId, email }: { teamId: string; email: string }) => {
@@ -169,18 +173,23 @@ export default function TeamPage() {
           title: "Miembro agregado",
           description: "El usuario ya estaba registrado y fue agregado al equipo",
         });
+      } else if (data.type === "invite_created" && data.emailSent) {
+        toast({
+          title: "Invitación enviada",
+          description: `Enviamos el enlace de registro a ${data.invite.email}`,
+        });
       } else if (data.type === "invite_created") {
-        // Copy registration URL to clipboard
+        // The email could not be sent; fall back to sharing the link by hand
         const registrationUrl = `${window.location.origin}${data.registrationUrl}`;
         navigator.clipboard.writeText(registrationUrl).then(() => {
           toast({
             title: "Invitación creada",
-            description: "El enlace de registro ha sido copiado. Compártelo con el nuevo auxiliar.",
+            description: "No se pudo enviar el correo. El enlace de registro ha sido copiado, compártelo con el nuevo auxiliar.",
           });
         }).catch(() => {
           toast({
             title: "Invitación creada",
-            description: `Comparte este enlace: ${registrationUrl}`,
+            description: `No se pudo enviar el correo. Comparte este enlace: ${registrationUrl}`,
           });
         });
       }
@@ -194,6 +203,51 @@ export default function TeamPage() {
     },
   });
 
+  const resendInviteMutation = useMutation({
+    mutationFn: async ({ teamId, inviteId }: { teamId: string; inviteId: string }) => {
+      const response = await apiRequest("POST", `/api/teams/${teamId}/invites/${inviteId}/resend`);
+      return response.json();
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", selectedTeamId, "invites"] });
+      toast({
+        title: "Invitación reenviada",
+        description: `Enviamos de nuevo el enlace a ${invite.email}`,
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", selectedTeamId, "invites"] });
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo reenviar la invitación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewInviteMutation = useMutation({
+    mutationFn: async ({ teamId, inviteId }: { teamId: string; inviteId: string }) => {
+      const response = await apiRequest("POST", `/api/teams/${teamId}/invites/${inviteId}/renew`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams", selectedTeamId, "invites"] });
+      toast({
+        title: "Invitación renovada",
+        description: data.emailSent
+          ? `Enviamos un nuevo enlace a ${data.invite.email}`
+          : "No se pudo enviar el correo. Copia el nuevo enlace desde las invitaciones pendientes.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo renovar la invitación",
+        variant: "destructive",
+      });
+    },
+  });
+
   const cancelInviteMutation = useMutation({
     mutationFn: async ({ teamId, inviteId }: { teamId: string; inviteId: string }) => {
       const response = await apiRequest("DELETE", `/api/teams/${teamId}/invites/${inviteId}`);
@@ -481,7 +535,8 @@ export default function TeamPage() {
                           <DialogHeader>
                             <DialogTitle>Agregar auxiliar</DialogTitle>
                             <DialogDescription>
-                              Ingresa el correo electrónico del usuario que deseas agregar como auxiliar
+                              Ingresa el correo electrónico del usuario que deseas agregar como auxiliar. Si aún no
+                              tiene cuenta, le enviaremos una invitación por correo.
                             </DialogDescription>
                           </DialogHeader>
                           <div className="space-y-4 py-4">
@@ -603,7 +658,7 @@ export default function TeamPage() {
                       Invitaciones pendientes ({pendingInvites.length})
                     </h4>
                     <div className="space-y-2">
-                      {pendingInvites.map((invite: any) => (
+                      {pendingInvites.map((invite) => (
                         <Card key={invite.id} className="border-dashed" data-testid={`pending-invite-${invite.id}`}>
                           <CardContent className="flex items-center justify-between py-3">
                             <div className="flex items-center gap-3">
@@ -618,11 +673,39 @@ export default function TeamPage() {
                                 </p>
                                 <p className="text-xs text-muted-foreground">
                                   Expira: {new Date(invite.expiresAt).toLocaleDateString("es-MX")}
+                                  {invite.lastSentAt && (
+                                    <> · Último envío: {new Date(invite.lastSentAt).toLocaleString("es-MX")}</>
+                                  )}
                                 </p>
                               </div>
                             </div>
                             <div className="flex items-center gap-2">
-                              <Badge variant="outline">Pendiente</Badge>
+                              {invite.deliveryStatus === "sent" ? (
+                                <Badge variant="outline">
+                                  Enviada{invite.sendCount > 1 ? ` (${invite.sendCount})` : ""}
+                                </Badge>
+                              ) : invite.deliveryStatus === "failed" ? (
+                                <Badge variant="destructive" title={invite.lastError || undefined}>
+                                  Error de envío
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline">Sin enviar</Badge>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  resendInviteMutation.mutate({
+                                    teamId: selectedTeamId!,
+                                    inviteId: invite.id,
+                                  });
+                                }}
+                                disabled={resendInviteMutation.isPending}
+                                title="Reenviar invitación por correo"
+                                data-testid={`button-resend-invite-${invite.id}`}
+                              >
+                                <Send className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -661,6 +744,55 @@ export default function TeamPage() {
                     </div>
                   </div>
                 )}
+
+                {isOwner && expiredInvites.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="text-sm font-medium text-muted-foreground mb-3">
+                      Invitaciones vencidas ({expiredInvites.length})
+                    </h4>
+                    <div className="space-y-2">
+                      {expiredInvites.map((invite) => (
+                        <Card key={invite.id} className="border-dashed opacity-75" data-testid={`expired-invite-${invite.id}`}>
+                          <CardContent className="flex items-center justify-between py-3">
+                            <div className="flex items-center gap-3">
+                              <Avatar className="h-10 w-10">
+                                <AvatarFallback className="text-muted-foreground">
+                                  ?
+                                </AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <p className="font-medium text-muted-foreground">
+                                  {invite.email}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Venció: {new Date(invite.expiresAt).toLocaleDateString("es-MX")}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="secondary">Vencida</Badge>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  renewInviteMutation.mutate({
+                                    teamId: selectedTeamId!,
+                                    inviteId: invite.id,
+                                  });
+                                }}
+                                disabled={renewInviteMutation.isPending}
+                                data-testid={`button-renew-invite-${invite.id}`}
+                              >
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                Renovar
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </>
             ) : (
               <Card>
@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TwoFactorEnrollment } from "@/components/two-factor-settings";
+import { useAuth } from "@/hooks/use-auth";
+import { ShieldCheck } from "lucide-react";
+
+// Shown instead of the app when two-factor authentication is mandatory for the account
+// and it hasn't been set up yet; the server rejects every other request until then
+export default function TwoFactorSetupPage() {
+  const { logout, isLoggingOut } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 rounded-md bg-primary/10">
+              <ShieldCheck className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">Configura la verificación en dos pasos</CardTitle>
+          <CardDescription>
+            Tu cuenta administra comités, así que necesitas un código de una app de autenticación para continuar
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorEnrollment onComplete={() => undefined} />
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={() => logout()}
+            disabled={isLoggingOut}
+            data-testid="button-2fa-setup-logout"
+          >
+            Cerrar sesión
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
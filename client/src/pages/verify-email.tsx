@@ -0,0 +1,65 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/verify-email", { token });
+      return res.json() as Promise<{ email: string }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token && verifyMutation.isIdle) verifyMutation.mutate();
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="py-8 text-center">
+          {failed ? (
+            <>
+              <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-4" />
+              <h2 className="text-lg font-semibold mb-2">Enlace inválido</h2>
+              <p className="text-muted-foreground mb-4">
+                El enlace no es válido o ya expiró. Puedes pedir uno nuevo desde tu perfil.
+              </p>
+            </>
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="h-8 w-8 text-green-600 mx-auto mb-4" />
+              <h2 className="text-lg font-semibold mb-2">Correo verificado</h2>
+              <p className="text-muted-foreground mb-4">
+                {verifyMutation.data.email} quedó confirmado. Ya tienes acceso a todos tus comités.
+              </p>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Verificando correo...</p>
+            </>
+          )}
+          {!verifyMutation.isPending && (
+            <Link href="/">
+              <Button variant="outline" data-testid="button-continue">
+                Continuar
+              </Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
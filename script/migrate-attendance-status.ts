@@ -0,0 +1,49 @@
+import pg from "pg";
+import { ATTENDANCE_STATUSES } from "../shared/attendance-status";
+
+// One-off migration for the attendance status lifecycle. Attendances created before it used
+// "confirmed" for a scheduled shift, which the attendance_status enum doesn't accept, so those
+// rows are rewritten and the column converted in one transaction. Run it once, before
+// `npm run db:push`; on a database that already has the enum it does nothing.
+async function migrate() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set");
+  }
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    const { rows } = await client.query<{ udt_name: string }>(
+      "select udt_name from information_schema.columns where table_name = 'attendances' and column_name = 'status'"
+    );
+    if (rows[0]?.udt_name === "attendance_status") {
+      console.log("attendances.status is already an attendance_status enum");
+      return;
+    }
+
+    const values = ATTENDANCE_STATUSES.map((status) => `'${status}'`).join(", ");
+    await client.query("begin");
+    await client.query(`
+      do $$ begin
+        create type attendance_status as enum (${values});
+      exception when duplicate_object then null;
+      end $$
+    `);
+    const updated = await client.query("update attendances set status = 'scheduled' where status = 'confirmed'");
+    await client.query("alter table attendances alter column status drop default");
+    await client.query("alter table attendances alter column status type attendance_status using status::attendance_status");
+    await client.query("alter table attendances alter column status set default 'scheduled'");
+    await client.query("commit");
+    console.log(`Rewrote ${updated.rowCount ?? 0} "confirmed" attendances to "scheduled" and converted the column`);
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
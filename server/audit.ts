@@ -0,0 +1,226 @@
+import type { NextFunction, Request, Response } from "express";
+import { and, desc, eq, gte, ilike, inArray, lte, or, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { getClientIp } from "./login-throttle";
+import { escapeCsv } from "./reports";
+import { auditEvents, committees, users, type AuditChanges, type AuditEvent } from "@shared/schema";
+
+// What a route knows about the change better than the URL does. Everything is optional:
+// without it the event is still written, described from the path and request body.
+export interface AuditContext {
+  committeeId?: string | null;
+  entityType?: string;
+  entityId?: string | null;
+  action?: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auditContext?: AuditContext;
+    }
+  }
+}
+
+export type AuditEventWithNames = AuditEvent & {
+  actor: { id: string; firstName: string | null; lastName: string | null; email: string } | null;
+  committee: { id: string; name: string } | null;
+};
+
+export interface AuditEventFilters {
+  // null means every committee (super admins), including events outside any committee
+  committeeIds: string[] | null;
+  actor?: string;
+  entityType?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Logins are already in login_attempts, and devices and notification snoozes are personal
+const SKIPPED_PATHS = [/^\/api\/auth\/(login|logout)/, /^\/api\/push-subscription/, /^\/api\/notifications\//, /^\/api\/test-push/];
+
+// Passwords and 2FA codes must never reach the log, so auth request bodies are not recorded
+const BODYLESS_PATHS = [/^\/api\/auth\//];
+
+const REDACTED_FIELDS = /password|token|secret/i;
+const MAX_VALUE_LENGTH = 500;
+const IGNORED_FIELDS = ["updatedAt"];
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+export function setAuditContext(req: Request, context: AuditContext) {
+  req.auditContext = { ...req.auditContext, ...context };
+}
+
+// Secrets are hidden at any depth, e.g. a push subscription's keys inside a settings object
+function normalizeValue(key: string, value: unknown): unknown {
+  if (REDACTED_FIELDS.test(key)) return "[oculto]";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => normalizeValue("", item));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([nestedKey, nested]) => [nestedKey, normalizeValue(nestedKey, nested)]));
+  }
+  if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) return `${value.slice(0, MAX_VALUE_LENGTH)}…`;
+  if (value === undefined) return null;
+  return value;
+}
+
+export function diffAuditValues(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const keys = Array.from(new Set(Object.keys(previous).concat(Object.keys(next))));
+  const changes: AuditChanges = {};
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+    const beforeValue = before ? normalizeValue(key, previous[key]) : null;
+    const afterValue = after ? normalizeValue(key, next[key]) : null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[key] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return changes;
+}
+
+// PATCH /api/committees/:id/geofence -> entity "committees", id ":id", action "geofence";
+// the /admin prefix only marks who may call the route, so it is dropped
+function describePath(method: string, path: string) {
+  const segments = path.split("/").filter(Boolean).slice(1);
+  if (segments[0] === "admin") segments.shift();
+  const action = method !== "DELETE" && segments.length > 2 ? segments[segments.length - 1] : METHOD_ACTIONS[method];
+  return { entityType: segments[0] || "api", entityId: segments[1] ?? null, action };
+}
+
+async function recordAuditEvent(req: Request, statusCode: number, path: string) {
+  const context = req.auditContext ?? {};
+  const described = describePath(req.method, path);
+  const entityType = context.entityType ?? described.entityType;
+  const entityId = context.entityId !== undefined ? context.entityId : described.entityId;
+  const body = BODYLESS_PATHS.some((pattern) => pattern.test(path)) ? null : req.body;
+
+  let committeeId = context.committeeId;
+  if (committeeId === undefined) {
+    if (entityType === "committees" && entityId) committeeId = entityId;
+    else if (typeof body?.committeeId === "string") committeeId = body.committeeId;
+    else committeeId = null;
+  }
+
+  let changes: AuditChanges | null = null;
+  if (context.before !== undefined || context.after !== undefined) {
+    changes = diffAuditValues(context.before, context.after);
+  } else if (body && typeof body === "object" && Object.keys(body).length > 0) {
+    changes = diffAuditValues(null, body);
+  }
+
+  await db.insert(auditEvents).values({
+    actorUserId: req.user!.id,
+    committeeId,
+    entityType,
+    entityId,
+    action: context.action ?? described.action,
+    method: req.method,
+    path,
+    statusCode,
+    changes,
+    ipAddress: getClientIp(req),
+  });
+}
+
+// Writes an audit event once a mutating /api request has succeeded. Routes can describe
+// the change with setAuditContext; requirePermission already fills in the committee.
+export function auditMutations(req: Request, res: Response, next: NextFunction) {
+  const path = req.originalUrl.split("?")[0];
+  if (!MUTATING_METHODS.includes(req.method) || SKIPPED_PATHS.some((pattern) => pattern.test(path))) {
+    return next();
+  }
+
+  res.on("finish", () => {
+    if (res.statusCode >= 400 || !req.user) return;
+    recordAuditEvent(req, res.statusCode, path).catch((error) => {
+      console.error("Error recording audit event:", error);
+    });
+  });
+  next();
+}
+
+function buildConditions(filters: AuditEventFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+  if (filters.committeeIds) conditions.push(inArray(auditEvents.committeeId, filters.committeeIds));
+  if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+  if (filters.actor) {
+    const pattern = `%${filters.actor}%`;
+    conditions.push(or(ilike(users.firstName, pattern), ilike(users.lastName, pattern), ilike(users.email, pattern)));
+  }
+  return and(...conditions);
+}
+
+export async function listAuditEvents(filters: AuditEventFilters, limit: number, offset = 0): Promise<AuditEventWithNames[]> {
+  if (filters.committeeIds?.length === 0) return [];
+
+  const rows = await db
+    .select({
+      event: auditEvents,
+      actor: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      committee: { id: committees.id, name: committees.name },
+    })
+    .from(auditEvents)
+    .leftJoin(users, eq(auditEvents.actorUserId, users.id))
+    .leftJoin(committees, eq(auditEvents.committeeId, committees.id))
+    .where(buildConditions(filters))
+    .orderBy(desc(auditEvents.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  return rows.map((row) => ({ ...row.event, actor: row.actor, committee: row.committee }));
+}
+
+// Entity types present in the log, for the viewer's filter
+export async function getAuditEntityTypes(): Promise<string[]> {
+  const rows = await db.selectDistinct({ entityType: auditEvents.entityType }).from(auditEvents).orderBy(auditEvents.entityType);
+  return rows.map((row) => row.entityType);
+}
+
+function formatChangeValue(value: unknown): string {
+  if (value === null) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function formatAuditChanges(changes: AuditChanges | null): string {
+  if (!changes) return "";
+  return Object.entries(changes)
+    .map(([field, { before, after }]) => `${field}: ${formatChangeValue(before)} → ${formatChangeValue(after)}`)
+    .join("; ");
+}
+
+const csvHeaders = ["Fecha", "Usuario", "Correo", "Comité", "Entidad", "ID", "Acción", "Método", "Ruta", "Cambios", "IP"];
+
+export function renderAuditCsv(events: AuditEventWithNames[]): string {
+  const rows = events.map((event) => [
+    event.createdAt?.toISOString() ?? "",
+    event.actor ? [event.actor.firstName, event.actor.lastName].filter(Boolean).join(" ") : event.actorUserId,
+    event.actor?.email ?? "",
+    event.committee?.name ?? event.committeeId ?? "",
+    event.entityType,
+    event.entityId ?? "",
+    event.action,
+    event.method,
+    event.path,
+    formatAuditChanges(event.changes),
+    event.ipAddress ?? "",
+  ]);
+  const lines = [csvHeaders, ...rows].map((values) => values.map(escapeCsv).join(","));
+  // Same BOM as the attendance reports so Excel keeps the accents
+  return "﻿" + lines.join("\r\n");
+}
@@ -3,11 +3,48 @@ import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
-import type { Express, RequestHandler } from "express";
-import { users, registerSchema, loginSchema } from "@shared/models/auth";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import {
+  users,
+  authTokens,
+  registerSchema,
+  loginSchema,
+  setPasswordSchema,
+  forgotPasswordSchema,
+  changePasswordSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  disableTwoFactorSchema,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type User,
+} from "@shared/models/auth";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, eq, gt, isNull, sql } from "drizzle-orm";
 import { storage } from "./storage";
+import { getAppUrl, sendMail } from "./mail";
+import { emailVerificationEmail, passwordResetEmail } from "./mail-templates";
+import {
+  consumeRecoveryCode,
+  countRemainingRecoveryCodes,
+  createTwoFactorEnrollment,
+  disableTwoFactor,
+  enableTwoFactor,
+  isTwoFactorMandatory,
+  replaceRecoveryCodes,
+  verifyTwoFactorCode,
+} from "./two-factor";
+import {
+  beginLoginAttempt,
+  discardLoginAttempt,
+  getClientIp,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginThrottle,
+} from "./login-throttle";
+import { listUserSessions, revokeUserSession, revokeUserSessions, trackSessionActivity } from "./sessions";
 
 const PgSession = connectPgSimple(session);
 
@@ -20,11 +57,47 @@ declare global {
       lastName: string | null;
       profileImageUrl: string | null;
       isSuperAdmin: boolean;
+      emailVerifiedAt: Date | null;
+      twoFactorEnabled: boolean;
     }
   }
 }
 
-async function hashPassword(password: string): Promise<string> {
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for users with 2FA; the session only logs in after the code
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    twoFactorEnrollmentSecret?: string;
+    twoFactorSetupRequired?: boolean;
+    // Device details shown in the active sessions list, refreshed by trackSessionActivity
+    userAgent?: string;
+    ipAddress?: string;
+    loggedInAt?: number;
+    lastActivityAt?: number;
+  }
+}
+
+// The subset of the user row kept on req.user (never the password hash)
+function toSessionUser(user: User): Express.User {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profileImageUrl: user.profileImageUrl,
+    isSuperAdmin: user.isSuperAdmin,
+    emailVerifiedAt: user.emailVerifiedAt,
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+  };
+}
+
+export const PASSWORD_SETUP_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
 
@@ -47,7 +120,7 @@ async function countUsers(): Promise<number> {
   return result.length;
 }
 
-async function createUser(email: string, password: string, firstName: string, lastName: string) {
+export async function createUser(email: string, password: string, firstName: string, lastName: string) {
   const passwordHash = await hashPassword(password);
   const userCount = await countUsers();
   const isSuperAdmin = userCount === 0;
@@ -62,6 +135,110 @@ async function createUser(email: string, password: string, firstName: string, la
   return user;
 }
 
+// Setting a password from an emailed link also proves the user owns the address
+async function updateUserPassword(userId: string, password: string, verifyEmail = false) {
+  const passwordHash = await hashPassword(password);
+  const [user] = await db
+    .update(users)
+    .set({
+      passwordHash,
+      updatedAt: new Date(),
+      ...(verifyEmail ? { emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())` } : {}),
+    })
+    .where(eq(users.id, userId))
+    .returning();
+  return user;
+}
+
+async function markEmailVerified(userId: string) {
+  const [user] = await db
+    .update(users)
+    .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())`, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
+  return user;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Issues a new emailed token and invalidates any earlier unused one with the same
+// purpose, so only the most recent link works. Returns the raw token for the link.
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  await db
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+
+  const token = randomBytes(32).toString("hex");
+  await db.insert(authTokens).values({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+async function findValidAuthToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  const [authToken] = await db
+    .select()
+    .from(authTokens)
+    .where(
+      and(
+        eq(authTokens.tokenHash, hashToken(token)),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      )
+    );
+  return authToken;
+}
+
+async function markAuthTokenUsed(id: string) {
+  await db.update(authTokens).set({ usedAt: new Date() }).where(eq(authTokens.id, id));
+}
+
+async function sendAccountLinkEmail(user: User, purpose: "password_reset" | "email_verification", appUrl: string) {
+  const ttlMs = purpose === "password_reset" ? PASSWORD_RESET_TTL_MS : EMAIL_VERIFICATION_TTL_MS;
+  const token = await issueAuthToken(user.id, purpose, ttlMs);
+  const data = {
+    firstName: user.firstName || user.email,
+    url: `${appUrl}/${purpose === "password_reset" ? "reset-password" : "verify-email"}?token=${token}`,
+    expiresAt: new Date(Date.now() + ttlMs),
+  };
+  const email = purpose === "password_reset" ? passwordResetEmail(data) : emailVerificationEmail(data);
+  await sendMail({ to: user.email, ...email });
+}
+
+function sendThrottled(res: Response, throttle: LoginThrottle) {
+  res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+  res.status(429).json({ message: throttle.message, retryAfterSeconds: throttle.retryAfterSeconds });
+}
+
+// Starts the session and flags users who still have to turn on a mandatory second factor
+function completeLogin(req: Request, res: Response, next: NextFunction, user: Express.User) {
+  req.login(user, async (err) => {
+    if (err) {
+      return next(err);
+    }
+    try {
+      req.session.twoFactorSetupRequired = !user.twoFactorEnabled && (await isTwoFactorMandatory(user));
+    } catch (error) {
+      return next(error);
+    }
+    res.json({
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      isSuperAdmin: user.isSuperAdmin,
+      twoFactorSetupRequired: req.session.twoFactorSetupRequired,
+    });
+  });
+}
+
 export function setupAuth(app: Express) {
   // Check if we're behind a proxy (Nginx, etc.)
   const isProduction = process.env.NODE_ENV === "production";
@@ -94,6 +271,18 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
+
+  // Until a user who must use 2FA turns it on, only the auth endpoints answer
+  app.use("/api", (req, res, next) => {
+    if (req.isAuthenticated() && req.session.twoFactorSetupRequired && !req.path.startsWith("/auth/")) {
+      return res.status(403).json({
+        message: "Debes activar la verificación en dos pasos para continuar",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+      });
+    }
+    next();
+  });
 
   passport.use(
     new LocalStrategy(
@@ -108,14 +297,7 @@ export function setupAuth(app: Express) {
           if (!isValid) {
             return done(null, false, { message: "Correo o contraseña incorrectos" });
           }
-          return done(null, {
-            id: user.id,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            profileImageUrl: user.profileImageUrl,
-            isSuperAdmin: user.isSuperAdmin,
-          });
+          return done(null, toSessionUser(user));
         } catch (error) {
           return done(error);
         }
@@ -133,14 +315,7 @@ export function setupAuth(app: Express) {
       if (!user) {
         return done(null, false);
       }
-      done(null, {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        profileImageUrl: user.profileImageUrl,
-        isSuperAdmin: user.isSuperAdmin,
-      });
+      done(null, toSessionUser(user));
     } catch (error) {
       done(error);
     }
@@ -172,6 +347,7 @@ export function registerAuthRoutes(app: Express) {
           return res.status(400).json({ message: "Esta invitación ya ha sido usada o cancelada" });
         }
         if (new Date(invite.expiresAt) < new Date()) {
+          await storage.updateTeamInviteStatus(invite.id, "expired");
           return res.status(400).json({ message: "Esta invitación ha expirado" });
         }
         if (invite.email.toLowerCase() !== email.toLowerCase()) {
@@ -206,15 +382,11 @@ export function registerAuthRoutes(app: Express) {
         // Mark invite as accepted
         await storage.updateTeamInviteStatus(invite.id, "accepted");
 
+        // The invite link was emailed to this address, so it counts as verified
+        await markEmailVerified(user.id);
+
         req.login(
-          {
-            id: user.id,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            profileImageUrl: user.profileImageUrl,
-            isSuperAdmin: user.isSuperAdmin,
-          },
+          toSessionUser(user),
           (err) => {
             if (err) {
               return next(err);
@@ -243,23 +415,25 @@ export function registerAuthRoutes(app: Express) {
 
       const user = await createUser(email, password, firstName, lastName);
 
+      // Restricted committees get a join request that one of their admins reviews
       await storage.createCommitteeMember({
         committeeId,
         userId: user.id,
         isAdmin: false,
         leadershipRole: "none",
         isActive: true,
+        membershipStatus: committee.isRestricted ? "pending" : "active",
       });
 
+      try {
+        await sendAccountLinkEmail(user, "email_verification", getAppUrl());
+      } catch (error) {
+        // The user can request another one from their profile
+        console.error("Error sending verification email:", error);
+      }
+
       req.login(
-        {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          profileImageUrl: user.profileImageUrl,
-          isSuperAdmin: user.isSuperAdmin,
-        },
+        toSessionUser(user),
         (err) => {
           if (err) {
             return next(err);
@@ -285,26 +459,88 @@ export function registerAuthRoutes(app: Express) {
       return res.status(400).json({ message: result.error.errors[0].message });
     }
 
-    passport.authenticate("local", (err: any, user: Express.User | false, info: { message: string }) => {
-      if (err) {
-        return next(err);
+    const ipAddress = getClientIp(req);
+    beginLoginAttempt(result.data.email, ipAddress)
+      .then(({ attemptId, throttle }) => {
+        if (throttle) {
+          return sendThrottled(res, throttle);
+        }
+        passport.authenticate("local", async (err: any, user: Express.User | false, info: { message: string }) => {
+          try {
+            if (err) {
+              return next(err);
+            }
+            if (!user) {
+              const lockout = await recordLoginFailure(result.data.email, ipAddress);
+              if (lockout) {
+                return sendThrottled(res, lockout);
+              }
+              return res.status(401).json({ message: info?.message || "Credenciales inválidas" });
+            }
+            // The attempt only counts as a success once the second factor is verified too
+            if (user.twoFactorEnabled) {
+              await discardLoginAttempt(attemptId);
+              req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS, attempts: 0 };
+              return res.json({ twoFactorRequired: true });
+            }
+            await recordLoginSuccess(attemptId);
+            completeLogin(req, res, next, user);
+          } catch (error) {
+            next(error);
+          }
+        })(req, res, next);
+      })
+      .catch(next);
+  });
+
+  app.post("/api/auth/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "El inicio de sesión expiró, ingresa tu contraseña de nuevo" });
       }
+
+      const result = twoFactorLoginSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const user = await findUserById(pending.userId);
       if (!user) {
-        return res.status(401).json({ message: info?.message || "Credenciales inválidas" });
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Credenciales inválidas" });
       }
-      req.login(user, (err) => {
-        if (err) {
-          return next(err);
+
+      const ipAddress = getClientIp(req);
+      const { attemptId, throttle } = await beginLoginAttempt(user.email, ipAddress);
+      if (throttle) {
+        return sendThrottled(res, throttle);
+      }
+
+      const { code, recoveryCode } = result.data;
+      const isValid = code ? await verifyTwoFactorCode(user, code) : await consumeRecoveryCode(user.id, recoveryCode!);
+      if (!isValid) {
+        const lockout = await recordLoginFailure(user.email, ipAddress);
+        if (lockout) {
+          delete req.session.pendingTwoFactor;
+          return sendThrottled(res, lockout);
         }
-        res.json({
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          isSuperAdmin: user.isSuperAdmin,
-        });
-      });
-    })(req, res, next);
+        pending.attempts++;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Demasiados intentos, ingresa tu contraseña de nuevo" });
+        }
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await recordLoginSuccess(attemptId);
+      completeLogin(req, res, next, toSessionUser(user));
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Error al verificar el código" });
+    }
   });
 
   app.post("/api/auth/logout", (req, res) => {
@@ -322,11 +558,279 @@ export function registerAuthRoutes(app: Express) {
     });
   });
 
+  // Emailed password links: setup for imported accounts and reset for forgotten passwords
+  const passwordLinkRoutes = [
+    { purpose: "password_setup", lookupPath: "/api/auth/password-setup/:token", submitPath: "/api/auth/set-password" },
+    { purpose: "password_reset", lookupPath: "/api/auth/password-reset/:token", submitPath: "/api/auth/reset-password" },
+  ] as const;
+
+  for (const { purpose, lookupPath, submitPath } of passwordLinkRoutes) {
+    app.get(lookupPath, async (req, res) => {
+      try {
+        const authToken = await findValidAuthToken(req.params.token, purpose);
+        const user = authToken ? await findUserById(authToken.userId) : undefined;
+        if (!user) {
+          return res.status(404).json({ message: "El enlace no es válido o ya expiró" });
+        }
+        res.json({ email: user.email, firstName: user.firstName, lastName: user.lastName });
+      } catch (error) {
+        console.error("Password link lookup error:", error);
+        res.status(500).json({ message: "Error al verificar el enlace" });
+      }
+    });
+
+    app.post(submitPath, async (req, res, next) => {
+      try {
+        const result = setPasswordSchema.safeParse(req.body);
+        if (!result.success) {
+          return res.status(400).json({ message: result.error.errors[0].message });
+        }
+
+        const authToken = await findValidAuthToken(result.data.token, purpose);
+        if (!authToken) {
+          return res.status(400).json({ message: "El enlace no es válido o ya expiró" });
+        }
+
+        const user = await updateUserPassword(authToken.userId, result.data.password, true);
+        await markAuthTokenUsed(authToken.id);
+        if (!user) {
+          return res.status(400).json({ message: "El usuario ya no existe" });
+        }
+        // Whoever had the account before the reset loses it, on every device
+        await revokeUserSessions(user.id, null);
+
+        // An emailed link must not skip the second factor: those users sign in normally
+        if (user.twoFactorEnabledAt) {
+          return res.json({ loginRequired: true });
+        }
+        completeLogin(req, res, next, toSessionUser(user));
+      } catch (error) {
+        console.error("Set password error:", error);
+        res.status(500).json({ message: "Error al guardar la contraseña" });
+      }
+    });
+  }
+
+  // Always answers the same way so the form cannot be used to find registered emails
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const result = forgotPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const user = await findUserByEmail(result.data.email);
+      if (user) {
+        try {
+          await sendAccountLinkEmail(user, "password_reset", getAppUrl());
+        } catch (error) {
+          console.error("Error sending password reset email:", error);
+        }
+      }
+      res.json({ message: "Si el correo está registrado, recibirás un enlace para restablecer tu contraseña" });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Error al procesar la solicitud" });
+    }
+  });
+
+  app.post("/api/auth/change-password", isAuthenticated, async (req, res) => {
+    try {
+      const result = changePasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const user = await findUserById(req.user!.id);
+      if (!user || !(await verifyPassword(result.data.currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: "La contraseña actual es incorrecta" });
+      }
+
+      await updateUserPassword(user.id, result.data.newPassword);
+      // Other devices sign in again with the new password; this one stays signed in
+      await revokeUserSessions(user.id, req.sessionID);
+      res.json({ message: "Contraseña actualizada" });
+    } catch (error) {
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Error al cambiar la contraseña" });
+    }
+  });
+
+  app.post("/api/auth/send-verification", isAuthenticated, async (req, res) => {
+    try {
+      const user = await findUserById(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Tu correo ya está verificado" });
+      }
+
+      await sendAccountLinkEmail(user, "email_verification", getAppUrl());
+      res.json({ message: "Te enviamos un enlace de verificación" });
+    } catch (error) {
+      console.error("Send verification error:", error);
+      res.status(500).json({ message: "No se pudo enviar el correo de verificación" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const result = verifyEmailSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const authToken = await findValidAuthToken(result.data.token, "email_verification");
+      if (!authToken) {
+        return res.status(400).json({ message: "El enlace no es válido o ya expiró" });
+      }
+
+      const user = await markEmailVerified(authToken.userId);
+      await markAuthTokenUsed(authToken.id);
+      res.json({ email: user?.email, emailVerifiedAt: user?.emailVerifiedAt });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Error al verificar el correo" });
+    }
+  });
+
   app.get("/api/auth/user", (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autenticado" });
     }
-    res.json(req.user);
+    res.json({ ...req.user, twoFactorSetupRequired: !!req.session.twoFactorSetupRequired });
+  });
+
+  app.get("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("List sessions error:", error);
+      res.status(500).json({ message: "Error al obtener las sesiones" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await revokeUserSession(req.user!.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "La sesión no existe o ya se cerró" });
+      }
+      res.json({ message: "Sesión cerrada" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Error al cerrar la sesión" });
+    }
+  });
+
+  app.post("/api/auth/sessions/revoke-others", isAuthenticated, async (req, res) => {
+    try {
+      const count = await revokeUserSessions(req.user!.id, req.sessionID);
+      res.json({ revoked: count });
+    } catch (error) {
+      console.error("Revoke other sessions error:", error);
+      res.status(500).json({ message: "Error al cerrar las demás sesiones" });
+    }
+  });
+
+  app.get("/api/auth/2fa", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user!;
+      res.json({
+        enabled: user.twoFactorEnabled,
+        recoveryCodesRemaining: user.twoFactorEnabled ? await countRemainingRecoveryCodes(user.id) : 0,
+        mandatory: await isTwoFactorMandatory(user),
+      });
+    } catch (error) {
+      console.error("Two-factor status error:", error);
+      res.status(500).json({ message: "Error al consultar la verificación en dos pasos" });
+    }
+  });
+
+  // Starts enrollment: the secret stays in the session until a first code confirms it
+  app.post("/api/auth/2fa/setup", isAuthenticated, (req, res) => {
+    if (req.user!.twoFactorEnabled) {
+      return res.status(400).json({ message: "La verificación en dos pasos ya está activa" });
+    }
+    const enrollment = createTwoFactorEnrollment(req.user!.email);
+    req.session.twoFactorEnrollmentSecret = enrollment.secret;
+    res.json(enrollment);
+  });
+
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req, res) => {
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      const secret = req.session.twoFactorEnrollmentSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Vuelve a iniciar la configuración" });
+      }
+
+      const recoveryCodes = await enableTwoFactor(req.user!.id, secret, result.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      delete req.session.twoFactorEnrollmentSecret;
+      req.session.twoFactorSetupRequired = false;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Enable two-factor error:", error);
+      res.status(500).json({ message: "Error al activar la verificación en dos pasos" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req, res) => {
+    try {
+      const result = disableTwoFactorSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const user = await findUserById(req.user!.id);
+      if (!user || !user.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "La verificación en dos pasos no está activa" });
+      }
+      if (await isTwoFactorMandatory(user)) {
+        return res.status(403).json({ message: "La verificación en dos pasos es obligatoria para tu cuenta" });
+      }
+      if (!(await verifyPassword(result.data.password, user.passwordHash))) {
+        return res.status(400).json({ message: "La contraseña es incorrecta" });
+      }
+      const codeIsValid =
+        (await verifyTwoFactorCode(user, result.data.code)) || (await consumeRecoveryCode(user.id, result.data.code));
+      if (!codeIsValid) {
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      await disableTwoFactor(user.id);
+      res.json({ message: "Verificación en dos pasos desactivada" });
+    } catch (error) {
+      console.error("Disable two-factor error:", error);
+      res.status(500).json({ message: "Error al desactivar la verificación en dos pasos" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req, res) => {
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const user = await findUserById(req.user!.id);
+      if (!user || !(await verifyTwoFactorCode(user, result.data.code))) {
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      res.json({ recoveryCodes: await replaceRecoveryCodes(user.id) });
+    } catch (error) {
+      console.error("Recovery codes error:", error);
+      res.status(500).json({ message: "Error al generar los códigos de recuperación" });
+    }
   });
 
   // Debug endpoint for session diagnostics
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { closureTypeEnum } from "@shared/schema";
+
+export const closureImportSchema = z.object({
+  format: z.enum(["json", "csv"]),
+  content: z.string().min(1),
+  committeeId: z.string().nullable().optional(),
+});
+
+const closureRowSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida, use AAAA-MM-DD"),
+  name: z.string().min(1, "El nombre es obligatorio"),
+  type: z.enum(closureTypeEnum.enumValues).default("national_holiday"),
+});
+
+export type ClosureImportRow = z.infer<typeof closureRowSchema>;
+
+export interface ClosureImportError {
+  line: number;
+  message: string;
+}
+
+// JSON: an array of { date, name, type? }. CSV: `date,name[,type]` per line, optional header row.
+export function parseClosureImport(
+  format: "json" | "csv",
+  content: string
+): { rows: ClosureImportRow[]; errors: ClosureImportError[] } {
+  let rawRows: unknown[];
+
+  if (format === "json") {
+    try {
+      const parsed = JSON.parse(content);
+      rawRows = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return { rows: [], errors: [{ line: 0, message: "JSON inválido" }] };
+    }
+  } else {
+    rawRows = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [date, name, type] = line.split(/[,;]/).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+        return { date, name, type: type || undefined };
+      })
+      .filter((row, index) => !(index === 0 && row.date.toLowerCase() === "date"));
+  }
+
+  const rows: ClosureImportRow[] = [];
+  const errors: ClosureImportError[] = [];
+  rawRows.forEach((raw, index) => {
+    const result = closureRowSchema.safeParse(raw);
+    if (result.success) {
+      rows.push(result.data);
+    } else {
+      errors.push({ line: index + 1, message: result.error.errors[0]?.message || "Fila inválida" });
+    }
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,230 @@
+import type { RequestHandler } from "express";
+import { and, eq, isNull, ne } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import type { CommitteeIdResolver } from "./permissions";
+import {
+  committees,
+  committeeMembers,
+  counselorTeamMembers,
+  counselorTeams,
+  shiftDefinitions,
+  slotTemplates,
+  type Committee,
+  type RolloverCommittee,
+} from "@shared/schema";
+
+export const ARCHIVED_COMMITTEE_MESSAGE = "Este comité está archivado; solo se puede consultar";
+
+export interface RolloverResult {
+  committee: Committee;
+  copied: { shiftDefinitions: number; slotTemplates: number; members: number; teams: number };
+}
+
+// A problem with the request that the super admin can fix; the message is shown as is
+export class CommitteeArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommitteeArchiveError";
+  }
+}
+
+export async function isCommitteeArchived(committeeId: string): Promise<boolean> {
+  const committee = await storage.getCommittee(committeeId);
+  return !!committee?.archivedAt;
+}
+
+// Rejects the request when it would change an archived committee. requirePermission already
+// does this for the routes it guards; member routes use this one. When the resolver finds
+// no committee the handler decides, as it did before archiving existed.
+export function rejectArchivedCommittee(resolveCommitteeId: CommitteeIdResolver): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const committeeId = await resolveCommitteeId(req);
+      if (committeeId && (await isCommitteeArchived(committeeId))) {
+        return res.status(403).json({ message: ARCHIVED_COMMITTEE_MESSAGE });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking committee archive:", error);
+      res.status(500).json({ message: "Failed to check committee" });
+    }
+  };
+}
+
+export async function archiveCommittee(committee: Committee, actorUserId: string): Promise<Committee> {
+  if (committee.archivedAt) {
+    throw new CommitteeArchiveError("El comité ya está archivado");
+  }
+  const [archived] = await db
+    .update(committees)
+    .set({ archivedAt: new Date(), archivedByUserId: actorUserId })
+    .where(and(eq(committees.id, committee.id), isNull(committees.archivedAt)))
+    .returning();
+  if (!archived) {
+    throw new CommitteeArchiveError("El comité ya está archivado");
+  }
+  return archived;
+}
+
+export async function unarchiveCommittee(committee: Committee): Promise<Committee> {
+  if (!committee.archivedAt) {
+    throw new CommitteeArchiveError("El comité no está archivado");
+  }
+  // Only one active committee can be the General one
+  if (committee.isGeneral) {
+    const [activeGeneral] = await db
+      .select({ id: committees.id })
+      .from(committees)
+      .where(and(eq(committees.isGeneral, true), isNull(committees.archivedAt), ne(committees.id, committee.id)));
+    if (activeGeneral) {
+      throw new CommitteeArchiveError("Ya existe un Comité General activo. Solo puede haber uno.");
+    }
+  }
+
+  const [restored] = await db
+    .update(committees)
+    .set({ archivedAt: null, archivedByUserId: null })
+    .where(eq(committees.id, committee.id))
+    .returning();
+  return restored;
+}
+
+// Creates the committee for the next cycle from an existing one. Attendance, activities and
+// documents stay with the source, which is archived at the same time unless asked otherwise.
+export async function rolloverCommittee(source: Committee, options: RolloverCommittee, actorUserId: string): Promise<RolloverResult> {
+  const [sameCode] = await db.select({ id: committees.id }).from(committees).where(eq(committees.code, options.code));
+  if (sameCode) {
+    throw new CommitteeArchiveError(`Ya existe un comité con el código ${options.code}`);
+  }
+  if (options.archiveSource && source.archivedAt) {
+    throw new CommitteeArchiveError("El comité de origen ya está archivado; desmarca la opción de archivarlo");
+  }
+
+  const { id, name, code, description, createdAt, archivedAt, archivedByUserId, previousCommitteeId, isGeneral, ...settings } = source;
+  // The General committee passes the role on only when the old one is archived
+  const inheritsGeneral = isGeneral && (options.archiveSource || !!archivedAt);
+
+  return db.transaction(async (tx) => {
+    const [committee] = await tx
+      .insert(committees)
+      .values({
+        ...settings,
+        name: options.name,
+        code: options.code,
+        description: options.description || description,
+        isGeneral: inheritsGeneral,
+        previousCommitteeId: source.id,
+      })
+      .returning();
+
+    const sourceShifts = await tx.select().from(shiftDefinitions).where(eq(shiftDefinitions.committeeId, source.id));
+    if (sourceShifts.length > 0) {
+      await tx.insert(shiftDefinitions).values(
+        sourceShifts.map(({ id, createdAt, ...shift }) => ({ ...shift, committeeId: committee.id }))
+      );
+    }
+
+    const sourceTemplates = await tx.select().from(slotTemplates).where(eq(slotTemplates.committeeId, source.id));
+    if (sourceTemplates.length > 0) {
+      await tx.insert(slotTemplates).values(
+        sourceTemplates.map(({ id, createdAt, ...template }) => ({ ...template, committeeId: committee.id }))
+      );
+    }
+
+    // Active members keep their admin flag, leadership role and cargo
+    const memberUserIds = new Set<string>();
+    if (options.copyMembers) {
+      const sourceMembers = await tx
+        .select()
+        .from(committeeMembers)
+        .where(
+          and(
+            eq(committeeMembers.committeeId, source.id),
+            eq(committeeMembers.isActive, true),
+            eq(committeeMembers.membershipStatus, "active")
+          )
+        );
+      if (sourceMembers.length > 0) {
+        await tx.insert(committeeMembers).values(
+          sourceMembers.map((m) => ({
+            committeeId: committee.id,
+            userId: m.userId,
+            isAdmin: m.isAdmin,
+            leadershipRole: m.leadershipRole,
+            roleId: m.roleId,
+            isActive: true,
+            membershipStatus: "active" as const,
+          }))
+        );
+      }
+      sourceMembers.forEach((m) => memberUserIds.add(m.userId));
+    }
+    // Whoever creates a committee administers it, as in POST /api/committees
+    if (!memberUserIds.has(actorUserId)) {
+      await tx.insert(committeeMembers).values({
+        committeeId: committee.id,
+        userId: actorUserId,
+        isAdmin: true,
+        leadershipRole: "none",
+        isActive: true,
+      });
+    }
+
+    let teamCount = 0;
+    if (options.copyTeams) {
+      const sourceTeams = await tx
+        .select()
+        .from(counselorTeams)
+        .where(and(eq(counselorTeams.committeeId, source.id), eq(counselorTeams.isActive, true)));
+      for (const team of sourceTeams.filter((t) => memberUserIds.has(t.ownerUserId))) {
+        // Subdomains are unique, so the team's address follows it only when the old committee closes
+        const movesSubdomain = !!team.subdomain && options.archiveSource;
+        if (movesSubdomain) {
+          await tx.update(counselorTeams).set({ subdomain: null }).where(eq(counselorTeams.id, team.id));
+        }
+        const [copy] = await tx
+          .insert(counselorTeams)
+          .values({
+            committeeId: committee.id,
+            ownerUserId: team.ownerUserId,
+            name: team.name,
+            description: team.description,
+            subdomain: movesSubdomain ? team.subdomain : null,
+            isActive: true,
+          })
+          .returning();
+
+        const teamMembers = await tx.select().from(counselorTeamMembers).where(eq(counselorTeamMembers.teamId, team.id));
+        if (teamMembers.length > 0) {
+          await tx
+            .insert(counselorTeamMembers)
+            .values(teamMembers.map((m) => ({ teamId: copy.id, userId: m.userId, role: m.role })));
+        }
+        teamCount++;
+      }
+    }
+
+    if (options.archiveSource) {
+      await tx
+        .update(committees)
+        .set({ archivedAt: new Date(), archivedByUserId: actorUserId })
+        .where(eq(committees.id, source.id));
+      // The new committee takes the old one's place over its child committees
+      await tx
+        .update(committees)
+        .set({ parentCommitteeId: committee.id })
+        .where(and(eq(committees.parentCommitteeId, source.id), isNull(committees.archivedAt)));
+    }
+
+    return {
+      committee,
+      copied: {
+        shiftDefinitions: sourceShifts.length,
+        slotTemplates: sourceTemplates.length,
+        members: memberUserIds.size,
+        teams: teamCount,
+      },
+    };
+  });
+}
@@ -0,0 +1,258 @@
+import { and, between, count, eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { isPresentStatus } from "@shared/attendance-status";
+import { committees, committeeMembers, documents, memberActivities, type Committee } from "@shared/schema";
+
+export interface CommitteeTreeNode {
+  id: string;
+  name: string;
+  code: string;
+  isGeneral: boolean;
+  cascadePermissions: boolean;
+  canView: boolean; // a member, or inherits capabilities from a parent committee
+  children: CommitteeTreeNode[];
+}
+
+export interface ChildCommitteeSummary {
+  committeeId: string;
+  name: string;
+  code: string;
+  parentCommitteeId: string;
+  depth: number; // 1 for direct children
+  cascadePermissions: boolean;
+  activeMembers: number;
+  slots: number;
+  uncoveredSlots: number; // open slots nobody signed up for
+  spots: number;
+  filledSpots: number;
+  coverage: number | null; // 0-100, null without open slots
+  attended: number;
+  noShows: number;
+  activities: number;
+  completedActivities: number;
+  documents: number;
+}
+
+export type CommitteeSummaryTotals = Omit<
+  ChildCommitteeSummary,
+  "committeeId" | "name" | "code" | "parentCommitteeId" | "depth" | "cascadePermissions"
+>;
+
+export interface CommitteeChildrenSummary {
+  committeeId: string;
+  startDate: string;
+  endDate: string;
+  children: ChildCommitteeSummary[];
+  totals: CommitteeSummaryTotals;
+}
+
+// A problem with the request that the super admin can fix; the message is shown as is
+export class CommitteeHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommitteeHierarchyError";
+  }
+}
+
+async function getActiveCommittees(): Promise<Committee[]> {
+  return db.select().from(committees).where(eq(committees.isActive, true));
+}
+
+function groupByParent(list: Committee[]): Map<string, Committee[]> {
+  const children = new Map<string, Committee[]>();
+  for (const committee of list) {
+    if (!committee.parentCommitteeId) continue;
+    const siblings = children.get(committee.parentCommitteeId) ?? [];
+    siblings.push(committee);
+    children.set(committee.parentCommitteeId, siblings);
+  }
+  return children;
+}
+
+// Every committee below the given one, parents before their children. The visited set
+// keeps a bad link in the data from looping forever.
+function collectDescendants(
+  committeeId: string,
+  childrenByParent: Map<string, Committee[]>,
+  follow: (child: Committee) => boolean = () => true
+): { committee: Committee; depth: number }[] {
+  const result: { committee: Committee; depth: number }[] = [];
+  const visited = new Set<string>([committeeId]);
+  const walk = (parentId: string, depth: number) => {
+    for (const child of childrenByParent.get(parentId) ?? []) {
+      if (visited.has(child.id) || !follow(child)) continue;
+      visited.add(child.id);
+      result.push({ committee: child, depth });
+      walk(child.id, depth + 1);
+    }
+  };
+  walk(committeeId, 1);
+  return result;
+}
+
+export async function getDescendantCommittees(committeeId: string): Promise<{ committee: Committee; depth: number }[]> {
+  return collectDescendants(committeeId, groupByParent(await getActiveCommittees()));
+}
+
+// The committees above this one whose admins and leaders act in it: the parent when the
+// committee cascades permissions, the grandparent when the parent cascades too, and so on.
+// An archived committee ends the chain: it neither hands down its own permissions nor
+// passes on the ones from above it.
+export async function getCascadingAncestorIds(committeeId: string): Promise<string[]> {
+  const ancestorIds: string[] = [];
+  let committee = await storage.getCommittee(committeeId);
+  while (committee?.cascadePermissions && committee.parentCommitteeId && !ancestorIds.includes(committee.parentCommitteeId)) {
+    const parent = await storage.getCommittee(committee.parentCommitteeId);
+    if (!parent || parent.archivedAt) break;
+    ancestorIds.push(parent.id);
+    committee = parent;
+  }
+  return ancestorIds;
+}
+
+// The reverse of getCascadingAncestorIds: the committees that inherit permissions from this one
+export async function getCascadingDescendantIds(committeeId: string): Promise<string[]> {
+  const descendants = collectDescendants(committeeId, groupByParent(await getActiveCommittees()), (child) => child.cascadePermissions);
+  return descendants.map(({ committee }) => committee.id);
+}
+
+// A committee cannot hang from itself, from one of its own descendants or from an archived committee
+export async function validateParentCommittee(committee: Committee, parentCommitteeId: string): Promise<void> {
+  if (parentCommitteeId === committee.id) {
+    throw new CommitteeHierarchyError("Un comité no puede depender de sí mismo");
+  }
+  const parent = await storage.getCommittee(parentCommitteeId);
+  if (!parent || !parent.isActive) {
+    throw new CommitteeHierarchyError("El comité superior no existe");
+  }
+  if (parent.archivedAt) {
+    throw new CommitteeHierarchyError("Un comité archivado no puede tener comités dependientes");
+  }
+  const descendants = await getDescendantCommittees(committee.id);
+  if (descendants.some(({ committee: descendant }) => descendant.id === parent.id)) {
+    throw new CommitteeHierarchyError(`${parent.name} depende de ${committee.name}; no puede ser su comité superior`);
+  }
+}
+
+// Nests the given committees under their parents. A committee whose parent is not in the
+// list becomes a root, so each user sees the part of the structure they have access to.
+export function buildCommitteeTree(list: Committee[], viewableCommitteeIds: Set<string>): CommitteeTreeNode[] {
+  const ids = new Set(list.map((c) => c.id));
+  const childrenByParent = groupByParent(list);
+  const toNode = (committee: Committee, visited: Set<string>): CommitteeTreeNode => {
+    visited.add(committee.id);
+    return {
+      id: committee.id,
+      name: committee.name,
+      code: committee.code,
+      isGeneral: committee.isGeneral,
+      cascadePermissions: committee.cascadePermissions,
+      canView: viewableCommitteeIds.has(committee.id),
+      children: (childrenByParent.get(committee.id) ?? [])
+        .filter((child) => !visited.has(child.id))
+        .sort((a, b) => a.name.localeCompare(b.name, "es"))
+        .map((child) => toNode(child, visited)),
+    };
+  };
+
+  const visited = new Set<string>();
+  return list
+    .filter((c) => !c.parentCommitteeId || !ids.has(c.parentCommitteeId))
+    .sort((a, b) => Number(b.isGeneral) - Number(a.isGeneral) || a.name.localeCompare(b.name, "es"))
+    .map((root) => toNode(root, visited));
+}
+
+async function summarizeCommittee(committee: Committee, depth: number, startDate: string, endDate: string): Promise<ChildCommitteeSummary> {
+  const [slots, [members], activities, [documentCount]] = await Promise.all([
+    storage.getAttendanceSlots(committee.id, startDate, endDate),
+    db
+      .select({ value: count() })
+      .from(committeeMembers)
+      .where(
+        and(
+          eq(committeeMembers.committeeId, committee.id),
+          eq(committeeMembers.isActive, true),
+          eq(committeeMembers.membershipStatus, "active")
+        )
+      ),
+    db
+      .select({ isCompleted: memberActivities.isCompleted })
+      .from(memberActivities)
+      .where(and(eq(memberActivities.committeeId, committee.id), between(memberActivities.activityDate, startDate, endDate))),
+    db.select({ value: count() }).from(documents).where(eq(documents.committeeId, committee.id)),
+  ]);
+
+  const summary: ChildCommitteeSummary = {
+    committeeId: committee.id,
+    name: committee.name,
+    code: committee.code,
+    parentCommitteeId: committee.parentCommitteeId!,
+    depth,
+    cascadePermissions: committee.cascadePermissions,
+    activeMembers: members.value,
+    slots: 0,
+    uncoveredSlots: 0,
+    spots: 0,
+    filledSpots: 0,
+    coverage: null,
+    attended: 0,
+    noShows: 0,
+    activities: activities.length,
+    completedActivities: activities.filter((a) => a.isCompleted).length,
+    documents: documentCount.value,
+  };
+
+  for (const slot of slots) {
+    if (slot.isBlocked) continue;
+    const taken = (slot.attendances || []).filter((a) => a.status !== "cancelled" && a.status !== "waitlisted");
+    summary.slots++;
+    summary.spots += slot.maxCapacity;
+    summary.filledSpots += Math.min(taken.length, slot.maxCapacity);
+    if (taken.length === 0) summary.uncoveredSlots++;
+    summary.attended += taken.filter((a) => isPresentStatus(a.status)).length;
+    summary.noShows += taken.filter((a) => a.status === "no_show").length;
+  }
+  summary.coverage = summary.spots > 0 ? Math.round((summary.filledSpots / summary.spots) * 100) : null;
+  return summary;
+}
+
+// Attendance coverage, activities and documents of every committee below the given one
+// for the period, for the presidents of a council that supervises district committees.
+// Archived committees are left out; their history is in their own reports.
+export async function buildChildrenSummary(parent: Committee, startDate: string, endDate: string): Promise<CommitteeChildrenSummary> {
+  const descendants = (await getDescendantCommittees(parent.id)).filter(({ committee }) => !committee.archivedAt);
+  const children = await Promise.all(
+    descendants.map(({ committee, depth }) => summarizeCommittee(committee, depth, startDate, endDate))
+  );
+
+  const totals: CommitteeSummaryTotals = {
+    activeMembers: 0,
+    slots: 0,
+    uncoveredSlots: 0,
+    spots: 0,
+    filledSpots: 0,
+    coverage: null,
+    attended: 0,
+    noShows: 0,
+    activities: 0,
+    completedActivities: 0,
+    documents: 0,
+  };
+  for (const child of children) {
+    totals.activeMembers += child.activeMembers;
+    totals.slots += child.slots;
+    totals.uncoveredSlots += child.uncoveredSlots;
+    totals.spots += child.spots;
+    totals.filledSpots += child.filledSpots;
+    totals.attended += child.attended;
+    totals.noShows += child.noShows;
+    totals.activities += child.activities;
+    totals.completedActivities += child.completedActivities;
+    totals.documents += child.documents;
+  }
+  totals.coverage = totals.spots > 0 ? Math.round((totals.filledSpots / totals.spots) * 100) : null;
+
+  return { committeeId: parent.id, startDate, endDate, children, totals };
+}
+
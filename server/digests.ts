@@ -0,0 +1,185 @@
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek, subMonths, subWeeks } from "date-fns";
+import { es } from "date-fns/locale";
+import { storage } from "./storage";
+import { hasPermission } from "./permissions";
+import { getCommitteeShifts } from "./shifts";
+import { sendMail, type MailAttachment } from "./mail";
+import { escapeHtml } from "./mail-templates";
+import {
+  buildAttendanceReport,
+  getReportFilename,
+  loadCommitteeLogo,
+  renderReportCsv,
+  renderReportXlsx,
+  type AttendanceReport,
+} from "./reports";
+import { compareShiftKeys, findCommitteeShift } from "@shared/shifts";
+import { isPresentStatus } from "@shared/attendance-status";
+import type { Committee, ReportSubscription } from "@shared/schema";
+
+export interface DigestPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface CoverageGap {
+  date: string;
+  shiftName: string;
+  present: number;
+  capacity: number;
+}
+
+const MAX_LISTED_GAPS = 20;
+
+// Digests always cover the last complete week (Monday to Sunday) or calendar month
+export function getDigestPeriod(frequency: ReportSubscription["frequency"], now: Date): DigestPeriod {
+  const reference = frequency === "weekly" ? subWeeks(now, 1) : subMonths(now, 1);
+  const start = frequency === "weekly" ? startOfWeek(reference, { weekStartsOn: 1 }) : startOfMonth(reference);
+  const end = frequency === "weekly" ? endOfWeek(reference, { weekStartsOn: 1 }) : endOfMonth(reference);
+  return { startDate: format(start, "yyyy-MM-dd"), endDate: format(end, "yyyy-MM-dd") };
+}
+
+// Slots that ended the period with fewer people present than places available
+async function findCoverageGaps(committee: Committee, period: DigestPeriod): Promise<{ slotCount: number; gaps: CoverageGap[] }> {
+  const shifts = await getCommitteeShifts(committee);
+  const slots = (await storage.getAttendanceSlots(committee.id, period.startDate, period.endDate)).filter(
+    (slot) => !slot.isBlocked
+  );
+
+  const gaps = slots
+    .map((slot) => ({
+      date: slot.date,
+      shift: slot.shift,
+      shiftName: findCommitteeShift(committee, shifts, slot.shift)?.name ?? slot.shift,
+      present: (slot.attendances || []).filter((a) => isPresentStatus(a.status)).length,
+      capacity: slot.maxCapacity,
+    }))
+    .filter((slot) => slot.present < slot.capacity)
+    .sort((a, b) => a.date.localeCompare(b.date) || compareShiftKeys(shifts, a.shift, b.shift))
+    .map(({ shift, ...gap }) => gap);
+
+  return { slotCount: slots.length, gaps };
+}
+
+function buildDigestBody(
+  report: AttendanceReport,
+  frequency: ReportSubscription["frequency"],
+  coverage: { slotCount: number; gaps: CoverageGap[] }
+): { subject: string; text: string; html: string } {
+  const periodLabel = `${format(parseISO(report.startDate), "d 'de' MMMM", { locale: es })} al ${format(
+    parseISO(report.endDate),
+    "d 'de' MMMM 'de' yyyy",
+    { locale: es }
+  )}`;
+  const count = (status: string) => report.rows.filter((row) => row.status === status).length;
+  const summary = [
+    `Turnos registrados: ${report.rows.length}`,
+    `Asistencias: ${count("attended")}`,
+    `Retardos: ${count("late")}`,
+    `Faltas: ${count("no_show")}`,
+    `Justificadas: ${count("excused")}`,
+  ];
+
+  const emptySlots = coverage.gaps.filter((gap) => gap.present === 0).length;
+  const coverageSummary =
+    coverage.gaps.length === 0
+      ? `Los ${coverage.slotCount} turnos del periodo tuvieron cobertura completa.`
+      : `${coverage.gaps.length} de ${coverage.slotCount} turnos quedaron sin cobertura completa (${emptySlots} sin nadie presente).`;
+  const gapLines = coverage.gaps
+    .slice(0, MAX_LISTED_GAPS)
+    .map(
+      (gap) =>
+        `${format(parseISO(gap.date), "EEE d MMM", { locale: es })} · ${gap.shiftName}: ${gap.present} de ${gap.capacity}`
+    );
+  if (coverage.gaps.length > MAX_LISTED_GAPS) {
+    gapLines.push(`y ${coverage.gaps.length - MAX_LISTED_GAPS} más (ver archivo adjunto)`);
+  }
+
+  const title = frequency === "weekly" ? "Resumen semanal de asistencias" : "Resumen mensual de asistencias";
+  const subject = `${title} · ${report.committee.name}`;
+
+  const text = [
+    `${title} del ${report.committee.name}`,
+    `Periodo: del ${periodLabel}`,
+    "",
+    ...summary,
+    "",
+    "Cobertura",
+    coverageSummary,
+    ...gapLines.map((line) => `- ${line}`),
+    "",
+    "El reporte completo va adjunto.",
+  ].join("\n");
+
+  const html = `
+    <h2>${escapeHtml(title)}</h2>
+    <p><strong>${escapeHtml(report.committee.name)}</strong><br/>Periodo: del ${escapeHtml(periodLabel)}</p>
+    <ul>${summary.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>
+    <h3>Cobertura</h3>
+    <p>${escapeHtml(coverageSummary)}</p>
+    ${gapLines.length > 0 ? `<ul>${gapLines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>` : ""}
+    <p style="color:#666">El reporte completo va adjunto.</p>
+  `;
+
+  return { subject, text, html };
+}
+
+async function canReceiveDigest(subscription: ReportSubscription): Promise<string | null> {
+  const user = await storage.getUser(subscription.userId);
+  if (!user) return null;
+  return (await hasPermission(user, subscription.committeeId, "reports.view")) ? user.email : null;
+}
+
+export async function sendReportDigests(now: Date = new Date()) {
+  const subscriptions = await storage.getActiveReportSubscriptions();
+  // Subscribers of the same committee, frequency and period share one generated report
+  const reports = new Map<string, Promise<{ report: AttendanceReport; coverage: { slotCount: number; gaps: CoverageGap[] } } | null>>();
+
+  for (const subscription of subscriptions) {
+    const period = getDigestPeriod(subscription.frequency, now);
+    if (subscription.lastPeriodEnd && subscription.lastPeriodEnd >= period.endDate) continue;
+
+    try {
+      const email = await canReceiveDigest(subscription);
+      if (!email) continue;
+
+      const key = `${subscription.committeeId}:${period.startDate}:${period.endDate}`;
+      if (!reports.has(key)) {
+        reports.set(
+          key,
+          storage.getCommittee(subscription.committeeId).then(async (committee) => {
+            // An archived committee still gets the digest for the period it was archived in
+            if (!committee || !committee.isActive) return null;
+            if (committee.archivedAt && period.startDate > format(committee.archivedAt, "yyyy-MM-dd")) return null;
+            const [report, coverage] = await Promise.all([
+              buildAttendanceReport(committee, period.startDate, period.endDate),
+              findCoverageGaps(committee, period),
+            ]);
+            return { report, coverage };
+          })
+        );
+      }
+      const digest = await reports.get(key)!;
+      if (!digest) continue;
+
+      const attachment: MailAttachment =
+        subscription.attachmentFormat === "csv"
+          ? {
+              filename: getReportFilename(digest.report, "csv"),
+              content: renderReportCsv(digest.report),
+              contentType: "text/csv; charset=utf-8",
+            }
+          : {
+              filename: getReportFilename(digest.report, "xlsx"),
+              content: await renderReportXlsx(digest.report, await loadCommitteeLogo(digest.report.committee.logoUrl)),
+              contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            };
+
+      const { subject, text, html } = buildDigestBody(digest.report, subscription.frequency, digest.coverage);
+      await sendMail({ to: email, subject, text, html, attachments: [attachment] });
+      await storage.markReportSubscriptionSent(subscription.id, period.endDate);
+    } catch (error) {
+      console.error(`Error sending report digest ${subscription.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { CheckInLocation, Committee } from "@shared/schema";
+
+export type CheckInVerification = "on_site" | "remote" | "no_location" | "not_required" | "kiosk" | "manual";
+
+export interface CheckInResult {
+  verification: CheckInVerification;
+  distanceMeters: number | null;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Browsers report accuracy as a radius; a poor GPS fix shouldn't push someone standing in
+// the office outside the geofence, but a city-wide IP fix shouldn't pass either
+const MAX_ACCURACY_ALLOWANCE_METERS = 100;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function distanceInMeters(
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number
+): number {
+  const dLat = toRadians(toLatitude - fromLatitude);
+  const dLon = toRadians(toLongitude - fromLongitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(fromLatitude)) * Math.cos(toRadians(toLatitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function hasGeofence(committee: Committee): boolean {
+  return committee.geofenceMode !== "off" && committee.officeLatitude !== null && committee.officeLongitude !== null;
+}
+
+export function evaluateCheckIn(committee: Committee, location: CheckInLocation | undefined): CheckInResult {
+  if (!hasGeofence(committee)) {
+    return { verification: "not_required", distanceMeters: null };
+  }
+  if (!location) {
+    return { verification: "no_location", distanceMeters: null };
+  }
+
+  const distance = distanceInMeters(
+    committee.officeLatitude!,
+    committee.officeLongitude!,
+    location.latitude,
+    location.longitude
+  );
+  const allowance = Math.min(location.accuracy ?? 0, MAX_ACCURACY_ALLOWANCE_METERS);
+
+  return {
+    verification: distance - allowance <= committee.geofenceRadiusMeters ? "on_site" : "remote",
+    distanceMeters: Math.round(distance),
+  };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { assertMailConfig } from "./mail";
 import { createServer } from "http";
 
 const app = express();
@@ -60,6 +61,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  assertMailConfig();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
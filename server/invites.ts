@@ -0,0 +1,62 @@
+import { storage } from "./storage";
+import { getAppUrl, sendMail } from "./mail";
+import { teamInviteEmail, teamInviteExpiryReminderEmail, type TeamInviteEmailData } from "./mail-templates";
+import type { TeamInvite } from "@shared/schema";
+
+export type InviteEmailKind = "invite" | "resend" | "reminder";
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Pending invites get one reminder when less than this is left before they expire
+const REMINDER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+async function getInviteEmailData(invite: TeamInvite, appUrl: string): Promise<TeamInviteEmailData> {
+  const team = await storage.getCounselorTeam(invite.teamId);
+  const committee = team ? await storage.getCommittee(team.committeeId) : undefined;
+  const inviter = await storage.getUser(invite.invitedByUserId);
+  return {
+    teamName: team?.name ?? "de trabajo",
+    committeeName: committee?.name,
+    inviterName: inviter ? `${inviter.firstName} ${inviter.lastName}`.trim() : "Un consejero",
+    role: invite.role,
+    registrationUrl: `${appUrl}/register?invite=${invite.token}`,
+    expiresAt: invite.expiresAt,
+  };
+}
+
+// Sends an invite email and records the outcome on the invite. Delivery failures are
+// stored in lastError instead of thrown so the invite itself is never lost.
+export async function deliverTeamInvite(invite: TeamInvite, kind: InviteEmailKind, appUrl: string): Promise<TeamInvite> {
+  const data = await getInviteEmailData(invite, appUrl);
+  const email = kind === "reminder" ? teamInviteExpiryReminderEmail(data) : teamInviteEmail(data, kind === "resend");
+
+  try {
+    await sendMail({ to: invite.email, ...email });
+    const updated = await storage.updateTeamInviteDelivery(invite.id, {
+      deliveryStatus: "sent",
+      lastSentAt: new Date(),
+      sendCount: invite.sendCount + 1,
+      lastError: null,
+      ...(kind === "reminder" ? { reminderSentAt: new Date() } : {}),
+    });
+    return updated ?? invite;
+  } catch (error) {
+    console.error(`Error sending team invite ${invite.id}:`, error);
+    const updated = await storage.updateTeamInviteDelivery(invite.id, {
+      deliveryStatus: "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    return updated ?? invite;
+  }
+}
+
+// Marks invites past their expiry as expired, then reminds those about to expire
+export async function processTeamInviteExpiry(now: Date = new Date()) {
+  await storage.expireStaleTeamInvites(now);
+
+  const invites = await storage.getTeamInvitesDueForReminder(new Date(now.getTime() + REMINDER_WINDOW_MS));
+  const appUrl = getAppUrl();
+  for (const invite of invites) {
+    await deliverTeamInvite(invite, "reminder", appUrl);
+  }
+}
@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Kiosk QR codes rotate every window; a scan is accepted for the current window and the
+// previous one so a code that changes while the member is scanning still works
+export const KIOSK_TOKEN_WINDOW_SECONDS = 30;
+
+const getSecret = () => process.env.KIOSK_SECRET || process.env.SESSION_SECRET || "committee-secret-key";
+
+const currentWindow = (now: Date) => Math.floor(now.getTime() / 1000 / KIOSK_TOKEN_WINDOW_SECONDS);
+
+function sign(committeeId: string, window: number): string {
+  return createHmac("sha256", getSecret()).update(`${committeeId}:${window}`).digest("base64url");
+}
+
+export function createKioskToken(committeeId: string, now = new Date()): { token: string; expiresAt: Date } {
+  const window = currentWindow(now);
+  return {
+    token: `${committeeId}.${window}.${sign(committeeId, window)}`,
+    expiresAt: new Date((window + 1) * KIOSK_TOKEN_WINDOW_SECONDS * 1000),
+  };
+}
+
+// Returns the committee the token was issued for, or null if it is forged or expired
+export function verifyKioskToken(token: string, now = new Date()): string | null {
+  const [committeeId, windowPart, signature] = token.split(".");
+  if (!committeeId || !windowPart || !signature) return null;
+
+  const window = parseInt(windowPart, 10);
+  const age = currentWindow(now) - window;
+  if (isNaN(window) || age < 0 || age > 1) return null;
+
+  const expected = Buffer.from(sign(committeeId, window));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  return committeeId;
+}
@@ -0,0 +1,249 @@
+import type { Request } from "express";
+import { and, desc, eq, gt, gte, isNull, lt, sql } from "drizzle-orm";
+import { db } from "./db";
+import { accountLockouts, loginAttempts, users, type AccountLockout, type LockoutScope } from "@shared/models/auth";
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const ATTEMPT_RETENTION_DAYS = 30;
+
+// An office shares one public IP, so the IP limits are looser than the per-account ones
+const LIMITS: Record<LockoutScope, { freeFailures: number; lockoutThreshold: number }> = {
+  account: { freeFailures: 3, lockoutThreshold: 8 },
+  ip: { freeFailures: 10, lockoutThreshold: 30 },
+};
+
+export interface LoginThrottle {
+  retryAfterSeconds: number;
+  message: string;
+}
+
+interface ScopeState {
+  activeLockout: AccountLockout | undefined;
+  failures: number;
+  lastFailureAt: Date | null;
+}
+
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function keyColumn(scope: LockoutScope) {
+  return scope === "account" ? loginAttempts.email : loginAttempts.ipAddress;
+}
+
+function throttleKeys(email: string, ipAddress: string): [LockoutScope, string][] {
+  return [["account", normalizeEmail(email)], ["ip", ipAddress]];
+}
+
+// Serializes the attempts on the same account and IP until the transaction ends, so parallel
+// requests see each other's failures. Always account first, then IP, to avoid deadlocks.
+async function lockThrottleKeys(tx: Transaction, keys: [LockoutScope, string][]): Promise<void> {
+  for (const [scope, key] of keys) {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`login:${scope}:${key}`}))`);
+  }
+}
+
+// Failures only count inside the window and after the last lockout on the key (or its
+// manual unlock); for accounts, a successful login also starts over
+async function getScopeState(tx: Transaction, scope: LockoutScope, key: string, now: Date): Promise<ScopeState> {
+  const [lastLockout] = await tx
+    .select()
+    .from(accountLockouts)
+    .where(and(eq(accountLockouts.scope, scope), eq(accountLockouts.key, key)))
+    .orderBy(desc(accountLockouts.createdAt))
+    .limit(1);
+
+  const activeLockout =
+    lastLockout && !lastLockout.unlockedAt && lastLockout.lockedUntil > now ? lastLockout : undefined;
+
+  let since = new Date(now.getTime() - ATTEMPT_WINDOW_MS);
+  const lockoutReset = lastLockout ? lastLockout.unlockedAt ?? lastLockout.createdAt : null;
+  if (lockoutReset && lockoutReset > since) since = lockoutReset;
+
+  if (scope === "account") {
+    const [lastSuccess] = await tx
+      .select({ createdAt: loginAttempts.createdAt })
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.email, key), eq(loginAttempts.succeeded, true), gt(loginAttempts.createdAt, since)))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(1);
+    if (lastSuccess) since = lastSuccess.createdAt;
+  }
+
+  const [row] = await tx
+    .select({
+      failures: sql<number>`count(*)::int`,
+      lastFailureAt: sql<Date | null>`max(${loginAttempts.createdAt})`,
+    })
+    .from(loginAttempts)
+    .where(and(eq(keyColumn(scope), key), eq(loginAttempts.succeeded, false), gt(loginAttempts.createdAt, since)));
+
+  return {
+    activeLockout,
+    failures: row?.failures ?? 0,
+    lastFailureAt: row?.lastFailureAt ? new Date(row.lastFailureAt) : null,
+  };
+}
+
+// 1s, 2s, 4s... between attempts once the free failures are used up
+function getRequiredDelayMs(scope: LockoutScope, failures: number): number {
+  const extra = failures - LIMITS[scope].freeFailures;
+  if (extra < 0) return 0;
+  return Math.min(1000 * 2 ** extra, MAX_DELAY_MS);
+}
+
+function lockoutMessage(lockedUntil: Date, now: Date): LoginThrottle {
+  const retryAfterSeconds = Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000);
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return {
+    retryAfterSeconds,
+    message: `Demasiados intentos fallidos. Intenta de nuevo en ${minutes} ${minutes === 1 ? "minuto" : "minutos"}`,
+  };
+}
+
+async function getThrottle(tx: Transaction, keys: [LockoutScope, string][], now: Date): Promise<LoginThrottle | null> {
+  let retryAfterMs = 0;
+
+  for (const [scope, key] of keys) {
+    const state = await getScopeState(tx, scope, key, now);
+    if (state.activeLockout) {
+      return lockoutMessage(state.activeLockout.lockedUntil, now);
+    }
+    if (state.lastFailureAt) {
+      const waitMs = state.lastFailureAt.getTime() + getRequiredDelayMs(scope, state.failures) - now.getTime();
+      retryAfterMs = Math.max(retryAfterMs, waitMs);
+    }
+  }
+
+  if (retryAfterMs <= 0) return null;
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  return {
+    retryAfterSeconds,
+    message: `Demasiados intentos. Espera ${retryAfterSeconds} segundos antes de volver a intentarlo`,
+  };
+}
+
+export type LoginAttemptStart = { attemptId: string; throttle: null } | { attemptId: null; throttle: LoginThrottle };
+
+// Checks the throttle and, when the attempt can go ahead, records it as a failure in the same
+// locked transaction, before the password or 2FA code is verified. The caller then settles it
+// with recordLoginSuccess, recordLoginFailure or discardLoginAttempt.
+export async function beginLoginAttempt(email: string, ipAddress: string, now: Date = new Date()): Promise<LoginAttemptStart> {
+  const keys = throttleKeys(email, ipAddress);
+  return db.transaction(async (tx) => {
+    await lockThrottleKeys(tx, keys);
+    const throttle = await getThrottle(tx, keys, now);
+    if (throttle) return { attemptId: null, throttle };
+
+    const [attempt] = await tx
+      .insert(loginAttempts)
+      .values({ email: keys[0][1], ipAddress, succeeded: false, createdAt: now })
+      .returning({ id: loginAttempts.id });
+    return { attemptId: attempt.id, throttle: null };
+  });
+}
+
+// Each lockout in the last 24 hours on the same key doubles the next one
+async function getLockoutDuration(tx: Transaction, scope: LockoutScope, key: string, now: Date): Promise<number> {
+  const [row] = await tx
+    .select({ count: sql<number>`count(*)::int` })
+    .from(accountLockouts)
+    .where(
+      and(
+        eq(accountLockouts.scope, scope),
+        eq(accountLockouts.key, key),
+        gte(accountLockouts.createdAt, new Date(now.getTime() - MAX_LOCKOUT_MS))
+      )
+    );
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (row?.count ?? 0), MAX_LOCKOUT_MS);
+}
+
+// Settles an attempt whose password or 2FA code was wrong; beginLoginAttempt already counted
+// it. Returns the throttle that now applies when the failure locked the account or the IP address.
+export async function recordLoginFailure(email: string, ipAddress: string, now: Date = new Date()): Promise<LoginThrottle | null> {
+  const keys = throttleKeys(email, ipAddress);
+  return db.transaction(async (tx) => {
+    await lockThrottleKeys(tx, keys);
+    for (const [scope, key] of keys) {
+      const state = await getScopeState(tx, scope, key, now);
+      if (state.activeLockout || state.failures < LIMITS[scope].lockoutThreshold) continue;
+
+      const lockedUntil = new Date(now.getTime() + (await getLockoutDuration(tx, scope, key, now)));
+      await tx.insert(accountLockouts).values({ scope, key, failedAttempts: state.failures, lockedUntil, createdAt: now });
+      console.warn(`Login lockout (${scope}) for ${key} until ${lockedUntil.toISOString()} after ${state.failures} failed attempts`);
+      return lockoutMessage(lockedUntil, now);
+    }
+    return null;
+  });
+}
+
+export async function recordLoginSuccess(attemptId: string): Promise<void> {
+  await db.update(loginAttempts).set({ succeeded: true }).where(eq(loginAttempts.id, attemptId));
+}
+
+// The password was right but the second factor is still pending; that step starts its own attempt
+export async function discardLoginAttempt(attemptId: string): Promise<void> {
+  await db.delete(loginAttempts).where(eq(loginAttempts.id, attemptId));
+}
+
+export type LockoutWithUser = AccountLockout & {
+  user: { id: string; firstName: string | null; lastName: string | null } | null;
+  unlockedBy: { firstName: string | null; lastName: string | null } | null;
+};
+
+// Lockouts from the last days for the admin page, newest first, with the account they
+// belong to when the email is registered
+export async function getRecentLockouts(days = 30): Promise<LockoutWithUser[]> {
+  const lockouts = await db
+    .select()
+    .from(accountLockouts)
+    .where(gte(accountLockouts.createdAt, new Date(Date.now() - days * 24 * 60 * 60 * 1000)))
+    .orderBy(desc(accountLockouts.createdAt));
+
+  const userCache = new Map<string, typeof users.$inferSelect | undefined>();
+  const findUser = async (column: "email" | "id", value: string) => {
+    const cacheKey = `${column}:${value}`;
+    if (!userCache.has(cacheKey)) {
+      const [user] = await db.select().from(users).where(eq(users[column], value));
+      userCache.set(cacheKey, user);
+    }
+    return userCache.get(cacheKey);
+  };
+
+  const result: LockoutWithUser[] = [];
+  for (const lockout of lockouts) {
+    const user = lockout.scope === "account" ? await findUser("email", lockout.key) : undefined;
+    const unlockedBy = lockout.unlockedByUserId ? await findUser("id", lockout.unlockedByUserId) : undefined;
+    result.push({
+      ...lockout,
+      user: user ? { id: user.id, firstName: user.firstName, lastName: user.lastName } : null,
+      unlockedBy: unlockedBy ? { firstName: unlockedBy.firstName, lastName: unlockedBy.lastName } : null,
+    });
+  }
+  return result;
+}
+
+// Lifts a lockout early; the failures before it stop counting towards the next one
+export async function unlockLockout(id: string, unlockedByUserId: string): Promise<AccountLockout | undefined> {
+  const [lockout] = await db
+    .update(accountLockouts)
+    .set({ unlockedAt: new Date(), unlockedByUserId })
+    .where(and(eq(accountLockouts.id, id), isNull(accountLockouts.unlockedAt)))
+    .returning();
+  return lockout;
+}
+
+export async function pruneLoginAttempts(): Promise<number> {
+  const cutoff = new Date(Date.now() - ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await db.delete(loginAttempts).where(lt(loginAttempts.createdAt, cutoff)).returning({ id: loginAttempts.id });
+  return deleted.length;
+}
@@ -0,0 +1,143 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Every transactional email shares this layout so plain-text and HTML bodies stay in sync
+function renderEmail(content: EmailContent): RenderedEmail {
+  const text = [
+    content.heading,
+    "",
+    ...content.paragraphs.flatMap((paragraph) => [paragraph, ""]),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ""] : []),
+    ...(content.footer ? [content.footer] : []),
+  ].join("\n");
+
+  const html = `
+    <div style="font-family:Arial,Helvetica,sans-serif;max-width:560px;margin:0 auto;color:#111827">
+      <h2 style="color:#4F46E5">${escapeHtml(content.heading)}</h2>
+      ${content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("")}
+      ${
+        content.action
+          ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#4F46E5;color:#fff;padding:10px 18px;border-radius:6px;text-decoration:none">${escapeHtml(content.action.label)}</a></p>
+      <p style="font-size:12px;color:#6B7280">Si el botón no funciona, copia este enlace en tu navegador:<br/>${escapeHtml(content.action.url)}</p>`
+          : ""
+      }
+      ${content.footer ? `<p style="font-size:12px;color:#6B7280">${escapeHtml(content.footer)}</p>` : ""}
+    </div>
+  `;
+
+  return { subject: content.subject, text, html };
+}
+
+const teamRoleLabels: Record<string, string> = {
+  counselor: "consejero",
+  auxiliary: "auxiliar",
+};
+
+export interface TeamInviteEmailData {
+  teamName: string;
+  committeeName?: string;
+  inviterName: string;
+  role: string;
+  registrationUrl: string;
+  expiresAt: Date;
+}
+
+export function teamInviteEmail(data: TeamInviteEmailData, isResend = false): RenderedEmail {
+  const teamLabel = data.committeeName ? `${data.teamName} (${data.committeeName})` : data.teamName;
+  return renderEmail({
+    subject: isResend ? `Recordatorio: te invitaron al equipo ${data.teamName}` : `Invitación al equipo ${data.teamName}`,
+    heading: isResend ? "Te reenviamos tu invitación" : "Te invitaron a un equipo",
+    paragraphs: [
+      `${data.inviterName} te invitó a unirte al equipo ${teamLabel} como ${teamRoleLabels[data.role] ?? data.role}.`,
+      "Crea tu cuenta con este correo para aceptar la invitación y ver las actividades del equipo.",
+      `La invitación vence el ${format(data.expiresAt, "d 'de' MMMM 'a las' HH:mm", { locale: es })}.`,
+    ],
+    action: { label: "Aceptar invitación", url: data.registrationUrl },
+    footer: "Si no esperabas esta invitación, puedes ignorar este correo.",
+  });
+}
+
+export function teamInviteExpiryReminderEmail(data: TeamInviteEmailData): RenderedEmail {
+  return renderEmail({
+    subject: `Tu invitación al equipo ${data.teamName} está por vencer`,
+    heading: "Tu invitación está por vencer",
+    paragraphs: [
+      `Aún no aceptas la invitación de ${data.inviterName} para unirte al equipo ${data.teamName}.`,
+      `El enlace deja de funcionar el ${format(data.expiresAt, "d 'de' MMMM 'a las' HH:mm", { locale: es })}.`,
+    ],
+    action: { label: "Aceptar invitación", url: data.registrationUrl },
+    footer: "Si no esperabas esta invitación, puedes ignorar este correo.",
+  });
+}
+
+export interface PasswordSetupEmailData {
+  firstName: string;
+  committeeName: string;
+  setupUrl: string;
+  expiresAt: Date;
+}
+
+export function passwordSetupEmail(data: PasswordSetupEmailData): RenderedEmail {
+  return renderEmail({
+    subject: `Activa tu cuenta de ${data.committeeName}`,
+    heading: `Hola, ${data.firstName}`,
+    paragraphs: [
+      `Se creó una cuenta para ti como integrante de ${data.committeeName}.`,
+      "Elige una contraseña para activarla y empezar a registrar tus asistencias.",
+      `El enlace vence el ${format(data.expiresAt, "d 'de' MMMM 'a las' HH:mm", { locale: es })}.`,
+    ],
+    action: { label: "Crear contraseña", url: data.setupUrl },
+    footer: "Si no esperabas este correo, puedes ignorarlo.",
+  });
+}
+
+export interface AccountLinkEmailData {
+  firstName: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export function passwordResetEmail(data: AccountLinkEmailData): RenderedEmail {
+  return renderEmail({
+    subject: "Restablece tu contraseña",
+    heading: `Hola, ${data.firstName}`,
+    paragraphs: [
+      "Recibimos una solicitud para restablecer la contraseña de tu cuenta.",
+      `El enlace solo se puede usar una vez y vence el ${format(data.expiresAt, "d 'de' MMMM 'a las' HH:mm", { locale: es })}.`,
+    ],
+    action: { label: "Restablecer contraseña", url: data.url },
+    footer: "Si no solicitaste este cambio, ignora este correo; tu contraseña actual sigue funcionando.",
+  });
+}
+
+export function emailVerificationEmail(data: AccountLinkEmailData): RenderedEmail {
+  return renderEmail({
+    subject: "Confirma tu correo electrónico",
+    heading: `Hola, ${data.firstName}`,
+    paragraphs: [
+      "Confirma que este es tu correo para terminar de activar tu cuenta.",
+      "Algunos comités solo permiten el acceso a miembros con el correo verificado.",
+      `El enlace vence el ${format(data.expiresAt, "d 'de' MMMM 'a las' HH:mm", { locale: es })}.`,
+    ],
+    action: { label: "Confirmar correo", url: data.url },
+    footer: "Si no creaste una cuenta, puedes ignorar este correo.",
+  });
+}
@@ -0,0 +1,101 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export type MailTransportKind = "smtp" | "file" | "console";
+
+// MAIL_TRANSPORT picks the delivery method. Without it, SMTP is used when SMTP_HOST is
+// configured and messages are printed to the console otherwise, so local setups never
+// send real email by accident. The file transport writes .eml files to MAIL_OUTPUT_DIR.
+export function getMailTransportKind(): MailTransportKind {
+  const configured = process.env.MAIL_TRANSPORT;
+  if (configured === "smtp" || configured === "file" || configured === "console") {
+    return configured;
+  }
+  return process.env.SMTP_HOST ? "smtp" : "console";
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "Comités <no-reply@localhost>";
+const MAIL_OUTPUT_DIR = process.env.MAIL_OUTPUT_DIR || path.resolve(process.cwd(), ".mail");
+
+let transporter: Transporter | null = null;
+
+function isProduction(): boolean {
+  return process.env.NODE_ENV === "production";
+}
+
+// Links in emails need an absolute URL. It only ever comes from APP_URL: the Host header
+// is chosen by the client, and a reset link built from it would hand the token to whoever
+// sent the request. Outside production the local server is assumed.
+export function getAppUrl(): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/+$/, "");
+  if (isProduction()) {
+    throw new Error("APP_URL is not configured");
+  }
+  return `http://localhost:${process.env.PORT || "5000"}`;
+}
+
+// Production must deliver real email with links to a known host, so a missing setting
+// stops the server at startup instead of silently dropping password resets
+export function assertMailConfig(): void {
+  if (!isProduction()) return;
+  if (!process.env.APP_URL) {
+    throw new Error("APP_URL must be set in production");
+  }
+  if (getMailTransportKind() !== "smtp" || !process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST must be set (and MAIL_TRANSPORT left as smtp) in production");
+  }
+}
+
+function getTransporter(): Transporter {
+  if (transporter) return transporter;
+
+  const kind = getMailTransportKind();
+  if (kind === "smtp") {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  } else {
+    // Both local transports render the full MIME message so attachments can be inspected
+    transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  }
+  return transporter;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const kind = getMailTransportKind();
+  if (kind !== "smtp" && isProduction()) {
+    throw new Error("Refusing to send mail without SMTP in production");
+  }
+  const info = await getTransporter().sendMail({ from: MAIL_FROM, ...message });
+
+  if (kind === "file") {
+    await fs.mkdir(MAIL_OUTPUT_DIR, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]+/g, "_");
+    const filePath = path.join(MAIL_OUTPUT_DIR, `${Date.now()}-${safeRecipient}.eml`);
+    await fs.writeFile(filePath, info.message as Buffer);
+    console.log(`Mail to ${message.to} written to ${filePath}`);
+  } else if (kind === "console") {
+    // Bodies carry single-use links, so they never go to the logs; use the file transport to read them
+    console.log(`[mail] To: ${message.to} Subject: ${message.subject}`);
+  }
+}
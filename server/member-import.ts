@@ -0,0 +1,449 @@
+import ExcelJS from "exceljs";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { createUser, issueAuthToken, PASSWORD_SETUP_TTL_MS } from "./auth";
+import { sendMail } from "./mail";
+import { passwordSetupEmail } from "./mail-templates";
+import { isOffboardedMembership, OFFBOARDED_MEMBER_MESSAGE } from "./offboarding";
+import { leadershipRoleEnum, registerSchema } from "@shared/schema";
+import type { Committee, CommitteeMember, CounselorTeam, Role, User } from "@shared/schema";
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const memberImportSchema = z.object({
+  format: z.enum(["csv", "xlsx"]),
+  content: z.string().min(1), // CSV text, or the XLSX file encoded as base64
+  dryRun: z.boolean().default(true),
+  sendEmails: z.boolean().default(true),
+});
+
+type LeadershipRole = (typeof leadershipRoleEnum.enumValues)[number];
+
+export type MemberImportAction = "create_user" | "add_membership" | "skip";
+
+export interface MemberImportRow {
+  line: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  committeeCode: string;
+  committeeId: string | null;
+  committeeName: string | null;
+  leadershipRole: LeadershipRole;
+  roleId: string | null;
+  roleName: string | null;
+  teamId: string | null;
+  teamName: string | null;
+  action: MemberImportAction | null;
+  errors: string[];
+}
+
+export interface MemberImportPreview {
+  rows: MemberImportRow[];
+  summary: {
+    total: number;
+    invalid: number;
+    createUsers: number;
+    addMemberships: number;
+    skipped: number;
+  };
+}
+
+export interface MemberImportResult {
+  created: number;
+  added: number;
+  skipped: number;
+  failed: { line: number; message: string }[];
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+type ImportField = "firstName" | "lastName" | "fullName" | "email" | "committee" | "leadershipRole" | "role" | "team";
+
+// Headers are compared without accents, case or punctuation
+const HEADER_ALIASES: Record<string, ImportField> = {
+  nombre: "firstName",
+  nombres: "firstName",
+  firstname: "firstName",
+  apellido: "lastName",
+  apellidos: "lastName",
+  lastname: "lastName",
+  nombrecompleto: "fullName",
+  name: "fullName",
+  fullname: "fullName",
+  email: "email",
+  correo: "email",
+  correoelectronico: "email",
+  comite: "committee",
+  codigocomite: "committee",
+  committee: "committee",
+  committeecode: "committee",
+  liderazgo: "leadershipRole",
+  cargo: "leadershipRole",
+  leadershiprole: "leadershipRole",
+  rol: "role",
+  role: "role",
+  equipo: "team",
+  team: "team",
+};
+
+const LEADERSHIP_ROLE_ALIASES: Record<string, LeadershipRole> = {
+  consejeropresidente: "counselor_president",
+  consejerosecretario: "counselor_secretary",
+  consejero: "counselor",
+  secretario: "secretary",
+  auxiliar: "auxiliary",
+  ninguno: "none",
+};
+
+// registerSchema also validates the password, which imported users choose later
+const PLACEHOLDER_PASSWORD = "imported";
+
+function normalizeKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Minimal RFC 4180 parser: quoted cells may contain separators, quotes ("") and newlines
+function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const separator = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+async function parseXlsx(base64: string): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  const file: ExcelJS.Buffer = new Uint8Array(Buffer.from(base64, "base64")).buffer;
+  await workbook.xlsx.load(file);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(row.getCell(col).text ?? "");
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+// Problems with the file as a whole (not a single row); the message is shown to the admin
+export class MemberImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MemberImportFileError";
+  }
+}
+
+type RawImportRow = { line: number } & Partial<Record<ImportField, string>>;
+
+// Reads the first sheet (or the CSV) and maps each data row to the known columns.
+// Line numbers match what the admin sees in their spreadsheet, header included.
+export async function readMemberSpreadsheet(format: "csv" | "xlsx", content: string): Promise<RawImportRow[]> {
+  let table: string[][];
+  try {
+    table = format === "csv" ? parseCsv(content) : await parseXlsx(content);
+  } catch {
+    throw new MemberImportFileError("No se pudo leer el archivo");
+  }
+  const [header, ...body] = table;
+  if (!header) {
+    throw new MemberImportFileError("El archivo está vacío");
+  }
+
+  const columns = header.map((cell) => HEADER_ALIASES[normalizeKey(cell)]);
+  if (!columns.includes("email")) {
+    throw new MemberImportFileError("Falta la columna de correo electrónico");
+  }
+  if (!columns.includes("committee")) {
+    throw new MemberImportFileError("Falta la columna con el código del comité");
+  }
+
+  const rows: RawImportRow[] = [];
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === "")) return;
+    const row: RawImportRow = { line: index + 2 };
+    columns.forEach((field, col) => {
+      if (field) row[field] = (cells[col] ?? "").trim();
+    });
+    rows.push(row);
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new MemberImportFileError(`El archivo tiene ${rows.length} filas; el máximo por importación es ${MAX_IMPORT_ROWS}`);
+  }
+  return rows;
+}
+
+function splitFullName(fullName: string): { firstName: string; lastName: string } {
+  const [firstName = "", ...rest] = fullName.split(/\s+/).filter(Boolean);
+  return { firstName, lastName: rest.join(" ") };
+}
+
+function resolveLeadershipRole(value: string | undefined): LeadershipRole | undefined {
+  if (!value) return "none";
+  const key = normalizeKey(value);
+  return (
+    LEADERSHIP_ROLE_ALIASES[key] ??
+    leadershipRoleEnum.enumValues.find((role) => normalizeKey(role) === key)
+  );
+}
+
+// Loads what validation needs once per import instead of once per row
+async function loadImportContext() {
+  const [committees, roles] = await Promise.all([storage.getAllCommittees(), storage.getRoles()]);
+  const members = new Map<string, Promise<CommitteeMember[]>>();
+  const teams = new Map<string, Promise<CounselorTeam[]>>();
+
+  return {
+    findCommittee: (code: string): Committee | undefined =>
+      committees.find((c) => c.code.toLowerCase() === code.toLowerCase()),
+    findRole: (name: string): Role | undefined =>
+      roles.find((r) => r.isActive && (normalizeKey(r.name) === normalizeKey(name) || normalizeKey(r.displayName) === normalizeKey(name))),
+    getMembers: (committeeId: string) => {
+      if (!members.has(committeeId)) members.set(committeeId, storage.getCommitteeMembers(committeeId));
+      return members.get(committeeId)!;
+    },
+    getTeams: (committeeId: string) => {
+      if (!teams.has(committeeId)) teams.set(committeeId, storage.getCounselorTeams(committeeId));
+      return teams.get(committeeId)!;
+    },
+  };
+}
+
+export async function previewMemberImport(rawRows: RawImportRow[]): Promise<MemberImportPreview> {
+  const context = await loadImportContext();
+  const seen = new Map<string, number>();
+  const usersByEmail = new Map<string, User | undefined>();
+  const rows: MemberImportRow[] = [];
+
+  for (const raw of rawRows) {
+    const names =
+      raw.lastName !== undefined
+        ? { firstName: raw.firstName ?? "", lastName: raw.lastName }
+        : splitFullName(raw.fullName ?? raw.firstName ?? "");
+    const email = (raw.email ?? "").toLowerCase();
+    const committee = raw.committee ? context.findCommittee(raw.committee) : undefined;
+    const leadershipRole = resolveLeadershipRole(raw.leadershipRole);
+    const role = raw.role ? context.findRole(raw.role) : undefined;
+    const errors: string[] = [];
+
+    const validation = registerSchema.safeParse({
+      ...names,
+      email,
+      password: PLACEHOLDER_PASSWORD,
+      committeeId: committee?.id,
+    });
+    if (!validation.success) {
+      errors.push(...validation.error.errors.map((e) => e.message));
+    }
+    if (raw.committee && !committee) {
+      errors.push(`No existe un comité activo con el código "${raw.committee}"`);
+    }
+    if (!leadershipRole) {
+      errors.push(`Cargo de liderazgo desconocido: "${raw.leadershipRole}"`);
+    }
+    if (raw.role && !role) {
+      errors.push(`No existe el rol "${raw.role}"`);
+    }
+
+    let team: CounselorTeam | undefined;
+    if (raw.team && committee) {
+      team = (await context.getTeams(committee.id)).find((t) => t.name.toLowerCase() === raw.team!.toLowerCase());
+      if (!team) {
+        errors.push(`El comité ${committee.code} no tiene un equipo llamado "${raw.team}"`);
+      }
+    }
+
+    const duplicateKey = `${email}:${committee?.id}`;
+    if (email && committee && seen.has(duplicateKey)) {
+      errors.push(`Correo repetido para el mismo comité (fila ${seen.get(duplicateKey)})`);
+    } else if (email && committee) {
+      seen.set(duplicateKey, raw.line);
+    }
+
+    let action: MemberImportAction | null = null;
+    if (errors.length === 0 && committee) {
+      if (!usersByEmail.has(email)) {
+        usersByEmail.set(email, await storage.getUserByEmail(email));
+      }
+      const existingUser = usersByEmail.get(email);
+      if (!existingUser) {
+        action = rows.some((r) => r.email === email && r.action === "create_user") ? "add_membership" : "create_user";
+      } else {
+        const existingMembership = await storage.getCommitteeMembership(committee.id, existingUser.id);
+        if (existingMembership && isOffboardedMembership(existingMembership)) {
+          errors.push(OFFBOARDED_MEMBER_MESSAGE);
+        } else {
+          const membership = (await context.getMembers(committee.id)).find((m) => m.userId === existingUser.id);
+          const inTeam = team ? !!(await storage.getCounselorTeamMember(team.id, existingUser.id)) : true;
+          action = membership?.isActive && inTeam ? "skip" : "add_membership";
+        }
+      }
+    }
+
+    rows.push({
+      line: raw.line,
+      email,
+      firstName: names.firstName,
+      lastName: names.lastName,
+      committeeCode: raw.committee ?? "",
+      committeeId: committee?.id ?? null,
+      committeeName: committee?.name ?? null,
+      leadershipRole: leadershipRole ?? "none",
+      roleId: role?.id ?? null,
+      roleName: role?.displayName ?? null,
+      teamId: team?.id ?? null,
+      teamName: team?.name ?? null,
+      action,
+      errors,
+    });
+  }
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      invalid: rows.filter((r) => r.errors.length > 0).length,
+      createUsers: rows.filter((r) => r.action === "create_user").length,
+      addMemberships: rows.filter((r) => r.action === "add_membership").length,
+      skipped: rows.filter((r) => r.action === "skip").length,
+    },
+  };
+}
+
+async function sendPasswordSetupEmail(user: User, committeeName: string, appUrl: string): Promise<boolean> {
+  try {
+    const token = await issueAuthToken(user.id, "password_setup", PASSWORD_SETUP_TTL_MS);
+    await sendMail({
+      to: user.email,
+      ...passwordSetupEmail({
+        firstName: user.firstName || user.email,
+        committeeName,
+        setupUrl: `${appUrl}/set-password?token=${token}`,
+        expiresAt: new Date(Date.now() + PASSWORD_SETUP_TTL_MS),
+      }),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error sending password setup email to ${user.email}:`, error);
+    return false;
+  }
+}
+
+// Applies the valid rows of a preview. Rows with errors are left out, and a failure on
+// one row is reported without stopping the rest of the import.
+export async function applyMemberImport(
+  preview: MemberImportPreview,
+  options: { sendEmails: boolean; appUrl: string }
+): Promise<MemberImportResult> {
+  const result: MemberImportResult = { created: 0, added: 0, skipped: 0, failed: [], emailsSent: 0, emailsFailed: 0 };
+
+  for (const row of preview.rows) {
+    if (row.errors.length > 0 || !row.committeeId || !row.action) continue;
+    if (row.action === "skip") {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      let user = await storage.getUserByEmail(row.email);
+      const isNewUser = !user;
+      if (!user) {
+        // The random password is never shared; the user picks their own from the setup email
+        user = await createUser(row.email, randomBytes(24).toString("base64url"), row.firstName, row.lastName);
+      }
+
+      // A pending join request is approved by the import
+      const membership = await storage.getCommitteeMembership(row.committeeId, user.id);
+      if (!membership) {
+        await storage.createCommitteeMember({
+          committeeId: row.committeeId,
+          userId: user.id,
+          isAdmin: false,
+          leadershipRole: row.leadershipRole,
+          roleId: row.roleId,
+          isActive: true,
+        });
+      } else if (isOffboardedMembership(membership)) {
+        // Offboarded after the preview was built
+        throw new Error(OFFBOARDED_MEMBER_MESSAGE);
+      } else if (!membership.isActive || membership.membershipStatus !== "active") {
+        await storage.updateCommitteeMember(membership.id, {
+          isActive: true,
+          membershipStatus: "active",
+          leadershipRole: row.leadershipRole,
+          roleId: row.roleId,
+        });
+      }
+
+      if (row.teamId && !(await storage.getCounselorTeamMember(row.teamId, user.id))) {
+        await storage.createCounselorTeamMember({
+          teamId: row.teamId,
+          userId: user.id,
+          role: row.leadershipRole === "auxiliary" || row.leadershipRole === "none" ? "auxiliary" : "counselor",
+        });
+      }
+
+      if (isNewUser) {
+        result.created++;
+        if (options.sendEmails) {
+          const sent = await sendPasswordSetupEmail(user, row.committeeName ?? row.committeeCode, options.appUrl);
+          if (sent) result.emailsSent++;
+          else result.emailsFailed++;
+        }
+      } else {
+        result.added++;
+      }
+    } catch (error) {
+      console.error(`Error importing member on line ${row.line}:`, error);
+      result.failed.push({ line: row.line, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
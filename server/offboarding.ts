@@ -0,0 +1,286 @@
+import { and, eq, gte, inArray, or, type SQL } from "drizzle-orm";
+import { format } from "date-fns";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  activityAssignments,
+  attendanceSlots,
+  attendances,
+  committeeMembers,
+  counselorTeamMembers,
+  counselorTeams,
+  documents,
+  memberActivities,
+  notificationPreferences,
+  pushSubscriptions,
+  scheduledNotifications,
+  type Attendance,
+  type CommitteeMember,
+  type OffboardMember,
+} from "@shared/schema";
+
+// Only attendances that still hold (or wait for) a spot are cancelled; attended, late,
+// absent and excused ones stay as the member's history
+const CANCELLABLE_STATUSES: Attendance["status"][] = ["scheduled", "waitlisted"];
+
+export interface OffboardingImpact {
+  futureAttendances: number;
+  futureAssignments: number;
+  ownedTeams: { id: string; name: string }[];
+  documents: number;
+  // Without another active membership the user's devices stop receiving notifications
+  revokesPush: boolean;
+}
+
+export interface OffboardingResult {
+  member: CommitteeMember;
+  // As they were before the cancellation, so the caller can free waitlist spots and swaps
+  cancelledAttendances: Attendance[];
+  removedAssignments: number;
+  reassignedTeams: number;
+  reassignedDocuments: number;
+  revokedPush: boolean;
+}
+
+// A problem with the request that the admin can fix; the message is shown as is
+export class OffboardingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OffboardingError";
+  }
+}
+
+export const OFFBOARDED_MEMBER_MESSAGE = 'El usuario fue dado de baja de este comité; usa "Reactivar" en la lista de miembros';
+
+// An offboarded membership only comes back through reactivateMember, never by adding the
+// user again, so the reactivation is recorded like the offboarding was
+export function isOffboardedMembership(member: CommitteeMember): boolean {
+  return !!member.offboardedAt && !member.isActive;
+}
+
+// Slot dates are local calendar days
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+function futureSlotIds(committeeId: string) {
+  return db
+    .select({ id: attendanceSlots.id })
+    .from(attendanceSlots)
+    .where(and(eq(attendanceSlots.committeeId, committeeId), gte(attendanceSlots.date, today())));
+}
+
+function futureActivityIds(committeeId: string) {
+  return db
+    .select({ id: memberActivities.id })
+    .from(memberActivities)
+    .where(and(eq(memberActivities.committeeId, committeeId), gte(memberActivities.activityDate, today())));
+}
+
+function committeeTeamIds(committeeId: string) {
+  return db.select({ id: counselorTeams.id }).from(counselorTeams).where(eq(counselorTeams.committeeId, committeeId));
+}
+
+function futureAttendancesOf(member: CommitteeMember): SQL | undefined {
+  return and(
+    eq(attendances.userId, member.userId),
+    inArray(attendances.status, CANCELLABLE_STATUSES),
+    inArray(attendances.slotId, futureSlotIds(member.committeeId))
+  );
+}
+
+function futureAssignmentsOf(member: CommitteeMember): SQL | undefined {
+  return and(
+    eq(activityAssignments.userId, member.userId),
+    inArray(activityAssignments.activityId, futureActivityIds(member.committeeId))
+  );
+}
+
+function ownedTeamsOf(member: CommitteeMember): SQL | undefined {
+  return and(
+    eq(counselorTeams.ownerUserId, member.userId),
+    eq(counselorTeams.committeeId, member.committeeId),
+    eq(counselorTeams.isActive, true)
+  );
+}
+
+// Committee documents plus the documents of any team in the committee
+function uploadedDocumentsOf(member: CommitteeMember): SQL | undefined {
+  return and(
+    eq(documents.uploadedByUserId, member.userId),
+    or(eq(documents.committeeId, member.committeeId), inArray(documents.teamId, committeeTeamIds(member.committeeId)))
+  );
+}
+
+async function hasOtherActiveMembership(member: CommitteeMember): Promise<boolean> {
+  const memberships = await storage.getUserMemberships(member.userId);
+  return memberships.some((m) => m.id !== member.id);
+}
+
+// What offboarding the member would change, shown to the admin before confirming
+export async function getOffboardingImpact(member: CommitteeMember): Promise<OffboardingImpact> {
+  const [attendanceRows, assignmentRows, ownedTeams, documentRows, otherMembership] = await Promise.all([
+    db.select({ id: attendances.id }).from(attendances).where(futureAttendancesOf(member)),
+    db.select({ id: activityAssignments.id }).from(activityAssignments).where(futureAssignmentsOf(member)),
+    db.select({ id: counselorTeams.id, name: counselorTeams.name }).from(counselorTeams).where(ownedTeamsOf(member)),
+    db.select({ id: documents.id }).from(documents).where(uploadedDocumentsOf(member)),
+    hasOtherActiveMembership(member),
+  ]);
+
+  return {
+    futureAttendances: attendanceRows.length,
+    futureAssignments: assignmentRows.length,
+    ownedTeams,
+    documents: documentRows.length,
+    revokesPush: !otherMembership,
+  };
+}
+
+async function validateReassignTarget(member: CommitteeMember, impact: OffboardingImpact, targetUserId: string | undefined) {
+  if (impact.ownedTeams.length === 0 && impact.documents === 0) return;
+  if (!targetUserId) {
+    throw new OffboardingError("Elige a quién reasignar los equipos y documentos del miembro");
+  }
+  if (targetUserId === member.userId) {
+    throw new OffboardingError("No puedes reasignar al mismo miembro que se da de baja");
+  }
+
+  const targetMemberships = await storage.getUserMemberships(targetUserId);
+  if (!targetMemberships.some((m) => m.committeeId === member.committeeId)) {
+    throw new OffboardingError("La persona elegida no es un miembro activo del comité");
+  }
+  // Each counselor owns at most one team per committee
+  if (impact.ownedTeams.length > 0 && (await storage.getCounselorTeamByOwner(targetUserId, member.committeeId))) {
+    throw new OffboardingError("La persona elegida ya tiene un equipo en este comité");
+  }
+}
+
+// Marks the membership inactive and releases everything it held in the committee. The
+// membership row, past attendances and audit trail are kept so it can be reactivated.
+export async function offboardMember(member: CommitteeMember, options: OffboardMember, actorUserId: string): Promise<OffboardingResult> {
+  if (!member.isActive) {
+    throw new OffboardingError("El miembro ya fue dado de baja");
+  }
+
+  const impact = await getOffboardingImpact(member);
+  await validateReassignTarget(member, impact, options.reassignToUserId);
+  const targetUserId = options.reassignToUserId;
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(committeeMembers)
+      .set({
+        isActive: false,
+        offboardedAt: new Date(),
+        offboardedByUserId: actorUserId,
+        offboardReason: options.reason || null,
+      })
+      .where(and(eq(committeeMembers.id, member.id), eq(committeeMembers.isActive, true)))
+      .returning();
+    if (!updated) {
+      throw new OffboardingError("El miembro ya fue dado de baja");
+    }
+
+    const cancelledAttendances = await tx.select().from(attendances).where(futureAttendancesOf(member)).for("update");
+    if (cancelledAttendances.length > 0) {
+      await tx
+        .update(attendances)
+        .set({ status: "cancelled", cancelledAt: new Date() })
+        .where(inArray(attendances.id, cancelledAttendances.map((a) => a.id)));
+    }
+
+    const removedAssignments = await tx
+      .delete(activityAssignments)
+      .where(futureAssignmentsOf(member))
+      .returning({ activityId: activityAssignments.activityId });
+
+    // Reminders already queued for the cancelled shifts and activities
+    const referenceIds = cancelledAttendances.map((a) => a.id).concat(removedAssignments.map((a) => a.activityId));
+    if (referenceIds.length > 0) {
+      await tx
+        .update(scheduledNotifications)
+        .set({ status: "dismissed" })
+        .where(
+          and(
+            eq(scheduledNotifications.userId, member.userId),
+            inArray(scheduledNotifications.status, ["pending", "snoozed"]),
+            inArray(scheduledNotifications.referenceId, referenceIds)
+          )
+        );
+    }
+
+    let reassignedTeams = 0;
+    let reassignedDocuments = 0;
+    if (targetUserId) {
+      const teamIds = impact.ownedTeams.map((t) => t.id);
+      if (teamIds.length > 0) {
+        // Owners are not listed among their team's members
+        await tx
+          .delete(counselorTeamMembers)
+          .where(and(inArray(counselorTeamMembers.teamId, teamIds), eq(counselorTeamMembers.userId, targetUserId)));
+        const teams = await tx
+          .update(counselorTeams)
+          .set({ ownerUserId: targetUserId })
+          .where(inArray(counselorTeams.id, teamIds))
+          .returning({ id: counselorTeams.id });
+        reassignedTeams = teams.length;
+      }
+
+      const movedDocuments = await tx
+        .update(documents)
+        .set({ uploadedByUserId: targetUserId })
+        .where(uploadedDocumentsOf(member))
+        .returning({ id: documents.id });
+      reassignedDocuments = movedDocuments.length;
+    }
+
+    await tx
+      .delete(counselorTeamMembers)
+      .where(
+        and(
+          eq(counselorTeamMembers.userId, member.userId),
+          inArray(counselorTeamMembers.teamId, committeeTeamIds(member.committeeId))
+        )
+      );
+
+    // Push subscriptions belong to the user, not the committee, so they are only revoked
+    // when this was their last committee; otherwise reminders stop with the cancellations
+    if (impact.revokesPush) {
+      await tx.update(pushSubscriptions).set({ isActive: false }).where(eq(pushSubscriptions.userId, member.userId));
+      await tx
+        .update(notificationPreferences)
+        .set({ pushEnabled: false, pushSubscription: null, updatedAt: new Date() })
+        .where(eq(notificationPreferences.userId, member.userId));
+    }
+
+    return {
+      member: updated,
+      cancelledAttendances,
+      removedAssignments: removedAssignments.length,
+      reassignedTeams,
+      reassignedDocuments,
+      revokedPush: impact.revokesPush,
+    };
+  });
+}
+
+// Gives the membership back its access. What offboarding cancelled stays cancelled, and
+// the offboarding fields are kept as a record of the last time the member left.
+export async function reactivateMember(member: CommitteeMember): Promise<CommitteeMember> {
+  if (member.isActive) {
+    throw new OffboardingError("El miembro ya está activo");
+  }
+  if (member.membershipStatus !== "active") {
+    throw new OffboardingError("Las solicitudes de ingreso se aprueban desde la lista de solicitudes");
+  }
+
+  const [updated] = await db
+    .update(committeeMembers)
+    .set({ isActive: true })
+    .where(and(eq(committeeMembers.id, member.id), eq(committeeMembers.isActive, false)))
+    .returning();
+  if (!updated) {
+    throw new OffboardingError("El miembro ya está activo");
+  }
+  return updated;
+}
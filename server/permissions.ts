@@ -0,0 +1,179 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import { setAuditContext } from "./audit";
+import { ARCHIVED_COMMITTEE_MESSAGE, isCommitteeArchived } from "./committee-archive";
+import { getCascadingAncestorIds, getCascadingDescendantIds } from "./committee-hierarchy";
+import {
+  CAPABILITIES,
+  isGrantedByDefault,
+  leadershipSubjectLabels,
+  systemSubjectLabels,
+  teamSubjectLabels,
+  type Capability,
+  type PermissionSubject,
+} from "@shared/permissions";
+import type { CommitteeMember, RolePermission, UpdateRolePermission } from "@shared/schema";
+
+export type CommitteeIdResolver = (req: Request) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface PermissionMatrixRow extends PermissionSubject {
+  label: string;
+  capabilities: Capability[];
+  customized: Capability[];
+}
+
+function findOverride(overrides: RolePermission[], subject: PermissionSubject, capability: Capability) {
+  return overrides.find(
+    (o) => o.subjectType === subject.subjectType && o.subjectKey === subject.subjectKey && o.capability === capability
+  );
+}
+
+function isGranted(overrides: RolePermission[], subject: PermissionSubject, capability: Capability): boolean {
+  const override = findOverride(overrides, subject, capability);
+  return override ? override.granted : isGrantedByDefault(subject, capability);
+}
+
+// The admin flag, leadership role and custom role of a membership. These are also what
+// carries over to the child committees that cascade permissions.
+function membershipSubjects(membership: CommitteeMember): PermissionSubject[] {
+  const subjects: PermissionSubject[] = [];
+  if (membership.isAdmin) {
+    subjects.push({ subjectType: "system", subjectKey: "admin" });
+  }
+  if (membership.leadershipRole && membership.leadershipRole !== "none") {
+    subjects.push({ subjectType: "leadership", subjectKey: membership.leadershipRole });
+  }
+  if (membership.roleId) {
+    subjects.push({ subjectType: "role", subjectKey: membership.roleId });
+  }
+  return subjects;
+}
+
+// Everything that describes the user inside the committee, or null when they are neither a
+// member nor inherit anything from a parent committee
+async function getPermissionSubjects(userId: string, committeeId: string): Promise<PermissionSubject[] | null> {
+  const memberships = await storage.getUserMemberships(userId);
+  if (memberships.length === 0) return null;
+
+  // A committee with requiresVerifiedEmail grants nothing to a membership until the user
+  // verifies their email, the same rule isUserMemberOfCommittee applies to member routes
+  let emailVerified: boolean | undefined;
+  const grantsAccess = async (membership: (typeof memberships)[number]) => {
+    if (!membership.committee?.requiresVerifiedEmail) return true;
+    emailVerified ??= !!(await storage.getUser(userId))?.emailVerifiedAt;
+    return emailVerified;
+  };
+
+  const inherited: PermissionSubject[] = [];
+  for (const ancestorId of await getCascadingAncestorIds(committeeId)) {
+    const ancestorMembership = memberships.find((m) => m.committeeId === ancestorId);
+    if (ancestorMembership && (await grantsAccess(ancestorMembership))) {
+      inherited.push(...membershipSubjects(ancestorMembership));
+    }
+  }
+
+  const membership = memberships.find((m) => m.committeeId === committeeId);
+  if (!membership || !(await grantsAccess(membership))) return inherited.length > 0 ? inherited : null;
+
+  const subjects: PermissionSubject[] = [{ subjectType: "system", subjectKey: "member" }, ...membershipSubjects(membership), ...inherited];
+  const teams = await storage.getUserTeams(userId);
+  for (const team of teams.filter((t) => t.committeeId === committeeId)) {
+    subjects.push({ subjectType: "team", subjectKey: team.ownerUserId === userId ? "owner" : "auxiliary" });
+  }
+  return subjects;
+}
+
+type PermissionUser = Pick<Express.User, "id" | "isSuperAdmin">;
+
+export async function getCommitteeCapabilities(user: PermissionUser, committeeId: string): Promise<Capability[]> {
+  if (user.isSuperAdmin) return [...CAPABILITIES];
+  const subjects = await getPermissionSubjects(user.id, committeeId);
+  if (!subjects) return [];
+  const overrides = await storage.getRolePermissions();
+  return CAPABILITIES.filter((capability) => subjects.some((subject) => isGranted(overrides, subject, capability)));
+}
+
+export async function hasPermission(user: PermissionUser, committeeId: string, capability: Capability): Promise<boolean> {
+  const capabilities = await getCommitteeCapabilities(user, committeeId);
+  return capabilities.includes(capability);
+}
+
+// The admin flag grants every capability, so only someone who already holds all of them
+// may give it out or take it away; members.manage alone is not enough
+export async function canGrantCommitteeAdmin(user: PermissionUser, committeeId: string): Promise<boolean> {
+  const capabilities = await getCommitteeCapabilities(user, committeeId);
+  return CAPABILITIES.every((capability) => capabilities.includes(capability));
+}
+
+// The committees of a non super admin user where they have the capability, including the
+// child committees that inherit it from one of theirs
+export async function getCommitteeIdsWithPermission(user: PermissionUser, capability: Capability): Promise<string[]> {
+  const memberships = await storage.getUserMemberships(user.id);
+  const candidateIds = new Set<string>();
+  for (const membership of memberships) {
+    candidateIds.add(membership.committeeId);
+    for (const descendantId of await getCascadingDescendantIds(membership.committeeId)) {
+      candidateIds.add(descendantId);
+    }
+  }
+
+  const committeeIds: string[] = [];
+  for (const committeeId of Array.from(candidateIds)) {
+    if (await hasPermission(user, committeeId, capability)) {
+      committeeIds.push(committeeId);
+    }
+  }
+  return committeeIds;
+}
+
+// Rejects the request unless the user has the capability in the committee the route acts
+// on. The resolver reads the committee from the URL or looks up the resource; when it
+// finds nothing the request gets a 404, as the handlers did before checking access.
+// Archived committees are read-only, so only GET requests get through for them.
+export function requirePermission(capability: Capability, resolveCommitteeId: CommitteeIdResolver): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const committeeId = await resolveCommitteeId(req);
+      if (!committeeId) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      if (!(await hasPermission(req.user!, committeeId, capability))) {
+        return res.status(403).json({ message: `Missing permission: ${capability}` });
+      }
+      if (req.method !== "GET" && (await isCommitteeArchived(committeeId))) {
+        return res.status(403).json({ message: ARCHIVED_COMMITTEE_MESSAGE });
+      }
+      setAuditContext(req, { committeeId });
+      next();
+    } catch (error) {
+      console.error("Error checking permission:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// Every subject with its effective capabilities, for the matrix in the admin page
+export async function getPermissionMatrix(): Promise<PermissionMatrixRow[]> {
+  const [roles, overrides] = await Promise.all([storage.getRoles(), storage.getRolePermissions()]);
+  const subjects: (PermissionSubject & { label: string })[] = [
+    ...Object.entries(systemSubjectLabels).map(([subjectKey, label]) => ({ subjectType: "system" as const, subjectKey, label })),
+    ...Object.entries(leadershipSubjectLabels).map(([subjectKey, label]) => ({ subjectType: "leadership" as const, subjectKey, label })),
+    ...roles.map((role) => ({ subjectType: "role" as const, subjectKey: role.id, label: role.displayName })),
+    ...Object.entries(teamSubjectLabels).map(([subjectKey, label]) => ({ subjectType: "team" as const, subjectKey, label })),
+  ];
+
+  return subjects.map((subject) => ({
+    ...subject,
+    capabilities: CAPABILITIES.filter((capability) => isGranted(overrides, subject, capability)),
+    customized: CAPABILITIES.filter((capability) => !!findOverride(overrides, subject, capability)),
+  }));
+}
+
+// Setting a grant back to its default removes the override instead of storing it
+export async function updateRolePermission(data: UpdateRolePermission, updatedByUserId: string): Promise<void> {
+  if (data.granted === isGrantedByDefault(data, data.capability)) {
+    await storage.deleteRolePermission(data);
+  } else {
+    await storage.setRolePermission(data, updatedByUserId);
+  }
+}
@@ -0,0 +1,493 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import { format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import { storage } from "./storage";
+import { getCommitteeShifts } from "./shifts";
+import { ObjectStorageService } from "./replit_integrations/object_storage";
+import { LocalFileStorageService, isReplitEnvironment } from "./replit_integrations/object_storage/localFileStorage";
+import { compareShiftKeys, findCommitteeShift } from "@shared/shifts";
+import {
+  attendanceStatusLabels,
+  checkInVerificationLabels,
+  type AttendanceStatus,
+  type CheckInVerification,
+} from "@shared/attendance-status";
+import type { Committee } from "@shared/schema";
+
+export const REPORT_FORMATS = ["json", "csv", "xlsx", "pdf"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface AttendanceReportRow {
+  id: string;
+  date: string;
+  shift: string;
+  shiftName: string;
+  shiftStart: string | null;
+  shiftEnd: string | null;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  registeredAt: Date | null;
+  status: AttendanceStatus;
+  checkedInAt: Date | null;
+  checkInVerification: CheckInVerification | null;
+  checkInDistanceMeters: number | null;
+  excuseNote: string | null;
+}
+
+export interface MemberTotals {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  total: number;
+  attended: number;
+  late: number;
+  noShow: number;
+  excused: number;
+  pending: number;
+}
+
+export interface AttendanceReport {
+  committee: Committee;
+  startDate: string;
+  endDate: string;
+  rows: AttendanceReportRow[];
+  totals: MemberTotals[];
+}
+
+interface ReportLogo {
+  buffer: Buffer;
+  extension: "png" | "jpeg";
+}
+
+export async function buildAttendanceReport(committee: Committee, startDate: string, endDate: string): Promise<AttendanceReport> {
+  const shifts = await getCommitteeShifts(committee);
+  const slots = await storage.getAttendanceSlots(committee.id, startDate, endDate);
+
+  const rows: AttendanceReportRow[] = slots.flatMap((slot) =>
+    (slot.attendances || [])
+      .filter((a) => a.status !== "cancelled" && a.status !== "waitlisted")
+      .map((a) => {
+        const shift = findCommitteeShift(committee, shifts, slot.shift);
+        return {
+          id: a.id,
+          date: slot.date,
+          shift: slot.shift,
+          shiftName: shift?.name ?? slot.shift,
+          shiftStart: shift?.startTime ?? null,
+          shiftEnd: shift?.endTime ?? null,
+          userId: a.userId,
+          userName: a.user ? `${a.user.firstName} ${a.user.lastName}` : "Usuario desconocido",
+          userEmail: a.user?.email || "",
+          registeredAt: a.registeredAt,
+          status: a.status,
+          checkedInAt: a.checkedInAt,
+          checkInVerification: a.checkInVerification,
+          checkInDistanceMeters: a.checkInDistanceMeters,
+          excuseNote: a.excuseNote,
+        };
+      })
+  );
+
+  rows.sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date);
+    if (dateCompare !== 0) return dateCompare;
+    return compareShiftKeys(shifts, a.shift, b.shift);
+  });
+
+  return { committee, startDate, endDate, rows, totals: summarizeByMember(rows) };
+}
+
+function summarizeByMember(rows: AttendanceReportRow[]): MemberTotals[] {
+  const totals = new Map<string, MemberTotals>();
+  for (const row of rows) {
+    let member = totals.get(row.userId);
+    if (!member) {
+      member = {
+        userId: row.userId,
+        userName: row.userName,
+        userEmail: row.userEmail,
+        total: 0,
+        attended: 0,
+        late: 0,
+        noShow: 0,
+        excused: 0,
+        pending: 0,
+      };
+      totals.set(row.userId, member);
+    }
+    member.total++;
+    if (row.status === "attended") member.attended++;
+    else if (row.status === "late") member.late++;
+    else if (row.status === "no_show") member.noShow++;
+    else if (row.status === "excused") member.excused++;
+    else member.pending++;
+  }
+  return Array.from(totals.values()).sort((a, b) => a.userName.localeCompare(b.userName, "es"));
+}
+
+// Share of closed shifts (excluding those still scheduled) the member showed up for
+function getAttendanceRate(member: MemberTotals): string {
+  const closed = member.total - member.pending;
+  if (closed === 0) return "—";
+  return `${Math.round(((member.attended + member.late) / closed) * 100)}%`;
+}
+
+function getVerificationText(row: AttendanceReportRow): string {
+  if (!row.checkInVerification) return "";
+  const label = checkInVerificationLabels[row.checkInVerification];
+  return row.checkInVerification === "remote" && row.checkInDistanceMeters !== null
+    ? `${label} (${row.checkInDistanceMeters} m)`
+    : label;
+}
+
+function formatPeriod(report: AttendanceReport): string {
+  return `Del ${format(parseISO(report.startDate), "d 'de' MMMM", { locale: es })} al ${format(
+    parseISO(report.endDate),
+    "d 'de' MMMM 'de' yyyy",
+    { locale: es }
+  )}`;
+}
+
+export function getReportFilename(report: AttendanceReport, extension: string): string {
+  const code = report.committee.code.replace(/[^a-zA-Z0-9_-]+/g, "_");
+  return `asistencias_${code}_${report.startDate}_${report.endDate}.${extension}`;
+}
+
+const detailHeaders = ["Fecha", "Turno", "Horario", "Nombre", "Email", "Registrado", "Estado", "Verificación", "Justificación"];
+
+function getDetailValues(row: AttendanceReportRow): string[] {
+  return [
+    format(parseISO(row.date), "dd/MM/yyyy"),
+    row.shiftName,
+    row.shiftStart ? `${row.shiftStart} - ${row.shiftEnd}` : "",
+    row.userName,
+    row.userEmail,
+    row.registeredAt ? format(row.registeredAt, "dd/MM/yyyy HH:mm") : "",
+    attendanceStatusLabels[row.status],
+    getVerificationText(row),
+    row.excuseNote ?? "",
+  ];
+}
+
+const totalsHeaders = ["Nombre", "Email", "Turnos", "Asistencias", "Retardos", "Faltas", "Justificadas", "Pendientes", "% Asistencia"];
+
+function getTotalsValues(member: MemberTotals): (string | number)[] {
+  return [
+    member.userName,
+    member.userEmail,
+    member.total,
+    member.attended,
+    member.late,
+    member.noShow,
+    member.excused,
+    member.pending,
+    getAttendanceRate(member),
+  ];
+}
+
+// Text that a spreadsheet would run as a formula (names, notes and audit values are typed by
+// users) gets a leading apostrophe; numbers are written as they are
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsv(value: string | number): string {
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderReportCsv(report: AttendanceReport): string {
+  const lines = [detailHeaders, ...report.rows.map(getDetailValues)].map((values) => values.map(escapeCsv).join(","));
+  // The BOM makes Excel open the file as UTF-8 so accents survive
+  return "﻿" + lines.join("\r\n");
+}
+
+// A logo is a small image; anything slower or bigger is left out of the report
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Reads an external logo without ever holding more than MAX_LOGO_BYTES, so a huge or endless
+// response cannot exhaust memory; null when it is too big
+async function fetchLogo(url: string): Promise<Buffer | null> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+  if (!response.ok || !response.body) return null;
+  if (Number(response.headers.get("content-length")) > MAX_LOGO_BYTES) {
+    await response.body.cancel();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_LOGO_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Logos can be external URLs or uploads in object storage; only PNG and JPEG can be
+// embedded in both XLSX and PDF, anything else is left out of the header
+export async function loadCommitteeLogo(logoUrl: string | null): Promise<ReportLogo | null> {
+  if (!logoUrl) return null;
+
+  let buffer: Buffer;
+  try {
+    if (/^https?:\/\//.test(logoUrl)) {
+      const fetched = await fetchLogo(logoUrl);
+      if (!fetched) return null;
+      buffer = fetched;
+    } else {
+      const objectPath = logoUrl.startsWith("/api/storage/download/")
+        ? decodeURIComponent(logoUrl.slice("/api/storage/download/".length))
+        : logoUrl;
+      if (isReplitEnvironment()) {
+        const file = await new ObjectStorageService().getObjectEntityFile(objectPath);
+        [buffer] = await file.download();
+      } else {
+        buffer = await new LocalFileStorageService().getFile(objectPath.replace(/^\/objects\//, ""));
+      }
+    }
+  } catch (error) {
+    console.error("Error loading committee logo for report:", error);
+    return null;
+  }
+  if (buffer.length > MAX_LOGO_BYTES) return null;
+
+  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4e && buffer[3] === 0x47) {
+    return { buffer, extension: "png" };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return { buffer, extension: "jpeg" };
+  }
+  return null;
+}
+
+const HEADER_COLOR = "4F46E5";
+
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  row.eachCell((cell) => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: `FF${HEADER_COLOR}` } };
+    cell.border = { bottom: { style: "thin" } };
+  });
+}
+
+function addSheetHeader(workbook: ExcelJS.Workbook, sheet: ExcelJS.Worksheet, report: AttendanceReport, title: string, logo: ReportLogo | null) {
+  const firstColumn = logo ? 2 : 1;
+  sheet.getCell(1, firstColumn).value = title;
+  sheet.getCell(1, firstColumn).font = { bold: true, size: 14 };
+  sheet.getCell(2, firstColumn).value = report.committee.name;
+  sheet.getCell(2, firstColumn).font = { bold: true };
+  sheet.getCell(3, firstColumn).value = formatPeriod(report);
+  sheet.getCell(4, firstColumn).value = `Generado el ${format(new Date(), "dd/MM/yyyy HH:mm")}`;
+  sheet.getCell(4, firstColumn).font = { italic: true, color: { argb: "FF666666" } };
+
+  if (logo) {
+    const image: ExcelJS.Buffer = new Uint8Array(logo.buffer).buffer;
+    const imageId = workbook.addImage({ buffer: image, extension: logo.extension });
+    sheet.addImage(imageId, { tl: { col: 0, row: 0 }, ext: { width: 64, height: 64 } });
+  }
+}
+
+export async function renderReportXlsx(report: AttendanceReport, logo: ReportLogo | null): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const detail = workbook.addWorksheet("Asistencias");
+  addSheetHeader(workbook, detail, report, "Reporte de Asistencias", logo);
+  const detailHeader = detail.getRow(6);
+  detailHeader.values = detailHeaders;
+  styleHeaderRow(detailHeader);
+  report.rows.forEach((row) => detail.addRow(getDetailValues(row)));
+  detail.columns.forEach((column, index) => {
+    column.width = [12, 14, 15, 28, 30, 17, 14, 18, 40][index];
+  });
+  detail.autoFilter = { from: { row: 6, column: 1 }, to: { row: 6, column: detailHeaders.length } };
+  detail.views = [{ state: "frozen", ySplit: 6 }];
+
+  const totals = workbook.addWorksheet("Totales por miembro");
+  addSheetHeader(workbook, totals, report, "Totales por Miembro", logo);
+  const totalsHeader = totals.getRow(6);
+  totalsHeader.values = totalsHeaders;
+  styleHeaderRow(totalsHeader);
+  report.totals.forEach((member) => totals.addRow(getTotalsValues(member)));
+  totals.columns.forEach((column, index) => {
+    column.width = [28, 30, 10, 12, 10, 10, 13, 12, 13][index];
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: "left" | "center" | "right";
+}
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+function drawTable(doc: PDFKit.PDFDocument, columns: PdfColumn[], rows: (string | number)[][]) {
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const bottomLimit = doc.page.height - PAGE_MARGIN - 30;
+
+  const drawRow = (values: (string | number)[], isHeader: boolean, shaded: boolean) => {
+    const y = doc.y;
+    if (isHeader) {
+      doc.rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).fill(`#${HEADER_COLOR}`);
+    } else if (shaded) {
+      doc.rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).fill("#F3F4F6");
+    }
+    doc.fillColor(isHeader ? "#FFFFFF" : "#111827").font(isHeader ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+
+    let x = PAGE_MARGIN;
+    values.forEach((value, index) => {
+      const column = columns[index];
+      doc.text(String(value), x + 4, y + 5, {
+        width: column.width - 8,
+        height: ROW_HEIGHT - 5,
+        align: column.align ?? "left",
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += column.width;
+    });
+    doc.x = PAGE_MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  drawRow(columns.map((column) => column.header), true, false);
+  rows.forEach((values, index) => {
+    if (doc.y + ROW_HEIGHT > bottomLimit) {
+      doc.addPage();
+      drawRow(columns.map((column) => column.header), true, false);
+    }
+    drawRow(values, false, index % 2 === 1);
+  });
+  doc.fillColor("#111827");
+}
+
+function drawSignatures(doc: PDFKit.PDFDocument, committee: Committee) {
+  const blockHeight = 90;
+  if (doc.y + blockHeight > doc.page.height - PAGE_MARGIN - 30) {
+    doc.addPage();
+  }
+
+  const y = doc.y + 50;
+  const lineWidth = 200;
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const positions = [PAGE_MARGIN + 20, PAGE_MARGIN + contentWidth - lineWidth - 20];
+  const labels = ["Elaboró", "Vo. Bo. Presidencia del Comité"];
+
+  positions.forEach((x, index) => {
+    doc.moveTo(x, y).lineTo(x + lineWidth, y).strokeColor("#111827").stroke();
+    doc.font("Helvetica").fontSize(9).text(labels[index], x, y + 6, { width: lineWidth, align: "center" });
+    doc.fontSize(8).fillColor("#6B7280").text(committee.name, x, y + 20, { width: lineWidth, align: "center" });
+    doc.fillColor("#111827");
+  });
+  doc.x = PAGE_MARGIN;
+  doc.y = y + 40;
+}
+
+function drawPageNumbers(doc: PDFKit.PDFDocument) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the bottom margin would otherwise make pdfkit add a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#6B7280")
+      .text(`Página ${index + 1} de ${range.count}`, PAGE_MARGIN, doc.page.height - 30, {
+        width: doc.page.width - PAGE_MARGIN * 2,
+        align: "center",
+      });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export function writeReportPdf(report: AttendanceReport, logo: ReportLogo | null, output: NodeJS.WritableStream) {
+  const doc = new PDFDocument({ size: "LETTER", margin: PAGE_MARGIN, bufferPages: true });
+  doc.pipe(output);
+
+  const textX = logo ? PAGE_MARGIN + 70 : PAGE_MARGIN;
+  if (logo) {
+    doc.image(logo.buffer, PAGE_MARGIN, PAGE_MARGIN, { fit: [60, 60] });
+  }
+  doc.font("Helvetica-Bold").fontSize(16).fillColor("#111827").text("Reporte de Asistencias", textX, PAGE_MARGIN);
+  doc.font("Helvetica-Bold").fontSize(11).text(report.committee.name, textX);
+  doc.font("Helvetica").fontSize(9).fillColor("#4B5563").text(formatPeriod(report), textX);
+  doc.text(`Generado el ${format(new Date(), "dd/MM/yyyy HH:mm")}`, textX);
+  doc.fillColor("#111827");
+  doc.x = PAGE_MARGIN;
+  doc.y = Math.max(doc.y, PAGE_MARGIN + 60) + 20;
+
+  if (report.rows.length === 0) {
+    doc.font("Helvetica").fontSize(10).text("No hay asistencias registradas en este periodo.");
+  } else {
+    drawTable(
+      doc,
+      [
+        { header: "Fecha", width: 60 },
+        { header: "Turno", width: 80 },
+        { header: "Nombre", width: 160 },
+        { header: "Estado", width: 70 },
+        { header: "Verificación", width: 95 },
+        { header: "Registrado", width: 67 },
+      ],
+      report.rows.map((row) => [
+        format(parseISO(row.date), "dd/MM/yyyy"),
+        row.shiftName,
+        row.userName,
+        attendanceStatusLabels[row.status],
+        getVerificationText(row),
+        row.registeredAt ? format(row.registeredAt, "dd/MM HH:mm") : "",
+      ])
+    );
+
+    doc.moveDown(1.5);
+    if (doc.y + ROW_HEIGHT * 3 > doc.page.height - PAGE_MARGIN - 30) {
+      doc.addPage();
+    }
+    doc.font("Helvetica-Bold").fontSize(12).text("Totales por miembro", PAGE_MARGIN);
+    doc.moveDown(0.5);
+    drawTable(
+      doc,
+      [
+        { header: "Nombre", width: 172 },
+        { header: "Turnos", width: 50, align: "center" },
+        { header: "Asistencias", width: 60, align: "center" },
+        { header: "Retardos", width: 55, align: "center" },
+        { header: "Faltas", width: 50, align: "center" },
+        { header: "Justificadas", width: 65, align: "center" },
+        { header: "% Asistencia", width: 80, align: "center" },
+      ],
+      report.totals.map((member) => [
+        member.userName,
+        member.total,
+        member.attended,
+        member.late,
+        member.noShow,
+        member.excused,
+        getAttendanceRate(member),
+      ])
+    );
+  }
+
+  drawSignatures(doc, report.committee);
+  drawPageNumbers(doc);
+  doc.end();
+}
@@ -1,9 +1,10 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { randomBytes } from "crypto";
-import { storage } from "./storage";
+import { storage, type AttendanceChanges } from "./storage";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./auth";
-import { insertCommitteeSchema, insertAttendanceSlotSchema, insertMemberActivitySchema, insertNotificationPreferencesSchema, insertRoleSchema, insertDocumentSchema } from "@shared/schema";
+import { insertCommitteeSchema, insertAttendanceSlotSchema, insertShiftDefinitionSchema, updateShiftDefinitionSchema, insertSlotTemplateSchema, checkInLocationSchema, updateCommitteeGeofenceSchema, updateCommitteeQuotaSchema, updateReportSubscriptionSchema, updateSystemSettingsSchema, updateRolePermissionSchema, insertClosureSchema, excuseAttendanceSchema, manualAttendanceSchema, updateManualAttendanceSchema, removeManualAttendanceSchema, insertMemberActivitySchema, insertNotificationPreferencesSchema, insertRoleSchema, insertDocumentSchema, rejectMembershipRequestSchema, offboardMemberSchema, rolloverCommitteeSchema } from "@shared/schema";
+import type { Attendance, AttendanceSlot, Committee, CommitteeMember, ManualAttendance } from "@shared/schema";
 import { z } from "zod";
 import {
   startOfMonth,
@@ -15,6 +16,32 @@ import {
 import webpush from "web-push";
 import cron from "node-cron";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
+import {
+  slotGenerationSchema,
+  getGenerationRange,
+  resolveGenerationRule,
+  planSlots,
+  createPlannedSlots,
+} from "./slotGenerator";
+import { closureImportSchema, parseClosureImport } from "./closures";
+import { memberImportSchema, readMemberSpreadsheet, previewMemberImport, applyMemberImport, MemberImportFileError } from "./member-import";
+import { getCommitteeShifts, seedDefaultShiftDefinitions, toShiftKey } from "./shifts";
+import { compareShiftKeys, findCommitteeShift, isWithinShift, type CommitteeShift } from "@shared/shifts";
+import { evaluateCheckIn } from "./geofence";
+import { getCheckInStatus, hasShiftEnded, isPresentStatus, occupiesSlot } from "@shared/attendance-status";
+import { createKioskToken, verifyKioskToken, KIOSK_TOKEN_WINDOW_SECONDS } from "./kiosk";
+import { buildCommitteeStatistics } from "./statistics";
+import { sendReportDigests } from "./digests";
+import { getAppUrl } from "./mail";
+import { deliverTeamInvite, processTeamInviteExpiry, INVITE_TTL_MS } from "./invites";
+import { getRecentLockouts, pruneLoginAttempts, unlockLockout } from "./login-throttle";
+import { revokeUserSessions } from "./sessions";
+import { auditMutations, getAuditEntityTypes, listAuditEvents, renderAuditCsv, setAuditContext, type AuditEventFilters } from "./audit";
+import { archiveCommittee, rejectArchivedCommittee, rolloverCommittee, unarchiveCommittee, CommitteeArchiveError, ARCHIVED_COMMITTEE_MESSAGE } from "./committee-archive";
+import { buildChildrenSummary, buildCommitteeTree, getDescendantCommittees, validateParentCommittee, CommitteeHierarchyError } from "./committee-hierarchy";
+import { getOffboardingImpact, isOffboardedMembership, offboardMember, reactivateMember, OffboardingError, OFFBOARDED_MEMBER_MESSAGE } from "./offboarding";
+import { canGrantCommitteeAdmin, getCommitteeCapabilities, getCommitteeIdsWithPermission, getPermissionMatrix, hasPermission, requirePermission, updateRolePermission } from "./permissions";
+import { buildAttendanceReport, getReportFilename, isReportFormat, loadCommitteeLogo, renderReportCsv, renderReportXlsx, writeReportPdf } from "./reports";
 
 // Configure web-push with VAPID keys
 if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
@@ -25,21 +52,41 @@ if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
   );
 }
 
-async function isUserMemberOfCommittee(userId: string, committeeId: string): Promise<boolean> {
+async function hasCommitteeMembership(userId: string, committeeId: string): Promise<boolean> {
   const memberships = await storage.getUserMemberships(userId);
   return memberships.some(m => m.committeeId === committeeId);
 }
 
-async function isUserAdminOfCommittee(userId: string, committeeId: string): Promise<boolean> {
+// Offboarded members keep their row, so they must be reactivated before rejoining a team
+async function isOffboardedFromCommittee(userId: string, committeeId: string): Promise<boolean> {
+  const membership = await storage.getCommitteeMembership(committeeId, userId);
+  return !!membership && !membership.isActive;
+}
+
+// Committees with requiresVerifiedEmail only grant access once the member verifies their email
+async function isUserMemberOfCommittee(userId: string, committeeId: string): Promise<boolean> {
   const memberships = await storage.getUserMemberships(userId);
   const membership = memberships.find(m => m.committeeId === committeeId);
-  return membership?.isAdmin === true;
+  if (!membership) return false;
+  if (!membership.committee?.requiresVerifiedEmail) return true;
+  const user = await storage.getUser(userId);
+  return !!user?.emailVerifiedAt;
+}
+
+// Read access to a committee: its members, plus the admins and leaders of a parent committee
+// that cascades permissions, who hold capabilities in it without being members. A membership
+// of the committee itself that isn't usable (pending, unverified email) still blocks access.
+async function canViewCommittee(user: Express.User, committeeId: string): Promise<boolean> {
+  if (await isUserMemberOfCommittee(user.id, committeeId)) return true;
+  if (!user.isSuperAdmin && (await storage.getCommitteeMembership(committeeId, user.id))) return false;
+  const capabilities = await getCommitteeCapabilities(user, committeeId);
+  return capabilities.length > 0;
 }
 
 async function isUserCounselorOfGeneralCommittee(userId: string): Promise<boolean> {
   const memberships = await storage.getUserMemberships(userId);
   for (const m of memberships) {
-    if (m.committee?.isGeneral && m.leadershipRole === "counselor") {
+    if (m.committee?.isGeneral && !m.committee.archivedAt && m.leadershipRole === "counselor") {
       return true;
     }
   }
@@ -54,21 +101,21 @@ async function getUserTeamRestriction(userId: string): Promise<{ isRestricted: b
   const memberships = await storage.getUserMemberships(userId);
   const teams = await storage.getUserTeams(userId);
   
-  // Check if user is in a General Council committee
-  const generalCouncilMembership = memberships.find(m => m.committee?.isGeneral);
+  // Check if user is in a General Council committee; an archived one no longer counts
+  const generalCouncilMembership = memberships.find(m => m.committee?.isGeneral && !m.committee.archivedAt);
   
   if (!generalCouncilMembership) {
     return { isRestricted: false, teamId: null, isTeamOwner: false };
   }
   
   // Check if user is a team owner (counselor) - not sidebar restricted but still filtered to their team
-  const ownedTeam = teams.find(t => t.ownerUserId === userId && t.committee?.isGeneral);
+  const ownedTeam = teams.find(t => t.ownerUserId === userId && t.committee?.isGeneral && !t.committee.archivedAt);
   if (ownedTeam) {
     return { isRestricted: false, teamId: ownedTeam.id, isTeamOwner: true };
   }
   
   // Check if user is a member (auxiliary) of a team in General Council - restricted sidebar and filtered to team
-  const memberTeam = teams.find(t => t.ownerUserId !== userId && t.committee?.isGeneral);
+  const memberTeam = teams.find(t => t.ownerUserId !== userId && t.committee?.isGeneral && !t.committee.archivedAt);
   if (memberTeam) {
     return { isRestricted: true, teamId: memberTeam.id, isTeamOwner: false };
   }
@@ -81,11 +128,109 @@ function isSuperAdmin(req: any): boolean {
   return req.user?.isSuperAdmin === true;
 }
 
+// Fields written when an admin sets a status by hand: present statuses keep an existing
+// check-in verification or are marked "manual", and excused ones carry the justification.
+// A new registration has no previous attendance.
+function getManualStatusChanges(
+  previous: Attendance | null,
+  status: ManualAttendance["status"],
+  actorUserId: string,
+  justification: string
+): AttendanceChanges {
+  const changes: AttendanceChanges = { status };
+  if (isPresentStatus(status)) {
+    changes.checkInVerification = previous && isPresentStatus(previous.status) ? previous.checkInVerification : "manual";
+  } else {
+    changes.checkInVerification = null;
+  }
+  if (status === "excused") {
+    changes.excuseNote = justification;
+    changes.excusedBy = actorUserId;
+    changes.excusedAt = new Date();
+  }
+  return changes;
+}
+
+// 1-based place in the slot's waitlist (ordered by registration time), or null if not waitlisted
+function getWaitlistPosition(slotAttendances: Attendance[], attendanceId: string): number | null {
+  const queue = slotAttendances
+    .filter((a) => a.status === "waitlisted")
+    .sort((a, b) => (a.registeredAt?.getTime() ?? 0) - (b.registeredAt?.getTime() ?? 0));
+  const index = queue.findIndex((a) => a.id === attendanceId);
+  return index === -1 ? null : index + 1;
+}
+
+// Committee resolvers for requirePermission
+const committeeIdParam = (req: Request) => req.params.id;
+
+async function committeeOfShiftDefinition(req: Request) {
+  return (await storage.getShiftDefinition(req.params.id))?.committeeId;
+}
+
+async function committeeOfSlotTemplate(req: Request) {
+  return (await storage.getSlotTemplate(req.params.id))?.committeeId;
+}
+
+async function committeeOfAttendance(req: Request) {
+  const attendance = await storage.getAttendanceById(req.params.id);
+  const slot = attendance ? await storage.getAttendanceSlot(attendance.slotId) : undefined;
+  return slot?.committeeId;
+}
+
+async function committeeOfCommitteeMember(req: Request) {
+  return (await storage.getCommitteeMember(req.params.id))?.committeeId;
+}
+
+async function committeeOfShiftSwap(req: Request) {
+  return (await storage.getShiftSwap(req.params.id))?.committeeId;
+}
+
+// Committee resolvers for rejectArchivedCommittee on member routes
+const committeeIdBody = (req: Request) => req.body?.committeeId;
+const committeeIdOfCommitteeParam = (req: Request) => req.params.committeeId;
+
+async function committeeOfSlotBody(req: Request) {
+  return typeof req.body?.slotId === "string" ? (await storage.getAttendanceSlot(req.body.slotId))?.committeeId : undefined;
+}
+
+async function committeeOfClosure(req: Request) {
+  return (await storage.getClosure(req.params.id))?.committeeId;
+}
+
+async function committeeOfActivity(req: Request) {
+  return (await storage.getMemberActivity(req.params.activityId ?? req.params.id))?.committeeId;
+}
+
+async function committeeOfActivityAttendance(req: Request) {
+  const attendance = await storage.getActivityAttendanceById(req.params.id);
+  const activity = attendance ? await storage.getMemberActivity(attendance.activityId) : undefined;
+  return activity?.committeeId;
+}
+
+async function committeeOfTeam(req: Request) {
+  return (await storage.getCounselorTeam(req.params.teamId))?.committeeId;
+}
+
+async function committeeOfDocumentScope(committeeId: string | null | undefined, teamId: string | null | undefined) {
+  if (committeeId) return committeeId;
+  return teamId ? (await storage.getCounselorTeam(teamId))?.committeeId : undefined;
+}
+
+async function committeeOfDocumentBody(req: Request) {
+  return committeeOfDocumentScope(req.body?.committeeId, req.body?.teamId);
+}
+
+async function committeeOfDocument(req: Request) {
+  const document = await storage.getDocument(req.params.id);
+  return document ? committeeOfDocumentScope(document.committeeId, document.teamId) : undefined;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   setupAuth(app);
+  app.use("/api", auditMutations);
   registerAuthRoutes(app);
   registerObjectStorageRoutes(app);
 
@@ -202,13 +347,13 @@ export async function registerRoutes(
   app.get("/api/public/committees", async (req, res) => {
     try {
       const allCommittees = await storage.getAllCommittees();
-      const publicData = allCommittees
-        .filter(c => !c.isRestricted)
-        .map(c => ({
-          id: c.id,
-          name: c.name,
-          code: c.code,
-        }));
+      // Restricted committees are listed too; registering for one creates a join request
+      const publicData = allCommittees.map(c => ({
+        id: c.id,
+        name: c.name,
+        code: c.code,
+        requiresApproval: c.isRestricted,
+      }));
       res.json(publicData);
     } catch (error) {
       console.error("Error fetching public committees:", error);
@@ -229,11 +374,10 @@ export async function registerRoutes(
 
   app.get("/api/committees/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const committeeId = req.params.id;
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "Not authorized to view this committee" });
       }
       
@@ -258,6 +402,34 @@ export async function registerRoutes(
     }
   });
 
+  // The committee structure the user can see: their committees, plus everything below the
+  // ones where they can view reports. Super admins see the whole structure.
+  app.get("/api/committee-tree", isAuthenticated, async (req: any, res) => {
+    try {
+      const memberships = await storage.getUserMemberships(req.user.id);
+      const memberCommitteeIds = new Set(memberships.map((m) => m.committeeId));
+      let visible = await storage.getAllCommittees();
+      if (!isSuperAdmin(req)) {
+        const visibleIds = new Set<string>();
+        for (const committeeId of Array.from(memberCommitteeIds)) {
+          visibleIds.add(committeeId);
+          if (await hasPermission(req.user, committeeId, "reports.view")) {
+            (await getDescendantCommittees(committeeId)).forEach(({ committee }) => visibleIds.add(committee.id));
+          }
+        }
+        visible = visible.filter((c) => visibleIds.has(c.id));
+      }
+      const viewableIds = new Set<string>();
+      for (const committee of visible) {
+        if (isSuperAdmin(req) || (await canViewCommittee(req.user, committee.id))) viewableIds.add(committee.id);
+      }
+      res.json(buildCommitteeTree(visible, viewableIds));
+    } catch (error) {
+      console.error("Error fetching committee tree:", error);
+      res.status(500).json({ message: "Failed to fetch committee tree" });
+    }
+  });
+
   app.post("/api/committees", isAuthenticated, async (req: any, res) => {
     try {
       if (!isSuperAdmin(req)) {
@@ -286,7 +458,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/committees/:id/join", isAuthenticated, async (req: any, res) => {
+  app.post("/api/committees/:id/join", isAuthenticated, rejectArchivedCommittee(committeeIdParam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const committeeId = req.params.id;
@@ -296,22 +468,35 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Comité no encontrado" });
       }
       
-      if (committee.isRestricted) {
-        return res.status(403).json({ message: "Este comité es restringido. Solo un administrador puede agregar miembros." });
-      }
-      
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (isMember) {
+      const existing = await storage.getCommitteeMembership(committeeId, userId);
+      if (existing?.membershipStatus === "active" && existing.isActive) {
         return res.status(400).json({ message: "Ya eres miembro de este comité" });
       }
-      
-      const member = await storage.createCommitteeMember({
-        committeeId,
-        userId,
-        isAdmin: false,
-        leadershipRole: "none",
-        isActive: true,
-      });
+      if (existing?.membershipStatus === "pending") {
+        return res.status(400).json({ message: "Ya enviaste una solicitud para este comité" });
+      }
+      if (existing?.offboardedAt && !existing.isActive) {
+        return res.status(403).json({ message: "Fuiste dado de baja de este comité; pide a un administrador que te reactive" });
+      }
+      
+      // Restricted committees take join requests that an admin reviews from the committee page
+      const membershipStatus = committee.isRestricted ? "pending" : "active";
+      const member = existing
+        ? await storage.updateCommitteeMember(existing.id, {
+            isActive: true,
+            membershipStatus,
+            reviewedByUserId: null,
+            reviewedAt: null,
+            reviewNote: null,
+          })
+        : await storage.createCommitteeMember({
+            committeeId,
+            userId,
+            isAdmin: false,
+            leadershipRole: "none",
+            isActive: true,
+            membershipStatus,
+          });
       
       res.status(201).json(member);
     } catch (error) {
@@ -322,11 +507,10 @@ export async function registerRoutes(
 
   app.get("/api/committees/:id/members", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const committeeId = req.params.id;
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView && !isSuperAdmin(req)) {
         return res.status(403).json({ message: "Not authorized to view this committee's members" });
       }
       
@@ -342,7 +526,11 @@ export async function registerRoutes(
     try {
       const userId = req.user.id;
       const memberships = await storage.getUserMemberships(userId);
-      res.json(memberships);
+      // The client shows management screens based on these rather than isAdmin
+      const withCapabilities = await Promise.all(
+        memberships.map(async (m) => ({ ...m, capabilities: await getCommitteeCapabilities(req.user, m.committeeId) }))
+      );
+      res.json(withCapabilities);
     } catch (error) {
       console.error("Error fetching memberships:", error);
       res.status(500).json({ message: "Failed to fetch memberships" });
@@ -351,17 +539,13 @@ export async function registerRoutes(
 
   app.get("/api/all-members", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const allMembers = await storage.getAllMembers();
       
       if (isSuperAdmin(req)) {
         return res.json(allMembers);
       }
       
-      const userMemberships = await storage.getUserMemberships(userId);
-      const adminCommitteeIds = userMemberships
-        .filter(m => m.isAdmin === true)
-        .map(m => m.committeeId);
+      const adminCommitteeIds = await getCommitteeIdsWithPermission(req.user, "members.manage");
       
       if (adminCommitteeIds.length === 0) {
         return res.json([]);
@@ -376,7 +560,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/committee-members", isAuthenticated, async (req: any, res) => {
+  app.post("/api/committee-members", isAuthenticated, rejectArchivedCommittee(committeeIdBody), async (req: any, res) => {
     try {
       const requesterId = req.user.id;
       const { committeeId, userEmail, role } = req.body;
@@ -385,11 +569,10 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Committee ID and user email are required" });
       }
       
-      const isAdmin = await isUserAdminOfCommittee(requesterId, committeeId);
-      const isSuperAdminUser = isSuperAdmin(req);
+      const canManageMembers = await hasPermission(req.user, committeeId, "members.manage");
       const isCounselorOfGeneral = await isUserCounselorOfGeneralCommittee(requesterId);
       
-      if (!isAdmin && !isSuperAdminUser && !isCounselorOfGeneral) {
+      if (!canManageMembers && !isCounselorOfGeneral) {
         return res.status(403).json({ message: "Solo administradores o consejeros del Comité General pueden agregar miembros" });
       }
       
@@ -398,18 +581,30 @@ export async function registerRoutes(
         return res.status(404).json({ message: "No se encontró un usuario con ese correo" });
       }
       
-      const existingMember = await isUserMemberOfCommittee(userToAdd.id, committeeId);
-      if (existingMember) {
+      const existingMember = await storage.getCommitteeMembership(committeeId, userToAdd.id);
+      if (existingMember?.membershipStatus === "active" && existingMember.isActive) {
         return res.status(400).json({ message: "El usuario ya es miembro de este comité" });
       }
-      
-      const member = await storage.createCommitteeMember({
-        committeeId,
-        userId: userToAdd.id,
-        isAdmin: false,
-        leadershipRole: "none",
-        isActive: true,
-      });
+      if (existingMember && isOffboardedMembership(existingMember)) {
+        return res.status(400).json({ message: OFFBOARDED_MEMBER_MESSAGE, memberId: existingMember.id });
+      }
+      
+      // Adding someone who asked to join (or was turned down) approves their request
+      const member = existingMember
+        ? (await storage.updateCommitteeMember(existingMember.id, {
+            isActive: true,
+            membershipStatus: "active",
+            reviewedByUserId: requesterId,
+            reviewedAt: new Date(),
+          }))!
+        : await storage.createCommitteeMember({
+            committeeId,
+            userId: userToAdd.id,
+            isAdmin: false,
+            leadershipRole: "none",
+            isActive: true,
+          });
+      setAuditContext(req, { committeeId, entityId: member.id, before: existingMember ?? null, after: member });
       
       res.status(201).json(member);
     } catch (error) {
@@ -418,9 +613,8 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/committee-members/:id", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/committee-members/:id", isAuthenticated, rejectArchivedCommittee(committeeOfCommitteeMember), async (req: any, res) => {
     try {
-      const requesterId = req.user.id;
       const { isAdmin: newIsAdmin, leadershipRole, roleId } = req.body;
       
       const member = await storage.getCommitteeMember(req.params.id);
@@ -428,14 +622,16 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Member not found" });
       }
       
-      const isRequesterAdmin = await isUserAdminOfCommittee(requesterId, member.committeeId);
       const isSuperAdminUser = isSuperAdmin(req);
       
       const updateData: any = {};
       
       if (newIsAdmin !== undefined) {
-        if (!isRequesterAdmin && !isSuperAdminUser) {
-          return res.status(403).json({ message: "Solo administradores pueden promover a otros" });
+        if (member.userId === req.user.id && !isSuperAdminUser) {
+          return res.status(403).json({ message: "No puedes cambiar tus propios permisos de administrador" });
+        }
+        if (!(await canGrantCommitteeAdmin(req.user, member.committeeId))) {
+          return res.status(403).json({ message: "Solo quien tiene todos los permisos del comité puede nombrar administradores" });
         }
         updateData.isAdmin = newIsAdmin;
       }
@@ -459,6 +655,7 @@ export async function registerRoutes(
       }
       
       const updatedMember = await storage.updateCommitteeMember(req.params.id, updateData);
+      setAuditContext(req, { committeeId: member.committeeId, before: member, after: updatedMember });
       res.json(updatedMember);
     } catch (error) {
       console.error("Error updating member:", error);
@@ -466,9 +663,158 @@ export async function registerRoutes(
     }
   });
 
+  // Join requests for restricted committees, reviewed by whoever can manage members
+  app.get("/api/committees/:id/membership-requests", isAuthenticated, requirePermission("members.manage", committeeIdParam), async (req: any, res) => {
+    try {
+      res.json(await storage.getMembershipRequests(req.params.id));
+    } catch (error) {
+      console.error("Error fetching membership requests:", error);
+      res.status(500).json({ message: "Failed to fetch membership requests" });
+    }
+  });
+
+  app.get("/api/my-membership-requests", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getUserMembershipRequests(req.user.id));
+    } catch (error) {
+      console.error("Error fetching membership requests:", error);
+      res.status(500).json({ message: "Failed to fetch membership requests" });
+    }
+  });
+
+  app.post("/api/committee-members/:id/approve", isAuthenticated, requirePermission("members.manage", committeeOfCommitteeMember), async (req: any, res) => {
+    try {
+      const request = await storage.getCommitteeMember(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Membership request not found" });
+      }
+      
+      const reviewNote = typeof req.body?.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+      const member = await storage.reviewMembershipRequest(request.id, "active", req.user.id, reviewNote);
+      if (!member) {
+        return res.status(400).json({ message: "Esta solicitud ya fue revisada" });
+      }
+      setAuditContext(req, { before: request, after: member });
+      
+      const committee = await storage.getCommittee(member.committeeId);
+      if (committee) {
+        sendMembershipRequestNotification(member, committee, "Solicitud aprobada", `Ya eres miembro de ${committee.name}`);
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error approving membership request:", error);
+      res.status(500).json({ message: "Failed to approve membership request" });
+    }
+  });
+
+  app.post("/api/committee-members/:id/reject", isAuthenticated, requirePermission("members.manage", committeeOfCommitteeMember), async (req: any, res) => {
+    try {
+      const request = await storage.getCommitteeMember(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Membership request not found" });
+      }
+      
+      const { reason } = rejectMembershipRequestSchema.parse(req.body);
+      const member = await storage.reviewMembershipRequest(request.id, "rejected", req.user.id, reason);
+      if (!member) {
+        return res.status(400).json({ message: "Esta solicitud ya fue revisada" });
+      }
+      setAuditContext(req, { before: request, after: member });
+      
+      const committee = await storage.getCommittee(member.committeeId);
+      if (committee) {
+        sendMembershipRequestNotification(member, committee, "Solicitud rechazada", `${committee.name} rechazó tu solicitud: ${reason}`);
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error rejecting membership request:", error);
+      res.status(500).json({ message: "Failed to reject membership request" });
+    }
+  });
+
+  // Offboarding: the membership goes inactive and releases its future shifts, activities,
+  // teams and documents; reactivating it later restores access with the history intact
+  app.get("/api/committee-members/:id/offboarding-preview", isAuthenticated, requirePermission("members.manage", committeeOfCommitteeMember), async (req: any, res) => {
+    try {
+      const member = await storage.getCommitteeMember(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(await getOffboardingImpact(member));
+    } catch (error) {
+      console.error("Error previewing offboarding:", error);
+      res.status(500).json({ message: "Failed to preview offboarding" });
+    }
+  });
+
+  app.post("/api/committee-members/:id/offboard", isAuthenticated, requirePermission("members.manage", committeeOfCommitteeMember), async (req: any, res) => {
+    try {
+      const member = await storage.getCommitteeMember(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.userId === req.user.id) {
+        return res.status(400).json({ message: "No puedes darte de baja a ti mismo" });
+      }
+      
+      const data = offboardMemberSchema.parse(req.body);
+      const result = await offboardMember(member, data, req.user.id);
+      setAuditContext(req, { action: "offboard", before: member, after: result.member });
+      
+      // Same follow-up as a member cancelling the attendance themselves
+      for (const attendance of result.cancelledAttendances) {
+        const cancelledSwaps = await storage.cancelActiveShiftSwaps(attendance.id, req.user.id);
+        for (const swap of cancelledSwaps) {
+          if (swap.acceptedByUserId) {
+            sendShiftSwapNotification(swap.acceptedByUserId, "Intercambio cancelado", "El turno que aceptaste ya no está disponible", swap.id);
+          }
+        }
+        if (occupiesSlot(attendance.status)) {
+          const promoted = await storage.promoteNextWaitlisted(attendance.slotId);
+          const slot = promoted ? await storage.getAttendanceSlot(attendance.slotId) : undefined;
+          if (promoted && slot) {
+            sendWaitlistPromotionNotification(promoted.userId, slot);
+          }
+        }
+      }
+      
+      res.json({ ...result, cancelledAttendances: result.cancelledAttendances.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof OffboardingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error offboarding member:", error);
+      res.status(500).json({ message: "Failed to offboard member" });
+    }
+  });
+
+  app.post("/api/committee-members/:id/reactivate", isAuthenticated, requirePermission("members.manage", committeeOfCommitteeMember), async (req: any, res) => {
+    try {
+      const member = await storage.getCommitteeMember(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      const reactivated = await reactivateMember(member);
+      setAuditContext(req, { action: "reactivate", before: member, after: reactivated });
+      res.json(reactivated);
+    } catch (error) {
+      if (error instanceof OffboardingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reactivating member:", error);
+      res.status(500).json({ message: "Failed to reactivate member" });
+    }
+  });
+
   app.get("/api/attendance-slots", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const committeeId = req.query.committeeId as string;
       const month = req.query.month as string;
       
@@ -476,8 +822,8 @@ export async function registerRoutes(
         return res.json([]);
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "Not authorized to view this committee's schedule" });
       }
       
@@ -507,276 +853,1384 @@ export async function registerRoutes(
   // Get all attendances for a committee (for calendar display)
   app.get("/api/committees/:id/calendar-attendances", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const committeeId = req.params.id;
       const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
       
-      if (!startDate || !endDate) {
-        return res.status(400).json({ message: "Start and end date are required" });
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: "Start and end date are required" });
+      }
+      
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
+        return res.status(403).json({ message: "You must be a member of this committee" });
+      }
+      
+      const slots = await storage.getAttendanceSlots(committeeId, startDate, endDate);
+      
+      const calendarData = slots.flatMap((slot) => 
+        (slot.attendances || [])
+          .filter((a) => occupiesSlot(a.status) || a.status === "waitlisted")
+          .map((a) => ({
+            id: a.id,
+            date: slot.date,
+            shift: slot.shift,
+            userId: a.userId,
+            userName: a.user ? `${a.user.firstName} ${a.user.lastName}` : "Usuario",
+            status: a.status,
+            waitlistPosition: getWaitlistPosition(slot.attendances || [], a.id),
+            registeredAt: a.registeredAt,
+          }))
+      );
+      
+      res.json(calendarData);
+    } catch (error) {
+      console.error("Error fetching calendar attendances:", error);
+      res.status(500).json({ message: "Failed to fetch calendar attendances" });
+    }
+  });
+
+  app.post("/api/attendance-slots", isAuthenticated, rejectArchivedCommittee(committeeIdBody), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const validatedData = insertAttendanceSlotSchema.parse(req.body);
+      
+      if (!(await hasPermission(req.user, validatedData.committeeId, "slots.manage"))) {
+        return res.status(403).json({ message: "Only admins can create attendance slots" });
+      }
+      
+      const closure = await storage.getClosureForDate(validatedData.committeeId, validatedData.date);
+      if (closure) {
+        return res.status(400).json({ message: `No se pueden crear turnos en un día inhábil: ${closure.name}` });
+      }
+      
+      const committee = await storage.getCommittee(validatedData.committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const shifts = await getCommitteeShifts(committee);
+      if (!shifts.some((s) => s.key === validatedData.shift)) {
+        return res.status(400).json({ message: "Invalid shift for this committee" });
+      }
+      
+      const slot = await storage.createAttendanceSlot(validatedData);
+      res.status(201).json(slot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating slot:", error);
+      res.status(500).json({ message: "Failed to create slot" });
+    }
+  });
+
+  // Shift definitions - the shifts a committee runs (name, hours, capacity and days)
+  app.get("/api/committees/:id/shifts", isAuthenticated, async (req: any, res) => {
+    try {
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const canView = await canViewCommittee(req.user, committee.id);
+      if (!canView && !isSuperAdmin(req)) {
+        return res.status(403).json({ message: "You must be a member of this committee" });
+      }
+      
+      res.json(await getCommitteeShifts(committee));
+    } catch (error) {
+      console.error("Error fetching committee shifts:", error);
+      res.status(500).json({ message: "Failed to fetch committee shifts" });
+    }
+  });
+
+  app.patch("/api/committees/:id/geofence", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const validatedData = updateCommitteeGeofenceSchema.parse(req.body);
+      const committee = await storage.updateCommittee(req.params.id, validatedData);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      res.json(committee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating committee geofence:", error);
+      res.status(500).json({ message: "Failed to update committee geofence" });
+    }
+  });
+
+  app.patch("/api/committees/:id/monthly-quota", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const validatedData = updateCommitteeQuotaSchema.parse(req.body);
+      const committee = await storage.updateCommittee(req.params.id, validatedData);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      res.json(committee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating committee monthly quota:", error);
+      res.status(500).json({ message: "Failed to update committee monthly quota" });
+    }
+  });
+
+  app.get("/api/committees/:id/report-subscription", isAuthenticated, requirePermission("reports.view", committeeIdParam), async (req: any, res) => {
+    try {
+      const subscription = await storage.getReportSubscription(req.params.id, req.user.id);
+      res.json(subscription ?? null);
+    } catch (error) {
+      console.error("Error fetching report subscription:", error);
+      res.status(500).json({ message: "Failed to fetch report subscription" });
+    }
+  });
+
+  app.put("/api/committees/:id/report-subscription", isAuthenticated, requirePermission("reports.view", committeeIdParam), async (req: any, res) => {
+    try {
+      const validatedData = updateReportSubscriptionSchema.parse(req.body);
+      const subscription = await storage.upsertReportSubscription({
+        ...validatedData,
+        committeeId: req.params.id,
+        userId: req.user.id,
+      });
+      res.json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating report subscription:", error);
+      res.status(500).json({ message: "Failed to update report subscription" });
+    }
+  });
+
+  app.delete("/api/committees/:id/report-subscription", isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.deleteReportSubscription(req.params.id, req.user.id);
+      res.json({ message: "Unsubscribed from report digests" });
+    } catch (error) {
+      console.error("Error deleting report subscription:", error);
+      res.status(500).json({ message: "Failed to delete report subscription" });
+    }
+  });
+
+  app.get("/api/committees/:id/statistics", isAuthenticated, requirePermission("reports.view", committeeIdParam), async (req: any, res) => {
+    try {
+      const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: "Start date and end date are required" });
+      }
+      
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      res.json(await buildCommitteeStatistics(committee, startDate, endDate));
+    } catch (error) {
+      console.error("Error fetching attendance statistics:", error);
+      res.status(500).json({ message: "Failed to fetch attendance statistics" });
+    }
+  });
+
+  // Coverage, activities and documents of the committees below this one, e.g. the districts
+  // supervised by the general council
+  app.get("/api/committees/:id/children-summary", isAuthenticated, requirePermission("reports.view", committeeIdParam), async (req: any, res) => {
+    try {
+      const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: "Start date and end date are required" });
+      }
+      
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      res.json(await buildChildrenSummary(committee, startDate, endDate));
+    } catch (error) {
+      console.error("Error fetching child committees summary:", error);
+      res.status(500).json({ message: "Failed to fetch child committees summary" });
+    }
+  });
+
+  app.get("/api/committees/:id/shift-definitions", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const definitions = await storage.getShiftDefinitions(req.params.id);
+      res.json(definitions);
+    } catch (error) {
+      console.error("Error fetching shift definitions:", error);
+      res.status(500).json({ message: "Failed to fetch shift definitions" });
+    }
+  });
+
+  app.post("/api/committees/:id/shift-definitions", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const committeeId = req.params.id;
+      const committee = await storage.getCommittee(committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const validatedData = insertShiftDefinitionSchema.parse({
+        ...req.body,
+        committeeId,
+        key: req.body.key || toShiftKey(req.body.name || ""),
+      });
+      
+      await seedDefaultShiftDefinitions(committee);
+      const existing = await storage.getShiftDefinitions(committeeId);
+      if (existing.some((d) => d.key === validatedData.key)) {
+        return res.status(400).json({ message: "Ya existe un turno con ese nombre en este comité" });
+      }
+      
+      const definition = await storage.createShiftDefinition({
+        ...validatedData,
+        sortOrder: validatedData.sortOrder ?? existing.length,
+      });
+      res.status(201).json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating shift definition:", error);
+      res.status(500).json({ message: "Failed to create shift definition" });
+    }
+  });
+
+  app.patch("/api/shift-definitions/:id", isAuthenticated, requirePermission("committee.configure", committeeOfShiftDefinition), async (req: any, res) => {
+    try {
+      const definition = await storage.getShiftDefinition(req.params.id);
+      if (!definition) {
+        return res.status(404).json({ message: "Shift definition not found" });
+      }
+      
+      // The key is referenced by existing slots, so it cannot be changed
+      const { committeeId, key, ...updateData } = updateShiftDefinitionSchema.parse(req.body);
+      if ((updateData.startTime ?? definition.startTime) >= (updateData.endTime ?? definition.endTime)) {
+        return res.status(400).json({ message: "La hora de inicio debe ser anterior a la de fin" });
+      }
+      
+      const updated = await storage.updateShiftDefinition(definition.id, updateData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating shift definition:", error);
+      res.status(500).json({ message: "Failed to update shift definition" });
+    }
+  });
+
+  app.delete("/api/shift-definitions/:id", isAuthenticated, requirePermission("committee.configure", committeeOfShiftDefinition), async (req: any, res) => {
+    try {
+      const definition = await storage.getShiftDefinition(req.params.id);
+      if (!definition) {
+        return res.status(404).json({ message: "Shift definition not found" });
+      }
+      
+      if (await storage.hasSlotsForShift(definition.committeeId, definition.key)) {
+        return res.status(400).json({ message: "Este turno ya tiene registros; desactívalo en lugar de eliminarlo" });
+      }
+      
+      await storage.deleteShiftDefinition(definition.id);
+      res.json({ message: "Shift definition deleted" });
+    } catch (error) {
+      console.error("Error deleting shift definition:", error);
+      res.status(500).json({ message: "Failed to delete shift definition" });
+    }
+  });
+
+  // Slot templates - recurring rules for bulk slot generation
+  app.get("/api/committees/:id/slot-templates", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const templates = await storage.getSlotTemplates(req.params.id);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching slot templates:", error);
+      res.status(500).json({ message: "Failed to fetch slot templates" });
+    }
+  });
+
+  app.post("/api/committees/:id/slot-templates", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const committeeId = req.params.id;
+      const validatedData = insertSlotTemplateSchema.parse({ ...req.body, committeeId });
+      const template = await storage.createSlotTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating slot template:", error);
+      res.status(500).json({ message: "Failed to create slot template" });
+    }
+  });
+
+  app.patch("/api/slot-templates/:id", isAuthenticated, requirePermission("committee.configure", committeeOfSlotTemplate), async (req: any, res) => {
+    try {
+      const template = await storage.getSlotTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const { committeeId, ...updateData } = insertSlotTemplateSchema.partial().parse(req.body);
+      const updated = await storage.updateSlotTemplate(template.id, updateData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating slot template:", error);
+      res.status(500).json({ message: "Failed to update slot template" });
+    }
+  });
+
+  app.delete("/api/slot-templates/:id", isAuthenticated, requirePermission("committee.configure", committeeOfSlotTemplate), async (req: any, res) => {
+    try {
+      const template = await storage.getSlotTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      await storage.deleteSlotTemplate(template.id);
+      res.json({ message: "Template deleted" });
+    } catch (error) {
+      console.error("Error deleting slot template:", error);
+      res.status(500).json({ message: "Failed to delete slot template" });
+    }
+  });
+
+  // Bulk slot generation: the preview only plans, the generate route creates the missing slots
+  const handleSlotGeneration = (isPreview: boolean) => async (req: any, res: Response) => {
+    try {
+      const committeeId = req.params.id;
+      
+      const committee = await storage.getCommittee(committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const { templateId, month, period, excludedDates } = slotGenerationSchema.parse(req.body);
+      
+      let template;
+      if (templateId) {
+        template = await storage.getSlotTemplate(templateId);
+        if (!template || template.committeeId !== committeeId) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+      }
+      
+      const { startDate, endDate } = getGenerationRange(month, period);
+      const rule = resolveGenerationRule(committee, await getCommitteeShifts(committee), template, excludedDates);
+      const plan = await planSlots(committeeId, startDate, endDate, rule);
+      
+      const summary = {
+        startDate,
+        endDate,
+        toCreate: plan.filter((p) => p.status === "create").length,
+        existing: plan.filter((p) => p.status === "existing").length,
+        excluded: plan.filter((p) => p.status === "excluded").length,
+      };
+      
+      if (isPreview) {
+        return res.json({ ...summary, slots: plan });
+      }
+      
+      const created = await createPlannedSlots(committeeId, plan);
+      res.status(201).json({ ...summary, created: created.length, slots: created });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error generating slots:", error);
+      res.status(500).json({ message: "Failed to generate slots" });
+    }
+  };
+
+  app.post("/api/committees/:id/slot-generation/preview", isAuthenticated, requirePermission("slots.manage", committeeIdParam), handleSlotGeneration(true));
+  app.post("/api/committees/:id/slot-generation", isAuthenticated, requirePermission("slots.manage", committeeIdParam), handleSlotGeneration(false));
+
+  // Closures - holidays and days off, global (super admin) or per committee (committee admins)
+  app.get("/api/closures", isAuthenticated, async (req: any, res) => {
+    try {
+      const { committeeId, startDate, endDate } = req.query as { committeeId?: string; startDate?: string; endDate?: string };
+      
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: "Start and end date are required" });
+      }
+      
+      if (committeeId && !isSuperAdmin(req) && !(await canViewCommittee(req.user, committeeId))) {
+        return res.status(403).json({ message: "You must be a member of this committee" });
+      }
+      
+      const result = await storage.getClosures(committeeId || null, startDate, endDate);
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching closures:", error);
+      res.status(500).json({ message: "Failed to fetch closures" });
+    }
+  });
+
+  app.post("/api/closures", isAuthenticated, rejectArchivedCommittee(committeeIdBody), async (req: any, res) => {
+    try {
+      const validatedData = insertClosureSchema.parse({ ...req.body, createdByUserId: req.user.id });
+      
+      const allowed = validatedData.committeeId
+        ? await hasPermission(req.user, validatedData.committeeId, "committee.configure")
+        : isSuperAdmin(req);
+      if (!allowed) {
+        return res.status(403).json({ message: "Not authorized to manage closures" });
+      }
+      
+      const closure = await storage.createClosure(validatedData);
+      res.status(201).json(closure);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating closure:", error);
+      res.status(500).json({ message: "Failed to create closure" });
+    }
+  });
+
+  app.delete("/api/closures/:id", isAuthenticated, rejectArchivedCommittee(committeeOfClosure), async (req: any, res) => {
+    try {
+      const closure = await storage.getClosure(req.params.id);
+      if (!closure) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+      
+      const allowed = closure.committeeId
+        ? await hasPermission(req.user, closure.committeeId, "committee.configure")
+        : isSuperAdmin(req);
+      if (!allowed) {
+        return res.status(403).json({ message: "Not authorized to manage closures" });
+      }
+      
+      await storage.deleteClosure(closure.id);
+      res.json({ message: "Closure deleted" });
+    } catch (error) {
+      console.error("Error deleting closure:", error);
+      res.status(500).json({ message: "Failed to delete closure" });
+    }
+  });
+
+  // Yearly holiday list import (JSON or CSV); dates already closed in the same scope are skipped
+  app.post("/api/admin/closures/import", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only super admins can import closures" });
+      }
+      
+      const { format: importFormat, content, committeeId } = closureImportSchema.parse(req.body);
+      const { rows, errors } = parseClosureImport(importFormat, content);
+      
+      let imported = 0;
+      let skipped = 0;
+      for (const row of rows) {
+        const existing = await storage.getClosures(committeeId || null, row.date, row.date);
+        if (existing.some((c) => c.committeeId === (committeeId || null))) {
+          skipped++;
+          continue;
+        }
+        
+        await storage.createClosure({
+          ...row,
+          committeeId: committeeId || null,
+          createdByUserId: req.user.id,
+        });
+        imported++;
+      }
+      
+      res.json({ imported, skipped, errors });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error importing closures:", error);
+      res.status(500).json({ message: "Failed to import closures" });
+    }
+  });
+
+  // Dry runs return the row-by-row preview; otherwise the valid rows are applied
+  app.post("/api/admin/members/import", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only super admins can import members" });
+      }
+
+      const { format: importFormat, content, dryRun, sendEmails } = memberImportSchema.parse(req.body);
+      const preview = await previewMemberImport(await readMemberSpreadsheet(importFormat, content));
+      if (dryRun) {
+        return res.json(preview);
+      }
+
+      const result = await applyMemberImport(preview, { sendEmails, appUrl: getAppUrl() });
+      res.json({ ...result, invalid: preview.summary.invalid });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof MemberImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing members:", error);
+      res.status(500).json({ message: "Failed to import members" });
+    }
+  });
+
+  app.get("/api/my-attendances", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const attendances = await storage.getUserAttendances(userId);
+      const attendancesWithDetails = await Promise.all(attendances.map(async (a) => {
+        const committee = a.slot?.committee;
+        const shift = committee && a.slot
+          ? findCommitteeShift(committee, await getCommitteeShifts(committee), a.slot.shift)
+          : undefined;
+        return {
+          ...a,
+          date: a.slot?.date,
+          shift: a.slot?.shift,
+          shiftDetails: shift ?? null,
+          committeeId: a.slot?.committeeId,
+          committeeName: committee?.name,
+          waitlistPosition: a.status === "waitlisted"
+            ? getWaitlistPosition(await storage.getAttendances(a.slotId), a.id)
+            : null,
+        };
+      }));
+      res.json(attendancesWithDetails);
+    } catch (error) {
+      console.error("Error fetching attendances:", error);
+      res.status(500).json({ message: "Failed to fetch attendances" });
+    }
+  });
+
+  app.post("/api/attendances", isAuthenticated, rejectArchivedCommittee(committeeOfSlotBody), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { slotId } = req.body;
+      
+      if (!slotId) {
+        return res.status(400).json({ message: "Slot ID is required" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+      
+      if (slot.isBlocked) {
+        return res.status(400).json({ message: "This slot is blocked" });
+      }
+      
+      const isMember = await isUserMemberOfCommittee(userId, slot.committeeId);
+      if (!isMember) {
+        return res.status(403).json({ message: "You must be a member of this committee" });
+      }
+      
+      const closure = await storage.getClosureForDate(slot.committeeId, slot.date);
+      if (closure) {
+        return res.status(400).json({ message: `El comité no labora este día: ${closure.name}` });
+      }
+      
+      const existingAttendances = await storage.getAttendances(slotId);
+      const occupiedCount = existingAttendances.filter((a) => occupiesSlot(a.status)).length;
+      
+      const userAlreadyRegistered = existingAttendances.some(
+        (a) => a.userId === userId && a.status !== "cancelled"
+      );
+      
+      if (userAlreadyRegistered) {
+        return res.status(400).json({ message: "Already registered for this slot" });
+      }
+      
+      // A full slot puts the member on the waitlist instead of rejecting them
+      const isFull = occupiedCount >= slot.maxCapacity;
+      
+      try {
+        const attendance = await storage.createAttendance({
+          slotId,
+          userId,
+          status: isFull ? "waitlisted" : "scheduled",
+        });
+        
+        const waitlistPosition = isFull
+          ? getWaitlistPosition(await storage.getAttendances(slotId), attendance.id)
+          : null;
+        res.status(201).json({ ...attendance, waitlistPosition });
+      } catch (error: any) {
+        if (error.message === 'ALREADY_REGISTERED') {
+          return res.status(400).json({ message: "Already registered for this slot" });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error creating attendance:", error);
+      res.status(500).json({ message: "Failed to create attendance" });
+    }
+  });
+
+  app.patch("/api/attendances/:id/confirm", isAuthenticated, rejectArchivedCommittee(committeeOfAttendance), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const attendance = await storage.getAttendanceById(req.params.id);
+      
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      if (attendance.userId !== userId) {
+        return res.status(403).json({ message: "You can only confirm your own attendance" });
+      }
+      
+      if (attendance.status !== "scheduled") {
+        return res.status(400).json({ message: "Only scheduled attendances can be confirmed" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(attendance.slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+      
+      const committee = await storage.getCommittee(slot.committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const now = new Date();
+      if (slot.date !== format(now, "yyyy-MM-dd")) {
+        return res.status(400).json({ message: "Solo puedes confirmar asistencia el día programado" });
+      }
+      
+      const shift = findCommitteeShift(committee, await getCommitteeShifts(committee), slot.shift);
+      if (!shift) {
+        return res.status(400).json({ message: "El turno ya no está configurado en el comité" });
+      }
+      
+      if (!isWithinShift(shift, now)) {
+        return res.status(400).json({ 
+          message: `Solo puedes confirmar durante el turno ${shift.name} (${shift.startTime} - ${shift.endTime})` 
+        });
+      }
+      
+      // The client sends the browser's position when the user allows it; an empty body
+      // means geolocation was denied or unavailable
+      const parsedLocation = req.body?.latitude !== undefined ? checkInLocationSchema.safeParse(req.body) : null;
+      if (parsedLocation && !parsedLocation.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsedLocation.error.errors });
+      }
+      const location = parsedLocation?.data;
+      
+      const checkIn = evaluateCheckIn(committee, location);
+      if (committee.geofenceMode === "enforce") {
+        if (checkIn.verification === "no_location") {
+          return res.status(400).json({ 
+            message: "Activa la ubicación de tu dispositivo para confirmar tu asistencia" 
+          });
+        }
+        if (checkIn.verification === "remote") {
+          return res.status(400).json({ 
+            message: `Debes estar en la oficina del comité para confirmar (estás a ${checkIn.distanceMeters} m, el radio permitido es de ${committee.geofenceRadiusMeters} m)` 
+          });
+        }
+      }
+      
+      const status = getCheckInStatus(shift, now, committee.lateGraceMinutes);
+      const updated = await storage.recordCheckIn(req.params.id, status, {
+        checkInLatitude: location?.latitude ?? null,
+        checkInLongitude: location?.longitude ?? null,
+        checkInAccuracy: location?.accuracy ?? null,
+        checkInDistanceMeters: checkIn.distanceMeters,
+        checkInVerification: checkIn.verification,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error confirming attendance:", error);
+      res.status(500).json({ message: "Failed to confirm attendance" });
+    }
+  });
+
+  app.get("/api/committees/:id/kiosk-token", isAuthenticated, requirePermission("committee.configure", committeeIdParam), async (req: any, res) => {
+    try {
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const { token, expiresAt } = createKioskToken(committee.id);
+      res.json({
+        token,
+        expiresAt,
+        refreshSeconds: KIOSK_TOKEN_WINDOW_SECONDS,
+        committeeName: committee.name,
+        logoUrl: committee.logoUrl,
+      });
+    } catch (error) {
+      console.error("Error creating kiosk token:", error);
+      res.status(500).json({ message: "Failed to create kiosk token" });
+    }
+  });
+
+  // Scanning the office QR code counts as being on site, so it marks today's shift as
+  // attended without asking for geolocation
+  app.post("/api/kiosk/check-in", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { token } = req.body;
+      
+      const committeeId = typeof token === "string" ? verifyKioskToken(token) : null;
+      if (!committeeId) {
+        return res.status(400).json({ message: "El código QR expiró. Escanea el código que aparece ahora en la pantalla" });
+      }
+      
+      const committee = await storage.getCommittee(committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      if (committee.archivedAt) {
+        return res.status(403).json({ message: ARCHIVED_COMMITTEE_MESSAGE });
+      }
+      
+      const now = new Date();
+      const today = format(now, "yyyy-MM-dd");
+      const todaysAttendances = (await storage.getUserAttendances(userId)).filter(
+        (a) =>
+          a.slot?.committeeId === committeeId &&
+          a.slot.date === today &&
+          (a.status === "scheduled" || isPresentStatus(a.status))
+      );
+      if (todaysAttendances.length === 0) {
+        return res.status(404).json({ message: `No tienes un turno programado hoy en ${committee.name}` });
+      }
+      
+      const shifts = await getCommitteeShifts(committee);
+      const current = todaysAttendances
+        .map((a) => ({ attendance: a, shift: findCommitteeShift(committee, shifts, a.slot!.shift) }))
+        .find(({ shift }) => shift && isWithinShift(shift, now));
+      
+      if (!current) {
+        const windows = todaysAttendances
+          .map((a) => findCommitteeShift(committee, shifts, a.slot!.shift))
+          .filter((shift) => shift)
+          .map((shift) => `${shift!.name} (${shift!.startTime} - ${shift!.endTime})`)
+          .join(", ");
+        return res.status(400).json({ message: `Solo puedes registrar tu asistencia durante tu turno: ${windows}` });
+      }
+      
+      if (isPresentStatus(current.attendance.status)) {
+        return res.status(400).json({ message: "Ya registraste tu asistencia para este turno" });
+      }
+      
+      const status = getCheckInStatus(current.shift!, now, committee.lateGraceMinutes);
+      const updated = await storage.recordCheckIn(current.attendance.id, status, {
+        checkInLatitude: null,
+        checkInLongitude: null,
+        checkInAccuracy: null,
+        checkInDistanceMeters: null,
+        checkInVerification: "kiosk",
+      });
+      res.json({ ...updated, committeeName: committee.name, shiftName: current.shift!.name });
+    } catch (error) {
+      console.error("Error processing kiosk check-in:", error);
+      res.status(500).json({ message: "Failed to process kiosk check-in" });
+    }
+  });
+
+  app.patch("/api/attendances/:id/excuse", isAuthenticated, requirePermission("attendance.manage", committeeOfAttendance), async (req: any, res) => {
+    try {
+      const attendance = await storage.getAttendanceById(req.params.id);
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(attendance.slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+      
+      if (attendance.status !== "no_show") {
+        return res.status(400).json({ message: "Solo se pueden justificar inasistencias" });
+      }
+      
+      const { note } = excuseAttendanceSchema.parse(req.body);
+      const updated = await storage.excuseAttendance(attendance.id, note, req.user.id, {
+        committeeId: slot.committeeId,
+        memberUserId: attendance.userId,
+        actorUserId: req.user.id,
+        action: "updated",
+        previousStatus: attendance.status,
+        newStatus: "excused",
+        justification: note,
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "La asistencia cambió de estado, vuelve a intentarlo" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error excusing attendance:", error);
+      res.status(500).json({ message: "Failed to excuse attendance" });
+    }
+  });
+
+  // Manual attendance management: admins register or correct a member's attendance when the
+  // member couldn't check in themselves. Capacity is not enforced; every change is audited.
+  app.post("/api/committees/:id/attendances/manual", isAuthenticated, requirePermission("attendance.manage", committeeIdParam), async (req: any, res) => {
+    try {
+      const committeeId = req.params.id;
+      const committee = await storage.getCommittee(committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const data = manualAttendanceSchema.parse(req.body);
+      
+      if (!(await hasCommitteeMembership(data.userId, committeeId))) {
+        return res.status(400).json({ message: "El usuario no es miembro de este comité" });
+      }
+      
+      const shift = findCommitteeShift(committee, await getCommitteeShifts(committee), data.shift);
+      if (!shift) {
+        return res.status(400).json({ message: "Invalid shift for this committee" });
+      }
+      
+      const closure = await storage.getClosureForDate(committeeId, data.date);
+      if (closure) {
+        return res.status(400).json({ message: `El comité no labora este día: ${closure.name}` });
+      }
+      
+      let slot = await storage.getSlotByDateAndShift(committeeId, data.date, data.shift);
+      if (!slot) {
+        slot = await storage.createAttendanceSlot({
+          committeeId,
+          date: data.date,
+          shift: data.shift,
+          maxCapacity: shift.maxCapacity,
+          isBlocked: false,
+        });
+      }
+      
+      const existing = await storage.getAttendances(slot.id);
+      if (existing.some((a) => a.userId === data.userId && a.status !== "cancelled")) {
+        return res.status(400).json({ message: "El miembro ya tiene un registro en este turno. Edítalo desde el reporte" });
+      }
+      
+      const attendance = await storage.createManualAttendance(
+        { slotId: slot.id, userId: data.userId, status: data.status },
+        getManualStatusChanges(null, data.status, req.user.id, data.justification),
+        {
+          committeeId,
+          memberUserId: data.userId,
+          actorUserId: req.user.id,
+          action: "created",
+          previousStatus: null,
+          newStatus: data.status,
+          justification: data.justification,
+        }
+      );
+      
+      res.status(201).json(attendance);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error.message === 'ALREADY_REGISTERED') {
+        return res.status(400).json({ message: "El miembro ya tiene un registro en este turno. Edítalo desde el reporte" });
+      }
+      console.error("Error creating manual attendance:", error);
+      res.status(500).json({ message: "Failed to create attendance" });
+    }
+  });
+
+  app.patch("/api/attendances/:id/manual", isAuthenticated, requirePermission("attendance.manage", committeeOfAttendance), async (req: any, res) => {
+    try {
+      const attendance = await storage.getAttendanceById(req.params.id);
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(attendance.slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+      
+      if (attendance.status === "cancelled" || attendance.status === "waitlisted") {
+        return res.status(400).json({ message: "Solo se pueden editar asistencias registradas" });
+      }
+      
+      const { status, justification } = updateManualAttendanceSchema.parse(req.body);
+      const updated = await storage.updateManualAttendance(
+        attendance.id,
+        getManualStatusChanges(attendance, status, req.user.id, justification),
+        {
+          committeeId: slot.committeeId,
+          memberUserId: attendance.userId,
+          actorUserId: req.user.id,
+          action: "updated",
+          previousStatus: attendance.status,
+          newStatus: status,
+          justification,
+        }
+      );
+      
+      if (status !== "scheduled") {
+        await storage.cancelActiveShiftSwaps(attendance.id, req.user.id);
+      }
+      if (occupiesSlot(attendance.status) && !occupiesSlot(status)) {
+        const promoted = await storage.promoteNextWaitlisted(attendance.slotId);
+        if (promoted) {
+          sendWaitlistPromotionNotification(promoted.userId, slot);
+        }
+      }
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating manual attendance:", error);
+      res.status(500).json({ message: "Failed to update attendance" });
+    }
+  });
+
+  app.delete("/api/attendances/:id/manual", isAuthenticated, requirePermission("attendance.manage", committeeOfAttendance), async (req: any, res) => {
+    try {
+      const attendance = await storage.getAttendanceById(req.params.id);
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(attendance.slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+      
+      if (attendance.status === "cancelled") {
+        return res.status(400).json({ message: "La asistencia ya fue eliminada" });
+      }
+      
+      const { justification } = removeManualAttendanceSchema.parse(req.body);
+      await storage.removeManualAttendance(attendance.id, {
+        committeeId: slot.committeeId,
+        memberUserId: attendance.userId,
+        actorUserId: req.user.id,
+        action: "removed",
+        previousStatus: attendance.status,
+        newStatus: "cancelled",
+        justification,
+      });
+      setAuditContext(req, { before: attendance, after: { justification } });
+      await storage.cancelActiveShiftSwaps(attendance.id, req.user.id);
+      
+      if (occupiesSlot(attendance.status)) {
+        const promoted = await storage.promoteNextWaitlisted(attendance.slotId);
+        if (promoted) {
+          sendWaitlistPromotionNotification(promoted.userId, slot);
+        }
+      }
+      
+      res.json({ message: "Attendance removed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error removing manual attendance:", error);
+      res.status(500).json({ message: "Failed to remove attendance" });
+    }
+  });
+
+  app.get("/api/attendances/:id/audit-log", isAuthenticated, requirePermission("attendance.manage", committeeOfAttendance), async (req: any, res) => {
+    try {
+      const attendance = await storage.getAttendanceById(req.params.id);
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      res.json(await storage.getAttendanceAuditLogs(attendance.id));
+    } catch (error) {
+      console.error("Error fetching attendance audit log:", error);
+      res.status(500).json({ message: "Failed to fetch attendance history" });
+    }
+  });
+
+  app.delete("/api/attendances/:id", isAuthenticated, rejectArchivedCommittee(committeeOfAttendance), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const attendance = await storage.getAttendanceById(req.params.id);
+      
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      if (attendance.userId !== userId) {
+        return res.status(403).json({ message: "You can only cancel your own attendance" });
+      }
+      
+      const success = await storage.deleteAttendance(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      const cancelledSlot = await storage.getAttendanceSlot(attendance.slotId);
+      setAuditContext(req, { committeeId: cancelledSlot?.committeeId ?? null, before: attendance });
+      
+      const cancelledSwaps = await storage.cancelActiveShiftSwaps(attendance.id, userId);
+      for (const swap of cancelledSwaps) {
+        if (swap.acceptedByUserId) {
+          sendShiftSwapNotification(swap.acceptedByUserId, "Intercambio cancelado", "El turno que aceptaste ya no está disponible", swap.id);
+        }
+      }
+      
+      // A freed spot goes to the first person on the waitlist
+      if (occupiesSlot(attendance.status)) {
+        const promoted = await storage.promoteNextWaitlisted(attendance.slotId);
+        const slot = promoted ? await storage.getAttendanceSlot(attendance.slotId) : undefined;
+        if (promoted && slot) {
+          sendWaitlistPromotionNotification(promoted.userId, slot);
+        }
+      }
+      
+      res.json({ message: "Attendance cancelled" });
+    } catch (error) {
+      console.error("Error deleting attendance:", error);
+      res.status(500).json({ message: "Failed to delete attendance" });
+    }
+  });
+
+  // Shift swaps: a member offers a confirmed attendance and a colleague takes it over
+  app.post("/api/attendances/:id/swap", isAuthenticated, rejectArchivedCommittee(committeeOfAttendance), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const attendance = await storage.getAttendanceById(req.params.id);
+      
+      if (!attendance) {
+        return res.status(404).json({ message: "Attendance not found" });
+      }
+      
+      if (attendance.userId !== userId) {
+        return res.status(403).json({ message: "You can only offer your own attendance" });
+      }
+      
+      if (attendance.status !== "scheduled") {
+        return res.status(400).json({ message: "Solo puedes intercambiar turnos programados" });
+      }
+      
+      const slot = await storage.getAttendanceSlot(attendance.slotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
-        return res.status(403).json({ message: "You must be a member of this committee" });
+      const today = format(new Date(), "yyyy-MM-dd");
+      if (slot.date < today) {
+        return res.status(400).json({ message: "No puedes intercambiar un turno pasado" });
       }
       
-      const slots = await storage.getAttendanceSlots(committeeId, startDate, endDate);
+      const existing = await storage.getActiveShiftSwapForAttendance(attendance.id);
+      if (existing) {
+        return res.status(400).json({ message: "Este turno ya está ofrecido para intercambio" });
+      }
       
-      const calendarData = slots.flatMap((slot) => 
-        (slot.attendances || [])
-          .filter((a) => a.status === "confirmed")
-          .map((a) => ({
-            id: a.id,
-            date: slot.date,
-            shift: slot.shift,
-            userId: a.userId,
-            userName: a.user ? `${a.user.firstName} ${a.user.lastName}` : "Usuario",
-            registeredAt: a.registeredAt,
-          }))
-      );
+      const committee = await storage.getCommittee(slot.committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
       
-      res.json(calendarData);
+      const swap = await storage.createShiftSwap({
+        attendanceId: attendance.id,
+        committeeId: slot.committeeId,
+        offeredByUserId: userId,
+        requiresApproval: committee.swapsRequireApproval,
+        note: typeof req.body?.note === "string" && req.body.note.trim() ? req.body.note.trim() : null,
+      });
+      await storage.createShiftSwapEvent({ swapId: swap.id, actorUserId: userId, action: "offered", note: swap.note });
+      
+      res.status(201).json(swap);
     } catch (error) {
-      console.error("Error fetching calendar attendances:", error);
-      res.status(500).json({ message: "Failed to fetch calendar attendances" });
+      console.error("Error offering shift swap:", error);
+      res.status(500).json({ message: "Failed to offer shift swap" });
     }
   });
 
-  app.post("/api/attendance-slots", isAuthenticated, async (req: any, res) => {
+  app.get("/api/shift-swaps/available", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const validatedData = insertAttendanceSlotSchema.parse(req.body);
-      
-      const isAdmin = await isUserAdminOfCommittee(userId, validatedData.committeeId);
-      if (!isAdmin) {
-        return res.status(403).json({ message: "Only admins can create attendance slots" });
-      }
+      const memberships = await storage.getUserMemberships(userId);
+      const today = format(new Date(), "yyyy-MM-dd");
       
-      const slot = await storage.createAttendanceSlot(validatedData);
-      res.status(201).json(slot);
+      const swaps = await storage.getShiftSwaps({
+        committeeIds: memberships.map(m => m.committeeId),
+        statuses: ["open"],
+      });
+      res.json(swaps.filter(s => s.offeredByUserId !== userId && s.slot && s.slot.date >= today));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      console.error("Error creating slot:", error);
-      res.status(500).json({ message: "Failed to create slot" });
+      console.error("Error fetching available shift swaps:", error);
+      res.status(500).json({ message: "Failed to fetch shift swaps" });
     }
   });
 
-  app.get("/api/my-attendances", isAuthenticated, async (req: any, res) => {
+  app.get("/api/my-shift-swaps", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const attendances = await storage.getUserAttendances(userId);
-      const attendancesWithDetails = attendances.map((a) => ({
-        ...a,
-        date: a.slot?.date,
-        shift: a.slot?.shift,
-        committeeId: a.slot?.committeeId,
-        committeeName: a.slot?.committee?.name,
-      }));
-      res.json(attendancesWithDetails);
+      const swaps = await storage.getShiftSwaps({ userId: req.user.id });
+      res.json(swaps);
     } catch (error) {
-      console.error("Error fetching attendances:", error);
-      res.status(500).json({ message: "Failed to fetch attendances" });
+      console.error("Error fetching shift swaps:", error);
+      res.status(500).json({ message: "Failed to fetch shift swaps" });
+    }
+  });
+
+  app.get("/api/shift-swaps/pending-approval", isAuthenticated, async (req: any, res) => {
+    try {
+      let committeeIds: string[] | undefined;
+      if (!isSuperAdmin(req)) {
+        committeeIds = await getCommitteeIdsWithPermission(req.user, "swaps.approve");
+      }
+      
+      const swaps = await storage.getShiftSwaps({ committeeIds, statuses: ["pending_approval"] });
+      res.json(swaps);
+    } catch (error) {
+      console.error("Error fetching pending shift swaps:", error);
+      res.status(500).json({ message: "Failed to fetch shift swaps" });
     }
   });
 
-  app.post("/api/attendances", isAuthenticated, async (req: any, res) => {
+  app.post("/api/shift-swaps/:id/accept", isAuthenticated, rejectArchivedCommittee(committeeOfShiftSwap), async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { slotId } = req.body;
+      const swap = await storage.getShiftSwap(req.params.id);
       
-      if (!slotId) {
-        return res.status(400).json({ message: "Slot ID is required" });
+      if (!swap) {
+        return res.status(404).json({ message: "Shift swap not found" });
       }
       
-      const slot = await storage.getAttendanceSlot(slotId);
-      if (!slot) {
-        return res.status(404).json({ message: "Slot not found" });
+      if (swap.offeredByUserId === userId) {
+        return res.status(400).json({ message: "No puedes aceptar tu propio intercambio" });
       }
       
-      if (slot.isBlocked) {
-        return res.status(400).json({ message: "This slot is blocked" });
+      if (swap.status !== "open") {
+        return res.status(400).json({ message: "Este intercambio ya no está disponible" });
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, slot.committeeId);
+      const isMember = await isUserMemberOfCommittee(userId, swap.committeeId);
       if (!isMember) {
         return res.status(403).json({ message: "You must be a member of this committee" });
       }
       
-      const existingAttendances = await storage.getAttendances(slotId);
-      const confirmedCount = existingAttendances.filter((a) => a.status === "confirmed").length;
+      const attendance = await storage.getAttendanceById(swap.attendanceId);
+      const slotAttendances = attendance ? await storage.getAttendances(attendance.slotId) : [];
+      if (slotAttendances.some(a => a.userId === userId && occupiesSlot(a.status))) {
+        return res.status(400).json({ message: "Ya estás registrado en este turno" });
+      }
       
-      const userAlreadyConfirmed = existingAttendances.some(
-        (a) => a.userId === userId && a.status === "confirmed"
-      );
+      try {
+        let result;
+        if (swap.requiresApproval) {
+          result = await storage.claimShiftSwap(swap.id, userId);
+          if (!result) {
+            return res.status(400).json({ message: "Este intercambio ya no está disponible" });
+          }
+          await storage.createShiftSwapEvent({ swapId: swap.id, actorUserId: userId, action: "accepted" });
+          sendShiftSwapNotification(swap.offeredByUserId, "Intercambio aceptado", "Un compañero aceptó tu turno; falta la aprobación del administrador", swap.id);
+        } else {
+          result = await storage.completeShiftSwap(swap.id, userId, userId);
+          sendShiftSwapNotification(swap.offeredByUserId, "Intercambio completado", "Un compañero tomó tu turno; ya no estás registrado en él", swap.id);
+          sendShiftSwapNotification(userId, "Intercambio completado", "El turno ahora aparece en tus asistencias", swap.id);
+        }
+        res.json(result);
+      } catch (error: any) {
+        if (error.message === 'SWAP_UNAVAILABLE') {
+          return res.status(400).json({ message: "Este intercambio ya no está disponible" });
+        }
+        if (error.message === 'ALREADY_REGISTERED') {
+          return res.status(400).json({ message: "Ya estás registrado en este turno" });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error accepting shift swap:", error);
+      res.status(500).json({ message: "Failed to accept shift swap" });
+    }
+  });
+
+  app.post("/api/shift-swaps/:id/approve", isAuthenticated, requirePermission("swaps.approve", committeeOfShiftSwap), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const swap = await storage.getShiftSwap(req.params.id);
       
-      if (userAlreadyConfirmed) {
-        return res.status(400).json({ message: "Already registered for this slot" });
+      if (!swap) {
+        return res.status(404).json({ message: "Shift swap not found" });
       }
       
-      if (confirmedCount >= slot.maxCapacity) {
-        return res.status(400).json({ message: "No spots available" });
+      if (swap.status !== "pending_approval" || !swap.acceptedByUserId) {
+        return res.status(400).json({ message: "Este intercambio no está pendiente de aprobación" });
       }
       
+      const reviewNote = typeof req.body?.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+      
       try {
-        const attendance = await storage.createAttendance({
-          slotId,
-          userId,
-          status: "confirmed",
-        });
+        const updated = await storage.completeShiftSwap(swap.id, swap.acceptedByUserId, userId, reviewNote);
         
-        res.status(201).json(attendance);
+        sendShiftSwapNotification(swap.offeredByUserId, "Intercambio aprobado", "Tu turno fue transferido a tu compañero", swap.id);
+        sendShiftSwapNotification(swap.acceptedByUserId, "Intercambio aprobado", "El turno ahora aparece en tus asistencias", swap.id);
+        res.json(updated);
       } catch (error: any) {
-        if (error.message === 'ALREADY_REGISTERED') {
-          return res.status(400).json({ message: "Already registered for this slot" });
+        if (error.message === 'SWAP_UNAVAILABLE' || error.message === 'ALREADY_REGISTERED') {
+          // Another admin may have approved or rejected it in the meantime; only a swap
+          // still waiting for approval is cancelled
+          const cancelled = await storage.cancelPendingShiftSwap(swap.id);
+          if (!cancelled) {
+            return res.status(400).json({ message: "Este intercambio ya no está pendiente de aprobación" });
+          }
+          await storage.createShiftSwapEvent({ swapId: swap.id, actorUserId: userId, action: "cancelled", note: "El turno ya no puede transferirse" });
+          return res.status(400).json({ message: "El turno ya no puede transferirse; el intercambio fue cancelado" });
         }
         throw error;
       }
     } catch (error) {
-      console.error("Error creating attendance:", error);
-      res.status(500).json({ message: "Failed to create attendance" });
+      console.error("Error approving shift swap:", error);
+      res.status(500).json({ message: "Failed to approve shift swap" });
     }
   });
 
-  app.patch("/api/attendances/:id/confirm", isAuthenticated, async (req: any, res) => {
+  app.post("/api/shift-swaps/:id/reject", isAuthenticated, requirePermission("swaps.approve", committeeOfShiftSwap), async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const attendance = await storage.getAttendanceById(req.params.id);
+      const swap = await storage.getShiftSwap(req.params.id);
       
-      if (!attendance) {
-        return res.status(404).json({ message: "Attendance not found" });
+      if (!swap) {
+        return res.status(404).json({ message: "Shift swap not found" });
       }
       
-      if (attendance.userId !== userId) {
-        return res.status(403).json({ message: "You can only confirm your own attendance" });
+      if (swap.status !== "pending_approval") {
+        return res.status(400).json({ message: "Este intercambio no está pendiente de aprobación" });
       }
       
-      if (attendance.status !== "confirmed") {
-        return res.status(400).json({ message: "Only scheduled attendances can be confirmed" });
+      const reviewNote = typeof req.body?.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+      const updated = await storage.rejectShiftSwap(swap.id, userId, reviewNote);
+      if (!updated) {
+        return res.status(400).json({ message: "Este intercambio no está pendiente de aprobación" });
       }
+      await storage.createShiftSwapEvent({ swapId: swap.id, actorUserId: userId, action: "rejected", note: reviewNote });
       
-      const slot = await storage.getAttendanceSlot(attendance.slotId);
-      if (!slot) {
-        return res.status(404).json({ message: "Slot not found" });
+      const body = reviewNote ? `El administrador rechazó el intercambio: ${reviewNote}` : "El administrador rechazó el intercambio";
+      sendShiftSwapNotification(swap.offeredByUserId, "Intercambio rechazado", body, swap.id);
+      if (swap.acceptedByUserId) {
+        sendShiftSwapNotification(swap.acceptedByUserId, "Intercambio rechazado", body, swap.id);
       }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rejecting shift swap:", error);
+      res.status(500).json({ message: "Failed to reject shift swap" });
+    }
+  });
+
+  app.delete("/api/shift-swaps/:id", isAuthenticated, rejectArchivedCommittee(committeeOfShiftSwap), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const swap = await storage.getShiftSwap(req.params.id);
       
-      const committee = await storage.getCommittee(slot.committeeId);
-      if (!committee) {
-        return res.status(404).json({ message: "Committee not found" });
+      if (!swap) {
+        return res.status(404).json({ message: "Shift swap not found" });
       }
       
-      const today = new Date().toISOString().split("T")[0];
-      if (slot.date !== today) {
-        return res.status(400).json({ message: "Solo puedes confirmar asistencia el día programado" });
+      if (swap.offeredByUserId !== userId) {
+        return res.status(403).json({ message: "You can only withdraw your own offers" });
       }
       
-      const now = new Date();
-      const currentHours = now.getHours();
-      const currentMinutes = now.getMinutes();
-      const currentTime = currentHours * 60 + currentMinutes;
-      
-      let startTime: number, endTime: number;
-      if (slot.shift === "morning") {
-        const [startH, startM] = (committee.morningStart || "09:00").split(":").map(Number);
-        const [endH, endM] = (committee.morningEnd || "13:00").split(":").map(Number);
-        startTime = startH * 60 + startM;
-        endTime = endH * 60 + endM;
-      } else {
-        const [startH, startM] = (committee.afternoonStart || "14:00").split(":").map(Number);
-        const [endH, endM] = (committee.afternoonEnd || "18:00").split(":").map(Number);
-        startTime = startH * 60 + startM;
-        endTime = endH * 60 + endM;
-      }
-      
-      if (currentTime < startTime || currentTime > endTime) {
-        const shiftName = slot.shift === "morning" ? "mañana" : "tarde";
-        const start = slot.shift === "morning" ? committee.morningStart : committee.afternoonStart;
-        const end = slot.shift === "morning" ? committee.morningEnd : committee.afternoonEnd;
-        return res.status(400).json({ 
-          message: `Solo puedes confirmar durante el turno de ${shiftName} (${start} - ${end})` 
-        });
+      if (swap.status !== "open" && swap.status !== "pending_approval") {
+        return res.status(400).json({ message: "Este intercambio ya fue resuelto" });
       }
       
-      const updated = await storage.updateAttendanceStatus(req.params.id, "attended");
-      res.json(updated);
+      await storage.updateShiftSwap(swap.id, { status: "cancelled", resolvedAt: new Date() });
+      await storage.createShiftSwapEvent({ swapId: swap.id, actorUserId: userId, action: "cancelled" });
+      
+      if (swap.acceptedByUserId) {
+        sendShiftSwapNotification(swap.acceptedByUserId, "Intercambio cancelado", "Tu compañero retiró la oferta del turno", swap.id);
+      }
+      res.json({ message: "Shift swap cancelled" });
     } catch (error) {
-      console.error("Error confirming attendance:", error);
-      res.status(500).json({ message: "Failed to confirm attendance" });
+      console.error("Error cancelling shift swap:", error);
+      res.status(500).json({ message: "Failed to cancel shift swap" });
     }
   });
 
-  app.delete("/api/attendances/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/shift-swaps/:id/events", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const attendance = await storage.getAttendanceById(req.params.id);
+      const swap = await storage.getShiftSwap(req.params.id);
       
-      if (!attendance) {
-        return res.status(404).json({ message: "Attendance not found" });
+      if (!swap) {
+        return res.status(404).json({ message: "Shift swap not found" });
       }
       
-      if (attendance.userId !== userId) {
-        return res.status(403).json({ message: "You can only cancel your own attendance" });
+      const isParty = swap.offeredByUserId === userId || swap.acceptedByUserId === userId;
+      if (!isParty && !(await hasPermission(req.user, swap.committeeId, "swaps.approve"))) {
+        return res.status(403).json({ message: "Not authorized to view this swap" });
       }
       
-      const success = await storage.deleteAttendance(req.params.id);
-      if (!success) {
-        return res.status(404).json({ message: "Attendance not found" });
-      }
-      res.json({ message: "Attendance cancelled" });
+      const events = await storage.getShiftSwapEvents(swap.id);
+      res.json(events);
     } catch (error) {
-      console.error("Error deleting attendance:", error);
-      res.status(500).json({ message: "Failed to delete attendance" });
+      console.error("Error fetching shift swap events:", error);
+      res.status(500).json({ message: "Failed to fetch shift swap events" });
     }
   });
 
   app.get("/api/attendance-report", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { committeeId, startDate, endDate } = req.query as { committeeId?: string; startDate?: string; endDate?: string };
+      const reportFormat = (req.query.format as string | undefined) ?? "json";
       
       if (!committeeId || !startDate || !endDate) {
         return res.status(400).json({ message: "Committee ID, start date, and end date are required" });
       }
       
-      const userObj = await storage.getUserByEmail(req.user.email);
-      const isSuperAdmin = userObj?.isSuperAdmin === true;
-      const isAdmin = await isUserAdminOfCommittee(userId, committeeId);
+      if (!isReportFormat(reportFormat)) {
+        return res.status(400).json({ message: "Invalid report format" });
+      }
       
-      if (!isSuperAdmin && !isAdmin) {
+      if (!(await hasPermission(req.user, committeeId, "reports.view"))) {
         return res.status(403).json({ message: "Only admins can view attendance reports" });
       }
       
-      const slots = await storage.getAttendanceSlots(committeeId, startDate, endDate);
+      const committee = await storage.getCommittee(committeeId);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
       
-      const report = slots.flatMap((slot) => 
-        (slot.attendances || [])
-          .filter((a) => a.status === "confirmed")
-          .map((a) => ({
-            id: a.id,
-            date: slot.date,
-            shift: slot.shift,
-            userId: a.userId,
-            userName: a.user ? `${a.user.firstName} ${a.user.lastName}` : "Usuario desconocido",
-            userEmail: a.user?.email || "",
-            registeredAt: a.registeredAt,
-          }))
-      );
+      const report = await buildAttendanceReport(committee, startDate, endDate);
       
-      report.sort((a, b) => {
-        const dateCompare = a.date.localeCompare(b.date);
-        if (dateCompare !== 0) return dateCompare;
-        return a.shift === "morning" ? -1 : 1;
-      });
+      if (reportFormat === "json") {
+        return res.json(report.rows);
+      }
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${getReportFilename(report, reportFormat)}"`);
+      
+      if (reportFormat === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        return res.send(renderReportCsv(report));
+      }
+      
+      const logo = await loadCommitteeLogo(committee.logoUrl);
+      if (reportFormat === "xlsx") {
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        return res.send(await renderReportXlsx(report, logo));
+      }
       
-      res.json(report);
+      res.setHeader("Content-Type", "application/pdf");
+      writeReportPdf(report, logo, res);
     } catch (error) {
       console.error("Error fetching attendance report:", error);
       res.status(500).json({ message: "Failed to fetch attendance report" });
     }
   });
 
-  app.post("/api/mark-attendance", isAuthenticated, async (req: any, res) => {
+  app.post("/api/mark-attendance", isAuthenticated, rejectArchivedCommittee(committeeIdBody), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { committeeId, date, shift } = req.body;
@@ -785,10 +2239,6 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Committee, date, and shift are required" });
       }
       
-      if (!["morning", "afternoon"].includes(shift)) {
-        return res.status(400).json({ message: "Invalid shift. Must be 'morning' or 'afternoon'" });
-      }
-      
       const isMember = await isUserMemberOfCommittee(userId, committeeId);
       if (!isMember) {
         return res.status(403).json({ message: "You must be a member of this committee" });
@@ -799,6 +2249,16 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Committee not found" });
       }
       
+      const shiftDefinition = (await getCommitteeShifts(committee)).find((s) => s.key === shift);
+      if (!shiftDefinition) {
+        return res.status(400).json({ message: "Invalid shift for this committee" });
+      }
+      
+      const closure = await storage.getClosureForDate(committeeId, date);
+      if (closure) {
+        return res.status(400).json({ message: `El comité no labora este día: ${closure.name}` });
+      }
+      
       let slot = await storage.getSlotByDateAndShift(committeeId, date, shift);
       
       if (!slot) {
@@ -806,7 +2266,7 @@ export async function registerRoutes(
           committeeId,
           date,
           shift,
-          maxCapacity: committee.maxPerShift,
+          maxCapacity: shiftDefinition.maxCapacity,
           isBlocked: false,
         });
       }
@@ -816,22 +2276,28 @@ export async function registerRoutes(
       }
       
       const existingAttendances = await storage.getAttendances(slot.id);
-      const userAlreadyConfirmed = existingAttendances.some(
-        (a) => a.userId === userId && a.status === "confirmed"
+      const userAlreadyRegistered = existingAttendances.some(
+        (a) => a.userId === userId && a.status !== "cancelled"
       );
       
-      if (userAlreadyConfirmed) {
+      if (userAlreadyRegistered) {
         return res.status(400).json({ message: "Ya tienes asistencia registrada para este turno" });
       }
       
+      const occupiedCount = existingAttendances.filter((a) => occupiesSlot(a.status)).length;
+      const isFull = occupiedCount >= slot.maxCapacity;
+      
       try {
         const attendance = await storage.createAttendance({
           slotId: slot.id,
           userId,
-          status: "confirmed",
+          status: isFull ? "waitlisted" : "scheduled",
         });
         
-        res.status(201).json(attendance);
+        const waitlistPosition = isFull
+          ? getWaitlistPosition(await storage.getAttendances(slot.id), attendance.id)
+          : null;
+        res.status(201).json({ ...attendance, waitlistPosition });
       } catch (error: any) {
         if (error.message === 'ALREADY_REGISTERED') {
           return res.status(400).json({ message: "Ya tienes asistencia registrada para este turno" });
@@ -878,8 +2344,8 @@ export async function registerRoutes(
       const { committeeId } = req.params;
       const { memberId, startDate, endDate } = req.query;
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "Not authorized to view this committee's activities" });
       }
       
@@ -898,7 +2364,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/activities", isAuthenticated, async (req: any, res) => {
+  app.post("/api/activities", isAuthenticated, rejectArchivedCommittee(committeeIdBody), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { assignedUserIds, assignToAll, ...activityData } = req.body;
@@ -930,7 +2396,7 @@ export async function registerRoutes(
         } else {
           // Assign to all committee members
           const members = await storage.getCommitteeMembers(data.committeeId);
-          usersToAssign = members.map(m => m.userId);
+          usersToAssign = members.filter(m => m.isActive).map(m => m.userId);
         }
       } else if (assignedUserIds && Array.isArray(assignedUserIds) && assignedUserIds.length > 0) {
         // Validate that assignedUserIds are actual members of the committee/team
@@ -940,7 +2406,7 @@ export async function registerRoutes(
           usersToAssign = assignedUserIds.filter((id: string) => validMemberIds.has(id));
         } else {
           const members = await storage.getCommitteeMembers(data.committeeId);
-          const validMemberIds = new Set(members.map(m => m.userId));
+          const validMemberIds = new Set(members.filter(m => m.isActive).map(m => m.userId));
           usersToAssign = assignedUserIds.filter((id: string) => validMemberIds.has(id));
         }
       }
@@ -966,7 +2432,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/activities/:id", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/activities/:id", isAuthenticated, rejectArchivedCommittee(committeeOfActivity), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { id } = req.params;
@@ -987,6 +2453,7 @@ export async function registerRoutes(
       }
       
       const activity = await storage.updateMemberActivity(id, req.body);
+      setAuditContext(req, { committeeId: existingActivity.committeeId, before: existingActivity, after: activity });
       res.json(activity);
     } catch (error) {
       console.error("Error updating activity:", error);
@@ -994,7 +2461,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/activities/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/activities/:id", isAuthenticated, rejectArchivedCommittee(committeeOfActivity), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { id } = req.params;
@@ -1015,6 +2482,7 @@ export async function registerRoutes(
       }
       
       await storage.deleteMemberActivity(id);
+      setAuditContext(req, { committeeId: existingActivity.committeeId, before: existingActivity });
       res.json({ message: "Activity deleted successfully" });
     } catch (error) {
       console.error("Error deleting activity:", error);
@@ -1029,8 +2497,8 @@ export async function registerRoutes(
       const { committeeId } = req.params;
       const { startDate, endDate } = req.query;
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "Not authorized to view this committee's activities" });
       }
       
@@ -1061,15 +2529,14 @@ export async function registerRoutes(
   // Activity Attendance Routes
   app.get("/api/activities/:activityId/attendances", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { activityId } = req.params;
       const activity = await storage.getMemberActivity(activityId);
       if (!activity) {
         return res.status(404).json({ message: "Activity not found" });
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, activity.committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, activity.committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "You must be a member of this committee" });
       }
       
@@ -1084,7 +2551,6 @@ export async function registerRoutes(
   // Get activity assignments
   app.get("/api/activities/:activityId/assignments", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { activityId } = req.params;
       
       const activity = await storage.getMemberActivity(activityId);
@@ -1092,8 +2558,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Activity not found" });
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, activity.committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, activity.committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "You must be a member of this committee" });
       }
       
@@ -1105,7 +2571,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/activities/:activityId/attendances", isAuthenticated, async (req: any, res) => {
+  app.post("/api/activities/:activityId/attendances", isAuthenticated, rejectArchivedCommittee(committeeOfActivity), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { activityId } = req.params;
@@ -1138,7 +2604,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/activity-attendances/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/activity-attendances/:id", isAuthenticated, rejectArchivedCommittee(committeeOfActivityAttendance), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { id } = req.params;
@@ -1161,7 +2627,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/activity-attendances/:id/confirm", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/activity-attendances/:id/confirm", isAuthenticated, rejectArchivedCommittee(committeeOfActivityAttendance), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { id } = req.params;
@@ -1187,11 +2653,10 @@ export async function registerRoutes(
   // Counselor Teams Routes
   app.get("/api/committees/:committeeId/teams", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { committeeId } = req.params;
       
-      const isMember = await isUserMemberOfCommittee(userId, committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "You must be a member of this committee" });
       }
       
@@ -1205,7 +2670,6 @@ export async function registerRoutes(
 
   app.get("/api/teams/:teamId", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { teamId } = req.params;
       
       const team = await storage.getCounselorTeam(teamId);
@@ -1213,8 +2677,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Team not found" });
       }
       
-      const isMember = await isUserMemberOfCommittee(userId, team.committeeId);
-      if (!isMember) {
+      const canView = await canViewCommittee(req.user, team.committeeId);
+      if (!canView) {
         return res.status(403).json({ message: "You must be a member of this committee" });
       }
       
@@ -1244,7 +2708,7 @@ export async function registerRoutes(
       const memberships = await storage.getUserMemberships(userId);
       
       // Check if user is in a General Council committee
-      const generalCouncilMembership = memberships.find(m => m.committee?.isGeneral);
+      const generalCouncilMembership = memberships.find(m => m.committee?.isGeneral && !m.committee.archivedAt);
       
       if (!generalCouncilMembership) {
         // Not in a General Council - no restriction needed
@@ -1257,7 +2721,7 @@ export async function registerRoutes(
       }
       
       // Check if user is a team owner (counselor) or a team member (auxiliary)
-      const ownedTeam = teams.find(t => t.ownerUserId === userId && t.committee?.isGeneral);
+      const ownedTeam = teams.find(t => t.ownerUserId === userId && t.committee?.isGeneral && !t.committee.archivedAt);
       
       if (ownedTeam) {
         // User is a counselor with their own team
@@ -1271,7 +2735,7 @@ export async function registerRoutes(
       }
       
       // Check if user is a member (auxiliary) of a team in General Council
-      const memberTeam = teams.find(t => t.ownerUserId !== userId && t.committee?.isGeneral);
+      const memberTeam = teams.find(t => t.ownerUserId !== userId && t.committee?.isGeneral && !t.committee.archivedAt);
       
       if (memberTeam) {
         // User is an auxiliary in a General Council team
@@ -1298,7 +2762,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/committees/:committeeId/teams", isAuthenticated, async (req: any, res) => {
+  app.post("/api/committees/:committeeId/teams", isAuthenticated, rejectArchivedCommittee(committeeIdOfCommitteeParam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { committeeId } = req.params;
@@ -1338,7 +2802,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/teams/:teamId", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/teams/:teamId", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId } = req.params;
@@ -1374,7 +2838,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/teams/:teamId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/teams/:teamId", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId } = req.params;
@@ -1423,7 +2887,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/teams/:teamId/members", isAuthenticated, async (req: any, res) => {
+  app.post("/api/teams/:teamId/members", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId } = req.params;
@@ -1451,6 +2915,10 @@ export async function registerRoutes(
         return res.status(400).json({ message: "User is already a team member" });
       }
       
+      if (await isOffboardedFromCommittee(userToAdd.id, team.committeeId)) {
+        return res.status(400).json({ message: "Este usuario fue dado de baja del comité; reactívalo antes de agregarlo al equipo" });
+      }
+      
       const member = await storage.createCounselorTeamMember({
         teamId,
         userId: userToAdd.id,
@@ -1464,7 +2932,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/teams/:teamId/members/:memberId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/teams/:teamId/members/:memberId", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId, memberId } = req.params;
@@ -1511,7 +2979,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/teams/:teamId/invites", isAuthenticated, async (req: any, res) => {
+  app.post("/api/teams/:teamId/invites", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId } = req.params;
@@ -1540,6 +3008,10 @@ export async function registerRoutes(
           return res.status(400).json({ message: "User is already a team member" });
         }
         
+        if (await isOffboardedFromCommittee(existingUser.id, team.committeeId)) {
+          return res.status(400).json({ message: "Este usuario fue dado de baja del comité; reactívalo antes de agregarlo al equipo" });
+        }
+        
         // Add them directly as a team member
         const member = await storage.createCounselorTeamMember({
           teamId,
@@ -1553,39 +3025,133 @@ export async function registerRoutes(
         });
       }
       
-      // Check if there's already a pending invite for this email
-      const existingInvite = await storage.getTeamInviteByEmail(teamId, email);
-      if (existingInvite) {
+      // Check if there's already a pending invite for this email
+      const existingInvite = await storage.getTeamInviteByEmail(teamId, email);
+      if (existingInvite) {
+        return res.status(400).json({ message: "An invite is already pending for this email" });
+      }
+      
+      // Generate secure token and expiration (7 days)
+      const token = randomBytes(32).toString("hex");
+      const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+      
+      const createdInvite = await storage.createTeamInvite({
+        teamId,
+        email,
+        invitedByUserId: userId,
+        token,
+        status: "pending",
+        role: role as "counselor" | "auxiliary",
+        expiresAt,
+      });
+      const invite = await deliverTeamInvite(createdInvite, "invite", getAppUrl());
+      
+      res.status(201).json({ 
+        type: "invite_created",
+        message: "Invitation created",
+        invite,
+        emailSent: invite.deliveryStatus === "sent",
+        registrationUrl: `/register?invite=${token}`
+      });
+    } catch (error) {
+      console.error("Error creating team invite:", error);
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.post("/api/teams/:teamId/invites/:inviteId/resend", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { teamId, inviteId } = req.params;
+      
+      const team = await storage.getCounselorTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Only team owner can resend invites
+      if (team.ownerUserId !== userId) {
+        return res.status(403).json({ message: "Only the team owner can resend invites" });
+      }
+      
+      const existingInvite = await storage.getTeamInvite(inviteId);
+      if (!existingInvite || existingInvite.teamId !== teamId) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      
+      if (existingInvite.status !== "pending") {
+        return res.status(400).json({ message: "This invite has already been used or cancelled" });
+      }
+      
+      if (new Date(existingInvite.expiresAt) < new Date()) {
+        return res.status(400).json({ message: "This invite has expired" });
+      }
+      
+      const invite = await deliverTeamInvite(existingInvite, "resend", getAppUrl());
+      if (invite.deliveryStatus !== "sent") {
+        return res.status(502).json({ message: "No se pudo enviar el correo de invitación", invite });
+      }
+      res.json(invite);
+    } catch (error) {
+      console.error("Error resending invite:", error);
+      res.status(500).json({ message: "Failed to resend invite" });
+    }
+  });
+
+  app.post("/api/teams/:teamId/invites/:inviteId/renew", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { teamId, inviteId } = req.params;
+      
+      const team = await storage.getCounselorTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Only team owner can renew invites
+      if (team.ownerUserId !== userId) {
+        return res.status(403).json({ message: "Only the team owner can renew invites" });
+      }
+      
+      const existingInvite = await storage.getTeamInvite(inviteId);
+      if (!existingInvite || existingInvite.teamId !== teamId) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      
+      const isExpired =
+        existingInvite.status === "expired" ||
+        (existingInvite.status === "pending" && new Date(existingInvite.expiresAt) < new Date());
+      if (!isExpired) {
+        return res.status(400).json({ message: "Only expired invites can be renewed" });
+      }
+      
+      if (await storage.getUserByEmail(existingInvite.email)) {
+        return res.status(400).json({ message: "Este correo ya está registrado; agrégalo directamente al equipo" });
+      }
+      
+      if (await storage.getTeamInviteByEmail(teamId, existingInvite.email)) {
         return res.status(400).json({ message: "An invite is already pending for this email" });
       }
       
-      // Generate secure token and expiration (7 days)
       const token = randomBytes(32).toString("hex");
-      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-      
-      const invite = await storage.createTeamInvite({
-        teamId,
-        email,
-        invitedByUserId: userId,
-        token,
-        status: "pending",
-        role: role as "counselor" | "auxiliary",
-        expiresAt,
-      });
+      const renewed = await storage.renewTeamInvite(inviteId, token, new Date(Date.now() + INVITE_TTL_MS));
+      if (!renewed) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      const invite = await deliverTeamInvite(renewed, "invite", getAppUrl());
       
-      res.status(201).json({ 
-        type: "invite_created",
-        message: "Invitation created",
+      res.json({
         invite,
-        registrationUrl: `/register?invite=${token}`
+        emailSent: invite.deliveryStatus === "sent",
+        registrationUrl: `/register?invite=${token}`,
       });
     } catch (error) {
-      console.error("Error creating team invite:", error);
-      res.status(500).json({ message: "Failed to create invite" });
+      console.error("Error renewing invite:", error);
+      res.status(500).json({ message: "Failed to renew invite" });
     }
   });
 
-  app.delete("/api/teams/:teamId/invites/:inviteId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/teams/:teamId/invites/:inviteId", isAuthenticated, rejectArchivedCommittee(committeeOfTeam), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { teamId, inviteId } = req.params;
@@ -1623,6 +3189,7 @@ export async function registerRoutes(
       }
       
       if (new Date(invite.expiresAt) < new Date()) {
+        await storage.updateTeamInviteStatus(invite.id, "expired");
         return res.status(400).json({ message: "This invite has expired" });
       }
       
@@ -1699,7 +3266,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/documents", isAuthenticated, async (req: any, res) => {
+  app.post("/api/documents", isAuthenticated, rejectArchivedCommittee(committeeOfDocumentBody), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const data = { ...req.body, uploadedByUserId: userId };
@@ -1715,7 +3282,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/documents/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/documents/:id", isAuthenticated, rejectArchivedCommittee(committeeOfDocument), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const { id } = req.params;
@@ -1725,12 +3292,15 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Only the uploader or admin can delete
-      if (document.uploadedByUserId !== userId) {
+      // Only the uploader or someone allowed to delete documents in its committee
+      const committeeId = document.committeeId ?? (document.teamId ? (await storage.getCounselorTeam(document.teamId))?.committeeId : undefined);
+      const canDeleteOthers = committeeId ? await hasPermission(req.user, committeeId, "documents.delete") : isSuperAdmin(req);
+      if (document.uploadedByUserId !== userId && !canDeleteOthers) {
         return res.status(403).json({ message: "Not authorized to delete this document" });
       }
       
       await storage.deleteDocument(id);
+      setAuditContext(req, { committeeId: committeeId ?? null, before: document });
       res.json({ message: "Document deleted" });
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -1780,7 +3350,7 @@ export async function registerRoutes(
         return res.status(403).json({ message: "Only superadmins can view all committees" });
       }
       
-      const allCommittees = await storage.getAllCommittees();
+      const allCommittees = await storage.getAllCommittees(true);
       res.json(allCommittees);
     } catch (error) {
       console.error("Error fetching all committees:", error);
@@ -1788,14 +3358,21 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/admin/committees/:id", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/admin/committees/:id", isAuthenticated, rejectArchivedCommittee(committeeIdParam), async (req: any, res) => {
     try {
       if (!isSuperAdmin(req)) {
         return res.status(403).json({ message: "Only superadmins can update committees" });
       }
       
       const { id } = req.params;
-      const { isGeneral, usesShifts, isRestricted } = req.body;
+      const { isGeneral, usesShifts, isRestricted, swapsRequireApproval, requiresVerifiedEmail, parentCommitteeId, cascadePermissions } = req.body;
+      const existingCommittee = await storage.getCommittee(id);
+      if (!existingCommittee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      if (parentCommitteeId) {
+        await validateParentCommittee(existingCommittee, parentCommitteeId);
+      }
       
       if (isGeneral === true) {
         const allCommittees = await storage.getAllCommittees();
@@ -1807,22 +3384,281 @@ export async function registerRoutes(
         }
       }
       
-      const updateData: { isGeneral?: boolean; usesShifts?: boolean; isRestricted?: boolean } = {};
+      const updateData: { isGeneral?: boolean; usesShifts?: boolean; isRestricted?: boolean; swapsRequireApproval?: boolean; requiresVerifiedEmail?: boolean; parentCommitteeId?: string | null; cascadePermissions?: boolean } = {};
       if (isGeneral !== undefined) updateData.isGeneral = isGeneral;
       if (usesShifts !== undefined) updateData.usesShifts = usesShifts;
       if (isRestricted !== undefined) updateData.isRestricted = isRestricted;
+      if (swapsRequireApproval !== undefined) updateData.swapsRequireApproval = swapsRequireApproval;
+      if (requiresVerifiedEmail !== undefined) updateData.requiresVerifiedEmail = requiresVerifiedEmail;
+      if (parentCommitteeId !== undefined) updateData.parentCommitteeId = parentCommitteeId || null;
+      if (cascadePermissions !== undefined) updateData.cascadePermissions = cascadePermissions;
+      // Without a parent there is nothing to inherit from
+      if (parentCommitteeId === null || parentCommitteeId === "") updateData.cascadePermissions = false;
       
       const committee = await storage.updateCommittee(id, updateData);
       if (!committee) {
         return res.status(404).json({ message: "Committee not found" });
       }
+      setAuditContext(req, { before: existingCommittee, after: committee });
       res.json(committee);
     } catch (error) {
+      if (error instanceof CommitteeHierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating committee:", error);
       res.status(500).json({ message: "Failed to update committee" });
     }
   });
 
+  // Archiving closes a committee at the end of its cycle without deleting its history
+  app.post("/api/admin/committees/:id/archive", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can archive committees" });
+      }
+      
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const archived = await archiveCommittee(committee, req.user.id);
+      setAuditContext(req, { before: committee, after: archived });
+      res.json(archived);
+    } catch (error) {
+      if (error instanceof CommitteeArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error archiving committee:", error);
+      res.status(500).json({ message: "Failed to archive committee" });
+    }
+  });
+
+  app.post("/api/admin/committees/:id/unarchive", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can unarchive committees" });
+      }
+      
+      const committee = await storage.getCommittee(req.params.id);
+      if (!committee) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const restored = await unarchiveCommittee(committee);
+      setAuditContext(req, { before: committee, after: restored });
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof CommitteeArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error unarchiving committee:", error);
+      res.status(500).json({ message: "Failed to unarchive committee" });
+    }
+  });
+
+  app.post("/api/admin/committees/:id/rollover", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can roll over committees" });
+      }
+      
+      const source = await storage.getCommittee(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Committee not found" });
+      }
+      
+      const options = rolloverCommitteeSchema.parse(req.body);
+      const result = await rolloverCommittee(source, options, req.user.id);
+      setAuditContext(req, { entityId: result.committee.id, after: result.committee });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof CommitteeArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error rolling over committee:", error);
+      res.status(500).json({ message: "Failed to roll over committee" });
+    }
+  });
+
+  app.get("/api/admin/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can view system settings" });
+      }
+      res.json(await storage.getSystemSettings());
+    } catch (error) {
+      console.error("Error fetching system settings:", error);
+      res.status(500).json({ message: "Failed to fetch system settings" });
+    }
+  });
+
+  app.patch("/api/admin/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can update system settings" });
+      }
+      const data = updateSystemSettingsSchema.parse(req.body);
+      res.json(await storage.updateSystemSettings(data, req.user.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating system settings:", error);
+      res.status(500).json({ message: "Failed to update system settings" });
+    }
+  });
+
+  // Permission matrix (Superadmin only)
+  app.get("/api/admin/permissions", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can view permissions" });
+      }
+      res.json(await getPermissionMatrix());
+    } catch (error) {
+      console.error("Error fetching permissions:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.put("/api/admin/permissions", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can update permissions" });
+      }
+      const data = updateRolePermissionSchema.parse(req.body);
+      await updateRolePermission(data, req.user.id);
+      res.json(await getPermissionMatrix());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating permissions:", error);
+      res.status(500).json({ message: "Failed to update permissions" });
+    }
+  });
+
+  // Login lockouts (Superadmin only)
+  app.get("/api/admin/lockouts", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can view login lockouts" });
+      }
+      res.json(await getRecentLockouts());
+    } catch (error) {
+      console.error("Error fetching login lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch login lockouts" });
+    }
+  });
+
+  app.post("/api/admin/lockouts/:id/unlock", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can unlock accounts" });
+      }
+      const lockout = await unlockLockout(req.params.id, req.user.id);
+      if (!lockout) {
+        return res.status(404).json({ message: "Lockout not found or already unlocked" });
+      }
+      res.json(lockout);
+    } catch (error) {
+      console.error("Error unlocking login lockout:", error);
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
+  // Ends every session of a user, e.g. after their account was compromised
+  app.post("/api/admin/users/:id/logout", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req)) {
+        return res.status(403).json({ message: "Only superadmins can force a logout" });
+      }
+      if (req.params.id === req.user.id) {
+        return res.status(400).json({ message: "Use your own sessions list to log out other devices" });
+      }
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await revokeUserSessions(user.id, null);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      res.status(500).json({ message: "Failed to force logout" });
+    }
+  });
+
+  // Audit log: super admins see everything, other users the committees where they have audit.view
+  const AUDIT_PAGE_SIZE = 50;
+  const AUDIT_EXPORT_LIMIT = 10000;
+
+  app.get("/api/audit-events", isAuthenticated, async (req: any, res) => {
+    try {
+      const { committeeId, actor, entityType, action, from, to } = req.query as Record<string, string | undefined>;
+      const auditFormat = (req.query.format as string | undefined) ?? "json";
+      if (auditFormat !== "json" && auditFormat !== "csv") {
+        return res.status(400).json({ message: "Invalid export format" });
+      }
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+        return res.status(400).json({ message: "Dates must use the YYYY-MM-DD format" });
+      }
+
+      let committeeIds: string[] | null = null;
+      if (!isSuperAdmin(req)) {
+        committeeIds = await getCommitteeIdsWithPermission(req.user, "audit.view");
+        if (committeeIds.length === 0) {
+          return res.status(403).json({ message: "Missing permission: audit.view" });
+        }
+      }
+      if (committeeId) {
+        if (committeeIds && !committeeIds.includes(committeeId)) {
+          return res.status(403).json({ message: "Missing permission: audit.view" });
+        }
+        committeeIds = [committeeId];
+      }
+
+      const filters: AuditEventFilters = {
+        committeeIds,
+        actor: actor?.trim() || undefined,
+        entityType: entityType || undefined,
+        action: action || undefined,
+        from: from ? new Date(`${from}T00:00:00`) : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+      };
+
+      if (auditFormat === "csv") {
+        const events = await listAuditEvents(filters, AUDIT_EXPORT_LIMIT);
+        res.setHeader("Content-Disposition", `attachment; filename="auditoria-${format(new Date(), "yyyy-MM-dd")}.csv"`);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        return res.send(renderAuditCsv(events));
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const events = await listAuditEvents(filters, AUDIT_PAGE_SIZE + 1, (page - 1) * AUDIT_PAGE_SIZE);
+      res.json({ events: events.slice(0, AUDIT_PAGE_SIZE), hasMore: events.length > AUDIT_PAGE_SIZE });
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get("/api/audit-events/entity-types", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isSuperAdmin(req) && (await getCommitteeIdsWithPermission(req.user, "audit.view")).length === 0) {
+        return res.status(403).json({ message: "Missing permission: audit.view" });
+      }
+      res.json(await getAuditEntityTypes());
+    } catch (error) {
+      console.error("Error fetching audit entity types:", error);
+      res.status(500).json({ message: "Failed to fetch audit entity types" });
+    }
+  });
+
   // Roles Routes (Superadmin only)
   app.get("/api/roles", isAuthenticated, async (req: any, res) => {
     try {
@@ -2158,9 +3994,78 @@ export async function registerRoutes(
     }
   });
 
+  // Send weekly/monthly report digests by email (checks every hour; each period is sent once)
+  cron.schedule("0 * * * *", async () => {
+    try {
+      await sendReportDigests();
+    } catch (error) {
+      console.error("Error in report digest scheduler:", error);
+    }
+  });
+
+  // Expire stale team invites and remind those expiring within 48 hours (runs every hour)
+  cron.schedule("30 * * * *", async () => {
+    try {
+      await processTeamInviteExpiry();
+    } catch (error) {
+      console.error("Error in invite expiry scheduler:", error);
+    }
+  });
+
+  // Drop login attempts older than 30 days (runs daily)
+  cron.schedule("15 3 * * *", async () => {
+    try {
+      const count = await pruneLoginAttempts();
+      if (count > 0) console.log(`Pruned ${count} old login attempts`);
+    } catch (error) {
+      console.error("Error pruning login attempts:", error);
+    }
+  });
+
+  // Start no-show detection (runs every 5 minutes)
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      await markNoShowAttendances();
+    } catch (error) {
+      console.error("Error in no-show scheduler:", error);
+    }
+  });
+
   return httpServer;
 }
 
+// Scheduled attendances whose shift has already ended without a check-in become no_show
+async function markNoShowAttendances() {
+  const now = new Date();
+  // Local date, like the shift hours hasShiftEnded compares against
+  const today = format(now, "yyyy-MM-dd");
+  const overdue = await storage.getOverdueScheduledAttendances(today);
+  
+  const shiftsByCommittee = new Map<string, CommitteeShift[]>();
+  const missedIds: string[] = [];
+  for (const attendance of overdue) {
+    if (attendance.slot.date < today) {
+      missedIds.push(attendance.id);
+      continue;
+    }
+    
+    let shifts = shiftsByCommittee.get(attendance.committee.id);
+    if (!shifts) {
+      shifts = await getCommitteeShifts(attendance.committee);
+      shiftsByCommittee.set(attendance.committee.id, shifts);
+    }
+    const shift = findCommitteeShift(attendance.committee, shifts, attendance.slot.shift);
+    if (shift && hasShiftEnded(shift, now)) {
+      missedIds.push(attendance.id);
+    }
+  }
+  
+  const marked = await storage.markAttendancesNoShow(missedIds);
+  if (marked.length > 0) {
+    console.log(`Marked ${marked.length} attendances as no_show`);
+  }
+}
+
 // Track sent notifications to prevent duplicates (clears old entries every hour)
 const sentNotifications = new Map<string, number>();
 setInterval(() => {
@@ -2349,3 +4254,104 @@ async function sendActivityAssignmentNotification(userId: string, activity: { id
     console.error(`Error sending activity assignment notification to user ${userId}:`, error);
   }
 }
+
+async function sendWaitlistPromotionNotification(userId: string, slot: AttendanceSlot) {
+  try {
+    const prefs = await storage.getNotificationPreferences(userId);
+    if (!prefs?.pushEnabled || !prefs?.pushSubscription) {
+      return;
+    }
+    
+    const subscription = JSON.parse(prefs.pushSubscription);
+    const dateFormatted = new Date(`${slot.date}T12:00:00`).toLocaleDateString('es-MX', { 
+      weekday: 'long', 
+      day: 'numeric', 
+      month: 'long' 
+    });
+    const committee = await storage.getCommittee(slot.committeeId);
+    const shift = committee ? findCommitteeShift(committee, await getCommitteeShifts(committee), slot.shift) : undefined;
+    
+    await webpush.sendNotification(
+      subscription,
+      JSON.stringify({
+        title: "Se liberó un lugar",
+        body: `Ya tienes lugar en el turno ${shift?.name ?? slot.shift} del ${dateFormatted}`,
+        icon: "/icons/icon-192x192.png",
+        badge: "/icons/icon-72x72.png",
+        tag: `waitlist-promotion-${slot.id}`,
+        renotify: true,
+        requireInteraction: false,
+        data: { 
+          url: "/attendances",
+          type: "waitlist_promotion",
+          referenceId: slot.id
+        }
+      })
+    );
+    console.log(`Waitlist promotion notification sent to user ${userId} for slot ${slot.id}`);
+  } catch (error) {
+    console.error(`Error sending waitlist promotion notification to user ${userId}:`, error);
+  }
+}
+
+async function sendMembershipRequestNotification(member: CommitteeMember, committee: Committee, title: string, body: string) {
+  try {
+    const prefs = await storage.getNotificationPreferences(member.userId);
+    if (!prefs?.pushEnabled || !prefs?.pushSubscription) {
+      return;
+    }
+    
+    const subscription = JSON.parse(prefs.pushSubscription);
+    await webpush.sendNotification(
+      subscription,
+      JSON.stringify({
+        title,
+        body,
+        icon: "/icons/icon-192x192.png",
+        badge: "/icons/icon-72x72.png",
+        tag: `membership-${member.id}`,
+        renotify: true,
+        requireInteraction: false,
+        data: {
+          url: member.membershipStatus === "active" ? `/committees/${committee.id}` : "/committees",
+          type: "membership_request",
+          referenceId: member.id
+        }
+      })
+    );
+    console.log(`Membership request notification sent to user ${member.userId} for committee ${committee.id}`);
+  } catch (error) {
+    console.error(`Error sending membership request notification to user ${member.userId}:`, error);
+  }
+}
+
+async function sendShiftSwapNotification(userId: string, title: string, body: string, swapId: string) {
+  try {
+    const prefs = await storage.getNotificationPreferences(userId);
+    if (!prefs?.pushEnabled || !prefs?.pushSubscription) {
+      return;
+    }
+    
+    const subscription = JSON.parse(prefs.pushSubscription);
+    await webpush.sendNotification(
+      subscription,
+      JSON.stringify({
+        title,
+        body,
+        icon: "/icons/icon-192x192.png",
+        badge: "/icons/icon-72x72.png",
+        tag: `shift-swap-${swapId}`,
+        renotify: true,
+        requireInteraction: false,
+        data: { 
+          url: "/attendances",
+          type: "shift_swap",
+          referenceId: swapId
+        }
+      })
+    );
+    console.log(`Shift swap notification sent to user ${userId} for swap ${swapId}`);
+  } catch (error) {
+    console.error(`Error sending shift swap notification to user ${userId}:`, error);
+  }
+}
@@ -0,0 +1,80 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import { and, eq, gt, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import { getClientIp } from "./login-throttle";
+import { sessions } from "@shared/models/auth";
+
+// Writing the session on every request would turn each API call into a database write
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loggedInAt: number | null;
+  lastActivityAt: number | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// The session id is what the cookie carries, so clients only ever see a hash of it
+function toPublicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+function belongsToUser(userId: string) {
+  return sql`${sessions.sess} -> 'passport' ->> 'user' = ${userId}`;
+}
+
+// Records the device and last activity of logged in sessions for the "my devices" list
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    const now = Date.now();
+    const { lastActivityAt } = req.session;
+    if (!lastActivityAt || now - lastActivityAt >= ACTIVITY_UPDATE_INTERVAL_MS) {
+      req.session.loggedInAt ??= now;
+      req.session.lastActivityAt = now;
+      req.session.userAgent = req.get("user-agent")?.slice(0, 500) || undefined;
+      req.session.ipAddress = getClientIp(req);
+    }
+  }
+  next();
+}
+
+export async function listUserSessions(userId: string, currentSid: string): Promise<ActiveSession[]> {
+  const rows = await db
+    .select()
+    .from(sessions)
+    .where(and(belongsToUser(userId), gt(sessions.expire, new Date())));
+
+  return rows
+    .map(({ sid, sess, expire }) => {
+      const data = sess as { userAgent?: string; ipAddress?: string; loggedInAt?: number; lastActivityAt?: number };
+      return {
+        id: toPublicSessionId(sid),
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        loggedInAt: data.loggedInAt ?? null,
+        lastActivityAt: data.lastActivityAt ?? null,
+        expiresAt: expire,
+        current: sid === currentSid,
+      };
+    })
+    .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastActivityAt ?? 0) - (a.lastActivityAt ?? 0));
+}
+
+export async function revokeUserSession(userId: string, publicId: string): Promise<boolean> {
+  const rows = await db.select({ sid: sessions.sid }).from(sessions).where(belongsToUser(userId));
+  const match = rows.find((row) => toPublicSessionId(row.sid) === publicId);
+  if (!match) return false;
+  await db.delete(sessions).where(eq(sessions.sid, match.sid));
+  return true;
+}
+
+// Ends every session of the user except the one making the request (pass null to end all)
+export async function revokeUserSessions(userId: string, exceptSid: string | null): Promise<number> {
+  const condition = exceptSid ? and(belongsToUser(userId), ne(sessions.sid, exceptSid)) : belongsToUser(userId);
+  const deleted = await db.delete(sessions).where(condition).returning({ sid: sessions.sid });
+  return deleted.length;
+}
@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import { getDefaultShifts, resolveCommitteeShifts, type CommitteeShift } from "@shared/shifts";
+import type { Committee } from "@shared/schema";
+
+export async function getCommitteeShifts(committee: Committee): Promise<CommitteeShift[]> {
+  return resolveCommitteeShifts(committee, await storage.getShiftDefinitions(committee.id));
+}
+
+// "Sesión Nocturna" -> "sesion_nocturna"
+export function toShiftKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// The first custom definition replaces the committee's morning/afternoon columns, so those
+// are copied over as definitions first to keep existing slots and templates working
+export async function seedDefaultShiftDefinitions(committee: Committee): Promise<void> {
+  const existing = await storage.getShiftDefinitions(committee.id);
+  if (existing.length > 0) return;
+
+  const defaults = getDefaultShifts(committee);
+  for (let index = 0; index < defaults.length; index++) {
+    const shift = defaults[index];
+    await storage.createShiftDefinition({
+      committeeId: committee.id,
+      key: shift.key,
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      maxCapacity: shift.maxCapacity,
+      days: shift.days,
+      sortOrder: index,
+      isActive: true,
+    });
+  }
+}
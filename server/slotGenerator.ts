@@ -0,0 +1,125 @@
+import { addDays, addMonths, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { z } from "zod";
+import { storage } from "./storage";
+import { DAY_NAMES, type CommitteeShift } from "@shared/shifts";
+import type { AttendanceSlot, Committee, SlotTemplate } from "@shared/schema";
+
+export const slotGenerationSchema = z.object({
+  templateId: z.string().optional(),
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be in yyyy-MM format"),
+  period: z.enum(["month", "quarter"]).default("month"),
+  excludedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).default([]),
+});
+
+export type SlotGenerationRequest = z.infer<typeof slotGenerationSchema>;
+
+export interface SlotGenerationRule {
+  workingDays: string[];
+  shifts: { key: string; maxCapacity: number; days: string[] }[];
+  excludedDates: string[];
+}
+
+export interface PlannedSlot {
+  date: string;
+  shift: string;
+  maxCapacity: number;
+  status: "create" | "existing" | "excluded";
+  reason?: string;
+}
+
+// Inclusive date range for a month, or a quarter starting at that month
+export function getGenerationRange(month: string, period: "month" | "quarter"): { startDate: string; endDate: string } {
+  const start = startOfMonth(parseISO(`${month}-01`));
+  const end = endOfMonth(addMonths(start, period === "quarter" ? 2 : 0));
+  return {
+    startDate: format(start, "yyyy-MM-dd"),
+    endDate: format(end, "yyyy-MM-dd"),
+  };
+}
+
+// Without a template every committee shift is generated on its own days with its own capacity.
+// A template narrows the shifts and days and sets a single capacity; extra excluded dates are merged in.
+export function resolveGenerationRule(
+  committee: Committee,
+  committeeShifts: CommitteeShift[],
+  template: SlotTemplate | undefined,
+  excludedDates: string[]
+): SlotGenerationRule {
+  const shifts = template
+    ? committeeShifts.filter((s) => template.shifts.includes(s.key))
+    : committeeShifts;
+  return {
+    workingDays: template?.workingDays ?? committee.workingDays,
+    shifts: shifts.map((s) => ({
+      key: s.key,
+      maxCapacity: template?.maxCapacity ?? s.maxCapacity,
+      days: s.days,
+    })),
+    excludedDates: Array.from(new Set([...(template?.excludedDates ?? []), ...excludedDates])),
+  };
+}
+
+export async function planSlots(
+  committeeId: string,
+  startDate: string,
+  endDate: string,
+  rule: SlotGenerationRule
+): Promise<PlannedSlot[]> {
+  const excluded = new Set(rule.excludedDates);
+  const closureNames = new Map(
+    (await storage.getClosures(committeeId, startDate, endDate)).map((c) => [c.date, c.name])
+  );
+  const plan: PlannedSlot[] = [];
+
+  for (let day = parseISO(startDate); format(day, "yyyy-MM-dd") <= endDate; day = addDays(day, 1)) {
+    const date = format(day, "yyyy-MM-dd");
+    const dayName = DAY_NAMES[day.getDay()];
+    if (!rule.workingDays.includes(dayName)) {
+      continue;
+    }
+
+    for (const { key: shift, maxCapacity, days } of rule.shifts) {
+      if (!days.includes(dayName)) {
+        continue;
+      }
+
+      const closureName = closureNames.get(date);
+      if (closureName) {
+        plan.push({ date, shift, maxCapacity, status: "excluded", reason: closureName });
+        continue;
+      }
+
+      if (excluded.has(date)) {
+        plan.push({ date, shift, maxCapacity, status: "excluded", reason: "Día inhábil" });
+        continue;
+      }
+
+      const existing = await storage.getSlotByDateAndShift(committeeId, date, shift);
+      if (existing) {
+        plan.push({ date, shift, maxCapacity: existing.maxCapacity, status: "existing", reason: "Turno ya existente" });
+        continue;
+      }
+
+      plan.push({ date, shift, maxCapacity, status: "create" });
+    }
+  }
+
+  return plan;
+}
+
+export async function createPlannedSlots(committeeId: string, plan: PlannedSlot[]): Promise<AttendanceSlot[]> {
+  const created: AttendanceSlot[] = [];
+  for (const item of plan) {
+    if (item.status !== "create") continue;
+    created.push(
+      await storage.createAttendanceSlot({
+        committeeId,
+        date: item.date,
+        shift: item.shift,
+        maxCapacity: item.maxCapacity,
+        isBlocked: false,
+      })
+    );
+  }
+  return created;
+}
@@ -0,0 +1,204 @@
+import { eachMonthOfInterval, format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import { storage } from "./storage";
+import { getCommitteeShifts } from "./shifts";
+import { findCommitteeShift, timeToMinutes } from "@shared/shifts";
+import { isPresentStatus } from "@shared/attendance-status";
+import type { Committee } from "@shared/schema";
+
+export interface MemberMonthStatistics {
+  month: string; // yyyy-MM
+  served: number;
+  quota: number | null;
+}
+
+export interface MemberStatistics {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  roleName: string | null;
+  scheduled: number;
+  attended: number;
+  late: number;
+  noShows: number;
+  excused: number;
+  cancellations: number;
+  hoursServed: number;
+  monthlyQuota: number | null;
+  expectedShifts: number | null;
+  compliance: number | null; // 0-100, null when no quota applies
+  months: MemberMonthStatistics[];
+}
+
+export interface TrendPoint {
+  month: string;
+  label: string;
+  attended: number;
+  late: number;
+  noShows: number;
+  cancellations: number;
+  hoursServed: number;
+  membersMeetingQuota: number;
+  membersWithQuota: number;
+}
+
+export interface CommitteeStatistics {
+  committeeId: string;
+  startDate: string;
+  endDate: string;
+  monthlyQuota: number | null;
+  members: MemberStatistics[];
+  trend: TrendPoint[];
+}
+
+function emptyMemberStatistics(userId: string, months: string[]): MemberStatistics {
+  return {
+    userId,
+    userName: "Usuario desconocido",
+    userEmail: "",
+    roleName: null,
+    scheduled: 0,
+    attended: 0,
+    late: 0,
+    noShows: 0,
+    excused: 0,
+    cancellations: 0,
+    hoursServed: 0,
+    monthlyQuota: null,
+    expectedShifts: null,
+    compliance: null,
+    months: months.map((month) => ({ month, served: 0, quota: null })),
+  };
+}
+
+// Per-member totals for the period. Active members with no attendances are included on
+// purpose: they are the ones a president most needs to follow up with.
+export async function buildCommitteeStatistics(
+  committee: Committee,
+  startDate: string,
+  endDate: string
+): Promise<CommitteeStatistics> {
+  const [shifts, slots, committeeMembers, roles] = await Promise.all([
+    getCommitteeShifts(committee),
+    storage.getAttendanceSlots(committee.id, startDate, endDate),
+    storage.getCommitteeMembers(committee.id),
+    storage.getRoles(),
+  ]);
+
+  const months = eachMonthOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map((date) =>
+    format(date, "yyyy-MM")
+  );
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const members = new Map<string, MemberStatistics>();
+
+  const trend: TrendPoint[] = months.map((month) => ({
+    month,
+    label: format(parseISO(`${month}-01`), "MMM yyyy", { locale: es }),
+    attended: 0,
+    late: 0,
+    noShows: 0,
+    cancellations: 0,
+    hoursServed: 0,
+    membersMeetingQuota: 0,
+    membersWithQuota: 0,
+  }));
+  const trendByMonth = new Map(trend.map((point) => [point.month, point]));
+
+  for (const member of committeeMembers) {
+    if (!member.isActive) continue;
+    const role = member.roleId ? rolesById.get(member.roleId) : undefined;
+    const quota = role?.monthlyQuota ?? committee.monthlyQuota;
+    const stats = emptyMemberStatistics(member.userId, months);
+    if (member.user) {
+      stats.userName = `${member.user.firstName} ${member.user.lastName}`;
+      stats.userEmail = member.user.email;
+    }
+    stats.roleName = role?.displayName ?? null;
+    stats.monthlyQuota = quota;
+    stats.months.forEach((month) => (month.quota = quota));
+    members.set(member.userId, stats);
+  }
+
+  for (const slot of slots) {
+    const shift = findCommitteeShift(committee, shifts, slot.shift);
+    const shiftHours = shift ? (timeToMinutes(shift.endTime) - timeToMinutes(shift.startTime)) / 60 : 0;
+    const month = slot.date.slice(0, 7);
+    const point = trendByMonth.get(month);
+
+    for (const attendance of slot.attendances || []) {
+      if (attendance.status === "waitlisted") continue;
+
+      let stats = members.get(attendance.userId);
+      if (!stats) {
+        // Former members still count towards the committee trend
+        stats = emptyMemberStatistics(attendance.userId, months);
+        if (attendance.user) {
+          stats.userName = `${attendance.user.firstName} ${attendance.user.lastName}`;
+          stats.userEmail = attendance.user.email;
+        }
+        members.set(attendance.userId, stats);
+      }
+
+      if (attendance.status === "cancelled") {
+        stats.cancellations++;
+        if (point) point.cancellations++;
+        continue;
+      }
+
+      stats.scheduled++;
+      if (attendance.status === "attended") stats.attended++;
+      else if (attendance.status === "late") stats.late++;
+      else if (attendance.status === "no_show") stats.noShows++;
+      else if (attendance.status === "excused") stats.excused++;
+
+      if (point) {
+        if (attendance.status === "attended") point.attended++;
+        else if (attendance.status === "late") point.late++;
+        else if (attendance.status === "no_show") point.noShows++;
+      }
+
+      if (isPresentStatus(attendance.status)) {
+        stats.hoursServed += shiftHours;
+        if (point) point.hoursServed += shiftHours;
+        const monthStats = stats.months.find((m) => m.month === month);
+        if (monthStats) monthStats.served++;
+      }
+    }
+  }
+
+  const memberList = Array.from(members.values());
+  for (const stats of memberList) {
+    stats.hoursServed = Math.round(stats.hoursServed * 10) / 10;
+    if (stats.monthlyQuota !== null && stats.monthlyQuota > 0) {
+      stats.expectedShifts = stats.monthlyQuota * months.length;
+      stats.compliance = Math.min(100, Math.round(((stats.attended + stats.late) / stats.expectedShifts) * 100));
+    }
+  }
+
+  // Lowest compliance first; members without a quota go last
+  memberList.sort((a, b) => {
+    if (a.compliance === null && b.compliance === null) return a.userName.localeCompare(b.userName, "es");
+    if (a.compliance === null) return 1;
+    if (b.compliance === null) return -1;
+    return a.compliance - b.compliance || a.userName.localeCompare(b.userName, "es");
+  });
+
+  for (const stats of memberList) {
+    for (const monthStats of stats.months) {
+      if (monthStats.quota === null || monthStats.quota === 0) continue;
+      const point = trendByMonth.get(monthStats.month)!;
+      point.membersWithQuota++;
+      if (monthStats.served >= monthStats.quota) point.membersMeetingQuota++;
+    }
+  }
+  trend.forEach((point) => (point.hoursServed = Math.round(point.hoursServed * 10) / 10));
+
+  return {
+    committeeId: committee.id,
+    startDate,
+    endDate,
+    monthlyQuota: committee.monthlyQuota,
+    members: memberList,
+    trend,
+  };
+}
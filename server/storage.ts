@@ -3,6 +3,12 @@ import {
   committeeMembers,
   attendanceSlots,
   attendances,
+  shiftDefinitions,
+  attendanceAuditLogs,
+  slotTemplates,
+  closures,
+  shiftSwaps,
+  shiftSwapEvents,
   memberActivities,
   notificationPreferences,
   roles,
@@ -13,6 +19,9 @@ import {
   teamInvites,
   pushSubscriptions,
   scheduledNotifications,
+  reportSubscriptions,
+  systemSettings,
+  rolePermissions,
   documents,
   type Committee,
   type InsertCommittee,
@@ -20,6 +29,18 @@ import {
   type InsertCommitteeMember,
   type AttendanceSlot,
   type InsertAttendanceSlot,
+  type ShiftDefinition,
+  type InsertShiftDefinition,
+  type AttendanceAuditLog,
+  type InsertAttendanceAuditLog,
+  type SlotTemplate,
+  type InsertSlotTemplate,
+  type Closure,
+  type InsertClosure,
+  type ShiftSwap,
+  type InsertShiftSwap,
+  type ShiftSwapEvent,
+  type InsertShiftSwapEvent,
   type Attendance,
   type InsertAttendance,
   type MemberActivity,
@@ -42,27 +63,53 @@ import {
   type InsertPushSubscription,
   type ScheduledNotification,
   type InsertScheduledNotification,
+  type ReportSubscription,
+  type InsertReportSubscription,
+  type SystemSettings,
+  type UpdateSystemSettings,
+  type RolePermission,
+  type UpdateRolePermission,
   type Document,
   type InsertDocument,
 } from "@shared/schema";
 import { users, type User } from "@shared/models/auth";
+import { resolveCommitteeShifts, findCommitteeShift, type CommitteeShift } from "@shared/shifts";
+import { occupiesSlot, type AttendanceStatus } from "@shared/attendance-status";
 import { db } from "./db";
-import { eq, and, gte, lte, desc } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, lte, asc, desc, isNull, inArray, ne, sql } from "drizzle-orm";
+
+export type AttendanceCheckIn = Pick<
+  Attendance,
+  "checkInLatitude" | "checkInLongitude" | "checkInAccuracy" | "checkInDistanceMeters" | "checkInVerification"
+>;
+
+export type TeamInviteDelivery = Partial<
+  Pick<TeamInvite, "deliveryStatus" | "lastSentAt" | "sendCount" | "lastError" | "reminderSentAt">
+>;
+
+export type AttendanceChanges = Partial<Omit<Attendance, "id" | "slotId" | "userId">>;
+
+export type ManualAttendanceLog = Omit<InsertAttendanceAuditLog, "attendanceId">;
 
 export interface IStorage {
   getCommittees(): Promise<Committee[]>;
-  getAllCommittees(): Promise<Committee[]>;
+  getAllCommittees(includeArchived?: boolean): Promise<Committee[]>;
   getCommittee(id: string): Promise<Committee | undefined>;
   createCommittee(data: InsertCommittee): Promise<Committee>;
-  updateCommittee(id: string, data: Partial<InsertCommittee>): Promise<Committee | undefined>;
+  updateCommittee(id: string, data: Partial<InsertCommittee> & Partial<Pick<Committee, "parentCommitteeId" | "cascadePermissions">>): Promise<Committee | undefined>;
+  getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   
   getCommitteeMembers(committeeId: string): Promise<(CommitteeMember & { user?: User })[]>;
   getCommitteeMember(id: string): Promise<CommitteeMember | undefined>;
   getUserMemberships(userId: string): Promise<(CommitteeMember & { committee?: Committee })[]>;
+  getCommitteeMembership(committeeId: string, userId: string): Promise<CommitteeMember | undefined>;
+  getMembershipRequests(committeeId: string): Promise<(CommitteeMember & { user?: User })[]>;
+  getUserMembershipRequests(userId: string): Promise<(CommitteeMember & { committee?: Committee })[]>;
   getUserCommittees(userId: string): Promise<Committee[]>;
   createCommitteeMember(data: InsertCommitteeMember): Promise<CommitteeMember>;
   updateCommitteeMember(id: string, data: Partial<InsertCommitteeMember>): Promise<CommitteeMember | undefined>;
+  reviewMembershipRequest(id: string, status: "active" | "rejected", reviewedByUserId: string, reviewNote: string | null): Promise<CommitteeMember | undefined>;
   getAllMembers(): Promise<(CommitteeMember & { user?: User; committee?: Committee; role?: Role })[]>;
   
   getAttendanceSlots(committeeId: string, startDate: string, endDate: string): Promise<(AttendanceSlot & { attendances?: (Attendance & { user?: User })[] })[]>;
@@ -70,14 +117,60 @@ export interface IStorage {
   getSlotByDateAndShift(committeeId: string, date: string, shift: string): Promise<AttendanceSlot | undefined>;
   createAttendanceSlot(data: InsertAttendanceSlot): Promise<AttendanceSlot>;
   updateAttendanceSlot(id: string, data: Partial<InsertAttendanceSlot>): Promise<AttendanceSlot | undefined>;
-  getUpcomingSlots(userId: string): Promise<(AttendanceSlot & { committeeName: string })[]>;
+  getUpcomingSlots(userId: string): Promise<(AttendanceSlot & { committeeName: string; shiftName: string })[]>;
+  
+  // Shift Definitions
+  getShiftDefinitions(committeeId: string): Promise<ShiftDefinition[]>;
+  getShiftDefinition(id: string): Promise<ShiftDefinition | undefined>;
+  createShiftDefinition(data: InsertShiftDefinition): Promise<ShiftDefinition>;
+  updateShiftDefinition(id: string, data: Partial<InsertShiftDefinition>): Promise<ShiftDefinition | undefined>;
+  deleteShiftDefinition(id: string): Promise<boolean>;
+  hasSlotsForShift(committeeId: string, shift: string): Promise<boolean>;
+  
+  // Slot Templates
+  getSlotTemplates(committeeId: string): Promise<SlotTemplate[]>;
+  getSlotTemplate(id: string): Promise<SlotTemplate | undefined>;
+  createSlotTemplate(data: InsertSlotTemplate): Promise<SlotTemplate>;
+  updateSlotTemplate(id: string, data: Partial<InsertSlotTemplate>): Promise<SlotTemplate | undefined>;
+  deleteSlotTemplate(id: string): Promise<boolean>;
+  
+  // Closures
+  getClosures(committeeId: string | null, startDate: string, endDate: string): Promise<Closure[]>;
+  getClosure(id: string): Promise<Closure | undefined>;
+  getClosureForDate(committeeId: string, date: string): Promise<Closure | undefined>;
+  createClosure(data: InsertClosure): Promise<Closure>;
+  deleteClosure(id: string): Promise<boolean>;
   
   getAttendances(slotId: string): Promise<(Attendance & { user?: User })[]>;
   getUserAttendances(userId: string): Promise<(Attendance & { slot?: AttendanceSlot & { committee?: Committee } })[]>;
   getAttendanceById(id: string): Promise<Attendance | undefined>;
   createAttendance(data: InsertAttendance): Promise<Attendance>;
   deleteAttendance(id: string): Promise<boolean>;
-  updateAttendanceStatus(id: string, status: string): Promise<Attendance | undefined>;
+  updateAttendanceStatus(id: string, status: AttendanceStatus): Promise<Attendance | undefined>;
+  recordCheckIn(id: string, status: "attended" | "late", checkIn: AttendanceCheckIn): Promise<Attendance | undefined>;
+  excuseAttendance(id: string, note: string, excusedBy: string, log: ManualAttendanceLog): Promise<Attendance | undefined>;
+  updateAttendance(id: string, data: Partial<Omit<Attendance, "id" | "slotId" | "userId">>): Promise<Attendance | undefined>;
+  createManualAttendance(data: InsertAttendance, changes: AttendanceChanges, log: ManualAttendanceLog): Promise<Attendance>;
+  updateManualAttendance(id: string, changes: AttendanceChanges, log: ManualAttendanceLog): Promise<Attendance | undefined>;
+  removeManualAttendance(id: string, log: ManualAttendanceLog): Promise<Attendance | undefined>;
+  getAttendanceAuditLogs(attendanceId: string): Promise<(AttendanceAuditLog & { actor?: User })[]>;
+  getOverdueScheduledAttendances(untilDate: string): Promise<(Attendance & { slot: AttendanceSlot; committee: Committee })[]>;
+  markAttendancesNoShow(ids: string[]): Promise<Attendance[]>;
+  promoteNextWaitlisted(slotId: string): Promise<Attendance | undefined>;
+  
+  // Shift Swaps
+  getShiftSwap(id: string): Promise<ShiftSwap | undefined>;
+  getShiftSwaps(filter: { committeeIds?: string[]; statuses?: string[]; userId?: string }): Promise<(ShiftSwap & { slot?: AttendanceSlot; committeeName?: string; shiftName?: string; offeredBy?: User; acceptedBy?: User })[]>;
+  getActiveShiftSwapForAttendance(attendanceId: string): Promise<ShiftSwap | undefined>;
+  createShiftSwap(data: InsertShiftSwap): Promise<ShiftSwap>;
+  updateShiftSwap(id: string, data: Partial<ShiftSwap>): Promise<ShiftSwap | undefined>;
+  claimShiftSwap(id: string, userId: string): Promise<ShiftSwap | undefined>;
+  completeShiftSwap(id: string, acceptedByUserId: string, actorUserId: string, reviewNote?: string | null): Promise<ShiftSwap>;
+  rejectShiftSwap(id: string, reviewedByUserId: string, reviewNote: string | null): Promise<ShiftSwap | undefined>;
+  cancelPendingShiftSwap(id: string): Promise<ShiftSwap | undefined>;
+  cancelActiveShiftSwaps(attendanceId: string, actorUserId: string): Promise<ShiftSwap[]>;
+  getShiftSwapEvents(swapId: string): Promise<(ShiftSwapEvent & { actor?: User })[]>;
+  createShiftSwapEvent(data: InsertShiftSwapEvent): Promise<ShiftSwapEvent>;
   
   getMemberActivities(committeeId: string, userId?: string, startDate?: string, endDate?: string): Promise<MemberActivity[]>;
   getMemberActivity(id: string): Promise<MemberActivity | undefined>;
@@ -127,11 +220,16 @@ export interface IStorage {
   
   // Team Invites
   getTeamInvites(teamId: string): Promise<TeamInvite[]>;
+  getTeamInvite(id: string): Promise<TeamInvite | undefined>;
   getTeamInviteByToken(token: string): Promise<TeamInvite | undefined>;
   getTeamInviteByEmail(teamId: string, email: string): Promise<TeamInvite | undefined>;
   getPendingInviteByEmail(email: string): Promise<(TeamInvite & { team?: CounselorTeam })[]>;
   createTeamInvite(data: InsertTeamInvite): Promise<TeamInvite>;
   updateTeamInviteStatus(id: string, status: string, acceptedAt?: Date): Promise<TeamInvite | undefined>;
+  updateTeamInviteDelivery(id: string, data: TeamInviteDelivery): Promise<TeamInvite | undefined>;
+  renewTeamInvite(id: string, token: string, expiresAt: Date): Promise<TeamInvite | undefined>;
+  expireStaleTeamInvites(now: Date): Promise<TeamInvite[]>;
+  getTeamInvitesDueForReminder(expiringBefore: Date): Promise<TeamInvite[]>;
   
   // Push Subscriptions
   getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
@@ -149,6 +247,22 @@ export interface IStorage {
   updateNotificationStatus(id: string, status: string, sentAt?: Date): Promise<ScheduledNotification | undefined>;
   snoozeNotification(id: string, newScheduledAt: Date): Promise<ScheduledNotification | undefined>;
   
+  // Report Subscriptions
+  getReportSubscription(committeeId: string, userId: string): Promise<ReportSubscription | undefined>;
+  upsertReportSubscription(data: InsertReportSubscription): Promise<ReportSubscription>;
+  deleteReportSubscription(committeeId: string, userId: string): Promise<boolean>;
+  getActiveReportSubscriptions(): Promise<ReportSubscription[]>;
+  markReportSubscriptionSent(id: string, periodEnd: string): Promise<void>;
+
+  // System Settings
+  getSystemSettings(): Promise<SystemSettings>;
+  updateSystemSettings(data: UpdateSystemSettings, updatedByUserId: string): Promise<SystemSettings>;
+
+  // Role Permissions
+  getRolePermissions(): Promise<RolePermission[]>;
+  setRolePermission(data: UpdateRolePermission, updatedByUserId: string): Promise<void>;
+  deleteRolePermission(data: Omit<UpdateRolePermission, "granted">): Promise<void>;
+  
   // Activity Assignments
   getActivityAssignments(activityId: string): Promise<ActivityAssignment[]>;
   getActivityAssignment(activityId: string, userId: string): Promise<ActivityAssignment | undefined>;
@@ -166,11 +280,20 @@ export interface IStorage {
 
 export class DatabaseStorage implements IStorage {
   async getCommittees(): Promise<Committee[]> {
-    return await db.select().from(committees).where(eq(committees.isActive, true));
+    return await db.select().from(committees).where(and(eq(committees.isActive, true), isNull(committees.archivedAt)));
   }
 
-  async getAllCommittees(): Promise<Committee[]> {
-    return await db.select().from(committees).where(eq(committees.isActive, true));
+  // Archived committees are left out of everything that lists committees to join or pick
+  async getAllCommittees(includeArchived = false): Promise<Committee[]> {
+    return await db
+      .select()
+      .from(committees)
+      .where(and(eq(committees.isActive, true), includeArchived ? undefined : isNull(committees.archivedAt)));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
@@ -188,7 +311,7 @@ export class DatabaseStorage implements IStorage {
     return committee;
   }
 
-  async updateCommittee(id: string, data: Partial<InsertCommittee>): Promise<Committee | undefined> {
+  async updateCommittee(id: string, data: Partial<InsertCommittee> & Partial<Pick<Committee, "parentCommitteeId" | "cascadePermissions">>): Promise<Committee | undefined> {
     const [committee] = await db.update(committees).set(data).where(eq(committees.id, id)).returning();
     return committee;
   }
@@ -197,7 +320,7 @@ export class DatabaseStorage implements IStorage {
     const members = await db
       .select()
       .from(committeeMembers)
-      .where(eq(committeeMembers.committeeId, committeeId));
+      .where(and(eq(committeeMembers.committeeId, committeeId), eq(committeeMembers.membershipStatus, "active")));
     
     const membersWithUsers = await Promise.all(
       members.map(async (member) => {
@@ -218,7 +341,13 @@ export class DatabaseStorage implements IStorage {
     const memberships = await db
       .select()
       .from(committeeMembers)
-      .where(and(eq(committeeMembers.userId, userId), eq(committeeMembers.isActive, true)));
+      .where(
+        and(
+          eq(committeeMembers.userId, userId),
+          eq(committeeMembers.isActive, true),
+          eq(committeeMembers.membershipStatus, "active")
+        )
+      );
     
     const membershipsWithCommittees = await Promise.all(
       memberships.map(async (membership) => {
@@ -230,6 +359,34 @@ export class DatabaseStorage implements IStorage {
     return membershipsWithCommittees;
   }
 
+  // Any membership row, including pending and rejected requests
+  async getCommitteeMembership(committeeId: string, userId: string): Promise<CommitteeMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(committeeMembers)
+      .where(and(eq(committeeMembers.committeeId, committeeId), eq(committeeMembers.userId, userId)));
+    return member;
+  }
+
+  async getMembershipRequests(committeeId: string): Promise<(CommitteeMember & { user?: User })[]> {
+    const rows = await db
+      .select()
+      .from(committeeMembers)
+      .leftJoin(users, eq(committeeMembers.userId, users.id))
+      .where(and(eq(committeeMembers.committeeId, committeeId), eq(committeeMembers.membershipStatus, "pending")))
+      .orderBy(committeeMembers.joinedAt);
+    return rows.map((r) => ({ ...r.committee_members, user: r.users ?? undefined }));
+  }
+
+  async getUserMembershipRequests(userId: string): Promise<(CommitteeMember & { committee?: Committee })[]> {
+    const rows = await db
+      .select()
+      .from(committeeMembers)
+      .leftJoin(committees, eq(committeeMembers.committeeId, committees.id))
+      .where(and(eq(committeeMembers.userId, userId), ne(committeeMembers.membershipStatus, "active")));
+    return rows.map((r) => ({ ...r.committee_members, committee: r.committees ?? undefined }));
+  }
+
   async getUserCommittees(userId: string): Promise<Committee[]> {
     const memberships = await this.getUserMemberships(userId);
     const committeeIds = memberships.map((m) => m.committeeId);
@@ -252,8 +409,25 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
+  // Only pending requests can be reviewed; an approved member counts as joined from the approval
+  async reviewMembershipRequest(id: string, status: "active" | "rejected", reviewedByUserId: string, reviewNote: string | null): Promise<CommitteeMember | undefined> {
+    const now = new Date();
+    const [member] = await db
+      .update(committeeMembers)
+      .set({
+        membershipStatus: status,
+        reviewedByUserId,
+        reviewedAt: now,
+        reviewNote,
+        ...(status === "active" ? { joinedAt: now } : {}),
+      })
+      .where(and(eq(committeeMembers.id, id), eq(committeeMembers.membershipStatus, "pending")))
+      .returning();
+    return member;
+  }
+
   async getAllMembers(): Promise<(CommitteeMember & { user?: User; committee?: Committee; role?: Role })[]> {
-    const members = await db.select().from(committeeMembers);
+    const members = await db.select().from(committeeMembers).where(eq(committeeMembers.membershipStatus, "active"));
     
     const membersWithDetails = await Promise.all(
       members.map(async (member) => {
@@ -321,7 +495,7 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(attendanceSlots.committeeId, committeeId),
           eq(attendanceSlots.date, date),
-          eq(attendanceSlots.shift, shift as any)
+          eq(attendanceSlots.shift, shift)
         )
       );
     return slot;
@@ -337,7 +511,7 @@ export class DatabaseStorage implements IStorage {
     return slot;
   }
 
-  async getUpcomingSlots(userId: string): Promise<(AttendanceSlot & { committeeName: string })[]> {
+  async getUpcomingSlots(userId: string): Promise<(AttendanceSlot & { committeeName: string; shiftName: string })[]> {
     const today = new Date().toISOString().split("T")[0];
     const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
     
@@ -348,10 +522,11 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
     
-    const allSlots: (AttendanceSlot & { committeeName: string })[] = [];
+    const allSlots: (AttendanceSlot & { committeeName: string; shiftName: string })[] = [];
     
     for (const committeeId of committeeIds) {
       const [committee] = await db.select().from(committees).where(eq(committees.id, committeeId));
+      const shifts = committee ? resolveCommitteeShifts(committee, await this.getShiftDefinitions(committeeId)) : [];
       const slots = await db
         .select()
         .from(attendanceSlots)
@@ -364,12 +539,120 @@ export class DatabaseStorage implements IStorage {
           )
         );
       
-      allSlots.push(...slots.map((slot) => ({ ...slot, committeeName: committee?.name || "" })));
+      allSlots.push(...slots.map((slot) => ({
+        ...slot,
+        committeeName: committee?.name || "",
+        shiftName: (committee && findCommitteeShift(committee, shifts, slot.shift)?.name) || slot.shift,
+      })));
     }
     
     return allSlots.sort((a, b) => a.date.localeCompare(b.date));
   }
 
+  // Shift Definitions
+  async getShiftDefinitions(committeeId: string): Promise<ShiftDefinition[]> {
+    return await db
+      .select()
+      .from(shiftDefinitions)
+      .where(eq(shiftDefinitions.committeeId, committeeId))
+      .orderBy(asc(shiftDefinitions.sortOrder), asc(shiftDefinitions.startTime));
+  }
+
+  async getShiftDefinition(id: string): Promise<ShiftDefinition | undefined> {
+    const [definition] = await db.select().from(shiftDefinitions).where(eq(shiftDefinitions.id, id));
+    return definition;
+  }
+
+  async createShiftDefinition(data: InsertShiftDefinition): Promise<ShiftDefinition> {
+    const [definition] = await db.insert(shiftDefinitions).values(data).returning();
+    return definition;
+  }
+
+  async updateShiftDefinition(id: string, data: Partial<InsertShiftDefinition>): Promise<ShiftDefinition | undefined> {
+    const [definition] = await db
+      .update(shiftDefinitions)
+      .set(data)
+      .where(eq(shiftDefinitions.id, id))
+      .returning();
+    return definition;
+  }
+
+  async deleteShiftDefinition(id: string): Promise<boolean> {
+    const result = await db.delete(shiftDefinitions).where(eq(shiftDefinitions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async hasSlotsForShift(committeeId: string, shift: string): Promise<boolean> {
+    const [slot] = await db
+      .select({ id: attendanceSlots.id })
+      .from(attendanceSlots)
+      .where(and(eq(attendanceSlots.committeeId, committeeId), eq(attendanceSlots.shift, shift)))
+      .limit(1);
+    return !!slot;
+  }
+
+  // Slot Templates
+  async getSlotTemplates(committeeId: string): Promise<SlotTemplate[]> {
+    return db
+      .select()
+      .from(slotTemplates)
+      .where(eq(slotTemplates.committeeId, committeeId))
+      .orderBy(slotTemplates.name);
+  }
+
+  async getSlotTemplate(id: string): Promise<SlotTemplate | undefined> {
+    const [template] = await db.select().from(slotTemplates).where(eq(slotTemplates.id, id));
+    return template;
+  }
+
+  async createSlotTemplate(data: InsertSlotTemplate): Promise<SlotTemplate> {
+    const [template] = await db.insert(slotTemplates).values(data).returning();
+    return template;
+  }
+
+  async updateSlotTemplate(id: string, data: Partial<InsertSlotTemplate>): Promise<SlotTemplate | undefined> {
+    const [template] = await db.update(slotTemplates).set(data).where(eq(slotTemplates.id, id)).returning();
+    return template;
+  }
+
+  async deleteSlotTemplate(id: string): Promise<boolean> {
+    await db.delete(slotTemplates).where(eq(slotTemplates.id, id));
+    return true;
+  }
+
+  // Closures
+  // With a committee, returns its own closures plus the global ones; without, only the global ones
+  async getClosures(committeeId: string | null, startDate: string, endDate: string): Promise<Closure[]> {
+    const scope = committeeId
+      ? or(isNull(closures.committeeId), eq(closures.committeeId, committeeId))
+      : isNull(closures.committeeId);
+    return db
+      .select()
+      .from(closures)
+      .where(and(scope, gte(closures.date, startDate), lte(closures.date, endDate)))
+      .orderBy(asc(closures.date));
+  }
+
+  async getClosure(id: string): Promise<Closure | undefined> {
+    const [closure] = await db.select().from(closures).where(eq(closures.id, id));
+    return closure;
+  }
+
+  async getClosureForDate(committeeId: string, date: string): Promise<Closure | undefined> {
+    const [closure] = await this.getClosures(committeeId, date, date);
+    return closure;
+  }
+
+  async createClosure(data: InsertClosure): Promise<Closure> {
+    const [closure] = await db.insert(closures).values(data).returning();
+    return closure;
+  }
+
+  async deleteClosure(id: string): Promise<boolean> {
+    await db.delete(closures).where(eq(closures.id, id));
+    return true;
+  }
+
   async getAttendances(slotId: string): Promise<(Attendance & { user?: User })[]> {
     const slotAttendances = await db
       .select()
@@ -418,8 +701,8 @@ export class DatabaseStorage implements IStorage {
       .from(attendances)
       .where(and(eq(attendances.slotId, data.slotId), eq(attendances.userId, data.userId)));
     
-    const confirmedRecord = existingRecord.find(a => a.status === 'confirmed');
-    if (confirmedRecord) {
+    const activeRecord = existingRecord.find(a => a.status !== 'cancelled');
+    if (activeRecord) {
       throw new Error('ALREADY_REGISTERED');
     }
     
@@ -427,7 +710,7 @@ export class DatabaseStorage implements IStorage {
     if (cancelledRecord) {
       const [updated] = await db
         .update(attendances)
-        .set({ status: 'confirmed', registeredAt: new Date(), cancelledAt: null })
+        .set({ status: data.status ?? 'scheduled', registeredAt: new Date(), cancelledAt: null })
         .where(eq(attendances.id, cancelledRecord.id))
         .returning();
       return updated;
@@ -453,7 +736,7 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
-  async updateAttendanceStatus(id: string, status: string): Promise<Attendance | undefined> {
+  async updateAttendanceStatus(id: string, status: AttendanceStatus): Promise<Attendance | undefined> {
     const [attendance] = await db
       .update(attendances)
       .set({ status })
@@ -462,6 +745,368 @@ export class DatabaseStorage implements IStorage {
     return attendance;
   }
 
+  async recordCheckIn(id: string, status: "attended" | "late", checkIn: AttendanceCheckIn): Promise<Attendance | undefined> {
+    const [attendance] = await db
+      .update(attendances)
+      .set({ ...checkIn, status, checkedInAt: new Date() })
+      .where(eq(attendances.id, id))
+      .returning();
+    return attendance;
+  }
+
+  // Only a no_show can be excused; the audit entry is written in the same transaction
+  async excuseAttendance(id: string, note: string, excusedBy: string, log: ManualAttendanceLog): Promise<Attendance | undefined> {
+    return db.transaction(async (tx) => {
+      const [attendance] = await tx
+        .update(attendances)
+        .set({ status: "excused", excuseNote: note, excusedBy, excusedAt: new Date() })
+        .where(and(eq(attendances.id, id), eq(attendances.status, "no_show")))
+        .returning();
+      if (!attendance) return undefined;
+      await tx.insert(attendanceAuditLogs).values({ ...log, attendanceId: id });
+      return attendance;
+    });
+  }
+
+  async updateAttendance(id: string, data: Partial<Omit<Attendance, "id" | "slotId" | "userId">>): Promise<Attendance | undefined> {
+    const [attendance] = await db.update(attendances).set(data).where(eq(attendances.id, id)).returning();
+    return attendance;
+  }
+
+  // Manual registrations, corrections and removals write the attendance and its audit entry
+  // in one transaction, so no manual change is left without its log. Registering works like
+  // createAttendance: a cancelled record for the same slot is reused.
+  async createManualAttendance(data: InsertAttendance, changes: AttendanceChanges, log: ManualAttendanceLog): Promise<Attendance> {
+    return db.transaction(async (tx) => {
+      const existingRecords = await tx
+        .select()
+        .from(attendances)
+        .where(and(eq(attendances.slotId, data.slotId), eq(attendances.userId, data.userId)))
+        .for("update");
+      if (existingRecords.some(a => a.status !== 'cancelled')) {
+        throw new Error('ALREADY_REGISTERED');
+      }
+      
+      const cancelledRecord = existingRecords.find(a => a.status === 'cancelled');
+      let attendance: Attendance;
+      if (cancelledRecord) {
+        [attendance] = await tx
+          .update(attendances)
+          .set({ ...changes, registeredAt: new Date(), cancelledAt: null })
+          .where(eq(attendances.id, cancelledRecord.id))
+          .returning();
+      } else {
+        try {
+          [attendance] = await tx.insert(attendances).values({ ...data, ...changes }).returning();
+        } catch (error: any) {
+          if (error.code === '23505') {
+            throw new Error('ALREADY_REGISTERED');
+          }
+          throw error;
+        }
+      }
+      
+      await tx.insert(attendanceAuditLogs).values({ ...log, attendanceId: attendance.id });
+      return attendance;
+    });
+  }
+  
+  async updateManualAttendance(id: string, changes: AttendanceChanges, log: ManualAttendanceLog): Promise<Attendance | undefined> {
+    return db.transaction(async (tx) => {
+      const [attendance] = await tx.update(attendances).set(changes).where(eq(attendances.id, id)).returning();
+      if (!attendance) return undefined;
+      await tx.insert(attendanceAuditLogs).values({ ...log, attendanceId: id });
+      return attendance;
+    });
+  }
+  
+  async removeManualAttendance(id: string, log: ManualAttendanceLog): Promise<Attendance | undefined> {
+    return db.transaction(async (tx) => {
+      const [attendance] = await tx
+        .update(attendances)
+        .set({ status: "cancelled", cancelledAt: new Date() })
+        .where(eq(attendances.id, id))
+        .returning();
+      if (!attendance) return undefined;
+      await tx.insert(attendanceAuditLogs).values({ ...log, attendanceId: id });
+      return attendance;
+    });
+  }
+
+  async getAttendanceAuditLogs(attendanceId: string): Promise<(AttendanceAuditLog & { actor?: User })[]> {
+    const results = await db
+      .select()
+      .from(attendanceAuditLogs)
+      .leftJoin(users, eq(attendanceAuditLogs.actorUserId, users.id))
+      .where(eq(attendanceAuditLogs.attendanceId, attendanceId))
+      .orderBy(desc(attendanceAuditLogs.createdAt));
+    
+    return results.map(r => ({
+      ...r.attendance_audit_logs,
+      actor: r.users || undefined,
+    }));
+  }
+
+  async getOverdueScheduledAttendances(untilDate: string): Promise<(Attendance & { slot: AttendanceSlot; committee: Committee })[]> {
+    const rows = await db
+      .select({ attendance: attendances, slot: attendanceSlots, committee: committees })
+      .from(attendances)
+      .innerJoin(attendanceSlots, eq(attendances.slotId, attendanceSlots.id))
+      .innerJoin(committees, eq(attendanceSlots.committeeId, committees.id))
+      .where(and(eq(attendances.status, "scheduled"), lte(attendanceSlots.date, untilDate)));
+    return rows.map((row) => ({ ...row.attendance, slot: row.slot, committee: row.committee }));
+  }
+
+  // Only rows still "scheduled" are touched, so a check-in that lands while the job runs wins
+  async markAttendancesNoShow(ids: string[]): Promise<Attendance[]> {
+    if (ids.length === 0) return [];
+    return db
+      .update(attendances)
+      .set({ status: "no_show" })
+      .where(and(inArray(attendances.id, ids), eq(attendances.status, "scheduled")))
+      .returning();
+  }
+
+  // Moves the oldest waitlisted attendance into a freed spot; the slot row is locked so
+  // two simultaneous cancellations can't promote past maxCapacity
+  async promoteNextWaitlisted(slotId: string): Promise<Attendance | undefined> {
+    return db.transaction(async (tx) => {
+      const [slot] = await tx
+        .select()
+        .from(attendanceSlots)
+        .where(eq(attendanceSlots.id, slotId))
+        .for("update");
+      if (!slot || slot.isBlocked) {
+        return undefined;
+      }
+      
+      const slotAttendances = await tx
+        .select()
+        .from(attendances)
+        .where(eq(attendances.slotId, slotId))
+        .orderBy(asc(attendances.registeredAt));
+      
+      const occupied = slotAttendances.filter(a => occupiesSlot(a.status)).length;
+      const next = slotAttendances.find(a => a.status === 'waitlisted');
+      if (!next || occupied >= slot.maxCapacity) {
+        return undefined;
+      }
+      
+      const [promoted] = await tx
+        .update(attendances)
+        .set({ status: 'scheduled' })
+        .where(and(eq(attendances.id, next.id), eq(attendances.status, 'waitlisted')))
+        .returning();
+      return promoted;
+    });
+  }
+
+  // Shift Swaps
+  async getShiftSwap(id: string): Promise<ShiftSwap | undefined> {
+    const [swap] = await db.select().from(shiftSwaps).where(eq(shiftSwaps.id, id));
+    return swap;
+  }
+
+  async getShiftSwaps(filter: { committeeIds?: string[]; statuses?: string[]; userId?: string }): Promise<(ShiftSwap & { slot?: AttendanceSlot; committeeName?: string; shiftName?: string; offeredBy?: User; acceptedBy?: User })[]> {
+    const conditions = [];
+    if (filter.committeeIds) {
+      if (filter.committeeIds.length === 0) return [];
+      conditions.push(inArray(shiftSwaps.committeeId, filter.committeeIds));
+    }
+    if (filter.statuses) {
+      conditions.push(inArray(shiftSwaps.status, filter.statuses as ShiftSwap["status"][]));
+    }
+    if (filter.userId) {
+      conditions.push(or(eq(shiftSwaps.offeredByUserId, filter.userId), eq(shiftSwaps.acceptedByUserId, filter.userId)));
+    }
+    
+    const swaps = await db
+      .select()
+      .from(shiftSwaps)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(shiftSwaps.createdAt));
+    
+    return Promise.all(
+      swaps.map(async (swap) => {
+        const [row] = await db
+          .select({ slot: attendanceSlots, committee: committees })
+          .from(attendances)
+          .innerJoin(attendanceSlots, eq(attendances.slotId, attendanceSlots.id))
+          .innerJoin(committees, eq(attendanceSlots.committeeId, committees.id))
+          .where(eq(attendances.id, swap.attendanceId));
+        const shift = row
+          ? findCommitteeShift(row.committee, resolveCommitteeShifts(row.committee, await this.getShiftDefinitions(row.committee.id)), row.slot.shift)
+          : undefined;
+        const [offeredBy] = await db.select().from(users).where(eq(users.id, swap.offeredByUserId));
+        const [acceptedBy] = swap.acceptedByUserId
+          ? await db.select().from(users).where(eq(users.id, swap.acceptedByUserId))
+          : [];
+        return { ...swap, slot: row?.slot, committeeName: row?.committee.name, shiftName: shift?.name, offeredBy, acceptedBy };
+      })
+    );
+  }
+
+  async getActiveShiftSwapForAttendance(attendanceId: string): Promise<ShiftSwap | undefined> {
+    const [swap] = await db
+      .select()
+      .from(shiftSwaps)
+      .where(
+        and(
+          eq(shiftSwaps.attendanceId, attendanceId),
+          inArray(shiftSwaps.status, ["open", "pending_approval"])
+        )
+      );
+    return swap;
+  }
+
+  async createShiftSwap(data: InsertShiftSwap): Promise<ShiftSwap> {
+    const [swap] = await db.insert(shiftSwaps).values(data).returning();
+    return swap;
+  }
+
+  async updateShiftSwap(id: string, data: Partial<ShiftSwap>): Promise<ShiftSwap | undefined> {
+    const [swap] = await db.update(shiftSwaps).set(data).where(eq(shiftSwaps.id, id)).returning();
+    return swap;
+  }
+
+  // Reserves an open swap for a colleague while it waits for admin approval.
+  // Only succeeds if nobody else claimed it first.
+  async claimShiftSwap(id: string, userId: string): Promise<ShiftSwap | undefined> {
+    const [swap] = await db
+      .update(shiftSwaps)
+      .set({ status: "pending_approval", acceptedByUserId: userId, acceptedAt: new Date() })
+      .where(and(eq(shiftSwaps.id, id), eq(shiftSwaps.status, "open")))
+      .returning();
+    return swap;
+  }
+
+  // Hands the attendance row over to the colleague. The row keeps its slot and status, so
+  // the slot's confirmed count (and maxCapacity) is unchanged. The "accepted" (or, for a swap
+  // waiting on an admin, "approved") event is written with the transfer, so a swap that
+  // turns out to be unavailable leaves no trace in its history.
+  async completeShiftSwap(id: string, acceptedByUserId: string, actorUserId: string, reviewNote: string | null = null): Promise<ShiftSwap> {
+    return db.transaction(async (tx) => {
+      const [swap] = await tx.select().from(shiftSwaps).where(eq(shiftSwaps.id, id)).for("update");
+      if (!swap || (swap.status !== "open" && swap.status !== "pending_approval")) {
+        throw new Error('SWAP_UNAVAILABLE');
+      }
+      if (swap.status === "pending_approval" && swap.acceptedByUserId !== acceptedByUserId) {
+        throw new Error('SWAP_UNAVAILABLE');
+      }
+      
+      const [attendance] = await tx.select().from(attendances).where(eq(attendances.id, swap.attendanceId)).for("update");
+      if (!attendance || attendance.status !== 'scheduled' || attendance.userId !== swap.offeredByUserId) {
+        throw new Error('SWAP_UNAVAILABLE');
+      }
+      
+      const acceptorRecords = await tx
+        .select()
+        .from(attendances)
+        .where(and(eq(attendances.slotId, attendance.slotId), eq(attendances.userId, acceptedByUserId)));
+      if (acceptorRecords.some(a => occupiesSlot(a.status))) {
+        throw new Error('ALREADY_REGISTERED');
+      }
+      
+      // The colleague no longer needs their place in this slot's waitlist
+      for (const record of acceptorRecords.filter(a => a.status === 'waitlisted')) {
+        await tx
+          .update(attendances)
+          .set({ status: 'cancelled', cancelledAt: new Date() })
+          .where(eq(attendances.id, record.id));
+      }
+      
+      await tx
+        .update(attendances)
+        .set({ userId: acceptedByUserId })
+        .where(eq(attendances.id, attendance.id));
+      
+      const now = new Date();
+      const approving = swap.status === "pending_approval";
+      const [completed] = await tx
+        .update(shiftSwaps)
+        .set({
+          status: "completed",
+          acceptedByUserId,
+          acceptedAt: swap.acceptedAt ?? now,
+          resolvedAt: now,
+          reviewedByUserId: swap.requiresApproval ? actorUserId : null,
+          ...(approving && reviewNote ? { reviewNote } : {}),
+        })
+        .where(eq(shiftSwaps.id, id))
+        .returning();
+      
+      // now() is fixed for the whole transaction; clock_timestamp() keeps the two events in order
+      await tx.insert(shiftSwapEvents).values({
+        swapId: id,
+        actorUserId,
+        action: approving ? "approved" : "accepted",
+        note: approving ? reviewNote : null,
+        createdAt: sql`clock_timestamp()`,
+      });
+      await tx.insert(shiftSwapEvents).values({ swapId: id, actorUserId, action: "completed", createdAt: sql`clock_timestamp()` });
+      return completed;
+    });
+  }
+
+  // Only a swap still waiting for approval can be rejected; undefined when an approval or
+  // a withdrawal resolved it first
+  async rejectShiftSwap(id: string, reviewedByUserId: string, reviewNote: string | null): Promise<ShiftSwap | undefined> {
+    const [swap] = await db
+      .update(shiftSwaps)
+      .set({ status: "rejected", reviewedByUserId, reviewNote, resolvedAt: new Date() })
+      .where(and(eq(shiftSwaps.id, id), eq(shiftSwaps.status, "pending_approval")))
+      .returning();
+    return swap;
+  }
+  
+  // Cancels a swap waiting for approval whose shift can no longer be transferred, unless
+  // something else already resolved it
+  async cancelPendingShiftSwap(id: string): Promise<ShiftSwap | undefined> {
+    const [swap] = await db
+      .update(shiftSwaps)
+      .set({ status: "cancelled", resolvedAt: new Date() })
+      .where(and(eq(shiftSwaps.id, id), eq(shiftSwaps.status, "pending_approval")))
+      .returning();
+    return swap;
+  }
+  
+  async cancelActiveShiftSwaps(attendanceId: string, actorUserId: string): Promise<ShiftSwap[]> {
+    const cancelled = await db
+      .update(shiftSwaps)
+      .set({ status: "cancelled", resolvedAt: new Date() })
+      .where(
+        and(
+          eq(shiftSwaps.attendanceId, attendanceId),
+          inArray(shiftSwaps.status, ["open", "pending_approval"])
+        )
+      )
+      .returning();
+    
+    for (const swap of cancelled) {
+      await db.insert(shiftSwapEvents).values({ swapId: swap.id, actorUserId, action: "cancelled" });
+    }
+    return cancelled;
+  }
+
+  async getShiftSwapEvents(swapId: string): Promise<(ShiftSwapEvent & { actor?: User })[]> {
+    const results = await db
+      .select()
+      .from(shiftSwapEvents)
+      .leftJoin(users, eq(shiftSwapEvents.actorUserId, users.id))
+      .where(eq(shiftSwapEvents.swapId, swapId))
+      .orderBy(asc(shiftSwapEvents.createdAt));
+    
+    return results.map(r => ({
+      ...r.shift_swap_events,
+      actor: r.users || undefined,
+    }));
+  }
+
+  async createShiftSwapEvent(data: InsertShiftSwapEvent): Promise<ShiftSwapEvent> {
+    const [event] = await db.insert(shiftSwapEvents).values(data).returning();
+    return event;
+  }
+
   async getMemberActivities(
     committeeId: string,
     userId?: string,
@@ -651,17 +1296,25 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(attendances)
       .innerJoin(attendanceSlots, eq(attendances.slotId, attendanceSlots.id))
-      .where(eq(attendances.userId, userId));
+      .innerJoin(committees, eq(attendanceSlots.committeeId, committees.id))
+      .where(and(eq(attendances.userId, userId), eq(attendances.status, "scheduled")));
     
-    return userAttendanceList
-      .filter(row => {
-        const slotDate = new Date(row.attendance_slots.date);
-        const shift = row.attendance_slots.shift;
-        const startHour = shift === "morning" ? 9 : shift === "afternoon" ? 14 : 9;
-        slotDate.setHours(startHour, 0, 0, 0);
-        return slotDate >= windowStart && slotDate <= windowEnd;
-      })
-      .map(row => row.attendances);
+    const shiftsByCommittee = new Map<string, CommitteeShift[]>();
+    const dueAttendances: Attendance[] = [];
+    for (const row of userAttendanceList) {
+      const committee = row.committees;
+      if (!shiftsByCommittee.has(committee.id)) {
+        shiftsByCommittee.set(committee.id, resolveCommitteeShifts(committee, await this.getShiftDefinitions(committee.id)));
+      }
+      const shift = findCommitteeShift(committee, shiftsByCommittee.get(committee.id)!, row.attendance_slots.shift);
+      const [hours, mins] = (shift?.startTime || "09:00").split(":").map(Number);
+      const slotDate = new Date(row.attendance_slots.date);
+      slotDate.setHours(hours, mins, 0, 0);
+      if (slotDate >= windowStart && slotDate <= windowEnd) {
+        dueAttendances.push(row.attendances);
+      }
+    }
+    return dueAttendances;
   }
 
   async getUserActivitiesForNotification(userId: string, minutesBefore: number): Promise<MemberActivity[]> {
@@ -670,12 +1323,21 @@ export class DatabaseStorage implements IStorage {
     const windowStart = new Date(targetTime.getTime() - 30000);
     const windowEnd = new Date(targetTime.getTime() + 30000);
     
-    const activities = await db
+    // Only committees the user is still active in; offboarding stops these reminders
+    const rows = await db
       .select()
       .from(memberActivities)
+      .innerJoin(
+        committeeMembers,
+        and(
+          eq(committeeMembers.committeeId, memberActivities.committeeId),
+          eq(committeeMembers.userId, memberActivities.userId),
+          eq(committeeMembers.isActive, true)
+        )
+      )
       .where(eq(memberActivities.userId, userId));
     
-    return activities.filter(activity => {
+    return rows.map(row => row.member_activities).filter(activity => {
       const activityDate = new Date(activity.activityDate);
       const startTime = activity.startTime || "09:00";
       const [hours, mins] = startTime.split(":").map(Number);
@@ -931,6 +1593,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(teamInvites).where(eq(teamInvites.teamId, teamId));
   }
 
+  async getTeamInvite(id: string): Promise<TeamInvite | undefined> {
+    const [invite] = await db.select().from(teamInvites).where(eq(teamInvites.id, id));
+    return invite;
+  }
+
   async getTeamInviteByToken(token: string): Promise<TeamInvite | undefined> {
     const [invite] = await db.select().from(teamInvites).where(eq(teamInvites.token, token));
     return invite;
@@ -943,7 +1610,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(teamInvites.teamId, teamId),
         eq(teamInvites.email, email.toLowerCase()),
-        eq(teamInvites.status, "pending")
+        eq(teamInvites.status, "pending"),
+        gt(teamInvites.expiresAt, new Date())
       ));
     return invite;
   }
@@ -954,7 +1622,8 @@ export class DatabaseStorage implements IStorage {
       .from(teamInvites)
       .where(and(
         eq(teamInvites.email, email.toLowerCase()),
-        eq(teamInvites.status, "pending")
+        eq(teamInvites.status, "pending"),
+        gt(teamInvites.expiresAt, new Date())
       ));
     
     const invitesWithTeam = await Promise.all(
@@ -987,6 +1656,55 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async updateTeamInviteDelivery(id: string, data: TeamInviteDelivery): Promise<TeamInvite | undefined> {
+    const [updated] = await db
+      .update(teamInvites)
+      .set(data)
+      .where(eq(teamInvites.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Reissues an invite in place with a new token; delivery tracking starts over
+  async renewTeamInvite(id: string, token: string, expiresAt: Date): Promise<TeamInvite | undefined> {
+    const [updated] = await db
+      .update(teamInvites)
+      .set({
+        token,
+        expiresAt,
+        status: "pending",
+        deliveryStatus: "pending",
+        sendCount: 0,
+        lastSentAt: null,
+        lastError: null,
+        reminderSentAt: null,
+      })
+      .where(eq(teamInvites.id, id))
+      .returning();
+    return updated;
+  }
+
+  async expireStaleTeamInvites(now: Date): Promise<TeamInvite[]> {
+    return await db
+      .update(teamInvites)
+      .set({ status: "expired" })
+      .where(and(eq(teamInvites.status, "pending"), lt(teamInvites.expiresAt, now)))
+      .returning();
+  }
+
+  // Pending invites that expire before the given time and haven't been reminded yet
+  async getTeamInvitesDueForReminder(expiringBefore: Date): Promise<TeamInvite[]> {
+    return await db
+      .select()
+      .from(teamInvites)
+      .where(and(
+        eq(teamInvites.status, "pending"),
+        isNull(teamInvites.reminderSentAt),
+        gte(teamInvites.expiresAt, new Date()),
+        lte(teamInvites.expiresAt, expiringBefore)
+      ));
+  }
+
   // Push Subscriptions
   async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
     return await db.select().from(pushSubscriptions).where(
@@ -1099,6 +1817,90 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Report Subscriptions
+  async getReportSubscription(committeeId: string, userId: string): Promise<ReportSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.committeeId, committeeId), eq(reportSubscriptions.userId, userId)));
+    return subscription;
+  }
+
+  async upsertReportSubscription(data: InsertReportSubscription): Promise<ReportSubscription> {
+    const existing = await this.getReportSubscription(data.committeeId, data.userId);
+    if (existing) {
+      const [updated] = await db
+        .update(reportSubscriptions)
+        .set({ frequency: data.frequency, attachmentFormat: data.attachmentFormat, isActive: data.isActive })
+        .where(eq(reportSubscriptions.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [subscription] = await db.insert(reportSubscriptions).values(data).returning();
+    return subscription;
+  }
+
+  async deleteReportSubscription(committeeId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.committeeId, committeeId), eq(reportSubscriptions.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getActiveReportSubscriptions(): Promise<ReportSubscription[]> {
+    return await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.isActive, true));
+  }
+
+  async markReportSubscriptionSent(id: string, periodEnd: string): Promise<void> {
+    await db
+      .update(reportSubscriptions)
+      .set({ lastPeriodEnd: periodEnd, lastSentAt: new Date() })
+      .where(eq(reportSubscriptions.id, id));
+  }
+
+  // System Settings
+  // The row is created on first write; until then the column defaults apply
+  async getSystemSettings(): Promise<SystemSettings> {
+    const [settings] = await db.select().from(systemSettings).where(eq(systemSettings.id, "global"));
+    return settings ?? { id: "global", requireTwoFactorForAdmins: false, updatedByUserId: null, updatedAt: null };
+  }
+
+  async updateSystemSettings(data: UpdateSystemSettings, updatedByUserId: string): Promise<SystemSettings> {
+    const values = { ...data, updatedByUserId, updatedAt: new Date() };
+    const [settings] = await db
+      .insert(systemSettings)
+      .values({ id: "global", ...values })
+      .onConflictDoUpdate({ target: systemSettings.id, set: values })
+      .returning();
+    return settings;
+  }
+
+  // Role Permissions
+  async getRolePermissions(): Promise<RolePermission[]> {
+    return await db.select().from(rolePermissions);
+  }
+
+  async setRolePermission(data: UpdateRolePermission, updatedByUserId: string): Promise<void> {
+    await db
+      .insert(rolePermissions)
+      .values({ ...data, updatedByUserId, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [rolePermissions.subjectType, rolePermissions.subjectKey, rolePermissions.capability],
+        set: { granted: data.granted, updatedByUserId, updatedAt: new Date() },
+      });
+  }
+
+  async deleteRolePermission(data: Omit<UpdateRolePermission, "granted">): Promise<void> {
+    await db
+      .delete(rolePermissions)
+      .where(and(
+        eq(rolePermissions.subjectType, data.subjectType),
+        eq(rolePermissions.subjectKey, data.subjectKey),
+        eq(rolePermissions.capability, data.capability)
+      ));
+  }
+
   // Activity Assignments
   async getActivityAssignments(activityId: string): Promise<ActivityAssignment[]> {
     return await db
@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from "crypto";
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { base32Encode, generateTotpSecret, getOtpAuthUrl, verifyTotp } from "./totp";
+import { users, twoFactorRecoveryCodes, type User } from "@shared/models/auth";
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "Comités";
+const RECOVERY_CODE_COUNT = 10;
+
+// Leadership roles covered by the "mandatory 2FA for admins" setting, along with
+// committee admins and super admins. Auxiliaries and regular members are not.
+const LEADERSHIP_ROLES_REQUIRING_2FA = ["counselor_president", "counselor_secretary", "counselor", "secretary"];
+
+export async function isTwoFactorMandatory(user: Pick<User, "id" | "isSuperAdmin">): Promise<boolean> {
+  const settings = await storage.getSystemSettings();
+  if (!settings.requireTwoFactorForAdmins) return false;
+  if (user.isSuperAdmin) return true;
+  const memberships = await storage.getUserMemberships(user.id);
+  return memberships.some((m) => m.isAdmin || LEADERSHIP_ROLES_REQUIRING_2FA.includes(m.leadershipRole));
+}
+
+export function createTwoFactorEnrollment(email: string): { secret: string; otpauthUrl: string } {
+  const secret = generateTotpSecret();
+  return { secret, otpauthUrl: getOtpAuthUrl(secret, email, TWO_FACTOR_ISSUER) };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Replaces every recovery code of the user and returns the new ones in plain text.
+// They are only shown once; the database keeps their hashes.
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+
+  await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+  await db.insert(twoFactorRecoveryCodes).values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })));
+  return codes;
+}
+
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(twoFactorRecoveryCodes)
+    .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+  return row?.count ?? 0;
+}
+
+// Confirms enrollment with a first code from the app. Returns the recovery codes, or
+// null when the code doesn't match the secret being enrolled.
+export async function enableTwoFactor(userId: string, secret: string, code: string): Promise<string[] | null> {
+  const step = verifyTotp(secret, code);
+  if (step === null) return null;
+
+  await db
+    .update(users)
+    .set({ twoFactorSecret: secret, twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+  return replaceRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await db
+    .update(users)
+    .set({ twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastUsedStep: null, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+  await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+}
+
+// A code is accepted once: the conditional update fails if this step (or a later one)
+// was already used, which also covers two requests racing with the same code
+export async function verifyTwoFactorCode(user: User, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret || !user.twoFactorEnabledAt) return false;
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) return false;
+
+  const updated = await db
+    .update(users)
+    .set({ twoFactorLastUsedStep: step })
+    .where(and(eq(users.id, user.id), or(isNull(users.twoFactorLastUsedStep), lt(users.twoFactorLastUsedStep, step))))
+    .returning({ id: users.id });
+  return updated.length > 0;
+}
+
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const used = await db
+    .update(twoFactorRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: twoFactorRecoveryCodes.id });
+  return used.length > 0;
+}
@@ -0,0 +1,63 @@
+import { timeToMinutes, type CommitteeShift } from "./shifts";
+import type { Attendance } from "./schema";
+
+// Values of the attendance_status enum behind attendances.status
+export const ATTENDANCE_STATUSES = [
+  "scheduled",
+  "attended",
+  "late",
+  "no_show",
+  "excused",
+  "cancelled",
+  "waitlisted",
+] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+// Statuses an admin can set when registering or correcting an attendance by hand
+export const MANUAL_ATTENDANCE_STATUSES = ["scheduled", "attended", "late", "no_show", "excused"] as const;
+
+// Statuses that take one of the slot's places
+export const OCCUPYING_STATUSES: readonly AttendanceStatus[] = ["scheduled", "attended", "late"];
+
+// Statuses that count as having shown up for the shift
+export const PRESENT_STATUSES: readonly AttendanceStatus[] = ["attended", "late"];
+
+export const attendanceStatusLabels: Record<AttendanceStatus, string> = {
+  scheduled: "Programado",
+  attended: "Asistió",
+  late: "Retardo",
+  no_show: "No asistió",
+  excused: "Justificado",
+  cancelled: "Cancelado",
+  waitlisted: "En lista de espera",
+};
+
+export type CheckInVerification = NonNullable<Attendance["checkInVerification"]>;
+
+export const checkInVerificationLabels: Record<CheckInVerification, string> = {
+  on_site: "En oficina",
+  remote: "Remota",
+  no_location: "Sin ubicación",
+  not_required: "Sin geocerca",
+  kiosk: "Kiosco QR",
+  manual: "Registro manual",
+};
+
+export function occupiesSlot(status: string): boolean {
+  return OCCUPYING_STATUSES.includes(status as AttendanceStatus);
+}
+
+export function isPresentStatus(status: string): boolean {
+  return PRESENT_STATUSES.includes(status as AttendanceStatus);
+}
+
+// Checking in after the shift start plus the committee's grace period counts as late
+export function getCheckInStatus(shift: CommitteeShift, now: Date, graceMinutes: number): "attended" | "late" {
+  const current = now.getHours() * 60 + now.getMinutes();
+  return current > timeToMinutes(shift.startTime) + graceMinutes ? "late" : "attended";
+}
+
+export function hasShiftEnded(shift: CommitteeShift, now: Date): boolean {
+  return now.getHours() * 60 + now.getMinutes() > timeToMinutes(shift.endTime);
+}
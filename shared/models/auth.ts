@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { index, jsonb, pgTable, timestamp, varchar, text, boolean } from "drizzle-orm/pg-core";
+import { index, integer, jsonb, pgTable, pgEnum, timestamp, varchar, text, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,16 +21,94 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   isSuperAdmin: boolean("is_super_admin").notNull().default(false),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  twoFactorSecret: text("two_factor_secret"), // base32 TOTP secret, set once 2FA is confirmed
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"), // rejects replaying a code within its window
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use links emailed to users. Only the SHA-256 of the token is stored.
+export const authTokenPurposeEnum = pgEnum("auth_token_purpose", [
+  "password_setup",
+  "password_reset",
+  "email_verification",
+]);
+
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    purpose: authTokenPurposeEnum("purpose").notNull(),
+    tokenHash: text("token_hash").notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_auth_tokens_user").on(table.userId, table.purpose)]
+);
+
+// Single-use codes to sign in when the authenticator app is not available
+export const twoFactorRecoveryCodes = pgTable(
+  "two_factor_recovery_codes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_two_factor_recovery_user").on(table.userId)]
+);
+
+// Every password or 2FA code attempt at login, kept so throttling works across restarts
+// and across every process that shares the database
+export const loginAttempts = pgTable(
+  "login_attempts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    email: varchar("email").notNull(), // lowercased as typed; may not belong to any account
+    ipAddress: varchar("ip_address").notNull(),
+    succeeded: boolean("succeeded").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_login_attempts_email").on(table.email, table.createdAt),
+    index("IDX_login_attempts_ip").on(table.ipAddress, table.createdAt),
+  ]
+);
+
+export const lockoutScopeEnum = pgEnum("lockout_scope", ["account", "ip"]);
+
+// A temporary block on an email or an IP address after too many failed attempts.
+// Super admins can lift it early from the admin page.
+export const accountLockouts = pgTable(
+  "account_lockouts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: lockoutScopeEnum("scope").notNull(),
+    key: varchar("key").notNull(), // the email or the IP address, depending on scope
+    failedAttempts: integer("failed_attempts").notNull(),
+    lockedUntil: timestamp("locked_until").notNull(),
+    unlockedAt: timestamp("unlocked_at"),
+    unlockedByUserId: varchar("unlocked_by_user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_account_lockouts_key").on(table.scope, table.key)]
+);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   passwordHash: true,
   isSuperAdmin: true,
+  emailVerifiedAt: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastUsedStep: true,
 });
 
 export const registerSchema = z.object({
@@ -50,7 +128,50 @@ export const loginSchema = z.object({
   password: z.string().min(1, "La contraseña es requerida"),
 });
 
+export const setPasswordSchema = z.object({
+  token: z.string().min(1, "El enlace no es válido"),
+  password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Correo electrónico inválido"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "La contraseña actual es requerida"),
+  newPassword: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "El enlace no es válido"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "El código debe tener 6 dígitos"),
+});
+
+// The second login step takes either a code from the app or a recovery code
+export const twoFactorLoginSchema = z.object({
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine((data) => data.code || data.recoveryCode, {
+  message: "Ingresa el código de verificación",
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "La contraseña es requerida"),
+  code: z.string().min(1, "Ingresa el código de verificación"),
+});
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type SetPasswordInput = z.infer<typeof setPasswordSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenPurpose = AuthToken["purpose"];
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type LockoutScope = AccountLockout["scope"];
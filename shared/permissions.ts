@@ -0,0 +1,84 @@
+// Named capabilities checked by requirePermission on the server. Super admins always have
+// all of them; everyone else gets the union of what their roles in the committee grant.
+export const CAPABILITIES = [
+  "committee.configure",
+  "members.manage",
+  "slots.manage",
+  "attendance.manage",
+  "swaps.approve",
+  "reports.view",
+  "documents.delete",
+  "audit.view",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export const capabilityLabels: Record<Capability, { label: string; description: string }> = {
+  "committee.configure": {
+    label: "Configurar el comité",
+    description: "Turnos, plantillas, geocerca, cuota mensual, días inhábiles y kiosco",
+  },
+  "members.manage": {
+    label: "Gestionar miembros",
+    description: "Agregar miembros y nombrar administradores",
+  },
+  "slots.manage": {
+    label: "Crear horarios",
+    description: "Crear y generar horarios de asistencia",
+  },
+  "attendance.manage": {
+    label: "Gestionar asistencias",
+    description: "Registrar, justificar y corregir asistencias de otros miembros",
+  },
+  "swaps.approve": {
+    label: "Aprobar intercambios",
+    description: "Aprobar o rechazar intercambios de turno",
+  },
+  "reports.view": {
+    label: "Ver reportes",
+    description: "Reportes de asistencia, estadísticas y resúmenes por correo",
+  },
+  "documents.delete": {
+    label: "Eliminar documentos",
+    description: "Eliminar documentos subidos por otros miembros",
+  },
+  "audit.view": {
+    label: "Ver auditoría",
+    description: "Consultar y exportar el registro de cambios del comité",
+  },
+};
+
+// A membership is described by several subjects at once: whether it is a committee admin,
+// its leadership role, its custom role (roles table id) and its place in a counselor team
+export const PERMISSION_SUBJECT_TYPES = ["system", "leadership", "role", "team"] as const;
+
+export type PermissionSubjectType = (typeof PERMISSION_SUBJECT_TYPES)[number];
+
+export interface PermissionSubject {
+  subjectType: PermissionSubjectType;
+  subjectKey: string;
+}
+
+export const systemSubjectLabels: Record<string, string> = {
+  admin: "Administrador del comité",
+  member: "Miembro",
+};
+
+export const leadershipSubjectLabels: Record<string, string> = {
+  counselor_president: "Consejero Presidente",
+  counselor_secretary: "Consejero Secretario",
+  counselor: "Consejero",
+  secretary: "Secretario",
+  auxiliary: "Auxiliar",
+};
+
+export const teamSubjectLabels: Record<string, string> = {
+  owner: "Titular de equipo",
+  auxiliary: "Auxiliar de equipo",
+};
+
+// Grants that apply until a super admin changes them: committee admins can do everything,
+// which is what the isAdmin flag meant before capabilities existed
+export function isGrantedByDefault(subject: PermissionSubject, _capability: Capability): boolean {
+  return subject.subjectType === "system" && subject.subjectKey === "admin";
+}
@@ -1,12 +1,20 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, date, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, date, pgEnum, doublePrecision, uniqueIndex, index, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ATTENDANCE_STATUSES, MANUAL_ATTENDANCE_STATUSES } from "./attendance-status";
+import { CAPABILITIES, PERMISSION_SUBJECT_TYPES } from "./permissions";
 
 export * from "./models/auth";
 
 export const systemRoleEnum = pgEnum("system_role", ["super_admin", "user"]);
+// Built-in shift keys. Committees can define their own shifts (see shiftDefinitions),
+// so attendance_slots.shift is a plain text key rather than this enum.
 export const shiftEnum = pgEnum("shift", ["morning", "afternoon", "full_day"]);
+// off: location is stored but never checked; flag: check-ins outside the radius are marked
+// remote; enforce: check-ins outside the radius (or without location) are rejected
+export const geofenceModeEnum = pgEnum("geofence_mode", ["off", "flag", "enforce"]);
+export const checkInVerificationEnum = pgEnum("check_in_verification", ["on_site", "remote", "no_location", "not_required", "kiosk", "manual"]);
 export const leadershipRoleEnum = pgEnum("leadership_role", [
   "counselor_president",   // Consejero Presidente (for both district and general)
   "counselor_secretary",   // Consejero Secretario (district only)
@@ -25,13 +33,26 @@ export const committees = pgTable("committees", {
   isActive: boolean("is_active").notNull().default(true),
   isGeneral: boolean("is_general").notNull().default(false),
   usesShifts: boolean("uses_shifts").notNull().default(true),
-  isRestricted: boolean("is_restricted").notNull().default(false),
+  isRestricted: boolean("is_restricted").notNull().default(false), // joining needs an admin's approval
+  requiresVerifiedEmail: boolean("requires_verified_email").notNull().default(false),
   workingDays: text("working_days").array().notNull().default(sql`ARRAY['monday','tuesday','wednesday','thursday','friday']`),
   morningStart: text("morning_start").notNull().default("09:00"),
   morningEnd: text("morning_end").notNull().default("13:00"),
   afternoonStart: text("afternoon_start").notNull().default("14:00"),
   afternoonEnd: text("afternoon_end").notNull().default("18:00"),
   maxPerShift: integer("max_per_shift").notNull().default(2),
+  swapsRequireApproval: boolean("swaps_require_approval").notNull().default(false),
+  officeLatitude: doublePrecision("office_latitude"),
+  officeLongitude: doublePrecision("office_longitude"),
+  geofenceRadiusMeters: integer("geofence_radius_meters").notNull().default(150),
+  geofenceMode: geofenceModeEnum("geofence_mode").notNull().default("off"),
+  lateGraceMinutes: integer("late_grace_minutes").notNull().default(15),
+  monthlyQuota: integer("monthly_quota"), // shifts each member should serve per month
+  archivedAt: timestamp("archived_at"), // read-only from then on; its reports and documents stay available
+  archivedByUserId: varchar("archived_by_user_id"),
+  previousCommitteeId: varchar("previous_committee_id"), // the committee this one was rolled over from
+  parentCommitteeId: varchar("parent_committee_id"), // the committee that supervises this one, e.g. the general council
+  cascadePermissions: boolean("cascade_permissions").notNull().default(false), // the parent's admins and leaders act here too
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -41,6 +62,7 @@ export const roles = pgTable("roles", {
   displayName: text("display_name").notNull(),
   description: text("description"),
   sortOrder: integer("sort_order").notNull().default(0),
+  monthlyQuota: integer("monthly_quota"), // overrides the committee quota for members with this role
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -50,6 +72,9 @@ export const committeeRelations = relations(committees, ({ many }) => ({
   attendanceSlots: many(attendanceSlots),
 }));
 
+// Joining a restricted committee creates a pending membership that an admin approves or rejects
+export const membershipStatusEnum = pgEnum("membership_status", ["active", "pending", "rejected"]);
+
 export const committeeMembers = pgTable("committee_members", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
@@ -58,7 +83,15 @@ export const committeeMembers = pgTable("committee_members", {
   leadershipRole: leadershipRoleEnum("leadership_role").notNull().default("none"),
   roleId: varchar("role_id").references(() => roles.id, { onDelete: "set null" }),
   isActive: boolean("is_active").notNull().default(true),
-  joinedAt: timestamp("joined_at").defaultNow(),
+  membershipStatus: membershipStatusEnum("membership_status").notNull().default("active"),
+  joinedAt: timestamp("joined_at").defaultNow(), // when the request was made, then when it was approved
+  reviewedByUserId: varchar("reviewed_by_user_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  // Kept after a reactivation as a record of the last offboarding
+  offboardedAt: timestamp("offboarded_at"),
+  offboardedByUserId: varchar("offboarded_by_user_id"),
+  offboardReason: text("offboard_reason"),
 });
 
 export const committeeMemberRelations = relations(committeeMembers, ({ one }) => ({
@@ -72,7 +105,7 @@ export const attendanceSlots = pgTable("attendance_slots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
   date: date("date").notNull(),
-  shift: shiftEnum("shift").notNull(),
+  shift: text("shift").notNull(), // shift definition key, e.g. "morning"
   maxCapacity: integer("max_capacity").notNull().default(2),
   isBlocked: boolean("is_blocked").notNull().default(false),
   notes: text("notes"),
@@ -87,13 +120,24 @@ export const attendanceSlotRelations = relations(attendanceSlots, ({ one, many }
   attendances: many(attendances),
 }));
 
+export const attendanceStatusEnum = pgEnum("attendance_status", ATTENDANCE_STATUSES);
+
 export const attendances = pgTable("attendances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   slotId: varchar("slot_id").notNull().references(() => attendanceSlots.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull(),
-  status: text("status").notNull().default("confirmed"),
+  status: attendanceStatusEnum("status").notNull().default("scheduled"),
   registeredAt: timestamp("registered_at").defaultNow(),
   cancelledAt: timestamp("cancelled_at"),
+  excusedAt: timestamp("excused_at"),
+  excusedBy: varchar("excused_by"),
+  excuseNote: text("excuse_note"),
+  checkedInAt: timestamp("checked_in_at"),
+  checkInLatitude: doublePrecision("check_in_latitude"),
+  checkInLongitude: doublePrecision("check_in_longitude"),
+  checkInAccuracy: doublePrecision("check_in_accuracy"),
+  checkInDistanceMeters: integer("check_in_distance_meters"),
+  checkInVerification: checkInVerificationEnum("check_in_verification"),
 });
 
 export const attendanceRelations = relations(attendances, ({ one }) => ({
@@ -103,6 +147,135 @@ export const attendanceRelations = relations(attendances, ({ one }) => ({
   }),
 }));
 
+// Attendance Audit Logs - every change an admin makes to a member's attendance, with the reason
+export const attendanceAuditLogs = pgTable("attendance_audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attendanceId: varchar("attendance_id").notNull().references(() => attendances.id, { onDelete: "cascade" }),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  memberUserId: varchar("member_user_id").notNull(),
+  actorUserId: varchar("actor_user_id").notNull(),
+  action: text("action").notNull(), // created, updated, removed
+  previousStatus: text("previous_status"),
+  newStatus: text("new_status").notNull(),
+  justification: text("justification").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const attendanceAuditLogRelations = relations(attendanceAuditLogs, ({ one }) => ({
+  attendance: one(attendances, {
+    fields: [attendanceAuditLogs.attendanceId],
+    references: [attendances.id],
+  }),
+}));
+
+// Shift Swaps - a member offers a confirmed attendance and a colleague takes it over
+export const shiftSwapStatusEnum = pgEnum("shift_swap_status", ["open", "pending_approval", "completed", "rejected", "cancelled"]);
+
+export const shiftSwaps = pgTable("shift_swaps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attendanceId: varchar("attendance_id").notNull().references(() => attendances.id, { onDelete: "cascade" }),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  offeredByUserId: varchar("offered_by_user_id").notNull(),
+  acceptedByUserId: varchar("accepted_by_user_id"),
+  status: shiftSwapStatusEnum("status").notNull().default("open"),
+  requiresApproval: boolean("requires_approval").notNull().default(false),
+  note: text("note"),
+  reviewedByUserId: varchar("reviewed_by_user_id"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Shift Swap Events - audit trail of every step taken on a swap
+export const shiftSwapEvents = pgTable("shift_swap_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  swapId: varchar("swap_id").notNull().references(() => shiftSwaps.id, { onDelete: "cascade" }),
+  actorUserId: varchar("actor_user_id").notNull(),
+  action: text("action").notNull(), // offered, accepted, approved, rejected, cancelled, completed
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const shiftSwapRelations = relations(shiftSwaps, ({ one, many }) => ({
+  attendance: one(attendances, {
+    fields: [shiftSwaps.attendanceId],
+    references: [attendances.id],
+  }),
+  events: many(shiftSwapEvents),
+}));
+
+export const shiftSwapEventRelations = relations(shiftSwapEvents, ({ one }) => ({
+  swap: one(shiftSwaps, {
+    fields: [shiftSwapEvents.swapId],
+    references: [shiftSwaps.id],
+  }),
+}));
+
+// Shift Definitions - per-committee shifts (evening, weekend sessions, etc.).
+// Committees without definitions use the morning/afternoon times stored on the committee.
+export const shiftDefinitions = pgTable("shift_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  key: text("key").notNull(), // stored in attendance_slots.shift, unique per committee
+  name: text("name").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  maxCapacity: integer("max_capacity").notNull().default(2),
+  days: text("days").array().notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const shiftDefinitionRelations = relations(shiftDefinitions, ({ one }) => ({
+  committee: one(committees, {
+    fields: [shiftDefinitions.committeeId],
+    references: [committees.id],
+  }),
+}));
+
+// Slot Templates - recurring rules used to bulk-generate attendance slots for a period
+export const slotTemplates = pgTable("slot_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  workingDays: text("working_days").array().notNull(),
+  shifts: text("shifts").array().notNull().default(sql`ARRAY['morning','afternoon']`),
+  maxCapacity: integer("max_capacity").notNull().default(2),
+  excludedDates: text("excluded_dates").array().notNull().default(sql`ARRAY[]::text[]`), // yyyy-MM-dd holidays skipped on generation
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const slotTemplateRelations = relations(slotTemplates, ({ one }) => ({
+  committee: one(committees, {
+    fields: [slotTemplates.committeeId],
+    references: [committees.id],
+  }),
+}));
+
+// Closures - holidays and days off on which no attendance can be registered.
+// A null committeeId makes the closure apply to every committee.
+export const closureTypeEnum = pgEnum("closure_type", ["national_holiday", "electoral", "committee_day_off"]);
+
+export const closures = pgTable("closures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  committeeId: varchar("committee_id").references(() => committees.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  type: closureTypeEnum("type").notNull().default("national_holiday"),
+  name: text("name").notNull(),
+  createdByUserId: varchar("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const closureRelations = relations(closures, ({ one }) => ({
+  committee: one(committees, {
+    fields: [closures.committeeId],
+    references: [committees.id],
+  }),
+}));
+
 export const activityTypeEnum = pgEnum("activity_type", ["meeting", "visit", "report", "training", "event", "session", "other"]);
 
 export const memberActivities = pgTable("member_activities", {
@@ -218,6 +391,7 @@ export const counselorTeamMemberRelations = relations(counselorTeamMembers, ({ o
 
 // Team Invitations - for inviting unregistered users to join a team
 export const inviteStatusEnum = pgEnum("invite_status", ["pending", "accepted", "cancelled", "expired"]);
+export const inviteDeliveryStatusEnum = pgEnum("invite_delivery_status", ["pending", "sent", "failed"]);
 
 export const teamInvites = pgTable("team_invites", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -229,6 +403,11 @@ export const teamInvites = pgTable("team_invites", {
   role: teamRoleEnum("role").notNull().default("auxiliary"),
   expiresAt: timestamp("expires_at").notNull(),
   acceptedAt: timestamp("accepted_at"),
+  deliveryStatus: inviteDeliveryStatusEnum("delivery_status").notNull().default("pending"),
+  lastSentAt: timestamp("last_sent_at"),
+  sendCount: integer("send_count").notNull().default(0),
+  lastError: text("last_error"),
+  reminderSentAt: timestamp("reminder_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -270,6 +449,72 @@ export const scheduledNotifications = pgTable("scheduled_notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Report Subscriptions - committee admins receiving periodic attendance digests by email
+export const reportFrequencyEnum = pgEnum("report_frequency", ["weekly", "monthly"]);
+export const reportAttachmentFormatEnum = pgEnum("report_attachment_format", ["xlsx", "csv"]);
+
+export const reportSubscriptions = pgTable("report_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  frequency: reportFrequencyEnum("frequency").notNull().default("weekly"),
+  attachmentFormat: reportAttachmentFormatEnum("attachment_format").notNull().default("xlsx"),
+  isActive: boolean("is_active").notNull().default(true),
+  lastPeriodEnd: date("last_period_end"), // end of the last period delivered, so digests are sent once
+  lastSentAt: timestamp("last_sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Global settings edited by the super admin; a single row with id "global"
+export const systemSettings = pgTable("system_settings", {
+  id: varchar("id").primaryKey().default("global"),
+  requireTwoFactorForAdmins: boolean("require_two_factor_for_admins").notNull().default(false),
+  updatedByUserId: varchar("updated_by_user_id"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const permissionSubjectTypeEnum = pgEnum("permission_subject_type", PERMISSION_SUBJECT_TYPES);
+
+// Changes to the default capability grants (see shared/permissions.ts) made from the admin
+// page. A missing row means the default applies.
+export const rolePermissions = pgTable("role_permissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectType: permissionSubjectTypeEnum("subject_type").notNull(),
+  subjectKey: text("subject_key").notNull(), // "admin"/"member", a leadership role, a roles.id or "owner"/"auxiliary"
+  capability: text("capability").notNull(),
+  granted: boolean("granted").notNull(),
+  updatedByUserId: varchar("updated_by_user_id"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_role_permissions_subject_capability").on(table.subjectType, table.subjectKey, table.capability),
+]);
+
+// Audit Events - one row per successful change made through the API, written by the
+// auditMutations middleware. committeeId has no foreign key so the history of a deleted
+// committee is kept.
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorUserId: varchar("actor_user_id").notNull(),
+  committeeId: varchar("committee_id"),
+  entityType: text("entity_type").notNull(), // first segment of the route, e.g. "committee-members"
+  entityId: varchar("entity_id"),
+  action: text("action").notNull(), // create, update, delete, or the route's verb (approve, offboard...)
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_audit_events_created").on(table.createdAt),
+  index("IDX_audit_events_committee").on(table.committeeId, table.createdAt),
+  index("IDX_audit_events_actor").on(table.actorUserId, table.createdAt),
+]);
+
+// Changed fields with their value before and after the request; null on the side where the
+// record did not exist (creations and deletions)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
 // Documents - files and documents uploaded by team members
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -309,20 +554,70 @@ export const insertScheduledNotificationSchema = createInsertSchema(scheduledNot
   createdAt: true,
 });
 
+export const insertReportSubscriptionSchema = createInsertSchema(reportSubscriptions).omit({
+  id: true,
+  lastPeriodEnd: true,
+  lastSentAt: true,
+  createdAt: true,
+});
+
+export const updateReportSubscriptionSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+  attachmentFormat: z.enum(["xlsx", "csv"]),
+  isActive: z.boolean().default(true),
+});
+
+export const updateSystemSettingsSchema = z.object({
+  requireTwoFactorForAdmins: z.boolean(),
+}).partial();
+
+export const updateRolePermissionSchema = z.object({
+  subjectType: z.enum(PERMISSION_SUBJECT_TYPES),
+  subjectKey: z.string().min(1),
+  capability: z.enum(CAPABILITIES),
+  granted: z.boolean(),
+});
+
 export const insertTeamInviteSchema = createInsertSchema(teamInvites).omit({
   id: true,
   createdAt: true,
   acceptedAt: true,
+  deliveryStatus: true,
+  lastSentAt: true,
+  sendCount: true,
+  lastError: true,
+  reminderSentAt: true,
 });
 
 export const insertCommitteeSchema = createInsertSchema(committees).omit({
   id: true,
   createdAt: true,
+  archivedAt: true,
+  archivedByUserId: true,
+  previousCommitteeId: true,
+  parentCommitteeId: true,
+  cascadePermissions: true,
+});
+
+// Year-end rollover: a new committee for the next cycle with the settings, shifts and
+// slot templates of the current one, optionally its members (with their roles) and teams
+export const rolloverCommitteeSchema = z.object({
+  name: z.string().trim().min(3, "El nombre debe tener al menos 3 caracteres"),
+  code: z.string().trim().min(2, "El código debe tener al menos 2 caracteres").max(20, "El código debe tener máximo 20 caracteres"),
+  description: z.string().trim().optional(),
+  copyMembers: z.boolean().default(true),
+  copyTeams: z.boolean().default(true),
+  archiveSource: z.boolean().default(true),
+}).refine((data) => data.copyMembers || !data.copyTeams, {
+  message: "Para copiar los equipos también hay que copiar a los miembros",
+  path: ["copyTeams"],
 });
 
 export const insertRoleSchema = createInsertSchema(roles).omit({
   id: true,
   createdAt: true,
+}).extend({
+  monthlyQuota: z.number().int().min(0).max(100).nullable().optional(),
 });
 
 export const insertCommitteeMemberSchema = createInsertSchema(committeeMembers).omit({
@@ -330,15 +625,124 @@ export const insertCommitteeMemberSchema = createInsertSchema(committeeMembers).
   joinedAt: true,
 });
 
+export const rejectMembershipRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Indica el motivo del rechazo").max(500),
+});
+
+export const offboardMemberSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  // Receives the member's counselor teams and documents in the committee
+  reassignToUserId: z.string().optional(),
+});
+
 export const insertAttendanceSlotSchema = createInsertSchema(attendanceSlots).omit({
   id: true,
   createdAt: true,
 });
 
+const shiftTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const shiftDefinitionFieldsSchema = createInsertSchema(shiftDefinitions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  key: z.string().regex(/^[a-z0-9_]+$/, "Key must use lowercase letters, numbers and underscores"),
+  startTime: shiftTimeSchema,
+  endTime: shiftTimeSchema,
+  maxCapacity: z.number().int().min(1),
+  days: z.array(z.string()).min(1),
+});
+
+// Shifts can't cross midnight: the check-in window, no-show detection and hours served
+// all compare times within a single day
+export const insertShiftDefinitionSchema = shiftDefinitionFieldsSchema.refine((data) => data.startTime < data.endTime, {
+  message: "La hora de inicio debe ser anterior a la de fin",
+  path: ["endTime"],
+});
+
+// Only the fields that change; the route checks the resulting hours against the stored ones
+export const updateShiftDefinitionSchema = shiftDefinitionFieldsSchema.partial();
+
+export const insertSlotTemplateSchema = createInsertSchema(slotTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  shifts: z.array(z.string().min(1)).min(1),
+  workingDays: z.array(z.string()).min(1),
+  excludedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+});
+
+export const insertClosureSchema = createInsertSchema(closures).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in yyyy-MM-dd format"),
+});
+
+export const insertShiftSwapSchema = createInsertSchema(shiftSwaps).omit({
+  id: true,
+  createdAt: true,
+  acceptedAt: true,
+  resolvedAt: true,
+});
+
+export const insertShiftSwapEventSchema = createInsertSchema(shiftSwapEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAttendanceSchema = createInsertSchema(attendances).omit({
   id: true,
   registeredAt: true,
   cancelledAt: true,
+  excusedAt: true,
+  excusedBy: true,
+  excuseNote: true,
+}).extend({
+  status: z.enum(ATTENDANCE_STATUSES).optional(),
+});
+
+export const insertAttendanceAuditLogSchema = createInsertSchema(attendanceAuditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+const justificationSchema = z.string().trim().min(1, "La justificación es obligatoria").max(500);
+
+export const manualAttendanceSchema = z.object({
+  userId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  shift: z.string().min(1),
+  status: z.enum(MANUAL_ATTENDANCE_STATUSES),
+  justification: justificationSchema,
+});
+
+export const updateManualAttendanceSchema = manualAttendanceSchema.pick({ status: true, justification: true });
+
+export const removeManualAttendanceSchema = manualAttendanceSchema.pick({ justification: true });
+
+export const excuseAttendanceSchema = z.object({
+  note: justificationSchema,
+});
+
+export const checkInLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+});
+
+export const updateCommitteeGeofenceSchema = z.object({
+  officeLatitude: z.number().min(-90).max(90).nullable(),
+  officeLongitude: z.number().min(-180).max(180).nullable(),
+  geofenceRadiusMeters: z.number().int().min(10).max(5000),
+  geofenceMode: z.enum(["off", "flag", "enforce"]),
+}).refine(
+  (data) => data.geofenceMode === "off" || (data.officeLatitude !== null && data.officeLongitude !== null),
+  { message: "Se requiere la ubicación de la oficina para activar la geocerca", path: ["officeLatitude"] }
+);
+
+export const updateCommitteeQuotaSchema = z.object({
+  monthlyQuota: z.number().int().min(0).max(100).nullable(),
 });
 
 export const insertMemberActivitySchema = createInsertSchema(memberActivities).omit({
@@ -382,12 +786,32 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
 
 export type Committee = typeof committees.$inferSelect;
 export type InsertCommittee = z.infer<typeof insertCommitteeSchema>;
+export type RolloverCommittee = z.infer<typeof rolloverCommitteeSchema>;
 export type CommitteeMember = typeof committeeMembers.$inferSelect;
 export type InsertCommitteeMember = z.infer<typeof insertCommitteeMemberSchema>;
+export type MembershipStatus = (typeof membershipStatusEnum.enumValues)[number];
+export type RejectMembershipRequest = z.infer<typeof rejectMembershipRequestSchema>;
+export type OffboardMember = z.infer<typeof offboardMemberSchema>;
 export type AttendanceSlot = typeof attendanceSlots.$inferSelect;
 export type InsertAttendanceSlot = z.infer<typeof insertAttendanceSlotSchema>;
+export type ShiftDefinition = typeof shiftDefinitions.$inferSelect;
+export type InsertShiftDefinition = z.infer<typeof insertShiftDefinitionSchema>;
+export type SlotTemplate = typeof slotTemplates.$inferSelect;
+export type InsertSlotTemplate = z.infer<typeof insertSlotTemplateSchema>;
+export type Closure = typeof closures.$inferSelect;
+export type InsertClosure = z.infer<typeof insertClosureSchema>;
+export type ShiftSwap = typeof shiftSwaps.$inferSelect;
+export type InsertShiftSwap = z.infer<typeof insertShiftSwapSchema>;
+export type ShiftSwapEvent = typeof shiftSwapEvents.$inferSelect;
+export type InsertShiftSwapEvent = z.infer<typeof insertShiftSwapEventSchema>;
 export type Attendance = typeof attendances.$inferSelect;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
+export type CheckInLocation = z.infer<typeof checkInLocationSchema>;
+export type UpdateCommitteeGeofence = z.infer<typeof updateCommitteeGeofenceSchema>;
+export type UpdateCommitteeQuota = z.infer<typeof updateCommitteeQuotaSchema>;
+export type AttendanceAuditLog = typeof attendanceAuditLogs.$inferSelect;
+export type InsertAttendanceAuditLog = z.infer<typeof insertAttendanceAuditLogSchema>;
+export type ManualAttendance = z.infer<typeof manualAttendanceSchema>;
 export type MemberActivity = typeof memberActivities.$inferSelect;
 export type InsertMemberActivity = z.infer<typeof insertMemberActivitySchema>;
 export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
@@ -408,5 +832,13 @@ export type PushSubscription = typeof pushSubscriptions.$inferSelect;
 export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
 export type ScheduledNotification = typeof scheduledNotifications.$inferSelect;
 export type InsertScheduledNotification = z.infer<typeof insertScheduledNotificationSchema>;
+export type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+export type InsertReportSubscription = z.infer<typeof insertReportSubscriptionSchema>;
+export type UpdateReportSubscription = z.infer<typeof updateReportSubscriptionSchema>;
+export type SystemSettings = typeof systemSettings.$inferSelect;
+export type UpdateSystemSettings = z.infer<typeof updateSystemSettingsSchema>;
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type UpdateRolePermission = z.infer<typeof updateRolePermissionSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
@@ -0,0 +1,102 @@
+import type { Committee, ShiftDefinition } from "./schema";
+
+export const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// A shift as seen by the rest of the app, whether it comes from a shift definition
+// or from the legacy morning/afternoon columns on the committee
+export interface CommitteeShift {
+  key: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  maxCapacity: number;
+  days: string[];
+}
+
+const legacyShiftNames: Record<string, string> = {
+  morning: "Mañana",
+  afternoon: "Tarde",
+  full_day: "Día completo",
+};
+
+export function getDefaultShifts(committee: Committee): CommitteeShift[] {
+  return [
+    {
+      key: "morning",
+      name: legacyShiftNames.morning,
+      startTime: committee.morningStart,
+      endTime: committee.morningEnd,
+      maxCapacity: committee.maxPerShift,
+      days: committee.workingDays,
+    },
+    {
+      key: "afternoon",
+      name: legacyShiftNames.afternoon,
+      startTime: committee.afternoonStart,
+      endTime: committee.afternoonEnd,
+      maxCapacity: committee.maxPerShift,
+      days: committee.workingDays,
+    },
+  ];
+}
+
+export function resolveCommitteeShifts(committee: Committee, definitions: ShiftDefinition[]): CommitteeShift[] {
+  const active = definitions
+    .filter((d) => d.isActive)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.startTime.localeCompare(b.startTime));
+  if (active.length === 0) {
+    return getDefaultShifts(committee);
+  }
+  return active.map((d) => ({
+    key: d.key,
+    name: d.name,
+    startTime: d.startTime,
+    endTime: d.endTime,
+    maxCapacity: d.maxCapacity,
+    days: d.days,
+  }));
+}
+
+// Falls back to the committee columns for slots created before the committee
+// switched to custom definitions (including the old "full_day" key)
+export function findCommitteeShift(committee: Committee, shifts: CommitteeShift[], key: string): CommitteeShift | undefined {
+  const shift = shifts.find((s) => s.key === key);
+  if (shift) return shift;
+  if (key === "full_day") {
+    return {
+      key,
+      name: legacyShiftNames.full_day,
+      startTime: committee.morningStart,
+      endTime: committee.afternoonEnd,
+      maxCapacity: committee.maxPerShift,
+      days: committee.workingDays,
+    };
+  }
+  return getDefaultShifts(committee).find((s) => s.key === key);
+}
+
+export function getShiftName(shifts: CommitteeShift[] | undefined, key: string): string {
+  return shifts?.find((s) => s.key === key)?.name ?? legacyShiftNames[key] ?? key;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isWithinShift(shift: CommitteeShift, now: Date): boolean {
+  const current = now.getHours() * 60 + now.getMinutes();
+  return current >= timeToMinutes(shift.startTime) && current <= timeToMinutes(shift.endTime);
+}
+
+export function shiftRunsOn(shift: CommitteeShift, date: Date): boolean {
+  return shift.days.includes(DAY_NAMES[date.getDay()]);
+}
+
+export function compareShiftKeys(shifts: CommitteeShift[], a: string, b: string): number {
+  const indexOf = (key: string) => {
+    const index = shifts.findIndex((s) => s.key === key);
+    return index === -1 ? shifts.length : index;
+  };
+  return indexOf(a) - indexOf(b);
+}